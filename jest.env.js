@@ -16,6 +16,7 @@ process.env.RATE_LIMIT_WINDOW = '900000'
 process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co'
 process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'test-anon-key'
 process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key'
+process.env.SUPABASE_SERVICE_KEY = 'test-service-role-key'
 
 // Disable logging during tests
 process.env.LOG_LEVEL = 'error'
\ No newline at end of file
@@ -1,4 +1,4 @@
-const CACHE_NAME = 'nelsongpt-v3';
+const CACHE_NAME = 'nelsongpt-v4';
 const urlsToCache = [
   '/',
   '/manifest.json',
@@ -13,6 +13,7 @@ const urlsToCache = [
   '/icon-512x512.png',
   '/splash-screen.png',
   '/clinical',
+  '/clinical/resuscitation',
   // Add core app assets
   '/_next/static/css/app/layout.css',
   '/_next/static/chunks/webpack.js',
@@ -87,8 +88,10 @@ self.addEventListener('fetch', event => {
           }
         ).catch(() => {
           // If fetch fails, return offline page for HTML requests
+          // (the cached page itself when only the query string differs, e.g. /clinical/resuscitation?weight=12)
           if (event.request.headers.get('accept').includes('text/html')) {
-            return caches.match('/');
+            return caches.match(event.request, { ignoreSearch: true })
+              .then(page => page || caches.match('/'));
           }
           
           // For other failed requests, return a basic offline response
@@ -0,0 +1,140 @@
+// Offline retrieval evaluation: compares two search configurations on a golden set.
+// Usage: npm run eval:retrieval -- [fixture.json] [--k 5] [--provider hashing|local]
+//   [--baseline config.json] [--candidate config.json]
+//   [--baseline-strategy hybrid] [--baseline-threshold 0.3] [--baseline-weights similarity=0.6,evidence=0.1]
+//   [--baseline-name label] (each --baseline-* flag also exists as --candidate-*)
+// A config file holds {"name": "...", "searchOptions": {...}} with vector search options; flags override the file.
+// Without a file the baseline is vector search and the candidate hybrid search, both with threshold 0.01.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createEmbeddingProvider, EmbeddingProviderName } from '../src/lib/embeddings';
+import { EvaluationConfig, retrievalEvaluationService } from '../src/lib/retrieval-evaluation';
+import { DEFAULT_RERANK_WEIGHTS } from '../src/lib/vector-database';
+import type { RerankWeights, SearchStrategy, VectorSearchOptions } from '../src/lib/vector-database';
+
+type Side = 'baseline' | 'candidate';
+
+interface SearchConfig {
+  name: string;
+  searchOptions: VectorSearchOptions;
+}
+
+const DEFAULT_CONFIGS: Record<Side, SearchConfig> = {
+  baseline: { name: 'vector', searchOptions: { searchStrategy: 'general_medical', threshold: 0.01 } },
+  candidate: { name: 'hybrid', searchOptions: { searchStrategy: 'hybrid', threshold: 0.01 } },
+};
+
+const STRATEGIES: SearchStrategy[] = ['emergency_prioritized', 'diagnostic_focused', 'treatment_focused', 'general_medical', 'hybrid'];
+
+function parseArgs(args: string[]): { positional: string[]; flags: Map<string, string> } {
+  const positional: string[] = [];
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      positional.push(args[i]);
+      continue;
+    }
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value for ${args[i]}`);
+    }
+    flags.set(args[i].slice(2), value);
+    i++;
+  }
+  return { positional, flags };
+}
+
+// "similarity=0.6,evidence=0.1": weights that are not named keep their default
+function parseWeights(flag: string, value: string): Partial<RerankWeights> {
+  const weights: Partial<RerankWeights> = {};
+  for (const pair of value.split(',')) {
+    const [key, raw] = pair.split('=').map(part => part.trim());
+    const weight = Number(raw);
+    if (!(key in DEFAULT_RERANK_WEIGHTS) || raw === undefined || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`--${flag} expects non-negative ${Object.keys(DEFAULT_RERANK_WEIGHTS).join('/')} weights, e.g. similarity=0.6,evidence=0.1`);
+    }
+    weights[key as keyof RerankWeights] = weight;
+  }
+  return weights;
+}
+
+async function loadSearchConfig(side: Side, flags: Map<string, string>): Promise<SearchConfig> {
+  const file = flags.get(side);
+  const base = file
+    ? { name: path.basename(file, '.json'), ...JSON.parse(await fs.readFile(file, 'utf8')) as Partial<SearchConfig> }
+    : DEFAULT_CONFIGS[side];
+  const searchOptions: VectorSearchOptions = { ...base.searchOptions };
+
+  const strategy = flags.get(`${side}-strategy`);
+  if (strategy !== undefined) {
+    if (!STRATEGIES.includes(strategy as SearchStrategy)) {
+      throw new Error(`--${side}-strategy must be one of ${STRATEGIES.join(', ')}`);
+    }
+    searchOptions.searchStrategy = strategy as SearchStrategy;
+  }
+
+  const threshold = flags.get(`${side}-threshold`);
+  if (threshold !== undefined) {
+    const value = Number(threshold);
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      throw new Error(`--${side}-threshold must be between 0 and 1`);
+    }
+    searchOptions.threshold = value;
+  }
+
+  // Weights only apply when re-ranking, so setting them turns it on
+  const weights = flags.get(`${side}-weights`);
+  if (weights !== undefined) {
+    searchOptions.rerank = true;
+    searchOptions.rerankWeights = { ...searchOptions.rerankWeights, ...parseWeights(`${side}-weights`, weights) };
+  }
+
+  return { name: flags.get(`${side}-name`) || base.name || side, searchOptions };
+}
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  const fixturePath = positional[0] || path.join(__dirname, '../src/data/pediatric-golden-set.json');
+  const k = Number(flags.get('k') || 5);
+  const provider = createEmbeddingProvider((flags.get('provider') || 'hashing') as EmbeddingProviderName);
+
+  const searchConfigs = [await loadSearchConfig('baseline', flags), await loadSearchConfig('candidate', flags)];
+  const fixture = await retrievalEvaluationService.loadFixture(fixturePath);
+  const database = await retrievalEvaluationService.buildFixtureDatabase(fixture, provider);
+
+  const configs: EvaluationConfig[] = searchConfigs.map(({ name, searchOptions }) => ({
+    name,
+    k,
+    target: { kind: 'vector', database, searchOptions },
+  }));
+
+  const [baseline, candidate] = await Promise.all(configs.map(config => retrievalEvaluationService.evaluate(fixture, config)));
+  const comparison = retrievalEvaluationService.compare(baseline, candidate);
+
+  console.log(`Golden set: ${fixture.name} (${fixture.queries.length} queries, k=${k}, embeddings=${provider.name})`);
+  searchConfigs.forEach(({ name, searchOptions }) => console.log(`  ${name}: ${JSON.stringify(searchOptions)}`));
+  console.table([baseline, candidate].map(report => ({
+    config: report.config,
+    [`recall@${k}`]: report.summary.recallAtK.toFixed(3),
+    MRR: report.summary.reciprocalRank.toFixed(3),
+    [`nDCG@${k}`]: report.summary.ndcgAtK.toFixed(3),
+    failures: report.summary.failures,
+  })));
+
+  console.log(`${comparison.candidate} vs ${comparison.baseline}: ${comparison.improved} improved, ${comparison.regressed} regressed, ${comparison.unchanged} unchanged`);
+  console.table(comparison.queries
+    .filter(q => q.status !== 'unchanged')
+    .map(q => ({
+      id: q.id,
+      status: q.status,
+      'ΔnDCG': q.delta.ndcgAtK.toFixed(3),
+      'ΔRR': q.delta.reciprocalRank.toFixed(3),
+      gained: q.gained.join(', '),
+      lost: q.lost.join(', '),
+    })));
+}
+
+main().catch(error => {
+  console.error('Retrieval evaluation failed:', error);
+  process.exit(1);
+});
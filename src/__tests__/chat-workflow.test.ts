@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { describe, test, expect, beforeAll } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { readChatEventStream, ChatStreamEvent } from '@/lib/sse'
+import { stripCitationMarkers } from '@/lib/citations'
+import type { EvaluationFixture } from '@/lib/retrieval-evaluation'
+
+// The service singletons read these when their modules load, so the modules are imported after
+process.env.LLM_MODE = 'local'
+process.env.VECTOR_STORE_BACKEND = 'memory'
+process.env.EMBEDDING_PROVIDER = 'hashing'
+process.env.RAG_SIMILARITY_THRESHOLD = '0.05'
+
+const fixturePath = path.join(__dirname, '../data/pediatric-golden-set.json')
+const query = 'What is the dexamethasone dose for croup?'
+
+let workflow: typeof import('@/lib/langgraph-workflow').langGraphWorkflow
+let chatRoute: typeof import('@/app/api/rag/chat/route')
+
+function chatRequest(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/rag/chat', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': '10.0.0.1', ...headers },
+  })
+}
+
+beforeAll(async () => {
+  const { vectorDatabaseService } = await import('@/lib/vector-database')
+  const fixture = JSON.parse(await fs.readFile(fixturePath, 'utf8')) as EvaluationFixture
+  await vectorDatabaseService.upsertDocuments(fixture.documents)
+  await vectorDatabaseService.batchStoreEmbeddings(
+    fixture.documents.map(doc => ({ id: doc.id, content: doc.content, metadata: { chunk_index: 0 } }))
+  )
+
+  workflow = (await import('@/lib/langgraph-workflow')).langGraphWorkflow
+  chatRoute = await import('@/app/api/rag/chat/route')
+})
+
+describe('Chat Workflow (offline)', () => {
+  test('runs every workflow node in order and produces a final answer', async () => {
+    const completed: string[] = []
+
+    const state = await workflow.execute(query, undefined, undefined, {
+      onNodeComplete: node => completed.push(node.id),
+    })
+
+    expect(state.error).toBeUndefined()
+    expect(completed).toEqual([
+      'security_validation',
+      'medical_analysis',
+      'document_retrieval',
+      'primary_response',
+      'enhanced_response',
+      'clinical_validation',
+      'quality_finalization',
+    ])
+    expect(state.relevantDocuments?.[0].id).toBe('croup-treatment')
+    expect(state.context).toContain('A single dose of oral dexamethasone')
+    expect(state.finalAnswer).toContain('oral dexamethasone')
+    expect(state.sources?.some(source => source.startsWith('Croup'))).toBe(true)
+  })
+
+  test('answers through the chat route with sources and the local provider', async () => {
+    const response = await chatRoute.POST(chatRequest({ query }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.response).toContain('A single dose of oral dexamethasone reduces symptoms')
+    expect(data.sources.some((source: string) => source.startsWith('Croup'))).toBe(true)
+    expect(data.metadata).toMatchObject({ streamed: false, llm: { provider: 'local' } })
+    expect(data.workflowSteps).toMatchObject({ documentRetrieval: true, responseGeneration: true })
+  })
+  test('streams stages, sources, token deltas and a final done event over SSE', async () => {
+    const response = await chatRoute.POST(chatRequest({ query, stream: true }))
+    expect(response.headers.get('content-type')).toContain('text/event-stream')
+
+    const events: ChatStreamEvent[] = []
+    for await (const event of readChatEventStream(response.body!)) {
+      events.push(event)
+    }
+    const indexOf = (predicate: (event: ChatStreamEvent) => boolean) => events.findIndex(predicate)
+    const tokens = events.filter((event): event is Extract<ChatStreamEvent, { type: 'token' }> => event.type === 'token')
+    const done = events[events.length - 1]
+
+    expect(events.some(event => event.type === 'error')).toBe(false)
+    expect(events[0]).toEqual({ type: 'stage', stage: 'analysis', status: 'started' })
+    expect(events.flatMap(event => (event.type === 'stage' && event.step ? [event.step] : []))).toEqual([
+      'security_validation',
+      'medical_analysis',
+      'document_retrieval',
+      'primary_response',
+      'enhanced_response',
+      'clinical_validation',
+      'quality_finalization',
+    ])
+
+    const sourcesIndex = indexOf(event => event.type === 'sources')
+    // Workflow nodes also report a generation stage, so match the route's own LLM events which carry no step
+    const generation = (status: string) =>
+      indexOf(event => event.type === 'stage' && event.stage === 'generation' && event.status === status && !event.step)
+    const generationStarted = generation('started')
+    const generationCompleted = generation('completed')
+    const firstToken = indexOf(event => event.type === 'token')
+    const lastToken = events.lastIndexOf(tokens[tokens.length - 1])
+    expect(sourcesIndex).toBeGreaterThan(-1)
+    expect(sourcesIndex).toBeLessThan(firstToken)
+    expect(generationStarted).toBeLessThan(firstToken)
+    expect(lastToken).toBeLessThan(generationCompleted)
+
+    expect(tokens.length).toBeGreaterThan(1)
+    expect(done.type).toBe('done')
+    if (done.type !== 'done') return
+    // The final response is the streamed text annotated with citation markers
+    expect(done.citations.length).toBeGreaterThan(0)
+    expect(stripCitationMarkers(done.response)).toBe(tokens.map(token => token.delta).join(''))
+    expect(done.response).toContain('A single dose of oral dexamethasone reduces symptoms')
+    expect(done.metadata).toMatchObject({ streamed: true, llm: { provider: 'local' } })
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { CitationService, stripCitationMarkers } from '@/lib/citations'
+
+const documents = [
+  {
+    id: 'kawasaki-treatment',
+    content: 'Kawasaki disease is treated with intravenous immunoglobulin (IVIG) 2 g/kg as a single infusion together with aspirin. Treatment within ten days of fever onset reduces the risk of coronary artery aneurysms.',
+    metadata: { chapter: 'Kawasaki Disease', section: 'Treatment', page: 1210, title: 'Kawasaki Disease Management' },
+  },
+  {
+    id: 'aom-treatment',
+    content: 'High-dose amoxicillin (80-90 mg/kg/day) is first-line antibiotic treatment for acute otitis media.',
+    metadata: { chapter: 'Acute Otitis Media', section: 'Treatment' },
+  },
+]
+
+describe('Citation Service', () => {
+  const service = new CitationService()
+
+  test('appends a marker to each supported sentence', () => {
+    const answer = 'Kawasaki disease is treated with IVIG 2 g/kg and aspirin as a single infusion. First-line treatment for acute otitis media is high-dose amoxicillin 90 mg/kg/day.'
+
+    const result = service.annotate(answer, documents)
+
+    expect(result.content).toBe(
+      'Kawasaki disease is treated with IVIG 2 g/kg and aspirin as a single infusion. [1](#cite-1) ' +
+      'First-line treatment for acute otitis media is high-dose amoxicillin 90 mg/kg/day. [2](#cite-2)'
+    )
+    expect(result.citations[0]).toMatchObject({
+      marker: 1,
+      chunkId: 'kawasaki-treatment',
+      chapter: 'Kawasaki Disease',
+      title: 'Kawasaki Disease Management',
+      page: 1210,
+    })
+    expect(result.citations[0].excerpt).toContain('2 g/kg')
+    expect(result.citations[1]).toMatchObject({ marker: 2, chunkId: 'aom-treatment' })
+  })
+
+  test('reuses the number when the same chunk supports several sentences', () => {
+    const answer = [
+      '- Kawasaki disease is treated with IVIG and aspirin as a single infusion.',
+      '- Treatment within ten days of fever onset reduces coronary artery aneurysms.',
+    ].join('\n')
+
+    const result = service.annotate(answer, documents)
+
+    expect(result.citations).toHaveLength(1)
+    expect(result.content.match(/\[1\]\(#cite-1\)/g)).toHaveLength(2)
+    expect(result.citations[0].excerpt).toContain(' … ')
+  })
+
+  test('leaves unsupported sentences, headings and code blocks untouched', () => {
+    const answer = [
+      '## Treatment',
+      'Plasmapheresis is recommended for refractory Kawasaki disease in all infants.',
+      '```',
+      'Kawasaki disease is treated with IVIG and aspirin as a single infusion.',
+      '```',
+    ].join('\n')
+
+    const result = service.annotate(answer, documents)
+
+    expect(result.content).toBe(answer)
+    expect(result.citations).toEqual([])
+  })
+
+  test('re-annotating an answer does not duplicate markers', () => {
+    const answer = 'Kawasaki disease is treated with IVIG and aspirin as a single infusion.'
+    const once = service.annotate(answer, documents)
+
+    expect(service.annotate(once.content, documents).content).toBe(once.content)
+    expect(stripCitationMarkers(once.content)).toBe(answer)
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { CLINICAL_SCORES, ScoreValidationError, calculateScore, getScore, maxScore } from '@/lib/clinical-scores'
+
+const KAWASAKI_NONE = { conjunctivitis: false, oral: false, extremities: false, rash: false, lymphadenopathy: false }
+
+describe('Clinical Scores', () => {
+  test('every points score has bands covering its whole range', () => {
+    for (const score of CLINICAL_SCORES.filter(candidate => candidate.kind === 'points' && !candidate.interpret)) {
+      const bands = [...score.bands!].sort((a, b) => a.min - b.min)
+      expect(bands[bands.length - 1].max).toBe(maxScore(score))
+      bands.slice(1).forEach((band, index) => expect(band.min).toBe(bands[index].max + 1))
+    }
+  })
+
+  test('sums pediatric GCS components and interprets the total', () => {
+    expect(calculateScore('pgcs', { eye: '4', verbal: '5', motor: '6' })).toMatchObject({ total: 15, maxTotal: 15, label: 'Mild' })
+    const severe = calculateScore('pgcs', { eye: '2', verbal: '2', motor: '4' })
+    expect(severe).toMatchObject({ total: 8, severity: 'critical' })
+    expect(severe.components[2]).toMatchObject({ id: 'motor', display: 'Withdraws to pain', points: 4 })
+  })
+
+  test('collects every validation error', () => {
+    try {
+      calculateScore('pgcs', { eye: '7' })
+      throw new Error('expected a validation error')
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScoreValidationError)
+      expect((error as ScoreValidationError).errors).toEqual([
+        'Eye opening must be one of: 4, 3, 2, 1',
+        'Verbal response is required',
+        'Motor response is required',
+      ])
+    }
+    expect(() => calculateScore('pram', { spo2: 120, suprasternal: false, scalene: false, airEntry: '0', wheezing: '0' })).toThrow('between 50 and 100 %')
+    expect(() => calculateScore('mcisaac', { fever: 'yes', noCough: true, adenopathy: true, tonsils: true, age: 8 })).toThrow('must be true or false')
+    expect(() => getScore('sofa')).toThrow('Unknown score: sofa')
+  })
+
+  test('scores APGAR, PEWS and Westley croup', () => {
+    expect(calculateScore('apgar', { appearance: '1', pulse: '2', grimace: '2', activity: '2', respiration: '2' })).toMatchObject({ total: 9, label: 'Reassuring' })
+    expect(calculateScore('pews', { behavior: '1', cardiovascular: '2', respiratory: '1', nebulizers: true, vomiting: false })).toMatchObject({ total: 6, maxTotal: 13, label: 'High' })
+    expect(calculateScore('westley', { consciousness: '0', cyanosis: '0', stridor: '2', airEntry: '1', retractions: '1' })).toMatchObject({ total: 4, maxTotal: 17, label: 'Moderate' })
+  })
+
+  test('scores PRAM with saturation thresholds and numeric strings', () => {
+    const result = calculateScore('pram', { spo2: '93', suprasternal: true, scalene: false, airEntry: '1', wheezing: '2' })
+    expect(result).toMatchObject({ total: 6, maxTotal: 12, label: 'Moderate' })
+    expect(result.components[0]).toMatchObject({ value: 93, display: '93 %', points: 1 })
+  })
+
+  test('applies McIsaac age points and warns under 3 years', () => {
+    const signs = { fever: true, noCough: true, adenopathy: true, tonsils: true }
+    expect(calculateScore('mcisaac', { ...signs, age: 8 })).toMatchObject({ total: 5, label: 'High likelihood', warnings: [] })
+    expect(calculateScore('mcisaac', { fever: true, noCough: true, adenopathy: false, tonsils: false, age: 50 })).toMatchObject({ total: 1, label: 'Low likelihood' })
+    expect(calculateScore('mcisaac', { ...signs, age: 2 }).warnings[0]).toContain('rare under 3 years')
+  })
+
+  test('places bilirubin in an hour-specific Bhutani zone', () => {
+    expect(calculateScore('bhutani', { ageHours: 48, bilirubin: 14 })).toMatchObject({ severity: 'high', label: expect.stringContaining('High risk') })
+    expect(calculateScore('bhutani', { ageHours: 48, bilirubin: 12 }).label).toContain('High-intermediate')
+    // Interpolated between 48 and 60 hours: 40th percentile 9.05 mg/dL
+    expect(calculateScore('bhutani', { ageHours: 54, bilirubin: 9 }).label).toContain('Low risk')
+    expect(calculateScore('bhutani', { ageHours: 54, bilirubin: 10 }).label).toContain('Low-intermediate')
+    expect(calculateScore('bhutani', { ageHours: 54, bilirubin: 10 }).total).toBeUndefined()
+    expect(() => calculateScore('bhutani', { ageHours: 12, bilirubin: 5 })).toThrow(ScoreValidationError)
+  })
+
+  test('applies complete and incomplete Kawasaki criteria', () => {
+    expect(calculateScore('kawasaki', { feverDays: 5, ...KAWASAKI_NONE, conjunctivitis: true, oral: true, rash: true, extremities: true })).toMatchObject({ total: 4, label: 'Complete Kawasaki disease' })
+    expect(calculateScore('kawasaki', { feverDays: 6, ...KAWASAKI_NONE, rash: true, oral: true }).label).toBe('Possible incomplete Kawasaki disease')
+    expect(calculateScore('kawasaki', { feverDays: 7, ageMonths: 4, ...KAWASAKI_NONE }).label).toBe('Possible incomplete Kawasaki disease')
+    expect(calculateScore('kawasaki', { feverDays: 3, ...KAWASAKI_NONE, conjunctivitis: true, oral: true, rash: true, extremities: true, lymphadenopathy: true }).label).toBe('Criteria not met')
+  })
+})
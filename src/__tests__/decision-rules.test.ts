@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals'
+import {
+  DecisionRuleError,
+  aapFebrileInfant2021,
+  evaluateQueryDecisionRules,
+  formatDecisionRules,
+  pecarnFebrileInfant,
+  pecarnHeadTrauma,
+} from '@/lib/decision-rules'
+
+describe('PECARN head trauma', () => {
+  test('under 2 years: palpable skull fracture is high risk', () => {
+    const result = pecarnHeadTrauma({ ageMonths: 10, gcs: 15, palpableSkullFracture: true })
+    expect(result.risk).toBe('high')
+    expect(result.recommendation).toBe('CT recommended')
+    expect(result.name).toContain('under 2 years')
+  })
+
+  test('2 years and over: vomiting alone is intermediate, no predictors is low', () => {
+    expect(pecarnHeadTrauma({ ageMonths: 60, gcs: 15, vomiting: true }).risk).toBe('intermediate')
+    expect(pecarnHeadTrauma({ ageMonths: 60, gcs: 15 }).risk).toBe('low')
+    // Vomiting is not a predictor under 2 years
+    expect(pecarnHeadTrauma({ ageMonths: 12, gcs: 15, vomiting: true }).risk).toBe('low')
+  })
+
+  test('GCS 14 is high risk and GCS below 14 is outside the rule', () => {
+    expect(pecarnHeadTrauma({ ageMonths: 60, gcs: 14 }).risk).toBe('high')
+    const result = pecarnHeadTrauma({ ageMonths: 60, gcs: 12 })
+    expect(result.applicable).toBe(false)
+    expect(result.risk).toBe('not-applicable')
+    expect(() => pecarnHeadTrauma({ ageMonths: 60, gcs: 16 })).toThrow(DecisionRuleError)
+  })
+})
+
+describe('Febrile infant rules', () => {
+  const lowRisk = { ageDays: 40, temperatureC: 38.2, wellAppearing: true, urinalysisPositive: false, anc: 3000, procalcitonin: 0.1, crp: 5 }
+
+  test('PECARN: low risk needs negative UA, ANC ≤4090 and procalcitonin ≤1.71', () => {
+    expect(pecarnFebrileInfant(lowRisk).risk).toBe('low')
+    const result = pecarnFebrileInfant({ ...lowRisk, procalcitonin: 2.5 })
+    expect(result.risk).toBe('high')
+    expect(result.findings).toEqual(['Procalcitonin 2.5 ng/mL (over 1.71)'])
+    expect(pecarnFebrileInfant({ ...lowRisk, procalcitonin: undefined }).applicable).toBe(false)
+  })
+
+  test('AAP 2021 by age group', () => {
+    expect(aapFebrileInfant2021({ ...lowRisk, ageDays: 14 }).risk).toBe('high')
+    expect(aapFebrileInfant2021({ ...lowRisk, ageDays: 25 }).risk).toBe('intermediate')
+    expect(aapFebrileInfant2021(lowRisk).risk).toBe('low')
+    expect(aapFebrileInfant2021({ ...lowRisk, urinalysisPositive: true }).risk).toBe('intermediate')
+    // Procalcitonin 0.8 is abnormal for AAP (over 0.5) but not for PECARN (over 1.71)
+    expect(aapFebrileInfant2021({ ...lowRisk, procalcitonin: 0.8 }).risk).toBe('high')
+    expect(aapFebrileInfant2021({ ...lowRisk, ageDays: 70 }).applicable).toBe(false)
+    expect(aapFebrileInfant2021({ ...lowRisk, wellAppearing: false }).applicable).toBe(false)
+  })
+
+  test('AAP 2021: a urinalysis is needed unless inflammatory markers are abnormal', () => {
+    const result = aapFebrileInfant2021({ ...lowRisk, urinalysisPositive: undefined })
+    expect(result.applicable).toBe(false)
+    expect(result.recommendation).toBe('Obtain a urinalysis to apply the guideline')
+    expect(aapFebrileInfant2021({ ...lowRisk, urinalysisPositive: undefined, ageDays: 25 }).applicable).toBe(false)
+    expect(aapFebrileInfant2021({ ...lowRisk, urinalysisPositive: undefined, procalcitonin: 0.8 }).risk).toBe('high')
+  })
+})
+
+describe('Query matching', () => {
+  test('reads a febrile infant scenario from free text', () => {
+    const results = evaluateQueryDecisionRules('6 week old with fever 38.4 C, negative UA, ANC 3,200, procalcitonin 0.2 ng/mL, CRP 8 mg/L')
+    expect(results.map(result => result.rule)).toEqual(['pecarn-febrile-infant', 'aap-febrile-infant-2021'])
+    expect(results.every(result => result.risk === 'low')).toBe(true)
+    expect(results[0].assumptions).toEqual(['Well-appearing'])
+  })
+
+  test('does not give a low-risk disposition without a urinalysis', () => {
+    const [pecarn, aap] = evaluateQueryDecisionRules('6 week old febrile infant, well appearing, procalcitonin 0.2, crp 5, anc 3000')
+    expect(pecarn.applicable).toBe(false)
+    expect(aap.applicable).toBe(false)
+    expect(aap.recommendation).toBe('Obtain a urinalysis to apply the guideline')
+  })
+
+  test('does not give a low-risk disposition from an assumed temperature', () => {
+    const [pecarn, aap] = evaluateQueryDecisionRules('6 week old with fever, negative UA, ANC 3,200, procalcitonin 0.2 ng/mL, CRP 8 mg/L')
+    expect(pecarn.risk).toBe('low')
+    expect(aap.applicable).toBe(false)
+    expect(aap.recommendation).toContain('State the measured temperature')
+    expect(aap.assumptions).toContain('Temperature taken as 38.0 °C because no value was given')
+
+    const [, highRisk] = evaluateQueryDecisionRules('6 week old with fever, negative UA, procalcitonin 1.2 ng/mL')
+    expect(highRisk.risk).toBe('high')
+  })
+
+  test('converts Fahrenheit and reads ages in days', () => {
+    const [, aap] = evaluateQueryDecisionRules('10 day old infant with temperature of 101.5 F')
+    expect(aap.risk).toBe('high')
+    expect(aap.explanation[0]).toContain('8-21 days')
+  })
+
+  test('reads a head trauma scenario once every predictor is stated', () => {
+    const [result] = evaluateQueryDecisionRules('4 year old hit her head falling off a chair, GCS 15, vomited twice, no loss of consciousness, no altered mental status, no severe mechanism, no signs of basilar skull fracture, no severe headache')
+    expect(result.rule).toBe('pecarn-head-trauma')
+    expect(result.applicable).toBe(true)
+    expect(result.risk).toBe('intermediate')
+    expect(result.findings).toEqual(['History of vomiting'])
+    expect(result.assumptions).toEqual([])
+  })
+
+  test('reads a complete under-2 history with the parent reporting normal behaviour', () => {
+    const history = '8 month old fell on his head, GCS 15, no loss of consciousness, no altered mental status, no severe mechanism, no palpable skull fracture, no parietal hematoma'
+    const [normal] = evaluateQueryDecisionRules(`${history}, acting normally per parent`)
+    expect(normal.applicable).toBe(true)
+    expect(normal.risk).toBe('low')
+    expect(normal.recommendation).toBe('CT not recommended')
+
+    const [baseline] = evaluateQueryDecisionRules(`${history}, at baseline per mother`)
+    expect(baseline.risk).toBe('low')
+
+    const [abnormal] = evaluateQueryDecisionRules(`${history}, not acting normally per parent`)
+    expect(abnormal.risk).toBe('intermediate')
+    expect(abnormal.findings).toEqual(['Not acting normally per parent'])
+  })
+
+  test('does not apply the head trauma rule when the GCS or predictors are unstated', () => {
+    const [result] = evaluateQueryDecisionRules('4 year old hit her head falling off a chair, vomited twice, no loss of consciousness')
+    expect(result.applicable).toBe(false)
+    expect(result.risk).toBe('not-applicable')
+    expect(result.recommendation).toBe('State the missing inputs to apply the rule: GCS; altered mental status; severe mechanism of injury; signs of basilar skull fracture; severe headache')
+    expect(result.assumptions).toEqual([])
+
+    const [infant] = evaluateQueryDecisionRules('8 month old fell on his head, GCS 15, no loss of consciousness, no altered mental status, no severe mechanism, no palpable skull fracture, no parietal hematoma')
+    expect(infant.applicable).toBe(false)
+    expect(infant.recommendation).toContain(': not acting normally per parent')
+  })
+
+  test('ignores unrelated queries and asks for age when it is missing', () => {
+    expect(evaluateQueryDecisionRules('What is the treatment for asthma?')).toEqual([])
+    const [result] = evaluateQueryDecisionRules('Toddler with head injury after a fall')
+    expect(result.applicable).toBe(false)
+    expect(formatDecisionRules([result])).toContain('not applicable')
+  })
+})
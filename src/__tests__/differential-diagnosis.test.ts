@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { DiagnosisFormatError, DifferentialDiagnosisService, parseDifferentialDiagnosis } from '@/lib/differential-diagnosis'
+import { LLMChatResult, LLMProvider, LLMProviderChain, LocalLLMProvider } from '@/lib/llm-provider'
+
+const valid = {
+  diagnoses: [
+    { name: 'Viral croup', likelihood: 'moderate', supportingFindings: ['barking cough'], opposingFindings: [], mustNotMiss: false },
+    { name: 'Epiglottitis', likelihood: 'low', supportingFindings: ['stridor'], opposingFindings: ['no drooling'], mustNotMiss: true },
+    { name: 'Bacterial tracheitis', likelihood: 'high', supportingFindings: ['high fever', 'toxic appearance'], opposingFindings: [], mustNotMiss: true },
+  ],
+  recommendedWorkup: ['Clinical diagnosis; avoid agitating the child'],
+  redFlags: ['Stridor at rest', 'Drooling'],
+}
+
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted'
+  readonly model = 'scripted'
+  prompts: string[] = []
+
+  constructor(private outputs: string[]) {}
+
+  isConfigured() {
+    return true
+  }
+
+  async chat(request: { messages: Array<{ content: string }> }): Promise<LLMChatResult> {
+    this.prompts.push(request.messages[request.messages.length - 1].content)
+    const content = this.outputs[Math.min(this.prompts.length - 1, this.outputs.length - 1)]
+    return { content, usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }, provider: this.name, model: this.model }
+  }
+
+  async stream(): Promise<LLMChatResult> {
+    throw new Error('not used')
+  }
+}
+
+const request = { symptoms: ['stridor', 'barking cough', 'fever'], patientAge: '3 years' }
+
+describe('Differential Diagnosis', () => {
+  describe('Parsing', () => {
+    test('ranks diagnoses by likelihood tier and keeps model order within a tier', () => {
+      const result = parseDifferentialDiagnosis(JSON.stringify(valid))
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.differential.diagnoses.map(d => [d.rank, d.name])).toEqual([
+        [1, 'Bacterial tracheitis'],
+        [2, 'Viral croup'],
+        [3, 'Epiglottitis'],
+      ])
+      expect(result.repaired).toBe(false)
+    })
+
+    test('repairs code fences, trailing commas, snake_case keys and likelihood synonyms', () => {
+      const raw = [
+        'Here is the differential:',
+        '```json',
+        '{"differential": [{"diagnosis": "Viral croup", "likelihood": "Likely", "supporting_findings": "barking cough; stridor",',
+        '"findings_against": [], "must_not_miss": "no",}], "workup": [], "red_flags": ["Stridor at rest"],}',
+        '```',
+      ].join('\n')
+
+      const result = parseDifferentialDiagnosis(raw)
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.repaired).toBe(true)
+      expect(result.differential.diagnoses[0]).toMatchObject({
+        name: 'Viral croup',
+        likelihood: 'high',
+        supportingFindings: ['barking cough', 'stridor'],
+        mustNotMiss: false,
+      })
+    })
+
+    test('reports schema errors with their paths', () => {
+      const result = parseDifferentialDiagnosis('{"diagnoses": [{"name": "Croup", "likelihood": "certain"}]}')
+
+      expect(result.success).toBe(false)
+      if (result.success) return
+      expect(result.errors.some(error => error.startsWith('diagnoses.0.likelihood'))).toBe(true)
+    })
+
+    test('rejects output without JSON', () => {
+      expect(parseDifferentialDiagnosis('1. Croup\n2. Epiglottitis')).toEqual({ success: false, errors: ['Output does not contain a JSON object'] })
+    })
+  })
+
+  describe('Generation', () => {
+    test('sends validation errors back to the model and accepts the corrected output', async () => {
+      const provider = new ScriptedProvider(['1. Croup', JSON.stringify(valid)])
+      const service = new DifferentialDiagnosisService(new LLMProviderChain([provider]))
+
+      const result = await service.generate(request)
+
+      expect(result.parseAttempts).toBe(2)
+      expect(result.repaired).toBe(true)
+      expect(provider.prompts[1]).toContain('Output does not contain a JSON object')
+      expect(result.differential.diagnoses).toHaveLength(3)
+    })
+
+    test('gives up after the maximum number of attempts', async () => {
+      const service = new DifferentialDiagnosisService(new LLMProviderChain([new ScriptedProvider(['not json'])]))
+
+      await expect(service.generate(request)).rejects.toBeInstanceOf(DiagnosisFormatError)
+    })
+
+    test('runs end to end against the offline model', async () => {
+      const service = new DifferentialDiagnosisService(new LLMProviderChain([new LocalLLMProvider()]))
+
+      const result = await service.generate(request)
+
+      expect(result.provider).toBe('local')
+      expect(result.parseAttempts).toBe(1)
+      expect(result.differential.diagnoses[0].likelihood).toBe('high')
+    })
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseService: { from: jest.fn() },
+  TABLES: { NELSON_DOCUMENTS: 'nelson_documents', NELSON_EMBEDDINGS: 'nelson_embeddings' },
+}))
+
+import { DocumentIngestionService } from '@/lib/document-ingestion'
+
+const sentence = (n: number) => `Sentence number ${n} describes a pediatric finding in some detail.`
+
+describe('Document Ingestion', () => {
+  const service = new DocumentIngestionService({ chunkSize: 200, chunkOverlap: 80 })
+
+  describe('Format Detection', () => {
+    test('detects html, markdown and plain text', () => {
+      expect(service.detectFormat('<h1>Asthma</h1><p>Text</p>')).toBe('html')
+      expect(service.detectFormat('# Asthma\n\nText')).toBe('markdown')
+      expect(service.detectFormat('Asthma is common.')).toBe('text')
+    })
+  })
+
+  describe('Chunking', () => {
+    test('respects chunkSize and overlaps consecutive chunks', () => {
+      const content = Array.from({ length: 12 }, (_, i) => sentence(i + 1)).join(' ')
+      const chunks = service.chunkDocument({ chapter: 'Asthma', content })
+
+      expect(chunks.length).toBeGreaterThan(1)
+      chunks.forEach(chunk => expect(chunk.content.length).toBeLessThanOrEqual(200))
+
+      for (let i = 1; i < chunks.length; i++) {
+        const firstSentence = chunks[i].content.split(/(?<=\.)\s/)[0]
+        expect(chunks[i - 1].content).toContain(firstSentence)
+      }
+    })
+
+    test('fills chunk_index and total_chunks metadata', () => {
+      const content = Array.from({ length: 12 }, (_, i) => sentence(i + 1)).join(' ')
+      const chunks = service.chunkDocument({ chapter: 'Asthma', content })
+
+      chunks.forEach((chunk, index) => {
+        expect(chunk.metadata.chunk_index).toBe(index)
+        expect(chunk.metadata.total_chunks).toBe(chunks.length)
+        expect(chunk.metadata.chapter).toBe('Asthma')
+        expect(chunk.metadata.source).toBe('Nelson Textbook of Pediatrics')
+      })
+    })
+
+    test('splits markdown along headings into section and title', () => {
+      const content = [
+        '# Bronchiolitis',
+        'Bronchiolitis is a viral lower respiratory tract infection.',
+        '## Treatment',
+        'Management is supportive with hydration and oxygen.',
+      ].join('\n')
+      const chunks = service.chunkDocument({ chapter: 'Respiratory', content })
+
+      expect(chunks).toHaveLength(2)
+      expect(chunks[0].metadata.section).toBe('Bronchiolitis')
+      expect(chunks[0].metadata.title).toBe('Bronchiolitis')
+      expect(chunks[1].metadata.section).toBe('Bronchiolitis')
+      expect(chunks[1].metadata.title).toBe('Treatment')
+    })
+
+    test('strips html and tracks page markers', () => {
+      const content = '<!-- page 412 --><h2>Kawasaki Disease</h2><p>Fever for &ge;5 days &amp; conjunctivitis.</p><!-- page 413 --><h3>Treatment</h3><p>IVIG 2 g/kg.</p>'
+      const chunks = service.chunkDocument({ chapter: 'Rheumatology', content })
+
+      expect(chunks).toHaveLength(2)
+      expect(chunks[0].content).not.toContain('<p>')
+      expect(chunks[0].content).toContain('& conjunctivitis')
+      expect(chunks[0].metadata.page).toBe(412)
+      expect(chunks[1].metadata.page).toBe(413)
+      expect(chunks[1].metadata.title).toBe('Treatment')
+    })
+
+    test('recognizes numbered and uppercase plain text headings', () => {
+      const content = 'CROUP\nCroup causes a barking cough.\n\n12.3 Management\nDexamethasone is given orally.'
+      const chunks = service.chunkDocument({ chapter: 'Airway', content, format: 'text' })
+
+      expect(chunks.map(c => c.metadata.section)).toEqual(['CROUP', 'CROUP'])
+      expect(chunks[1].metadata.title).toBe('Management')
+    })
+  })
+
+  describe('Idempotency', () => {
+    test('produces stable chunk ids and hashes across runs', () => {
+      const content = Array.from({ length: 8 }, (_, i) => sentence(i + 1)).join(' ')
+      const first = service.chunkDocument({ chapter: 'Asthma', content })
+      const second = service.chunkDocument({ chapter: 'Asthma', content })
+
+      expect(second.map(c => c.id)).toEqual(first.map(c => c.id))
+      expect(second.map(c => c.contentHash)).toEqual(first.map(c => c.contentHash))
+    })
+
+    test('produces different ids for different chapters', () => {
+      const a = service.chunkDocument({ chapter: 'Asthma', content: sentence(1) })
+      const b = service.chunkDocument({ chapter: 'Croup', content: sentence(1) })
+
+      expect(a[0].id).not.toBe(b[0].id)
+    })
+
+    test('dry run returns chunks without writing', async () => {
+      const result = await service.ingest({ chapter: 'Asthma', content: sentence(1) }, { dryRun: true })
+
+      expect(result.totalChunks).toBe(1)
+      expect(result.stored).toBe(0)
+      expect(result.chunks).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  DoseRule,
+  DosingError,
+  bedsideSchwartzEgfr,
+  calculateDose,
+  calculateVolume,
+  describeDoseLimits,
+  parseDoseAmount,
+  parseDoseLimits,
+  parseDoseRule,
+  parseDosesPerDay,
+} from '@/lib/dosing'
+import { calculateCatalogDose, calculateFormulationVolumes } from '@/lib/drug-catalog'
+import { drugService } from '@/lib/services'
+
+let drugDosageRows: Array<Record<string, string>> = []
+
+jest.mock('@/lib/supabase', () => {
+  const query = { select: () => query, ilike: () => query, eq: async () => ({ data: drugDosageRows, error: null }) }
+  return { supabaseServiceBackend: { client: { from: () => query } }, TABLES: {} }
+})
+
+const gentamicin: DoseRule = {
+  route: 'IV',
+  amount: { min: 7.5, max: 7.5 },
+  unit: 'mg',
+  scale: 'kg',
+  per: 'day',
+  frequency: 'Every 8 hours',
+  dosesPerDay: { min: 3, max: 3 },
+}
+
+describe('Dosing Engine', () => {
+  describe('Parsing', () => {
+    test('reads units, scales and intervals', () => {
+      expect(parseDoseAmount('10–15 mg/kg/dose')).toEqual({ amount: { min: 10, max: 15 }, unit: 'mg', scale: 'kg', per: 'dose' })
+      expect(parseDoseAmount('50 mcg/kg')).toEqual({ amount: { min: 50, max: 50 }, unit: 'mcg', scale: 'kg', per: null })
+      expect(parseDoseAmount('75 units/kg')).toMatchObject({ unit: 'units', scale: 'kg' })
+      expect(parseDoseAmount('5 mg/m2/dose')).toMatchObject({ scale: 'm2', per: 'dose' })
+      expect(parseDoseAmount('as directed')).toBeNull()
+    })
+
+    test('reads frequencies as a range of doses per day', () => {
+      expect(parseDosesPerDay('Every 4-6 hours')).toEqual({ min: 4, max: 6 })
+      expect(parseDosesPerDay('q8h')).toEqual({ min: 3, max: 3 })
+      expect(parseDosesPerDay('BID')).toEqual({ min: 2, max: 2 })
+      expect(parseDosesPerDay('as needed')).toBeNull()
+    })
+
+    test('reads every maximum in a free-text limit', () => {
+      expect(parseDoseLimits('75 mg/kg/day, max 4 g/day')).toEqual([
+        { value: 75, unit: 'mg', perKg: true, per: 'day' },
+        { value: 4, unit: 'g', perKg: false, per: 'day' },
+      ])
+    })
+
+    test('builds a rule from a drug_dosages row, converting caps to the dose unit', () => {
+      const rule = parseDoseRule({ dosage: '10-15 mg/kg/dose', frequency: 'every 6 hours', max_dosage: '75 mg/kg/day, max 4 g/day' })
+
+      expect(rule).toMatchObject({ per: 'dose', dosesPerDay: { min: 4, max: 4 }, maxPerKgPerDay: 75, maxPerDay: 4000 })
+      expect(describeDoseLimits(rule!)).toBe('75 mg/kg/day, max 4000 mg/day')
+    })
+  })
+
+  describe('Calculation', () => {
+    test('divides a daily dose across the dosing frequency', () => {
+      const result = calculateDose('Gentamicin', gentamicin, { weightKg: 12 })
+
+      expect(result.perDay).toEqual({ min: 90, max: 90, capped: false })
+      expect(result.perDose).toEqual({ min: 30, max: 30, capped: false })
+    })
+
+    test('re-divides a capped daily dose so each dose respects the cap', () => {
+      const result = calculateDose('Gentamicin', { ...gentamicin, maxPerDay: 300 }, { weightKg: 60 })
+
+      expect(result.perDay).toEqual({ min: 300, max: 300, capped: true })
+      expect(result.perDose).toEqual({ min: 100, max: 100, capped: false })
+      expect(result.capsApplied).toHaveLength(1)
+    })
+
+    test('keeps microgram and unit doses in their own units', () => {
+      expect(calculateCatalogDose('Fentanyl', { weightKg: 80 })).toMatchObject({ unit: 'mcg', perDose: { max: 100, capped: true } })
+      expect(calculateCatalogDose('Heparin', { weightKg: 10 })).toMatchObject({ unit: 'units', perDose: { min: 750, max: 750 } })
+    })
+
+    test('doses by body surface area from height', () => {
+      const result = calculateCatalogDose('Ondansetron', { weightKg: 20, heightCm: 115 })
+
+      expect(result?.bsaM2).toBe(0.8)
+      expect(result?.perDose).toEqual({ min: 4, max: 4, capped: false })
+    })
+
+    test('requires height for body-surface-area dosing', () => {
+      expect(() => calculateCatalogDose('Ondansetron', { weightKg: 20 })).toThrow(DosingError)
+    })
+  })
+
+  describe('Renal adjustment', () => {
+    test('estimates eGFR with the bedside Schwartz formula in either creatinine unit', () => {
+      expect(bedsideSchwartzEgfr(120, 0.5)).toBe(99.1)
+      expect(bedsideSchwartzEgfr(120, 44.2, 'umol/L')).toBe(99.1)
+      expect(() => bedsideSchwartzEgfr(0, 0.5)).toThrow(DosingError)
+    })
+
+    test('leaves the regimen unchanged above every threshold but still explains why', () => {
+      const result = calculateCatalogDose('Gentamicin', { weightKg: 20, egfr: 90 })
+
+      expect(result?.perDose).toEqual({ min: 50, max: 50, capped: false })
+      expect(result?.renal?.adjustment).toBeUndefined()
+      expect(result?.renal?.explanation).toContain('adjust below 50')
+    })
+
+    test('applies the most restrictive band that covers the eGFR', () => {
+      const result = calculateCatalogDose('Gentamicin', { weightKg: 20, egfr: 25 })
+
+      expect(result?.rule.frequency).toBe('Every 24 hours')
+      expect(result?.perDose).toEqual({ min: 50, max: 50, capped: false })
+      expect(result?.perDay).toEqual({ min: 50, max: 50, capped: false })
+      expect(result?.renal?.explanation).toBe('eGFR 25 is below 30 mL/min/1.73 m². every 8 hours → every 24 hours. Check a trough level before the second dose')
+    })
+
+    test('keeps the dose size when a daily amount is given less often', () => {
+      const usual = calculateCatalogDose('Cefazolin', { weightKg: 20 })!
+      const adjusted = calculateCatalogDose('Cefazolin', { weightKg: 20, egfr: 20 })!
+
+      expect(adjusted.perDose).toEqual(usual.perDose)
+      expect(adjusted.perDay).toEqual({ min: 333.3, max: 1333.3, capped: false })
+      expect(adjusted.renal?.originalRule.dosesPerDay).toEqual({ min: 3, max: 3 })
+    })
+
+    test('replaces the amount and scales caps when a band says so', () => {
+      expect(calculateCatalogDose('Amoxicillin', { weightKg: 20, egfr: 8 })).toMatchObject({
+        rule: { per: 'dose', frequency: 'Every 24 hours' },
+        perDose: { min: 160, max: 400 },
+      })
+      expect(calculateCatalogDose('Bactrim', { weightKg: 40, egfr: 20 })).toMatchObject({
+        rule: { maxPerDay: 160 },
+        perDay: { max: 160, capped: true },
+      })
+    })
+
+    test('marks drugs to avoid', () => {
+      const result = calculateCatalogDose('Ibuprofen', { weightKg: 20, egfr: 20 })
+
+      expect(result?.renal?.avoid).toBe(true)
+      expect(result?.renal?.explanation).toContain('avoid this drug')
+    })
+
+    test('explains when a drug has no renal guidance', () => {
+      expect(calculateCatalogDose('Acetaminophen', { weightKg: 20, egfr: 20 })?.renal?.explanation).toContain('No renal dose adjustment is listed')
+    })
+  })
+
+  describe('Formulation volumes', () => {
+    test('rounds a dose range inwards to measurable increments', () => {
+      const volumes = calculateFormulationVolumes(calculateCatalogDose('Acetaminophen', { weightKg: 20 })!)
+
+      expect(volumes).toEqual([expect.objectContaining({
+        concentration: 32,
+        perDoseMl: { min: 6.5, max: 9 },
+        incrementMl: 0.5,
+        deliveredPerDose: { min: 208, max: 288 },
+      })])
+    })
+
+    test('gives a volume for every strength of the drug', () => {
+      const volumes = calculateFormulationVolumes(calculateCatalogDose('Amoxicillin', { weightKg: 25 })!)
+
+      expect(volumes.map(volume => [volume.formulation.label, volume.perDoseMl])).toEqual([
+        ['Suspension 125 mg/5 mL', { min: 13, max: 22 }],
+        ['Suspension 250 mg/5 mL', { min: 7, max: 11 }],
+        ['Suspension 400 mg/5 mL', { min: 4, max: 7 }],
+      ])
+    })
+
+    test('never rounds a capped dose above the cap', () => {
+      const calculation = calculateCatalogDose('Albuterol', { weightKg: 30 })!
+      const volume = calculateVolume(calculation, { label: 'Concentrate 5 mg/mL', form: 'solution', amount: 5, unit: 'mg', volumeMl: 1, incrementMl: 0.2 })
+
+      expect(volume?.perDoseMl).toEqual({ min: 0.4, max: 0.4 })
+      expect(volume?.deliveredPerDose.max).toBeLessThanOrEqual(2.5)
+    })
+
+    test('rounds a fixed dose down to the step below rather than above the dose', () => {
+      const volume = calculateFormulationVolumes(calculateCatalogDose('Fentanyl', { weightKg: 11 })!)[0]
+
+      expect(volume.perDoseMl).toEqual({ min: 0.3, max: 0.3 })
+      expect(volume.deliveredPerDose.max).toBeLessThanOrEqual(16.5)
+      expect(volume.warning).toBeUndefined()
+    })
+
+    test('warns when the dose is below the smallest measurable volume', () => {
+      const volume = calculateFormulationVolumes(calculateCatalogDose('Fentanyl', { weightKg: 1 })!)[0]
+
+      expect(volume.perDoseMl).toEqual({ min: 0.03, max: 0.03 })
+      expect(volume.warning).toContain('more dilute formulation')
+    })
+  })
+  describe('drug_dosages lookup', () => {
+    const amoxicillin = { drug_name: 'Amoxicillin', age_group: 'child', indication: 'Otitis media', dosage: '80-90 mg/kg/day', frequency: 'divided BID', max_dosage: '4000 mg/day' }
+    const augmentin = { drug_name: 'Amoxicillin-clavulanate', age_group: 'child', indication: 'Sinusitis', dosage: '45 mg/kg/day', frequency: 'divided BID', max_dosage: '1750 mg/day' }
+
+    test('doses from the row whose generic name matches exactly', async () => {
+      drugDosageRows = [augmentin, amoxicillin]
+      const result = await drugService.calculateDosage('Amoxicillin', 20, 'child')
+
+      expect(result?.source).toBe('drug_dosages')
+      expect(result?.perDay).toMatchObject({ min: 1600, max: 1800 })
+    })
+
+    test('refuses rows for the same drug with different doses', async () => {
+      drugDosageRows = [amoxicillin, { ...amoxicillin, indication: 'Pneumonia', dosage: '40-50 mg/kg/day' }]
+
+      expect(await drugService.calculateDosage('amoxicillin', 20, 'child')).toBeNull()
+    })
+  })
+})
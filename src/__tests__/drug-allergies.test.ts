@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { checkAllergies, normalizeAllergen } from '@/lib/drug-allergies'
+
+describe('Drug Allergies', () => {
+  test('normalizes allergy descriptions to drugs and allergen classes', () => {
+    expect(normalizeAllergen('Sulfa allergy')).toEqual(['sulfonamide-antibiotics'])
+    expect(normalizeAllergen('PCN')).toEqual(['penicillins'])
+    expect(normalizeAllergen('Amoxil (hives)')).toEqual(['amoxicillin', 'penicillins', 'aminopenicillins'])
+    expect(normalizeAllergen('Eggs')).toEqual(['egg'])
+    expect(normalizeAllergen('peanuts')).toEqual([])
+  })
+
+  test('flags a drug reported as the allergy itself', () => {
+    const [warning] = checkAllergies(['Augmentin'], ['co-amoxiclav']).warnings
+
+    expect(warning).toMatchObject({ drug: 'Augmentin', risk: 'direct', severity: 'avoid' })
+  })
+
+  test('flags members of an allergic class directly', () => {
+    const result = checkAllergies(['Amoxicillin', 'Azithromycin'], ['penicillin'])
+
+    expect(result.warnings).toEqual([expect.objectContaining({ drug: 'Amoxicillin', allergen: 'penicillins', risk: 'direct' })])
+  })
+
+  test('distinguishes side-chain cross-reactivity from general beta-lactam cross-reactivity', () => {
+    const result = checkAllergies(['cephalexin', 'cefdinir', 'meropenem'], ['amoxicillin'])
+
+    expect(result.warnings.map(warning => [warning.drug, warning.risk, warning.severity])).toEqual([
+      ['cephalexin', 'cross-reactive', 'avoid'],
+      ['cefdinir', 'cross-reactive', 'caution'],
+      ['meropenem', 'cross-reactive', 'caution'],
+    ])
+  })
+
+  test('lists drugs to avoid before those needing caution', () => {
+    const result = checkAllergies(['furosemide', 'Bactrim', 'acetaminophen', 'naproxen'], ['sulfa', 'ibuprofen'])
+
+    expect(result.warnings.map(warning => [warning.drug, warning.severity])).toEqual([
+      ['Bactrim', 'avoid'],
+      ['naproxen', 'avoid'],
+      ['furosemide', 'caution'],
+      ['acetaminophen', 'caution'],
+    ])
+  })
+
+  test('checks vaccines for egg and gelatin', () => {
+    const result = checkAllergies(['MMR vaccine', 'Yellow fever vaccine', 'influenza'], ['egg', 'gelatin'])
+
+    expect(result.warnings.map(warning => [warning.drug, warning.allergy])).toEqual([
+      ['MMR vaccine', 'gelatin'],
+      ['Yellow fever vaccine', 'egg'],
+      ['Yellow fever vaccine', 'gelatin'],
+    ])
+  })
+
+  test('reports allergies it could not check', () => {
+    expect(checkAllergies(['amoxicillin'], ['latex', 'penicillin']).unrecognized).toEqual(['latex'])
+  })
+})
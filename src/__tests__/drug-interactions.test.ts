@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { checkInteractions, mergeInteractionResults } from '@/lib/drug-interactions'
+import { canonicalDrugName } from '@/lib/drug-catalog'
+import { TreatmentPlanService, TreatmentRegimen } from '@/lib/treatment-plan'
+import { LLMProviderChain, LocalLLMProvider } from '@/lib/llm-provider'
+
+const regimen = (drug: string, line: TreatmentRegimen['line']): TreatmentRegimen => ({
+  drug,
+  route: 'PO',
+  mgPerKg: 10,
+  doseBasis: 'dose',
+  frequency: 'every 8 hours',
+  duration: '5 days',
+  line,
+})
+
+describe('Drug Interactions', () => {
+  test('normalizes brand names, strengths and dosage forms', () => {
+    expect(canonicalDrugName('Tylenol 160 mg/5 mL syrup')).toBe('acetaminophen')
+    expect(canonicalDrugName('Valproic acid (Depakene) 250 mg BID')).toBe('valproate')
+    expect(canonicalDrugName('Salbutamol inhaler')).toBe('albuterol')
+  })
+
+  test('flags a contraindicated pair entered by brand name', () => {
+    const result = checkInteractions(['Depakote 250 mg BID', 'meropenem'])
+
+    expect(result.highestSeverity).toBe('contraindicated')
+    expect(result.interactions[0].drugs).toEqual(['Depakote 250 mg BID', 'meropenem'])
+  })
+
+  test('matches two different members of the same class', () => {
+    const result = checkInteractions(['Zofran', 'Azithromycin'])
+
+    expect(result.interactions).toHaveLength(1)
+    expect(result.interactions[0].effect).toContain('QT prolongation')
+  })
+
+  test('orders interactions from most to least severe', () => {
+    const result = checkInteractions(['ibuprofen', 'aspirin', 'prednisolone', 'methotrexate'])
+
+    expect(result.interactions.map(interaction => interaction.severity)).toEqual(['major', 'major', 'moderate', 'moderate', 'minor'])
+  })
+
+  test('treats the same drug entered twice as a duplicate, not an interaction', () => {
+    expect(checkInteractions(['Advil', 'ibuprofen 200 mg']).interactions).toEqual([])
+  })
+
+  test('reports entries it does not know', () => {
+    const result = checkInteractions(['amoxicillin', 'midazolam', 'fentanyl'])
+
+    expect(result.unrecognized).toEqual(['amoxicillin'])
+    expect(result.highestSeverity).toBe('major')
+  })
+
+  test('drops repeated pairs when merging results', () => {
+    const merged = mergeInteractionResults([
+      checkInteractions(['fentanyl', 'midazolam']),
+      checkInteractions(['Midazolam', 'Fentanyl', 'clarithromycin']),
+    ])
+
+    expect(merged.interactions.map(interaction => interaction.drugs.map(canonicalDrugName).sort())).toEqual([
+      ['fentanyl', 'midazolam'],
+      ['clarithromycin', 'midazolam'],
+    ])
+  })
+
+  test('checks alternatives only against current medications, not against first-line drugs', () => {
+    const service = new TreatmentPlanService(new LLMProviderChain([new LocalLLMProvider()]), async () => [])
+    const result = service.checkInteractions({
+      regimens: [regimen('Azithromycin', 'first-line'), regimen('Clarithromycin', 'alternative')],
+      monitoring: [],
+      patientEducation: [],
+      whenToSeekCare: [],
+    }, ['carbamazepine'])
+
+    expect(result.interactions.map(interaction => interaction.drugs)).toEqual([['Clarithromycin', 'carbamazepine']])
+  })
+})
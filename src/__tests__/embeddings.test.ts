@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  EmbeddingService,
+  EmbeddingProvider,
+  EmbeddingDimensionError,
+  LocalEmbeddingProvider,
+  HuggingFaceEmbeddingProvider,
+  createEmbeddingProvider,
+} from '@/lib/embeddings'
+
+function fakeProvider(dimension: number, vectorLength = dimension): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: `fake-${dimension}`,
+    dimension,
+    embed: async (texts: string[]) => texts.map(() => Array.from({ length: vectorLength }, () => 0.1)),
+  }
+}
+
+describe('Embedding Providers', () => {
+  test('selects the provider from config', () => {
+    expect(createEmbeddingProvider('local')).toBeInstanceOf(LocalEmbeddingProvider)
+    expect(createEmbeddingProvider('huggingface')).toBeInstanceOf(HuggingFaceEmbeddingProvider)
+    expect(() => createEmbeddingProvider('openai' as any)).toThrow('Unknown embedding provider')
+  })
+
+  test('both built-in providers produce 384-dimension vectors', () => {
+    expect(new LocalEmbeddingProvider().dimension).toBe(384)
+    expect(new HuggingFaceEmbeddingProvider().dimension).toBe(384)
+  })
+
+  test('generates embeddings through the configured provider', async () => {
+    const service = new EmbeddingService(fakeProvider(384))
+    const result = await service.generateEmbedding('Kawasaki disease')
+
+    expect(result.embedding).toHaveLength(384)
+    expect(service.getProviderInfo()).toEqual({ name: 'local', model: 'fake-384', dimension: 384 })
+  })
+
+  test('refuses to switch to a provider with a different dimension', () => {
+    const service = new EmbeddingService(fakeProvider(384))
+
+    expect(() => service.setProvider(fakeProvider(768))).toThrow(EmbeddingDimensionError)
+    expect(service.getProviderInfo().model).toBe('fake-384')
+  })
+
+  test('rejects vectors that do not match the configured dimension', async () => {
+    const service = new EmbeddingService(fakeProvider(384, 512))
+
+    await expect(service.generateEmbedding('croup')).rejects.toThrow('expected 384, got 512')
+  })
+
+  describe('Batch Embedding', () => {
+    const noDelay = { retryBaseDelayMs: 0 }
+
+    test('sends texts to the provider in batches', async () => {
+      const calls: number[] = []
+      const provider = fakeProvider(384)
+      const service = new EmbeddingService({ ...provider, embed: async texts => { calls.push(texts.length); return provider.embed(texts) } })
+
+      const result = await service.generateEmbeddingsBatch(['a', 'b', 'c', 'd', 'e'], { batchSize: 2 })
+
+      expect(calls).toEqual([2, 2, 1])
+      expect(result.successful).toBe(5)
+      expect(result.embeddings.every(e => e?.embedding.length === 384)).toBe(true)
+    })
+
+    test('limits the number of concurrent provider calls', async () => {
+      let active = 0
+      let peak = 0
+      const provider = fakeProvider(384)
+      const service = new EmbeddingService({
+        ...provider,
+        embed: async texts => {
+          peak = Math.max(peak, ++active)
+          await new Promise(resolve => setTimeout(resolve, 5))
+          active--
+          return provider.embed(texts)
+        },
+      })
+
+      await service.generateEmbeddingsBatch(Array.from({ length: 10 }, (_, i) => `text ${i}`), { batchSize: 1, concurrency: 3 })
+
+      expect(peak).toBe(3)
+    })
+
+    test('retries rate-limited batches with backoff', async () => {
+      let calls = 0
+      const provider = fakeProvider(384)
+      const service = new EmbeddingService({
+        ...provider,
+        embed: async texts => {
+          if (++calls === 1) throw new Error('429 Too Many Requests')
+          return provider.embed(texts)
+        },
+      })
+
+      const result = await service.generateEmbeddingsBatch(['a', 'b'], noDelay)
+
+      expect(calls).toBe(2)
+      expect(result.failed).toEqual([])
+      expect(result.successful).toBe(2)
+    })
+
+    test('reports only the items that keep failing', async () => {
+      const provider = fakeProvider(384)
+      const service = new EmbeddingService({
+        ...provider,
+        embed: async texts => {
+          if (texts.includes('bad')) throw new Error('Input rejected')
+          return provider.embed(texts)
+        },
+      })
+
+      const result = await service.generateEmbeddingsBatch(['good', 'bad', 'fine'], { ...noDelay, maxRetries: 1 })
+
+      expect(result.successful).toBe(2)
+      expect(result.embeddings[0]).not.toBeNull()
+      expect(result.embeddings[1]).toBeNull()
+      expect(result.failed).toEqual([{ index: 1, text: 'bad', error: 'Input rejected', attempts: 2 }])
+    })
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { FLUID_COMPOSITION, FluidError, calculateFluidPlan, classifySodium, maintenanceFluids } from '@/lib/fluids'
+
+describe('Fluids', () => {
+  describe('Maintenance', () => {
+    test('follows the Holliday-Segar weight bands', () => {
+      expect(maintenanceFluids(8)).toEqual({ mlPerDay: 800, mlPerHour: 33.3, capped: false })
+      expect(maintenanceFluids(15)).toEqual({ mlPerDay: 1250, mlPerHour: 52.1, capped: false })
+      expect(maintenanceFluids(30)).toEqual({ mlPerDay: 1700, mlPerHour: 70.8, capped: false })
+    })
+
+    test('caps at the adult volume', () => {
+      expect(maintenanceFluids(90)).toEqual({ mlPerDay: 2400, mlPerHour: 100, capped: true })
+    })
+
+    test('rejects invalid weights', () => {
+      expect(() => maintenanceFluids(0)).toThrow(FluidError)
+    })
+  })
+
+  describe('Deficit replacement', () => {
+    test('gives maintenance alone when there is no deficit', () => {
+      const plan = calculateFluidPlan({ weightKg: 10 })
+
+      expect(plan.phases).toEqual([expect.objectContaining({ label: 'Maintenance', hours: 24, mlPerHour: 41.7 })])
+      expect(plan.first24hMl).toBe(1000)
+      expect(plan.warnings).toEqual([])
+    })
+
+    test('replaces an isonatremic deficit over 24 hours, half in the first 8', () => {
+      const plan = calculateFluidPlan({ weightKg: 10, dehydrationPercent: 6, serumSodium: 138 })
+
+      expect(plan.deficit).toEqual({ percent: 6, ml: 600 })
+      expect(plan.phases.map(phase => [phase.startHour, phase.hours, phase.mlPerHour])).toEqual([[0, 8, 79.2], [8, 16, 60.4]])
+      expect(plan.first24hMl).toBe(1600)
+      expect(plan.phases[0].fluid).toBe(FLUID_COMPOSITION.isonatremic)
+    })
+
+    test('boluses for severe dehydration and counts the bolus towards the deficit', () => {
+      const plan = calculateFluidPlan({ weightKg: 10, dehydrationPercent: 10, serumSodium: 135 })
+
+      expect(plan.bolus?.ml).toBe(200)
+      expect(plan.phases[0].totalMl).toBe(733)
+      expect(plan.first24hMl).toBe(2000)
+    })
+
+    test('replaces a hypernatremic deficit over 48 hours with sodium guidance', () => {
+      const plan = calculateFluidPlan({ weightKg: 10, dehydrationPercent: 8, serumSodium: 160 })
+
+      expect(plan.sodiumStatus).toBe('hypernatremic')
+      expect(plan.phases).toEqual([expect.objectContaining({ hours: 48, mlPerHour: 58.3 })])
+      expect(plan.freeWaterDeficitMl).toBe(800)
+      expect(plan.first24hMl).toBe(1400)
+      expect(plan.warnings[0]).toContain('no more than 10 mEq/L in 24 hours')
+    })
+
+    test('calculates the sodium deficit and hypertonic rescue dose in hyponatremia', () => {
+      const plan = calculateFluidPlan({ weightKg: 20, dehydrationPercent: 5, serumSodium: 122 })
+
+      expect(plan.sodiumDeficitMeq).toBe(216)
+      expect(plan.warnings).toEqual(expect.arrayContaining([
+        expect.stringContaining('3% NaCl 40 mL'),
+        'Severe dysnatremia: manage with intensive care input',
+      ]))
+    })
+
+    test('classifies sodium and flags an assumed isonatremia', () => {
+      expect([128, 140, 152].map(classifySodium)).toEqual(['hyponatremic', 'isonatremic', 'hypernatremic'])
+      expect(calculateFluidPlan({ weightKg: 12, dehydrationPercent: 5 }).warnings[0]).toContain('isonatremic dehydration assumed')
+      expect(() => calculateFluidPlan({ weightKg: 12, dehydrationPercent: 20 })).toThrow(FluidError)
+    })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { GroundednessChecker } from '@/lib/groundedness'
+
+const documents = [
+  {
+    id: 'kawasaki-treatment',
+    content: 'Kawasaki disease is treated with intravenous immunoglobulin (IVIG) 2 g/kg as a single infusion together with aspirin. Treatment within ten days of fever onset reduces the risk of coronary artery aneurysms.',
+    metadata: { chapter: 'Kawasaki Disease', section: 'Treatment', page: 1210 },
+  },
+  {
+    id: 'aom-treatment',
+    content: 'High-dose amoxicillin (80-90 mg/kg/day) is first-line antibiotic treatment for acute otitis media.',
+    metadata: { chapter: 'Acute Otitis Media', section: 'Treatment' },
+  },
+]
+
+describe('Groundedness Checker', () => {
+  const checker = new GroundednessChecker()
+
+  describe('Claim Splitting', () => {
+    test('splits sentences and list items and drops headings and disclaimers', () => {
+      const answer = [
+        '## Treatment',
+        'Options include:',
+        '- IVIG is given as a single infusion with aspirin.',
+        '- **Aspirin** is continued until follow-up echocardiography.',
+        'Always consult a pediatric specialist before treatment.',
+      ].join('\n')
+
+      expect(checker.splitClaims(answer)).toEqual([
+        'IVIG is given as a single infusion with aspirin.',
+        'Aspirin is continued until follow-up echocardiography.',
+      ])
+    })
+
+    test('extracts doses with units and ranges', () => {
+      const quantities = checker.extractQuantities('Give 80 to 90 mg/kg/day divided twice daily for 10 days.')
+
+      expect(quantities.map(q => [q.low, q.high, q.unit])).toEqual([[80, 90, 'mg/kg/day'], [10, 10, 'day']])
+    })
+  })
+
+  describe('Support Matching', () => {
+    test('links supported claims to the chunk span that backs them', () => {
+      const report = checker.check('Kawasaki disease is treated with IVIG and aspirin as a single infusion.', documents)
+
+      expect(report.claims[0].supported).toBe(true)
+      expect(report.claims[0].evidence).toMatchObject({ documentId: 'kawasaki-treatment', chapter: 'Kawasaki Disease', page: 1210 })
+      expect(report.score).toBe(1)
+    })
+
+    test('flags claims with no support in the retrieved chunks', () => {
+      const report = checker.check('Plasmapheresis is recommended for refractory Kawasaki disease in all infants.', documents)
+
+      expect(report.claims[0].supported).toBe(false)
+      expect(report.unsupportedCount).toBe(1)
+      expect(report.score).toBe(0)
+    })
+  })
+
+  describe('Numeric Scrutiny', () => {
+    test('accepts a dose stated within the source range', () => {
+      const report = checker.check('First-line treatment for acute otitis media is high-dose amoxicillin 90 mg/kg/day.', documents)
+
+      expect(report.claims[0]).toMatchObject({ supported: true, numeric: true, unsupportedQuantities: [] })
+    })
+
+    test('rejects a dose that differs from the source even when the wording matches', () => {
+      const report = checker.check('Kawasaki disease is treated with IVIG 1 g/kg as a single infusion together with aspirin.', documents)
+
+      expect(report.claims[0].supported).toBe(false)
+      expect(report.claims[0].unsupportedQuantities).toEqual(['1 g/kg'])
+      expect(report.unsupportedNumericCount).toBe(1)
+    })
+
+    test('rejects a dose given in a different unit', () => {
+      const report = checker.check('High-dose amoxicillin 90 mg/kg/dose is first-line treatment for acute otitis media.', documents)
+
+      expect(report.claims[0].supported).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  GrowthError,
+  ageInMonths,
+  assessGrowth,
+  growthCurves,
+  growthSeries,
+  lmsValueAtZ,
+  lmsZScore,
+  percentileToZScore,
+  scoreMeasurement,
+  zScoreToPercentile,
+} from '@/lib/growth'
+
+describe('Growth Assessment', () => {
+  describe('LMS mathematics', () => {
+    test('converts between values, z-scores and percentiles', () => {
+      const lms = { l: 0.0644, m: 9.6479, s: 0.10925 }
+
+      expect(lmsZScore(9.6479, lms)).toBe(0)
+      expect(lmsZScore(lmsValueAtZ(-1.5, lms), lms)).toBeCloseTo(-1.5, 6)
+      expect(zScoreToPercentile(1.96)).toBeCloseTo(97.5, 1)
+      expect(percentileToZScore(3)).toBeCloseTo(-1.881, 3)
+    })
+
+    test('uses the log form when L is zero', () => {
+      expect(lmsZScore(Math.E * 10, { l: 0, m: 10, s: 0.5 })).toBeCloseTo(2, 6)
+    })
+
+    test('applies the WHO restricted adjustment beyond 3 SD', () => {
+      const lms = { l: -0.3521, m: 9.5032, s: 0.08295 }
+      const sd3 = lmsValueAtZ(3, lms)
+      const sd2 = lmsValueAtZ(2, lms)
+
+      expect(lmsZScore(sd3 + (sd3 - sd2), lms, true)).toBeCloseTo(4, 6)
+      expect(lmsZScore(sd3 + (sd3 - sd2), lms)).toBeLessThan(4)
+    })
+  })
+
+  describe('Scoring', () => {
+    test('scores WHO medians at the 50th percentile', () => {
+      expect(scoreMeasurement('weight-for-age', 'male', 12, 9.6479)).toMatchObject({ source: 'WHO', zScore: 0, percentile: 50 })
+      expect(scoreMeasurement('weight-for-age', 'female', 12, 8.9481).zScore).toBe(0)
+      expect(scoreMeasurement('weight-for-length', 'male', 75, 9.5032).zScore).toBe(0)
+    })
+
+    test('interpolates between monthly rows', () => {
+      const median = (49.8842 + 54.7244) / 2
+
+      expect(scoreMeasurement('length-for-age', 'male', 0.5, median).zScore).toBe(0)
+    })
+
+    test('derives BMI and scores every supplied measure', () => {
+      const assessment = assessGrowth({ ageMonths: 12, weightKg: 9.6479, lengthCm: 75.7488 }, 'male')
+
+      expect(assessment.bmi).toBe(16.81)
+      expect(assessment.scores.map(score => score.measure)).toEqual(['weight-for-age', 'length-for-age', 'weight-for-length', 'bmi-for-age'])
+      expect(assessment.scores.find(score => score.measure === 'length-for-age')?.zScore).toBe(0)
+    })
+
+    test('scores CDC references from 24 months to 20 years', () => {
+      expect(scoreMeasurement('weight-for-age', 'male', 60.5, 18.4859)).toMatchObject({ source: 'CDC', zScore: 0, percentile: 50 })
+      expect(scoreMeasurement('length-for-age', 'female', 120.5, 138.2112).zScore).toBe(0)
+      expect(scoreMeasurement('bmi-for-age', 'male', 60.5, 16.84).percentile).toBeCloseTo(85, 0)
+      expect(scoreMeasurement('bmi-for-age', 'male', 60.5, 17.94).percentile).toBeCloseTo(95, 0)
+
+      const assessment = assessGrowth({ ageMonths: 36, weightKg: 14, lengthCm: 95 }, 'female')
+      expect(assessment.scores.find(score => score.measure === 'weight-for-age')).toMatchObject({ source: 'CDC', zScore: 0.08, percentile: 53.2 })
+      expect(assessment.scores.find(score => score.measure === 'length-for-age')).toMatchObject({ source: 'CDC', zScore: 0.27, percentile: 60.7 })
+    })
+
+    test('reports weight-for-length as unavailable from 24 months', () => {
+      const assessment = assessGrowth({ ageMonths: 36, weightKg: 14, lengthCm: 95 }, 'female')
+
+      expect(assessment.scores.map(score => score.measure)).toEqual(['weight-for-age', 'length-for-age', 'bmi-for-age'])
+      expect(assessment.unavailable).toEqual([
+        { measure: 'weight-for-length', reason: expect.stringContaining('children under 24 months; age 36 months is outside it') },
+      ])
+      expect(growthSeries([{ ageMonths: 18, weightKg: 11, lengthCm: 82 }, { ageMonths: 36, weightKg: 14, lengthCm: 95 }], 'weight-for-length')).toEqual([{ x: 82, value: 11 }])
+    })
+
+    test('does not apply the WHO restricted adjustment to CDC references', () => {
+      const lms = { l: -1.0005, m: 18.4859, s: 0.12988 }
+
+      expect(scoreMeasurement('weight-for-age', 'male', 60.5, lmsValueAtZ(3.5, lms)).zScore).toBe(3.5)
+    })
+
+    test('scores WHO head circumference to 24 months', () => {
+      expect(scoreMeasurement('head-circumference-for-age', 'female', 12, 44.8965)).toMatchObject({ source: 'WHO', zScore: 0 })
+      expect(scoreMeasurement('head-circumference-for-age', 'male', 12, 46)).toMatchObject({ zScore: -0.05, percentile: 47.9 })
+
+      const assessment = assessGrowth({ ageMonths: 36, headCircumferenceCm: 49 }, 'female')
+      expect(assessment.scores).toEqual([])
+      expect(assessment.unavailable).toEqual([
+        { measure: 'head-circumference-for-age', reason: expect.stringContaining('covers 0-24 (WHO); age 36 months is outside it') },
+      ])
+    })
+
+    test('rejects invalid ages and dates', () => {
+      expect(() => assessGrowth({ ageMonths: -1, weightKg: 5 }, 'male')).toThrow(GrowthError)
+      expect(() => ageInMonths(new Date('2024-05-01'), new Date('2024-04-01'))).toThrow(GrowthError)
+      expect(ageInMonths(new Date('2024-01-01'), new Date('2025-01-01'))).toBeCloseTo(12.02, 2)
+    })
+  })
+
+  describe('Charting', () => {
+    test('builds percentile curves from WHO then CDC tables', () => {
+      const curves = growthCurves('weight-for-age', 'male')
+
+      expect(curves).toHaveLength(25 + 218)
+      expect(curves[12]).toMatchObject({ source: 'WHO', values: { 50: 9.65 } })
+      expect(curves[12].values[3]).toBeLessThan(curves[12].values[97])
+      expect(curves[25]).toMatchObject({ x: 24, source: 'CDC', values: { 50: 12.67 } })
+      expect(Object.keys(curves[25].values).map(Number)).toEqual([5, 10, 25, 50, 75, 90, 95])
+    })
+
+    test('turns a measurement series into points for one measure', () => {
+      const series = growthSeries([
+        { ageMonths: 6, weightKg: 7.9, lengthCm: 67.6 },
+        { ageMonths: 2, lengthCm: 58.4 },
+      ], 'weight-for-length')
+
+      expect(series).toEqual([{ x: 67.6, value: 7.9 }])
+      expect(growthSeries([{ ageMonths: 6, weightKg: 7.9 }, { ageMonths: 2, weightKg: 5.6 }], 'weight-for-age').map(point => point.x)).toEqual([2, 6])
+    })
+  })
+})
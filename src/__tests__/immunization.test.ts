@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals'
+import { DoseGiven, ImmunizationError, evaluateImmunizations } from '@/lib/immunization'
+
+const dob = '2023-01-15'
+const seriesFor = (doses: DoseGiven[], asOf: string, vaccine: DoseGiven['vaccine']) =>
+  evaluateImmunizations({ dateOfBirth: dob, doses, asOf }).series.find(series => series.vaccine === vaccine)!
+
+describe('Dose validity', () => {
+  test('accepts doses within the 4-day grace period and rejects earlier ones', () => {
+    // Minimum age 6 weeks is 2023-02-26
+    const schedule = evaluateImmunizations({
+      dateOfBirth: dob,
+      asOf: '2023-04-01',
+      doses: [
+        { vaccine: 'dtap', date: '2023-02-22' },
+        { vaccine: 'ipv', date: '2023-02-21' },
+      ],
+    })
+    const [ipv, dtap] = schedule.doses
+    expect(dtap).toMatchObject({ vaccine: 'dtap', validity: 'valid', doseNumber: 1 })
+    expect(ipv).toMatchObject({ vaccine: 'ipv', validity: 'invalid' })
+    expect(ipv.reason).toContain('2023-02-26')
+  })
+
+  test('enforces minimum intervals from the previous and first doses', () => {
+    const hepb = evaluateImmunizations({
+      dateOfBirth: dob,
+      asOf: '2023-07-10',
+      doses: [
+        { vaccine: 'hepb', date: '2023-04-01' },
+        { vaccine: 'hepb', date: '2023-05-01' },
+        // 24 weeks of age and 8 weeks after dose 2, but only 13 weeks after dose 1
+        { vaccine: 'hepb', date: '2023-07-03' },
+      ],
+    })
+    expect(hepb.doses.map(dose => dose.validity)).toEqual(['valid', 'valid', 'invalid'])
+    const series = hepb.series.find(result => result.vaccine === 'hepb')!
+    expect(series.nextDose?.doseNumber).toBe(3)
+    expect(series.nextDose?.earliestDate).toBe('2023-07-22')
+  })
+
+  test('live vaccines given 1-27 days apart invalidate the second, without grace', () => {
+    const schedule = evaluateImmunizations({
+      dateOfBirth: '2021-01-15',
+      asOf: '2022-04-01',
+      doses: [
+        { vaccine: 'mmr', date: '2022-01-20' },
+        { vaccine: 'var', date: '2022-02-14' },
+      ],
+    })
+    expect(schedule.doses[1]).toMatchObject({ vaccine: 'var', validity: 'invalid' })
+    const varicella = schedule.series.find(series => series.vaccine === 'var')!
+    expect(varicella.nextDose?.doseNumber).toBe(1)
+  })
+  test('doses given after the dose or series maximum age do not count', () => {
+    const rotavirus = evaluateImmunizations({
+      dateOfBirth: '2025-01-01',
+      asOf: '2025-11-01',
+      doses: [
+        { vaccine: 'rv', date: '2025-03-01' },
+        // About 9.5 months: past the 8-month limit for later rotavirus doses
+        { vaccine: 'rv', date: '2025-10-15' },
+      ],
+    })
+    expect(rotavirus.doses.map(dose => dose.validity)).toEqual(['valid', 'invalid'])
+    expect(rotavirus.doses[1].reason).toContain('maximum age for dose 2 (2025-09-01)')
+
+    const dtap = evaluateImmunizations({ dateOfBirth: '2016-01-15', asOf: '2023-06-01', doses: [{ vaccine: 'dtap', date: '2023-03-01' }] })
+    expect(dtap.doses[0]).toMatchObject({ validity: 'invalid', reason: expect.stringContaining('Tdap/Td') })
+    expect(dtap.series.find(series => series.vaccine === 'dtap')?.validDoses).toBe(0)
+  })
+})
+
+describe('Series status and next dates', () => {
+  test('an unvaccinated 2-month-old is due for the infant series', () => {
+    const schedule = evaluateImmunizations({ dateOfBirth: dob, doses: [], asOf: '2023-03-20' })
+    const status = Object.fromEntries(schedule.series.map(series => [series.vaccine, series.status]))
+    expect(status).toMatchObject({ hepb: 'overdue', rv: 'due', dtap: 'due', hib: 'due', pcv: 'due', ipv: 'due', mmr: 'upcoming' })
+    expect(schedule.series.find(series => series.vaccine === 'mmr')!.nextDose?.earliestDate).toBe('2024-01-15')
+  })
+
+  test('rotavirus is not started from 15 weeks', () => {
+    expect(seriesFor([], '2023-05-10', 'rv').status).toBe('not-recommended')
+    expect(seriesFor([{ vaccine: 'rv', date: '2023-03-15', product: 'RV1' }, { vaccine: 'rv', date: '2023-05-15', product: 'RV1' }], '2023-06-01', 'rv').status).toBe('complete')
+  })
+
+  test('Hib and PCV need fewer doses when started late', () => {
+    // First Hib dose at 15 months or older completes the series
+    expect(seriesFor([{ vaccine: 'hib', date: '2024-05-01' }], '2024-06-01', 'hib').status).toBe('complete')
+    // First PCV dose at 12-23 months: two doses 8 weeks apart
+    const pcv = seriesFor([{ vaccine: 'pcv', date: '2024-02-01' }], '2024-02-10', 'pcv')
+    expect(pcv).toMatchObject({ status: 'upcoming', dosesNeeded: 2 })
+    expect(pcv.nextDose?.earliestDate).toBe('2024-03-28')
+    // Healthy children 5 years and older do not need catch-up
+    expect(seriesFor([], '2028-02-01', 'hib').status).toBe('not-recommended')
+  })
+
+  test('DTaP dose 5 is not needed when dose 4 was given at 4 years', () => {
+    const doses: DoseGiven[] = ['2023-03-01', '2023-05-01', '2023-07-01', '2027-02-01'].map(date => ({ vaccine: 'dtap', date }))
+    expect(seriesFor(doses, '2027-03-01', 'dtap')).toMatchObject({ status: 'complete', dosesNeeded: 4 })
+  })
+
+  test('rejects invalid input', () => {
+    expect(() => evaluateImmunizations({ dateOfBirth: '2023-02-30', doses: [] })).toThrow(ImmunizationError)
+    expect(() => evaluateImmunizations({ dateOfBirth: dob, doses: [{ vaccine: 'dtap', date: '2022-12-01' }], asOf: '2023-06-01' })).toThrow('between the date of birth')
+    expect(() => evaluateImmunizations({ dateOfBirth: '2000-01-01', doses: [], asOf: '2023-06-01' })).toThrow('under 19 years')
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  tokenize,
+  buildFullTextQuery,
+  hasLexicalSignals,
+  scoreBM25,
+  reciprocalRankFusion,
+} from '@/lib/lexical-search'
+
+describe('Lexical Search', () => {
+  describe('Tokenization', () => {
+    test('lowercases terms and drops stop words', () => {
+      expect(tokenize('What is the treatment of SCFE in children?')).toEqual(['treatment', 'scfe'])
+    })
+
+    test('keeps dose expressions intact', () => {
+      expect(tokenize('Amoxicillin 90 mg/kg/day')).toEqual(['amoxicillin', '90', 'mg/kg/day'])
+    })
+
+    test('builds an OR full-text query', () => {
+      expect(buildFullTextQuery('HSP purpura')).toBe('hsp or purpura')
+    })
+  })
+
+  describe('Lexical Signals', () => {
+    test('detects abbreviations and eponyms', () => {
+      expect(hasLexicalSignals('Management of SCFE')).toBe(true)
+      expect(hasLexicalSignals('Is HSP self-limited?')).toBe(true)
+      expect(hasLexicalSignals('Kawasaki disease coronary aneurysm')).toBe(true)
+    })
+
+    test('ignores plain descriptive queries', () => {
+      expect(hasLexicalSignals('fever and cough in a toddler')).toBe(false)
+    })
+  })
+
+  describe('BM25 Scoring', () => {
+    const documents = [
+      { id: 'scfe', content: 'Slipped capital femoral epiphysis (SCFE) presents with hip or knee pain. SCFE requires surgical pinning.' },
+      { id: 'hip', content: 'Transient synovitis of the hip causes limp after a viral illness.' },
+      { id: 'asthma', content: 'Asthma exacerbations are treated with albuterol and systemic steroids.' },
+    ]
+
+    test('ranks the document containing the rare term first', () => {
+      const scores = scoreBM25('SCFE hip pain', documents)
+
+      expect(scores[0].id).toBe('scfe')
+      expect(scores[0].matchedTerms).toContain('scfe')
+      expect(scores.map(s => s.id)).not.toContain('asthma')
+    })
+
+    test('returns nothing for queries without searchable terms', () => {
+      expect(scoreBM25('what is the', documents)).toEqual([])
+    })
+  })
+
+  describe('Reciprocal Rank Fusion', () => {
+    test('rewards documents ranked well in both lists', () => {
+      const fused = reciprocalRankFusion([['a', 'b', 'c'], ['b', 'd']], 60)
+
+      const order = Array.from(fused.entries()).sort((x, y) => y[1] - x[1]).map(([id]) => id)
+      expect(order[0]).toBe('b')
+      expect(fused.get('a')).toBeCloseTo(1 / 61)
+      expect(fused.get('b')).toBeCloseTo(1 / 62 + 1 / 61)
+    })
+  })
+})
@@ -0,0 +1,196 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  AllProvidersFailedError,
+  CircuitBreaker,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMProvider,
+  LLMProviderChain,
+  LLMProviderError,
+  MistralProvider,
+  createLLMProviderChain,
+} from '@/lib/llm-provider'
+
+class FakeProvider implements LLMProvider {
+  readonly model = 'fake'
+  calls = 0
+
+  constructor(
+    readonly name: string,
+    private behaviour: Array<'ok' | Error> = ['ok'],
+    private configured = true,
+    private tokens: string[] = ['Hello ', 'world']
+  ) {}
+
+  isConfigured() {
+    return this.configured
+  }
+
+  async chat(): Promise<LLMChatResult> {
+    const outcome = this.behaviour[Math.min(this.calls++, this.behaviour.length - 1)]
+    if (outcome instanceof Error) throw outcome
+    return { content: `answer from ${this.name}`, usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }, provider: this.name, model: this.model }
+  }
+
+  async stream(_request: LLMChatRequest, onToken: (delta: string) => void): Promise<LLMChatResult> {
+    this.tokens.forEach(onToken)
+    return this.chat()
+  }
+}
+
+const request: LLMChatRequest = { messages: [{ role: 'user', content: 'Dose of amoxicillin for otitis media?' }] }
+
+describe('LLM Provider Chain', () => {
+  describe('Fallback', () => {
+    test('fails over to the next provider and records the attempts', async () => {
+      const chain = new LLMProviderChain([
+        new FakeProvider('mistral', [new Error('Mistral API error: 503 - Service Unavailable')]),
+        new FakeProvider('gemini'),
+      ])
+
+      const result = await chain.chat(request)
+
+      expect(result.provider).toBe('gemini')
+      expect(result.attempts.map(a => [a.provider, a.success])).toEqual([['mistral', false], ['gemini', true]])
+      expect(result.attempts[0].error).toContain('503')
+    })
+
+    test('skips providers without credentials', async () => {
+      const chain = new LLMProviderChain([new FakeProvider('mistral', ['ok'], false), new FakeProvider('gemini')])
+
+      const result = await chain.chat(request)
+
+      expect(result.attempts[0]).toMatchObject({ provider: 'mistral', skipped: 'not_configured' })
+      expect(result.provider).toBe('gemini')
+    })
+
+    test('throws with every attempt when all providers fail', async () => {
+      const chain = new LLMProviderChain([
+        new FakeProvider('mistral', [new Error('down')]),
+        new FakeProvider('gemini', [new Error('down')]),
+      ])
+
+      const error = await chain.chat(request).catch(e => e)
+
+      expect(error).toBeInstanceOf(AllProvidersFailedError)
+      expect(error.attempts).toHaveLength(2)
+    })
+
+    test('does not restart a stream on another provider once tokens were sent', async () => {
+      const failing = new FakeProvider('mistral', [new Error('connection reset')])
+      const backup = new FakeProvider('gemini')
+      const chain = new LLMProviderChain([failing, backup])
+      const tokens: string[] = []
+
+      await expect(chain.stream(request, delta => tokens.push(delta))).rejects.toThrow('connection reset')
+      expect(backup.calls).toBe(0)
+      expect(tokens).toEqual(['Hello ', 'world'])
+    })
+
+    test('fails over a stream that failed before the first token', async () => {
+      const chain = new LLMProviderChain([
+        new FakeProvider('mistral', [new Error('Mistral API error: 429 - Too Many Requests')], true, []),
+        new FakeProvider('gemini', ['ok'], true, ['From gemini']),
+      ])
+      const tokens: string[] = []
+
+      const result = await chain.stream(request, delta => tokens.push(delta))
+
+      expect(result.provider).toBe('gemini')
+      expect(tokens).toEqual(['From gemini'])
+    })
+  })
+
+  describe('Circuit Breaker', () => {
+    test('opens after repeated failures and lets a trial request through after the cooldown', async () => {
+      let now = 0
+      const mistral = new FakeProvider('mistral', [new Error('down'), new Error('down'), 'ok'])
+      const chain = new LLMProviderChain([mistral, new FakeProvider('gemini')], () => new CircuitBreaker(2, 1000, () => now))
+
+      await chain.chat(request)
+      await chain.chat(request)
+      const skipped = await chain.chat(request)
+
+      expect(skipped.attempts[0]).toMatchObject({ provider: 'mistral', skipped: 'circuit_open' })
+      expect(mistral.calls).toBe(2)
+      expect(chain.getStatus()[0].circuit).toBe('open')
+
+      now = 1000
+      const recovered = await chain.chat(request)
+
+      expect(recovered.provider).toBe('mistral')
+      expect(chain.getStatus()[0]).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 })
+    })
+
+    test('opens immediately when the provider is rate limited', async () => {
+      const chain = new LLMProviderChain([
+        new FakeProvider('mistral', [new Error('Mistral API error: 429 - Too Many Requests')]),
+        new FakeProvider('gemini'),
+      ])
+
+      await chain.chat(request)
+
+      expect(chain.getStatus()[0].circuit).toBe('open')
+    })
+
+    test('re-opens when the half-open trial fails', () => {
+      let now = 0
+      const breaker = new CircuitBreaker(1, 1000, () => now)
+
+      breaker.recordFailure()
+      now = 1000
+      expect(breaker.canRequest()).toBe(true)
+      breaker.recordFailure()
+
+      expect(breaker.getState()).toBe('open')
+      expect(breaker.canRequest()).toBe(false)
+    })
+
+    test('lets only one trial request through while half-open', () => {
+      let now = 0
+      const breaker = new CircuitBreaker(1, 1000, () => now)
+
+      breaker.recordFailure()
+      now = 1000
+      expect(breaker.canRequest()).toBe(true)
+      expect(breaker.canRequest()).toBe(false)
+      expect(breaker.getState()).toBe('half_open')
+
+      breaker.recordSuccess()
+      expect(breaker.canRequest()).toBe(true)
+      expect(breaker.canRequest()).toBe(true)
+    })
+
+    test('fails over after a single Mistral request when rate limited', async () => {
+      const originalFetch = global.fetch
+      let fetches = 0
+      global.fetch = (async () => {
+        fetches++
+        return new Response(JSON.stringify({ error: { message: 'Too Many Requests' } }), { status: 429 })
+      }) as typeof fetch
+
+      try {
+        const chain = new LLMProviderChain([new MistralProvider(), new FakeProvider('gemini')])
+        const result = await chain.chat(request)
+
+        expect(fetches).toBe(1)
+        expect(result.provider).toBe('gemini')
+        expect(chain.getStatus()[0].circuit).toBe('open')
+      } finally {
+        global.fetch = originalFetch
+      }
+    })
+  })
+
+  test('reads the HTTP status from service errors', () => {
+    expect(LLMProviderError.from('gemini', new Error('Gemini API error: 401 - API key not valid')).status).toBe(401)
+  })
+
+  test('rejects unknown provider names', () => {
+    expect(() => createLLMProviderChain(['mistral', 'gpt'])).toThrow('Unknown LLM provider(s): gpt')
+  })
+})
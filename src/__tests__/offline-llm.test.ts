@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { OfflineLLMService, offlineLLMService } from '@/lib/offline-llm'
+import { MistralService } from '@/lib/mistral-service'
+import { GeminiService } from '@/lib/gemini-service'
+import { LLMProviderChain, LocalLLMProvider, MistralProvider } from '@/lib/llm-provider'
+import { buildMedicalMessages } from '@/lib/medical-prompts'
+import { GroundednessChecker } from '@/lib/groundedness'
+
+const chunk = {
+  id: 'croup-treatment',
+  content: 'Croup is treated with a single dose of oral dexamethasone 0.6 mg/kg. Nebulized epinephrine is given for stridor at rest. Most children recover within a week.',
+  metadata: { chapter: 'Croup', section: 'Treatment' },
+}
+
+const messages = buildMedicalMessages({
+  query: 'What is the dexamethasone dose for croup?',
+  context: `[Document 1]\nSource: Croup - Treatment\n\nContent:\n${chunk.content}\n`,
+  sources: ['Croup - Treatment'],
+})
+
+function request(content = messages) {
+  return { model: 'local', messages: content }
+}
+
+describe('Local LLM', () => {
+  describe('Templated Responses', () => {
+    test('answers medical prompts deterministically from the supplied context', async () => {
+      const service = new OfflineLLMService()
+
+      const first = await service.chatCompletion(request())
+      const second = await service.chatCompletion(request())
+
+      expect(first.choices[0].message.content).toBe(second.choices[0].message.content)
+      expect(first.choices[0].message.content).toContain('dexamethasone 0.6 mg/kg')
+      expect(first.usage.total_tokens).toBeGreaterThan(0)
+    })
+
+    test('produces answers the groundedness checker accepts', async () => {
+      const response = await new OfflineLLMService().chatCompletion(request())
+
+      const report = new GroundednessChecker().check(response.choices[0].message.content, [chunk])
+
+      expect(report.unsupportedNumericCount).toBe(0)
+      expect(report.supportedCount).toBeGreaterThan(0)
+    })
+
+    test('returns the original content for Gemini enhancement requests', async () => {
+      const gemini = new GeminiService({ mode: 'local' })
+
+      const result = await gemini.enhanceMedicalContent({ originalContent: 'Give dexamethasone 0.6 mg/kg once.', enhancementType: 'clinical_reasoning' })
+
+      expect(result.enhancedContent).toBe('Give dexamethasone 0.6 mg/kg once.')
+      expect(result.usage.totalTokenCount).toBeGreaterThan(0)
+    })
+  })
+
+  describe('Service Integration', () => {
+    test('serves MistralService without an API key, including streaming', async () => {
+      const mistral = new MistralService({ apiKey: '', mode: 'local' })
+      const tokens: string[] = []
+
+      const streamed = await mistral.streamChatCompletion(request(), delta => tokens.push(delta))
+      const completed = await mistral.chatCompletion(request())
+
+      expect(mistral.isConfigured()).toBe(true)
+      expect(tokens.length).toBeGreaterThan(1)
+      expect(tokens.join('')).toBe(completed.choices[0].message.content)
+      expect(streamed.usage.total_tokens).toBe(completed.usage.total_tokens)
+    })
+
+    test('simulated failures drive provider fallback', async () => {
+      const chain = new LLMProviderChain([new LocalLLMProvider(), new MistralProvider(new MistralService({ mode: 'local' }))])
+      offlineLLMService.failNext(1, 429, 'Rate limited')
+
+      const result = await chain.chat({ messages })
+
+      expect(result.attempts[0]).toMatchObject({ provider: 'local', success: false })
+      expect(result.attempts[0].error).toContain('429')
+      expect(chain.getStatus()[0].circuit).toBe('open')
+    })
+
+    test('seeded error rate fails the same requests on every run', async () => {
+      const outcomes = async () => {
+        const service = new OfflineLLMService({ errorRate: 0.5, seed: 7 })
+        const results: boolean[] = []
+        for (let i = 0; i < 8; i++) {
+          results.push(await service.chatCompletion(request()).then(() => true, () => false))
+        }
+        return results
+      }
+
+      const first = await outcomes()
+
+      expect(await outcomes()).toEqual(first)
+      expect(first).toContain(true)
+      expect(first).toContain(false)
+    })
+  })
+
+  describe('Scripts and Fixtures', () => {
+    test('scripted responses take precedence over templates', async () => {
+      const service = new OfflineLLMService({ scripts: [{ match: /dexamethasone dose/i, response: 'Scripted answer' }] })
+
+      const response = await service.chatCompletion(request())
+
+      expect(response.choices[0].message.content).toBe('Scripted answer')
+    })
+
+    test('replays a recorded fixture for the exact same messages only', async () => {
+      const service = new OfflineLLMService()
+      service.recordFixture(messages, 'Recorded answer')
+
+      const replayed = await service.chatCompletion(request())
+      const other = await service.chatCompletion(request([{ role: 'user', content: 'Something else' }]))
+
+      expect(replayed.choices[0].message.content).toBe('Recorded answer')
+      expect(other.choices[0].message.content).not.toBe('Recorded answer')
+    })
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  ProtocolError,
+  addNote,
+  completeStep,
+  endProtocolRun,
+  formatElapsed,
+  formatEventLog,
+  getEmergencyProtocol,
+  recordDose,
+  reminderStates,
+  startProtocolRun,
+} from '@/lib/protocol-runner'
+
+const START = Date.UTC(2025, 0, 1, 10, 0, 0)
+const minutes = (count: number) => START + count * 60_000
+
+describe('Protocol Runner', () => {
+  test('checks steps off with timestamps and ignores repeats', () => {
+    const protocol = getEmergencyProtocol('anaphylaxis')
+    let run = startProtocolRun(protocol, START)
+    run = completeStep(run, protocol, 'position', minutes(1))
+    run = completeStep(run, protocol, 'position', minutes(2))
+    expect(run.completedSteps).toEqual({ position: minutes(1) })
+    expect(run.events.map(event => event.type)).toEqual(['start', 'step'])
+    expect(() => completeStep(run, protocol, 'missing', minutes(2))).toThrow(ProtocolError)
+  })
+
+  test('starts the epinephrine repeat timer when the dose step is checked', () => {
+    const protocol = getEmergencyProtocol('pals')
+    let run = startProtocolRun(protocol, START)
+    expect(reminderStates(run, protocol, minutes(1)).map(state => state.status)).toEqual(['inactive', 'inactive'])
+
+    run = completeStep(run, protocol, 'epinephrine', minutes(1))
+    const epinephrine = (at: number) => reminderStates(run, protocol, at).find(state => state.reminder.id === 'epinephrine')!
+    expect(epinephrine(minutes(3))).toMatchObject({ status: 'waiting', doseCount: 1, dueInMs: 60_000 })
+    expect(epinephrine(minutes(5)).status).toBe('due')
+    expect(epinephrine(minutes(6.5)).status).toBe('overdue')
+
+    run = recordDose(run, protocol, 'epinephrine', minutes(6.5))
+    expect(epinephrine(minutes(7))).toMatchObject({ status: 'waiting', doseCount: 2, lastDoseAt: minutes(6.5) })
+  })
+
+  test('times reminders from the start of the run and stops at the maximum dose count', () => {
+    const protocol = getEmergencyProtocol('febrile-seizure')
+    let run = startProtocolRun(protocol, START)
+    expect(reminderStates(run, protocol, minutes(5))[0].status).toBe('due')
+
+    run = completeStep(run, protocol, 'benzodiazepine', minutes(5))
+    run = recordDose(run, protocol, 'benzodiazepine', minutes(10))
+    expect(reminderStates(run, protocol, minutes(20))[0]).toMatchObject({ status: 'complete', doseCount: 2 })
+  })
+
+  test('rejects events after the run has ended', () => {
+    const protocol = getEmergencyProtocol('pals')
+    const run = endProtocolRun(startProtocolRun(protocol, START), minutes(10), 'ROSC')
+    expect(run.events[run.events.length - 1]).toEqual({ at: minutes(10), type: 'end', text: 'ROSC' })
+    expect(() => addNote(run, 'late note', minutes(11))).toThrow('Protocol run has already ended')
+    expect(reminderStates(run, protocol, minutes(11)).every(state => state.status === 'inactive')).toBe(true)
+  })
+
+  test('formats elapsed time', () => {
+    expect(formatElapsed(0)).toBe('0:00')
+    expect(formatElapsed(125_000)).toBe('2:05')
+    expect(formatElapsed(3_725_000)).toBe('1:02:05')
+    expect(formatElapsed(-5000)).toBe('0:00')
+  })
+
+  test('exports a time-stamped event log as text and CSV', () => {
+    const protocol = getEmergencyProtocol('anaphylaxis')
+    let run = startProtocolRun(protocol, START)
+    run = completeStep(run, protocol, 'epinephrine', minutes(0.5))
+    run = addNote(run, 'Urticaria, "wheeze"', minutes(1))
+    run = endProtocolRun(run, minutes(12))
+
+    const text = formatEventLog(run, protocol)
+    expect(text).toContain('Started: 2025-01-01T10:00:00.000Z')
+    expect(text).toContain('Duration: 12:00')
+    expect(text).toContain('[2025-01-01T10:00:30.000Z] +0:30 DOSE: Epinephrine IM 0.01 mg/kg (max 0.5 mg) if not improving (#1)')
+    expect(text).toContain('Steps not checked off:\n- Position patient supine with legs elevated')
+
+    const csv = formatEventLog(run, protocol, 'csv').split('\n')
+    expect(csv[0]).toBe('time,elapsed,event,description')
+    expect(csv).toContain('2025-01-01T10:01:00.000Z,1:00,note,"Urticaria, ""wheeze"""')
+    expect(csv).toHaveLength(run.events.length + 1)
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { ResuscitationError, estimateWeightFromAge, generateResuscitationSheet, zoneForLength, zoneForWeight } from '@/lib/resuscitation'
+
+describe('Resuscitation', () => {
+  describe('Weight and zone', () => {
+    test('estimates weight from age with the APLS formulas', () => {
+      expect(estimateWeightFromAge(0.5)).toBe(7)
+      expect(estimateWeightFromAge(3)).toBe(14)
+      expect(estimateWeightFromAge(8)).toBe(31)
+      expect(() => estimateWeightFromAge(15)).toThrow(ResuscitationError)
+    })
+
+    test('maps length and weight to color zones', () => {
+      expect(zoneForLength(70)?.color).toBe('Red')
+      expect(zoneForLength(100)?.color).toBe('White')
+      expect(zoneForLength(160)).toBeUndefined()
+      expect(zoneForWeight(10)?.color).toBe('Purple')
+      // Between zones takes the heavier zone
+      expect(zoneForWeight(11.5)?.color).toBe('Yellow')
+    })
+
+    test('prefers measured weight, then length, then age', () => {
+      expect(generateResuscitationSheet({ weightKg: 12, lengthCm: 100, ageYears: 3 })).toMatchObject({ weightKg: 12, weightSource: 'measured' })
+      expect(generateResuscitationSheet({ lengthCm: 100, ageYears: 3 })).toMatchObject({ weightKg: 16.5, weightSource: 'length', zone: { color: 'White' } })
+      const byAge = generateResuscitationSheet({ ageYears: 3 })
+      expect(byAge).toMatchObject({ weightKg: 14, weightSource: 'age', zone: { color: 'Yellow' } })
+      expect(byAge.warnings[0]).toContain('estimated from age')
+    })
+
+    test('rejects missing or invalid inputs', () => {
+      expect(() => generateResuscitationSheet({})).toThrow('Weight, length or age is required')
+      expect(() => generateResuscitationSheet({ weightKg: 0 })).toThrow(ResuscitationError)
+      expect(() => generateResuscitationSheet({ lengthCm: 30 })).toThrow(ResuscitationError)
+      expect(() => generateResuscitationSheet({ weightKg: 10, ageYears: -1 })).toThrow(ResuscitationError)
+    })
+  })
+
+  describe('Sheet', () => {
+    test('calculates drug doses and volumes for a 10 kg child', () => {
+      const sheet = generateResuscitationSheet({ weightKg: 10, ageYears: 1 })
+      const doses = sheet.medications.map(({ name, route, amount, volumeMl }) => [name, route, amount, volumeMl])
+      expect(doses).toEqual([
+        ['Epinephrine', 'IV/IO', 0.1, 1],
+        ['Epinephrine', 'ETT', 1, 1],
+        ['Amiodarone', 'IV/IO', 50, 1],
+        ['Adenosine', 'IV/IO', 1, 0.3],
+        ['Adenosine', 'IV/IO', 2, 0.65],
+        ['Atropine', 'IV/IO', 0.2, 2],
+        ['Dextrose 10%', 'IV/IO', 5, 50],
+      ])
+      expect(sheet.fluidBolusMl).toBe(200)
+    })
+
+    test('caps doses and energy at adult maximums', () => {
+      const sheet = generateResuscitationSheet({ weightKg: 70 })
+      const adenosine = sheet.medications.filter(drug => drug.name === 'Adenosine')
+      expect(adenosine.map(drug => [drug.amount, drug.capped])).toEqual([[6, true], [12, true]])
+      expect(sheet.medications.find(drug => drug.name === 'Amiodarone')?.amount).toBe(300)
+      expect(sheet.fluidBolusMl).toBe(1000)
+      expect(sheet.defibrillationJ).toEqual({ first: 140, second: 200, max: 200 })
+      expect(sheet.zone).toBeUndefined()
+    })
+
+    test('gives defibrillation and cardioversion energy per kilogram', () => {
+      const sheet = generateResuscitationSheet({ weightKg: 10 })
+      expect(sheet.defibrillationJ).toEqual({ first: 20, second: 40, max: 100 })
+      expect(sheet.cardioversionJ).toEqual([5, 10, 20])
+    })
+
+    test('sizes the endotracheal tube by age, or by zone in infants', () => {
+      expect(generateResuscitationSheet({ weightKg: 10, ageYears: 1 }).airway).toEqual({ ettCuffed: 3.5, ettUncuffed: 4, depthCm: 10.5, basis: 'age' })
+      expect(generateResuscitationSheet({ weightKg: 20, ageYears: 6 }).airway).toEqual({ ettCuffed: 5, ettUncuffed: 5.5, depthCm: 15, basis: 'age' })
+      expect(generateResuscitationSheet({ lengthCm: 62 }).airway).toEqual({ ettCuffed: 3, ettUncuffed: 3.5, depthCm: 9, basis: 'zone' })
+    })
+  })
+})
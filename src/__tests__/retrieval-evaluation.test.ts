@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+
+import path from 'path'
+import { describe, test, expect } from '@jest/globals'
+import { RetrievalEvaluationService, EvaluationReport, scoreRanking } from '@/lib/retrieval-evaluation'
+import type { EnhancedRAGPipeline, EnhancedRAGResult } from '@/lib/rag-pipeline'
+
+const service = new RetrievalEvaluationService()
+const fixturePath = path.join(__dirname, '../data/pediatric-golden-set.json')
+
+function report(config: string, queries: Array<{ id: string; found: string[]; ndcgAtK: number }>): EvaluationReport {
+  return {
+    config,
+    goldenSet: 'test',
+    k: 5,
+    summary: { recallAtK: 0, reciprocalRank: 0, ndcgAtK: 0, queries: queries.length, failures: 0 },
+    queries: queries.map(q => ({
+      ...q,
+      query: q.id,
+      expected: ['A', 'B'],
+      missed: [],
+      retrieved: [],
+      recallAtK: q.found.length / 2,
+      reciprocalRank: q.ndcgAtK > 0 ? 1 : 0,
+    })),
+    processingTime: 0,
+  }
+}
+
+describe('Retrieval Evaluation', () => {
+  describe('Metrics', () => {
+    test('computes recall@k, reciprocal rank and nDCG', () => {
+      const metrics = scoreRanking(['Croup/Treatment', 'Asthma/Acute Exacerbation', 'Asthma/Long-term Control'], ['Asthma/Acute Exacerbation'], 5)
+
+      expect(metrics.recallAtK).toBe(1)
+      expect(metrics.reciprocalRank).toBe(0.5)
+      expect(metrics.ndcgAtK).toBeCloseTo(1 / Math.log2(3))
+    })
+
+    test('matches chapter-level targets and counts each target once', () => {
+      const metrics = scoreRanking(['SCFE/Clinical Manifestations', 'SCFE/Treatment'], ['SCFE'], 5)
+
+      expect(metrics.found).toEqual(['SCFE'])
+      expect(metrics.ndcgAtK).toBe(1)
+    })
+
+    test('ignores hits beyond k', () => {
+      const metrics = scoreRanking(['Croup', 'Asthma', 'Kawasaki Disease'], ['Kawasaki Disease'], 2)
+
+      expect(metrics.recallAtK).toBe(0)
+      expect(metrics.reciprocalRank).toBe(0)
+    })
+  })
+
+  describe('Offline Fixture', () => {
+    test('every expected target exists in the fixture corpus', async () => {
+      const fixture = await service.loadFixture(fixturePath)
+      const targets = fixture.documents.map(doc => `${doc.chapter}/${doc.section}`)
+
+      fixture.queries.forEach(query => {
+        query.expected.forEach(expected => {
+          expect(targets.some(target => target === expected || target.startsWith(`${expected}/`))).toBe(true)
+        })
+      })
+    })
+
+    test('evaluates vector search against the in-memory fixture', async () => {
+      const fixture = await service.loadFixture(fixturePath)
+      const database = await service.buildFixtureDatabase(fixture)
+
+      const result = await service.evaluate(fixture, {
+        name: 'vector',
+        k: 5,
+        target: { kind: 'vector', database, searchOptions: { searchStrategy: 'general_medical', threshold: 0.01 } },
+      })
+
+      expect(result.summary.queries).toBe(fixture.queries.length)
+      expect(result.summary.failures).toBe(0)
+      expect(result.summary.recallAtK).toBeGreaterThan(0.5)
+      expect(result.queries.find(q => q.id === 'q-dka')?.reciprocalRank).toBe(1)
+    })
+
+    test('evaluates the pipeline through execute', async () => {
+      const pipeline: Pick<EnhancedRAGPipeline, 'execute'> = {
+        execute: async () => ({
+          relevantDocuments: [{ metadata: { chapter: 'Croup', section: 'Treatment' } }],
+        } as Partial<EnhancedRAGResult> as EnhancedRAGResult),
+      }
+
+      const result = await service.evaluate(
+        { name: 'croup', queries: [{ id: 'q1', query: 'croup steroids', expected: ['Croup/Treatment'] }] },
+        { name: 'pipeline', target: { kind: 'pipeline', pipeline } }
+      )
+
+      expect(result.summary.reciprocalRank).toBe(1)
+    })
+  })
+
+  describe('Comparison', () => {
+    test('reports per-query gains and losses between configurations', () => {
+      const baseline = report('baseline', [
+        { id: 'q1', found: ['A'], ndcgAtK: 0.5 },
+        { id: 'q2', found: ['A', 'B'], ndcgAtK: 1 },
+        { id: 'q3', found: [], ndcgAtK: 0 },
+      ])
+      const candidate = report('candidate', [
+        { id: 'q1', found: ['A', 'B'], ndcgAtK: 1 },
+        { id: 'q2', found: ['B'], ndcgAtK: 0.5 },
+        { id: 'q3', found: [], ndcgAtK: 0 },
+      ])
+
+      const comparison = service.compare(baseline, candidate)
+
+      expect(comparison.queries.map(q => q.status)).toEqual(['improved', 'regressed', 'unchanged'])
+      expect(comparison.queries[0].gained).toEqual(['B'])
+      expect(comparison.queries[1].lost).toEqual(['A'])
+      expect(comparison).toMatchObject({ improved: 1, regressed: 1, unchanged: 1 })
+    })
+
+    test('refuses to compare runs with different k', () => {
+      expect(() => service.compare(report('a', []), { ...report('b', []), k: 10 })).toThrow('same golden set and k')
+    })
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { createChatEventStream, formatServerSentEvent, parseServerSentEvents, readChatEventStream, ChatStreamEvent } from '@/lib/sse'
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+async function collect<T>(events: AsyncGenerator<T>): Promise<T[]> {
+  const result: T[] = []
+  for await (const event of events) {
+    result.push(event)
+  }
+  return result
+}
+
+describe('Server-Sent Events', () => {
+  test('formats multi-line payloads as separate data lines', () => {
+    expect(formatServerSentEvent('token', 'a\nb')).toBe('event: token\ndata: a\ndata: b\n\n')
+  })
+
+  test('parses events split across network chunks', async () => {
+    const events = await collect(parseServerSentEvents(streamOf([
+      'data: {"choices":[{"delta":{"content":"Hel',
+      'lo"}}]}\n\ndata: [DONE]\n\n',
+    ])))
+
+    expect(events).toEqual([
+      { event: 'message', data: '{"choices":[{"delta":{"content":"Hello"}}]}' },
+      { event: 'message', data: '[DONE]' },
+    ])
+  })
+
+  test('round-trips chat events through the stream', async () => {
+    const body = createChatEventStream(async (send) => {
+      send({ type: 'stage', stage: 'retrieval', status: 'completed', step: 'document_retrieval' })
+      send({ type: 'token', delta: 'IVIG 2 g/kg\n' })
+      send({ type: 'done', response: 'IVIG 2 g/kg\n', citations: [] })
+    })
+
+    const events = await collect(readChatEventStream(body))
+
+    expect(events.map(event => event.type)).toEqual(['stage', 'token', 'done'])
+    expect((events[1] as Extract<ChatStreamEvent, { type: 'token' }>).delta).toBe('IVIG 2 g/kg\n')
+  })
+
+  test('ends the stream with an error event when the handler throws', async () => {
+    const body = createChatEventStream(async (send) => {
+      send({ type: 'token', delta: 'Partial' })
+      throw new Error('Workflow execution failed')
+    })
+
+    const events = await collect(readChatEventStream(body))
+
+    expect(events[events.length - 1]).toEqual({ type: 'error', error: 'Workflow execution failed' })
+  })
+})
+
+describe('Mistral Streaming', () => {
+  test('forwards token deltas and returns the assembled response with usage', async () => {
+    process.env.MISTRAL_API_KEY = 'test-key'
+    const { MistralService } = await import('@/lib/mistral-service')
+    const service = new MistralService({ apiKey: 'test-key' })
+
+    const originalFetch = global.fetch
+    global.fetch = (async () => new Response(streamOf([
+      'data: {"choices":[{"delta":{"content":"Croup is "}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"treated with dexamethasone."}}],"usage":{"total_tokens":12}}\n\n',
+      'data: [DONE]\n\n',
+    ]), { status: 200 })) as typeof fetch
+
+    try {
+      const deltas: string[] = []
+      const result = await service.streamMedicalResponse(
+        { query: 'croup treatment', context: '', sources: [] },
+        delta => deltas.push(delta)
+      )
+
+      expect(deltas).toEqual(['Croup is ', 'treated with dexamethasone.'])
+      expect(result.response).toBe('Croup is treated with dexamethasone.')
+      expect(result.usage).toEqual({ total_tokens: 12 })
+    } finally {
+      global.fetch = originalFetch
+    }
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  DrugDosageRow,
+  TreatmentPlanService,
+  TreatmentRegimen,
+  parseTreatmentPlan,
+  parseWeightKg,
+  verifyRegimen,
+} from '@/lib/treatment-plan'
+import { LLMProviderChain, LocalLLMProvider } from '@/lib/llm-provider'
+
+const amoxicillinRows: DrugDosageRow[] = [
+  { drug_name: 'Amoxicillin', age_group: 'child', indication: 'acute otitis media', dosage: '80-90 mg/kg/day', max_dosage: '4 g/day' },
+  { drug_name: 'Amoxicillin', age_group: 'child', indication: 'streptococcal pharyngitis', dosage: '50 mg/kg/day', max_dosage: '1000 mg/day' },
+]
+
+const amoxicillin: TreatmentRegimen = {
+  drug: 'Amoxicillin',
+  route: 'PO',
+  mgPerKg: 45,
+  doseBasis: 'dose',
+  frequency: 'every 12 hours',
+  duration: '10 days',
+  line: 'first-line',
+}
+
+describe('Treatment Plans', () => {
+  describe('Parsing', () => {
+    test('repairs aliased keys and unit-bearing numbers', () => {
+      const result = parseTreatmentPlan(JSON.stringify({
+        medications: [{ medication: 'Amoxicillin', route: 'PO', dose_per_kg: '45 mg/kg', basis: 'per dose', frequency: 'BID', duration: '10 days', max_dose: { mg: '2000', per: 'dose' } }],
+        monitoring: 'Fever curve; hydration',
+        education: [],
+        when_to_seek_care: [],
+      }))
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.repaired).toBe(true)
+      expect(result.plan.regimens[0]).toMatchObject({ drug: 'Amoxicillin', mgPerKg: 45, doseBasis: 'dose', maxDose: { mg: 2000, per: 'dose' }, line: 'first-line' })
+      expect(result.plan.monitoring).toEqual(['Fever curve', 'hydration'])
+    })
+
+    test('reads patient weights in kilograms or pounds', () => {
+      expect(parseWeightKg('20 kg')).toBe(20)
+      expect(parseWeightKg('44 lb')).toBeCloseTo(19.96, 2)
+      expect(parseWeightKg('heavy')).toBeNaN()
+    })
+  })
+
+  describe('Dose verification', () => {
+    test('verifies a per-dose regimen against a per-day reference for the matching indication', () => {
+      const result = verifyRegimen(amoxicillin, amoxicillinRows, { weightKg: 20, condition: 'Acute otitis media' })
+
+      expect(result.doseCheck.status).toBe('verified')
+      expect(result.doseCheck.calculatedDoseMg).toBe(900)
+      expect(result.doseCheck.reference?.indication).toBe('acute otitis media')
+    })
+
+    test('flags a dose outside the reference range', () => {
+      const result = verifyRegimen({ ...amoxicillin, mgPerKg: 90 }, amoxicillinRows, { weightKg: 20, condition: 'acute otitis media' })
+
+      expect(result.doseCheck.status).toBe('flagged')
+      expect(result.doseCheck.alerts.map(alert => alert.code)).toContain('OUT_OF_RANGE')
+    })
+
+    test('flags a weight-based dose above the maximum', () => {
+      const result = verifyRegimen(amoxicillin, amoxicillinRows, { weightKg: 60, condition: 'acute otitis media' })
+
+      expect(result.doseCheck.status).toBe('flagged')
+      expect(result.doseCheck.alerts).toEqual([
+        expect.objectContaining({ code: 'EXCEEDS_MAX_DOSE', severity: 'error', message: expect.stringContaining('5400 mg/day') }),
+      ])
+    })
+
+    test('flags a stated maximum above the reference maximum', () => {
+      const result = verifyRegimen({ ...amoxicillin, maxDose: { mg: 3000, per: 'dose' } }, amoxicillinRows, { weightKg: 20, condition: 'acute otitis media' })
+
+      expect(result.doseCheck.alerts.map(alert => alert.code)).toEqual(['MAX_DOSE_ABOVE_REFERENCE'])
+    })
+
+    test('reads unlabelled reference ranges as daily totals and applies per-kg maximums', () => {
+      const ibuprofen: TreatmentRegimen = { ...amoxicillin, drug: 'Ibuprofen', mgPerKg: 15, frequency: 'every 6 hours' }
+      const result = verifyRegimen(ibuprofen, [{ drug_name: 'Ibuprofen', dosage: '10-15 mg/kg', max_dosage: '40 mg/kg/day' }], { weightKg: 20 })
+
+      expect(result.doseCheck.status).toBe('flagged')
+      expect(result.doseCheck.alerts.map(alert => alert.code)).toEqual(['OUT_OF_RANGE', 'EXCEEDS_MAX_DOSE'])
+      expect(result.doseCheck.alerts[1].message).toContain('60 mg/kg/day')
+    })
+
+    test('flags a per-dose regimen within range whose daily total exceeds the per-kg maximum', () => {
+      const ibuprofen: TreatmentRegimen = { ...amoxicillin, drug: 'Ibuprofen', mgPerKg: 10, frequency: 'every 4 hours' }
+      const result = verifyRegimen(ibuprofen, [{ drug_name: 'Ibuprofen', dosage: '5-10 mg/kg/dose', max_dosage: '40 mg/kg/day' }])
+
+      expect(result.doseCheck.alerts.map(alert => alert.code)).toEqual(['EXCEEDS_MAX_DOSE', 'NO_WEIGHT'])
+    })
+
+    test('only compares against reference rows for the patient age group', () => {
+      const rows: DrugDosageRow[] = [
+        { drug_name: 'Amoxicillin', age_group: 'infant', dosage: '30 mg/kg/day', max_dosage: '30 mg/kg/day' },
+        { drug_name: 'Amoxicillin', age_group: '1-12 years', dosage: '80-90 mg/kg/day', max_dosage: '4 g/day' },
+      ]
+
+      expect(verifyRegimen(amoxicillin, rows, { weightKg: 20, patientAge: '5' }).doseCheck.status).toBe('verified')
+      const infant = verifyRegimen(amoxicillin, rows, { weightKg: 8, patientAge: '6 months' })
+      expect(infant.doseCheck.reference?.ageGroup).toBe('infant')
+      expect(infant.doseCheck.alerts.map(alert => alert.code)).toEqual(['OUT_OF_RANGE', 'EXCEEDS_MAX_DOSE'])
+      const adult = verifyRegimen(amoxicillin, rows, { weightKg: 70, patientAge: '20 years' })
+      expect(adult.doseCheck.alerts[0]).toMatchObject({ code: 'NOT_IN_REFERENCE', message: expect.stringContaining('age 20 years') })
+    })
+
+    test('marks drugs missing from the reference or without a weight as unverified', () => {
+      const result = verifyRegimen(amoxicillin, [])
+
+      expect(result.doseCheck.status).toBe('unverified')
+      expect(result.doseCheck.alerts.map(alert => alert.code)).toEqual(['NOT_IN_REFERENCE', 'NO_WEIGHT'])
+    })
+  })
+
+  test('generates and verifies a plan end to end against the offline model', async () => {
+    const lookups: string[] = []
+    const service = new TreatmentPlanService(new LLMProviderChain([new LocalLLMProvider()]), async drug => {
+      lookups.push(drug)
+      return []
+    })
+
+    const result = await service.generate({ condition: 'otitis media', patientAge: '4 years', patientWeightKg: 16 })
+
+    expect(lookups).toEqual(['Offline placeholder'])
+    expect(result.doseCheck).toMatchObject({ status: 'unverified', weightKg: 16 })
+    expect(result.plan.regimens[0].doseCheck.calculatedDoseMg).toBe(16)
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, expect } from '@jest/globals'
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseService: { from: jest.fn() },
+  TABLES: { NELSON_DOCUMENTS: 'nelson_documents', NELSON_EMBEDDINGS: 'nelson_embeddings' },
+}))
+
+import { InMemoryVectorStore, createVectorStore } from '@/lib/vector-store'
+import { VectorDatabaseService } from '@/lib/vector-database'
+import { embeddingService, EmbeddingProvider, EmbeddingService } from '@/lib/embeddings'
+
+const documents = [
+  { id: 'asthma', title: 'Asthma', chapter: 'Respiratory', content: 'Asthma exacerbations are treated with albuterol.', age_groups: ['child'] },
+  { id: 'croup', title: 'Croup', chapter: 'Respiratory', content: 'Croup causes a barking cough and stridor.', age_groups: ['toddler'] },
+  { id: 'kawasaki', title: 'Kawasaki Disease', chapter: 'Rheumatology', content: 'Kawasaki disease is treated with IVIG.', age_groups: ['child'] },
+]
+
+const vectors: Record<string, number[]> = {
+  asthma: [1, 0, 0],
+  croup: [0.8, 0.6, 0],
+  kawasaki: [0, 0, 1],
+}
+
+const fakeProvider: EmbeddingProvider = {
+  name: 'local',
+  model: 'fake-3',
+  dimension: 3,
+  embed: async (texts: string[]) => texts.map(() => [1, 0, 0]),
+}
+
+async function seededStore() {
+  const store = new InMemoryVectorStore()
+  await store.upsertDocuments(documents)
+  for (const doc of documents) {
+    await store.insertEmbedding({ documentId: doc.id, embedding: vectors[doc.id], contentHash: `hash-${doc.id}` })
+  }
+  return store
+}
+
+describe('Vector Store', () => {
+  describe('In-memory Backend', () => {
+    test('ranks documents by cosine similarity', async () => {
+      const store = await seededStore()
+      const results = await store.searchByVector([1, 0, 0], { limit: 2 })
+
+      expect(results.map(doc => doc.id)).toEqual(['asthma', 'croup'])
+      expect(results[0].similarity).toBeCloseTo(1)
+      expect(results[0].metadata.chapter).toBe('Respiratory')
+    })
+
+    test('applies chapter and age group filters', async () => {
+      const store = await seededStore()
+
+      const byChapter = await store.searchByVector([0, 0, 1], { limit: 5, filters: { chapter: 'Respiratory' } })
+      expect(byChapter.map(doc => doc.id).sort()).toEqual(['asthma', 'croup'])
+
+      const byAge = await store.searchByVector([1, 0, 0], { limit: 5, filters: { age_groups: ['toddler'] } })
+      expect(byAge.map(doc => doc.id)).toEqual(['croup'])
+    })
+
+    test('scores full-text matches with BM25', async () => {
+      const store = await seededStore()
+      const results = await store.searchByText('IVIG treatment', [1, 0, 0], { limit: 5 })
+
+      expect(results[0].id).toBe('kawasaki')
+      expect(results[0].lexicalScore).toBeGreaterThan(0)
+    })
+
+    test('tracks content hashes and removes embeddings with their document', async () => {
+      const store = await seededStore()
+      expect((await store.getContentHashes(['croup'])).get('croup')).toBe('hash-croup')
+
+      await store.deleteEmbeddings('croup')
+      await store.deleteDocuments(['croup'])
+
+      const stats = await store.getStats()
+      expect(stats).toEqual({ totalDocuments: 2, totalEmbeddings: 2, dimension: 3 })
+    })
+
+    test('round-trips through a snapshot', async () => {
+      const store = await seededStore()
+      const copy = new InMemoryVectorStore({ snapshot: await store.toSnapshot() })
+
+      expect(await copy.getStats()).toEqual(await store.getStats())
+    })
+
+    test('writes a batch of changes to its file once', async () => {
+      const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'vector-store-')), 'store.json')
+      const writeFile = jest.spyOn(fs, 'writeFile')
+      try {
+        const store = new InMemoryVectorStore({ filePath })
+        await store.upsertDocuments(documents)
+        for (const doc of documents) {
+          await store.insertEmbedding({ documentId: doc.id, embedding: vectors[doc.id], contentHash: `hash-${doc.id}` })
+        }
+        expect(writeFile).not.toHaveBeenCalled()
+
+        await store.flush()
+
+        expect(writeFile).toHaveBeenCalledTimes(1)
+        const reloaded = new InMemoryVectorStore({ filePath })
+        expect(await reloaded.getStats()).toEqual({ totalDocuments: 3, totalEmbeddings: 3, dimension: 3 })
+      } finally {
+        writeFile.mockRestore()
+        await fs.rm(path.dirname(filePath), { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('Configuration', () => {
+    test('selects the backend from config', () => {
+      expect(createVectorStore({ backend: 'memory' }).backend).toBe('memory')
+      expect(createVectorStore({ backend: 'supabase' }).backend).toBe('supabase')
+      expect(() => createVectorStore({ backend: 'redis' as any })).toThrow('Unknown vector store backend')
+    })
+
+    test('vector database service searches the in-memory backend unchanged', async () => {
+      jest.spyOn(embeddingService, 'generateEmbedding').mockResolvedValue({
+        embedding: [1, 0, 0],
+        tokenCount: 3,
+        processingTime: 1,
+      })
+      const service = new VectorDatabaseService(await seededStore())
+
+      const result = await service.vectorSearch('wheezing', { limit: 1, threshold: 0.5, searchStrategy: 'general_medical' })
+
+      expect(service.backend).toBe('memory')
+      expect(result.documents.map(doc => doc.id)).toEqual(['asthma'])
+    })
+
+    test('keeps emergency and diagnostic strategies for queries with abbreviations', async () => {
+      jest.spyOn(embeddingService, 'generateEmbedding').mockResolvedValue({
+        embedding: [1, 0, 0],
+        tokenCount: 3,
+        processingTime: 1,
+      })
+      const service = new VectorDatabaseService(await seededStore())
+
+      const emergency = await service.vectorSearch('Emergency management of DKA', { threshold: 0.5 })
+      const urgent = await service.vectorSearch('urgent IV access', { threshold: 0.5 })
+      const diagnostic = await service.vectorSearch('Differential diagnosis of HSP', { threshold: 0.5 })
+
+      expect(emergency.metadata.searchStrategy).toBe('emergency_prioritized')
+      expect(urgent.metadata.searchStrategy).toBe('emergency_prioritized')
+      expect(diagnostic.metadata.searchStrategy).toBe('diagnostic_focused')
+    })
+
+    test('re-ranks with the given weights', async () => {
+      jest.spyOn(embeddingService, 'generateEmbedding').mockResolvedValue({
+        embedding: [1, 0, 0],
+        tokenCount: 3,
+        processingTime: 1,
+      })
+      const service = new VectorDatabaseService(await seededStore())
+      const options = { limit: 2, threshold: 0.5, searchStrategy: 'general_medical' as const, rerank: true }
+
+      const similarityOnly = await service.vectorSearch('wheezing', {
+        ...options,
+        rerankWeights: { similarity: 1, medicalRelevance: 0, recency: 0, evidence: 0 },
+      })
+      const weighted = await service.vectorSearch('wheezing', options)
+
+      expect(similarityOnly.documents.map(doc => [doc.id, doc.similarity])).toEqual([['asthma', 1], ['croup', 0.8]])
+      expect(weighted.documents[0].similarity).not.toBe(1)
+    })
+
+    test('records the embedding model and accepts writes and searches with the same model', async () => {
+      const store = new InMemoryVectorStore()
+      await store.upsertDocuments(documents)
+      const service = new VectorDatabaseService(store, new EmbeddingService(fakeProvider, 3))
+
+      await service.storeDocumentEmbedding({ id: 'asthma', content: documents[0].content, metadata: {} })
+      const stored = await service.storeDocumentEmbedding({ id: 'croup', content: documents[1].content, metadata: {} })
+
+      expect(stored.success).toBe(true)
+      expect(await store.getEmbeddingModel()).toEqual({ provider: 'local', model: 'fake-3' })
+      await expect(service.vectorSearch('wheezing', { threshold: 0.5, searchStrategy: 'general_medical' })).resolves.toBeDefined()
+    })
+
+    test('refuses to search or extend an index built by another embedding model', async () => {
+      const store = new InMemoryVectorStore()
+      await store.upsertDocuments(documents)
+      await store.insertEmbedding({
+        documentId: 'asthma',
+        embedding: [1, 0, 0],
+        contentHash: 'hash-asthma',
+        metadata: { embedding_provider: 'huggingface', embedding_model: 'other-model' },
+      })
+      const service = new VectorDatabaseService(store, new EmbeddingService(fakeProvider, 3))
+
+      await expect(service.vectorSearch('wheezing', { threshold: 0.5, searchStrategy: 'general_medical' }))
+        .rejects.toThrow('Stored embeddings were created by huggingface model other-model, but the active provider is local model fake-3')
+      const stored = await service.storeDocumentEmbedding({ id: 'croup', content: documents[1].content, metadata: {} })
+      expect(stored).toMatchObject({ success: false, error: expect.stringContaining('re-embed the corpus') })
+      expect((await store.getStats()).totalEmbeddings).toBe(1)
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import ZAI from 'z-ai-web-dev-sdk'
+import { llmProviderChain, LLMMessage } from '@/lib/llm-provider'
 import { nelsonService } from '@/lib/services'
 
 // System prompt for NelsonGPT
@@ -27,9 +27,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 })
     }
 
-    // Initialize ZAI SDK
-    const zai = await ZAI.create()
-
     // Search for relevant Nelson Textbook references
     const searchResults = await nelsonService.searchReferences(message)
     const context = searchResults.slice(0, 3).map(ref => 
@@ -37,13 +34,13 @@ export async function POST(request: NextRequest) {
     ).join('\n\n')
 
     // Build conversation history
-    const conversationHistory = chatHistory.map((msg: any) => ({
+    const conversationHistory: LLMMessage[] = chatHistory.map((msg: any) => ({
       role: msg.role === 'assistant' ? 'assistant' : 'user',
       content: msg.content
     }))
 
     // Create the complete prompt
-    const messages = [
+    const messages: LLMMessage[] = [
       {
         role: 'system',
         content: SYSTEM_PROMPT
@@ -55,14 +52,14 @@ export async function POST(request: NextRequest) {
       }
     ]
 
-    // Generate AI response
-    const completion = await zai.chat.completions.create({
+    // Generate AI response with the first healthy provider in the fallback chain
+    const completion = await llmProviderChain.chat({
       messages,
       temperature: 0.3, // Lower temperature for more factual responses
-      max_tokens: 1000,
+      maxTokens: 1000,
     })
 
-    const aiResponse = completion.choices[0]?.message?.content || 'I apologize, but I was unable to generate a response at this time.'
+    const aiResponse = completion.content || 'I apologize, but I was unable to generate a response at this time.'
 
     // Extract citations from the response or generate them from search results
     const citations = searchResults.slice(0, 3).map(ref => 
@@ -71,6 +68,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       response: aiResponse,
+      provider: completion.provider,
       citations,
       sources: searchResults.slice(0, 3).map(ref => ({
         id: ref.id,
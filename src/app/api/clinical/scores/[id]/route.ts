@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CLINICAL_SCORES, ScoreValidationError, calculateScore, maxScore } from '@/lib/clinical-scores';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Score definition for building a form; the interpretation functions drop out of the JSON
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const score = CLINICAL_SCORES.find(candidate => candidate.id === id);
+  if (!score) {
+    return NextResponse.json(
+      { error: `Unknown score: ${id}`, available: CLINICAL_SCORES.map(candidate => candidate.id) },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    ...score,
+    ...(score.kind === 'points' ? { maxTotal: maxScore(score) } : {}),
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!CLINICAL_SCORES.some(candidate => candidate.id === id)) {
+      return NextResponse.json(
+        { error: `Unknown score: ${id}`, available: CLINICAL_SCORES.map(candidate => candidate.id) },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { values } = body;
+
+    // Validate required parameters
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return NextResponse.json(
+        { error: 'values is required and must be an object keyed by input id' },
+        { status: 400 }
+      );
+    }
+
+    const result = calculateScore(id, values);
+
+    return NextResponse.json({
+      ...result,
+      metadata: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof ScoreValidationError) {
+      return NextResponse.json({ error: error.message, errors: error.errors }, { status: 400 });
+    }
+
+    console.error('Clinical score API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,34 @@ import { geminiService } from '@/lib/gemini-service';
 import { supabaseServiceBackend } from '@/lib/supabase';
 import { embeddingService } from '@/lib/embeddings';
 import { securityService, checkRateLimit } from '@/lib/security';
+import { citationService } from '@/lib/citations';
+import { groundednessChecker } from '@/lib/groundedness';
+import { AllProvidersFailedError, llmProviderChain } from '@/lib/llm-provider';
+import { buildMedicalMessages, MedicalPromptParams } from '@/lib/medical-prompts';
+import { evaluateQueryDecisionRules, formatDecisionRules } from '@/lib/decision-rules';
+import { ChatStreamEvent, ChatStreamStage, SSE_HEADERS, createChatEventStream } from '@/lib/sse';
+
+interface ChatRequest {
+  query: string;
+  sessionId?: string;
+  chatHistory?: any[];
+  enhancementOptions?: any;
+}
+
+type SecurityContext = Parameters<typeof securityService.createAuditLog>[2];
+
+// Workflow nodes reported to streaming clients as coarse stages
+const WORKFLOW_STAGES: Record<string, ChatStreamStage> = {
+  security_validation: 'analysis',
+  medical_analysis: 'analysis',
+  document_retrieval: 'retrieval',
+  primary_response: 'generation',
+  enhanced_response: 'enhancement',
+  clinical_validation: 'validation',
+  quality_finalization: 'validation',
+};
+
+class WorkflowExecutionError extends Error {}
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -95,180 +123,41 @@ export async function POST(request: NextRequest) {
       }
     );
 
-    console.log(`🔍 Processing RAG chat request: ${query.substring(0, 100)}...`);
-
-    // Step 1: Execute LangGraph workflow for document retrieval and analysis
-    const workflowResult = await langGraphWorkflow.execute(query);
-
-    if (workflowResult.error) {
-      console.error('Workflow execution failed:', workflowResult.error);
-      return NextResponse.json(
-        { error: workflowResult.error },
-        { status: 500 }
-      );
-    }
+    const chatRequest = { query, sessionId, chatHistory, enhancementOptions };
 
-    // Step 2: Generate enhanced response using Mistral API
-    let mistralResponse;
-    try {
-      mistralResponse = await mistralService.generateMedicalResponse({
-        query,
-        context: workflowResult.context || '',
-        clinicalAssessment: workflowResult.clinicalAssessment,
-        sources: workflowResult.sources || [],
-        chatHistory: chatHistory || [],
+    // Streaming mode: emit workflow stages, sources and token deltas as Server-Sent Events
+    if (body.stream === true || request.headers.get('accept')?.includes('text/event-stream')) {
+      const stream = createChatEventStream(async (send) => {
+        try {
+          const responseData = await generateChatResponse(chatRequest, securityContext, startTime, send);
+          send({ type: 'done', ...responseData });
+        } catch (error) {
+          if (!(error instanceof WorkflowExecutionError)) {
+            await auditChatError(error, securityContext, startTime);
+          }
+          throw error;
+        }
       });
-    } catch (mistralError) {
-      console.error('Mistral API failed:', mistralError);
-      
-      // Audit AI service failure
-      await securityService.createAuditLog(
-        'ai_service_failure',
-        '/api/rag/chat',
-        securityContext,
-        false,
-        { service: 'mistral', error: mistralError instanceof Error ? mistralError.message : 'Unknown error' }
-      );
-      
-      // Fallback to workflow result if Mistral fails
-      mistralResponse = {
-        response: workflowResult.finalAnswer || 'Unable to generate enhanced response. Please try again.',
-        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
-      };
-    }
 
-    // Step 3: Apply Gemini enhancements if requested
-    let enhancedResponse = mistralResponse.response;
-    let geminiUsage = null;
-
-    if (enhancementOptions?.enableGemini && geminiService) {
-      try {
-        const geminiResult = await geminiService.enhanceMedicalContent({
-          originalContent: mistralResponse.response,
-          enhancementType: enhancementOptions.enhancementType || 'clinical_reasoning',
-          targetAudience: enhancementOptions.targetAudience || 'clinicians',
-          additionalContext: enhancementOptions.additionalContext,
-        });
-
-        enhancedResponse = geminiResult.enhancedContent;
-        geminiUsage = geminiResult.usage;
-      } catch (geminiError) {
-        console.error('Gemini enhancement failed:', geminiError);
-        
-        // Audit Gemini service failure
-        await securityService.createAuditLog(
-          'ai_service_failure',
-          '/api/rag/chat',
-          securityContext,
-          false,
-          { service: 'gemini', error: geminiError instanceof Error ? geminiError.message : 'Unknown error' }
-        );
-        
-        // Continue with Mistral response if Gemini fails
-      }
+      return new Response(stream, { headers: SSE_HEADERS });
     }
 
-    // Step 4: Store chat session and messages if sessionId is provided
-    if (sessionId) {
-      try {
-        // Store user message
-        await supabaseServiceBackend.storeChatMessage({
-          session_id: sessionId,
-          role: 'user',
-          content: query,
-          metadata: {
-            processingTime: workflowResult.processingTime,
-            documentCount: workflowResult.ragResult?.metadata?.documentCount || 0,
-          },
-        });
-
-        // Store assistant response
-        await supabaseServiceBackend.storeChatMessage({
-          session_id: sessionId,
-          role: 'assistant',
-          content: enhancedResponse,
-          metadata: {
-            sources: workflowResult.sources,
-            confidence: workflowResult.confidence,
-            mistralUsage: mistralResponse.usage,
-            geminiUsage,
-            enhancementOptions,
-          },
-        });
-      } catch (storageError) {
-        console.error('Failed to store chat messages:', storageError);
-        
-        // Audit storage failure
-        await securityService.createAuditLog(
-          'storage_failure',
-          '/api/rag/chat',
-          securityContext,
-          false,
-          { error: storageError instanceof Error ? storageError.message : 'Unknown error' }
+    try {
+      return NextResponse.json(await generateChatResponse(chatRequest, securityContext, startTime));
+    } catch (error) {
+      if (error instanceof WorkflowExecutionError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
         );
-        
-        // Continue even if storage fails
       }
+      throw error;
     }
-
-    // Step 5: Prepare and return response
-    const totalProcessingTime = Date.now() - startTime;
-    
-    const responseData = {
-      query,
-      response: enhancedResponse,
-      sources: workflowResult.sources,
-      confidence: workflowResult.confidence,
-      processingTime: totalProcessingTime,
-      metadata: {
-        documentCount: workflowResult.ragResult?.metadata?.documentCount || 0,
-        totalTokens: workflowResult.ragResult?.metadata?.totalTokens || 0,
-        similarityScores: workflowResult.ragResult?.metadata?.similarityScores || [],
-        mistralUsage: mistralResponse.usage,
-        geminiUsage,
-        enhancementApplied: !!geminiUsage,
-        securityValidated: true,
-      },
-      workflowSteps: {
-        queryAnalysis: !!workflowResult.enhancedQuery,
-        documentRetrieval: !!(workflowResult.relevantDocuments && workflowResult.relevantDocuments.length > 0),
-        clinicalAssessment: !!workflowResult.clinicalAssessment,
-        responseGeneration: !!workflowResult.finalAnswer,
-        qualityCheck: workflowResult.confidence !== undefined,
-        securityChecks: true,
-      },
-    };
-
-    // Audit successful response
-    await securityService.createAuditLog(
-      'medical_response_generated',
-      '/api/rag/chat',
-      securityContext,
-      true,
-      { 
-        responseLength: enhancedResponse.length,
-        processingTime: totalProcessingTime,
-        confidence: workflowResult.confidence,
-        sourcesCount: workflowResult.sources?.length || 0 
-      }
-    );
-
-    return NextResponse.json(responseData);
   } catch (error) {
     console.error('RAG chat API error:', error);
     
     // Audit critical error
-    await securityService.createAuditLog(
-      'api_error',
-      '/api/rag/chat',
-      securityContext,
-      false,
-      { 
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-        processingTime: Date.now() - startTime
-      }
-    );
+    await auditChatError(error, securityContext, startTime);
     
     return NextResponse.json(
       { 
@@ -283,6 +172,277 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Run the full chat pipeline. When `send` is given, progress, sources and token deltas
+ * are emitted as they happen; the returned payload is the same in both modes.
+ */
+async function generateChatResponse(
+  { query, sessionId, chatHistory, enhancementOptions }: ChatRequest,
+  securityContext: SecurityContext,
+  startTime: number,
+  send?: (event: ChatStreamEvent) => void
+) {
+  console.log(`🔍 Processing RAG chat request: ${query.substring(0, 100)}...`);
+
+  // Step 1: Execute LangGraph workflow for document retrieval and analysis
+  send?.({ type: 'stage', stage: 'analysis', status: 'started' });
+  const workflowResult = await langGraphWorkflow.execute(query, undefined, undefined, {
+    onNodeComplete: (node, _state, duration) => {
+      send?.({ type: 'stage', stage: WORKFLOW_STAGES[node.id] || 'analysis', status: 'completed', step: node.id, duration });
+    },
+  });
+
+  if (workflowResult.error) {
+    console.error('Workflow execution failed:', workflowResult.error);
+    throw new WorkflowExecutionError(workflowResult.error);
+  }
+
+  const relevantDocuments = workflowResult.relevantDocuments || [];
+  const decisionRules = workflowResult.ragResult?.decisionRules ?? evaluateQueryDecisionRules(query);
+  send?.({
+    type: 'sources',
+    sources: workflowResult.sources || [],
+    documents: relevantDocuments.map(doc => ({
+      id: doc.id,
+      chapter: doc.metadata?.chapter,
+      section: doc.metadata?.section,
+      page: doc.metadata?.page,
+      similarity: doc.similarity,
+    })),
+  });
+
+  // Step 2: Generate the response with the first healthy LLM provider (Mistral, then fallbacks)
+  let llmResponse;
+  send?.({ type: 'stage', stage: 'generation', status: 'started' });
+  try {
+    const params: MedicalPromptParams = {
+      query,
+      context: workflowResult.context || '',
+      clinicalAssessment: workflowResult.clinicalAssessment,
+      decisionRules: formatDecisionRules(decisionRules),
+      sources: workflowResult.sources || [],
+      chatHistory: chatHistory || [],
+    };
+    const request = { messages: buildMedicalMessages(params), temperature: 0.3 };
+    const result = send
+      ? await llmProviderChain.stream(request, delta => send({ type: 'token', delta }))
+      : await llmProviderChain.chat(request);
+    llmResponse = {
+      response: result.content || 'No response generated',
+      usage: result.usage,
+      provider: result.provider,
+      model: result.model,
+      attempts: result.attempts,
+    };
+  } catch (llmError) {
+    console.error('LLM providers failed:', llmError);
+
+    // Audit AI service failure
+    await securityService.createAuditLog(
+      'ai_service_failure',
+      '/api/rag/chat',
+      securityContext,
+      false,
+      {
+        service: 'llm',
+        error: llmError instanceof Error ? llmError.message : 'Unknown error',
+        attempts: llmError instanceof AllProvidersFailedError ? llmError.attempts : undefined,
+      }
+    );
+
+    // Fallback to workflow result if every provider fails
+    llmResponse = {
+      response: workflowResult.finalAnswer || 'Unable to generate enhanced response. Please try again.',
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      provider: 'workflow',
+      model: 'none',
+      attempts: llmError instanceof AllProvidersFailedError ? llmError.attempts : [],
+    };
+  }
+  send?.({ type: 'stage', stage: 'generation', status: 'completed' });
+
+  // Step 3: Apply Gemini enhancements if requested
+  let enhancedResponse = llmResponse.response;
+  let geminiUsage = null;
+
+  if (enhancementOptions?.enableGemini && geminiService) {
+    send?.({ type: 'stage', stage: 'enhancement', status: 'started' });
+    try {
+      const geminiResult = await geminiService.enhanceMedicalContent({
+        originalContent: llmResponse.response,
+        enhancementType: enhancementOptions.enhancementType || 'clinical_reasoning',
+        targetAudience: enhancementOptions.targetAudience || 'clinicians',
+        additionalContext: enhancementOptions.additionalContext,
+      });
+
+      enhancedResponse = geminiResult.enhancedContent;
+      geminiUsage = geminiResult.usage;
+    } catch (geminiError) {
+      console.error('Gemini enhancement failed:', geminiError);
+
+      // Audit Gemini service failure
+      await securityService.createAuditLog(
+        'ai_service_failure',
+        '/api/rag/chat',
+        securityContext,
+        false,
+        { service: 'gemini', error: geminiError instanceof Error ? geminiError.message : 'Unknown error' }
+      );
+
+      // Continue with the primary response if Gemini fails
+    }
+    send?.({ type: 'stage', stage: 'enhancement', status: 'completed' });
+  }
+
+  // Link answer sentences to the retrieved chunks that support them
+  send?.({ type: 'stage', stage: 'validation', status: 'started' });
+  const cited = citationService.annotate(enhancedResponse, relevantDocuments);
+  enhancedResponse = cited.content;
+
+  const warnings = collectValidationWarnings(workflowResult, enhancedResponse);
+  if (warnings.length > 0) {
+    send?.({ type: 'warnings', warnings });
+  }
+  send?.({ type: 'stage', stage: 'validation', status: 'completed' });
+
+  // Step 4: Store chat session and messages if sessionId is provided
+  if (sessionId) {
+    try {
+      // Store user message
+      await supabaseServiceBackend.storeChatMessage({
+        session_id: sessionId,
+        role: 'user',
+        content: query,
+        metadata: {
+          processingTime: workflowResult.processingTime,
+          documentCount: workflowResult.ragResult?.metadata?.documentCount || 0,
+        },
+      });
+
+      // Store assistant response
+      await supabaseServiceBackend.storeChatMessage({
+        session_id: sessionId,
+        role: 'assistant',
+        content: enhancedResponse,
+        metadata: {
+          sources: workflowResult.sources,
+          citations: cited.citations,
+          warnings,
+          confidence: workflowResult.confidence,
+          llmProvider: llmResponse.provider,
+          llmUsage: llmResponse.usage,
+          geminiUsage,
+          enhancementOptions,
+        },
+      });
+    } catch (storageError) {
+      console.error('Failed to store chat messages:', storageError);
+
+      // Audit storage failure
+      await securityService.createAuditLog(
+        'storage_failure',
+        '/api/rag/chat',
+        securityContext,
+        false,
+        { error: storageError instanceof Error ? storageError.message : 'Unknown error' }
+      );
+
+      // Continue even if storage fails
+    }
+  }
+
+  // Step 5: Prepare and return response
+  const totalProcessingTime = Date.now() - startTime;
+
+  const responseData = {
+    query,
+    response: enhancedResponse,
+    sources: workflowResult.sources,
+    citations: cited.citations,
+    decisionRules,
+    warnings,
+    confidence: workflowResult.confidence,
+    processingTime: totalProcessingTime,
+    metadata: {
+      documentCount: workflowResult.ragResult?.metadata?.documentCount || 0,
+      totalTokens: workflowResult.ragResult?.metadata?.totalTokens || 0,
+      similarityScores: workflowResult.ragResult?.metadata?.similarityScores || [],
+      llm: {
+        provider: llmResponse.provider,
+        model: llmResponse.model,
+        attempts: llmResponse.attempts,
+      },
+      llmUsage: llmResponse.usage,
+      geminiUsage,
+      enhancementApplied: !!geminiUsage,
+      securityValidated: true,
+      streamed: !!send,
+    },
+    workflowSteps: {
+      queryAnalysis: !!workflowResult.enhancedQuery,
+      documentRetrieval: !!(workflowResult.relevantDocuments && workflowResult.relevantDocuments.length > 0),
+      clinicalAssessment: !!workflowResult.clinicalAssessment,
+      responseGeneration: !!workflowResult.finalAnswer,
+      qualityCheck: workflowResult.confidence !== undefined,
+      securityChecks: true,
+    },
+  };
+
+  // Audit successful response
+  await securityService.createAuditLog(
+    'medical_response_generated',
+    '/api/rag/chat',
+    securityContext,
+    true,
+    {
+      responseLength: enhancedResponse.length,
+      processingTime: totalProcessingTime,
+      confidence: workflowResult.confidence,
+      sourcesCount: workflowResult.sources?.length || 0,
+      streamed: !!send,
+      llmProvider: llmResponse.provider,
+    }
+  );
+
+  return responseData;
+}
+
+/**
+ * Gather safety warnings from the workflow and check the final answer against the retrieved chunks
+ */
+function collectValidationWarnings(
+  workflowResult: Awaited<ReturnType<typeof langGraphWorkflow.execute>>,
+  answer: string
+): string[] {
+  const warnings = [
+    ...(workflowResult.warnings || []),
+    ...(workflowResult.medicalValidation?.warnings || []),
+  ];
+
+  const groundedness = groundednessChecker.check(answer, workflowResult.relevantDocuments || []);
+  if (groundedness.unsupportedNumericCount > 0) {
+    warnings.push(`${groundedness.unsupportedNumericCount} statement(s) with doses or figures could not be matched to the retrieved Nelson sources - verify before use`);
+  } else if (groundedness.unsupportedCount > 0) {
+    warnings.push(`${groundedness.unsupportedCount} statement(s) are not directly supported by the retrieved Nelson sources`);
+  }
+
+  return Array.from(new Set(warnings));
+}
+
+async function auditChatError(error: unknown, securityContext: SecurityContext, startTime: number) {
+  await securityService.createAuditLog(
+    'api_error',
+    '/api/rag/chat',
+    securityContext,
+    false,
+    {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      processingTime: Date.now() - startTime
+    }
+  );
+}
+
 export async function GET(request: NextRequest) {
   const securityContext = {
     ipAddress: request.ip || request.headers.get('x-forwarded-for') || 'unknown',
@@ -330,6 +490,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       status: allHealthy ? 'healthy' : 'degraded',
       services: healthStatus,
+      // Fallback order and circuit state of each LLM provider
+      llmProviders: llmProviderChain.getStatus(),
       security: {
         configured: securityValidation.isValid,
         errors: securityValidation.errors,
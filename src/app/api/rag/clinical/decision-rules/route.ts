@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DecisionRuleError,
+  aapFebrileInfant2021,
+  evaluateQueryDecisionRules,
+  pecarnFebrileInfant,
+  pecarnHeadTrauma,
+} from '@/lib/decision-rules';
+
+const RULES = {
+  'pecarn-head-trauma': pecarnHeadTrauma,
+  'pecarn-febrile-infant': pecarnFebrileInfant,
+  'aap-febrile-infant-2021': aapFebrileInfant2021,
+} as const;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { rule, inputs, query } = body;
+
+    // Free-text scenarios are matched and parsed the same way as chat queries
+    if (typeof query === 'string' && query.trim()) {
+      return NextResponse.json({ results: evaluateQueryDecisionRules(query) });
+    }
+
+    // Validate required parameters
+    if (!rule || !(rule in RULES)) {
+      return NextResponse.json(
+        { error: 'A query, or a rule and inputs, is required', availableRules: Object.keys(RULES) },
+        { status: 400 }
+      );
+    }
+
+    if (!inputs || typeof inputs !== 'object') {
+      return NextResponse.json(
+        { error: 'Inputs must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const result = RULES[rule as keyof typeof RULES](inputs);
+
+    return NextResponse.json({ results: [result] });
+  } catch (error) {
+    if (error instanceof DecisionRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Decision rules API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
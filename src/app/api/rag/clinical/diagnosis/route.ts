@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { mistralService } from '@/lib/mistral-service';
 import { geminiService } from '@/lib/gemini-service';
+import { DiagnosisFormatError, differentialDiagnosisService } from '@/lib/differential-diagnosis';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,15 +24,15 @@ export async function POST(request: NextRequest) {
 
     console.log(`Processing differential diagnosis request for ${patientAge} year old patient`);
 
-    // Generate differential diagnosis using Mistral
-    const mistralResult = await mistralService.generateDifferentialDiagnosis({
+    // Generate a schema-validated differential (invalid model output is repaired or retried)
+    const diagnosisResult = await differentialDiagnosisService.generate({
       symptoms,
       patientAge,
       patientGender,
       additionalContext,
     });
 
-    let enhancedDiagnosis = mistralResult.response;
+    let clinicalReasoning: string | undefined;
     let geminiUsage = null;
 
     // Apply Gemini enhancement if requested
@@ -47,19 +47,11 @@ export async function POST(request: NextRequest) {
           clinicalQuestion: 'What is the differential diagnosis and recommended diagnostic approach?',
         });
 
-        enhancedDiagnosis = `
-${mistralResult.response}
-
----
-
-**Enhanced Clinical Reasoning (Gemini):**
-${geminiResult.reasoning}
-        `.trim();
-
+        clinicalReasoning = geminiResult.reasoning;
         geminiUsage = geminiResult.usage;
       } catch (geminiError) {
         console.error('Gemini clinical reasoning failed:', geminiError);
-        // Continue with Mistral response
+        // Continue with the differential alone
       }
     }
 
@@ -67,9 +59,17 @@ ${geminiResult.reasoning}
       symptoms,
       patientAge,
       patientGender,
-      diagnosis: enhancedDiagnosis,
+      differential: diagnosisResult.differential,
+      clinicalReasoning,
       metadata: {
-        mistralUsage: mistralResult.usage,
+        llm: {
+          provider: diagnosisResult.provider,
+          model: diagnosisResult.model,
+          attempts: diagnosisResult.llmAttempts,
+        },
+        llmUsage: diagnosisResult.usage,
+        parseAttempts: diagnosisResult.parseAttempts,
+        repaired: diagnosisResult.repaired,
         geminiUsage,
         enhancementApplied: !!geminiUsage,
         timestamp: new Date().toISOString(),
@@ -79,6 +79,17 @@ ${geminiResult.reasoning}
     return NextResponse.json(responseData);
   } catch (error) {
     console.error('Differential diagnosis API error:', error);
+
+    if (error instanceof DiagnosisFormatError) {
+      return NextResponse.json(
+        {
+          error: 'The model did not return a valid differential diagnosis',
+          details: error.errors,
+        },
+        { status: 502 }
+      );
+    }
+
     return NextResponse.json(
       { 
         error: 'Internal server error',
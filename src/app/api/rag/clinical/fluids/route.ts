@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FluidError, calculateFluidPlan } from '@/lib/fluids';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { weightKg, dehydrationPercent, serumSodium, shock } = body;
+
+    // Validate required parameters
+    if (typeof weightKg !== 'number') {
+      return NextResponse.json(
+        { error: 'Weight is required and must be a number of kilograms' },
+        { status: 400 }
+      );
+    }
+
+    if ((dehydrationPercent !== undefined && typeof dehydrationPercent !== 'number') ||
+        (serumSodium !== undefined && typeof serumSodium !== 'number') ||
+        (shock !== undefined && typeof shock !== 'boolean')) {
+      return NextResponse.json(
+        { error: 'dehydrationPercent and serumSodium must be numbers and shock must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const plan = calculateFluidPlan({ weightKg, dehydrationPercent, serumSodium, shock });
+
+    return NextResponse.json({
+      ...plan,
+      metadata: {
+        method: 'Holliday-Segar maintenance with deficit replacement',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof FluidError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Fluid calculation API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImmunizationError, evaluateImmunizations } from '@/lib/immunization';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { dateOfBirth, doses = [], asOf } = body;
+
+    // Validate required parameters
+    if (!dateOfBirth || typeof dateOfBirth !== 'string') {
+      return NextResponse.json(
+        { error: 'Date of birth is required (YYYY-MM-DD)' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(doses) || doses.some(dose => !dose || typeof dose.vaccine !== 'string' || typeof dose.date !== 'string')) {
+      return NextResponse.json(
+        { error: 'Doses must be an array of { vaccine, date } objects' },
+        { status: 400 }
+      );
+    }
+
+    const schedule = evaluateImmunizations({ dateOfBirth, doses, asOf });
+
+    return NextResponse.json({
+      ...schedule,
+      metadata: {
+        method: 'CDC child and adolescent catch-up schedule, minimum ages and intervals with 4-day grace period',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImmunizationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Immunization schedule API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
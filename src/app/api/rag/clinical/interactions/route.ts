@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkInteractions } from '@/lib/drug-interactions';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { medications } = body;
+
+    // Validate required parameters
+    if (!Array.isArray(medications) || medications.length < 2 || medications.some(medication => typeof medication !== 'string')) {
+      return NextResponse.json(
+        { error: 'Medications are required and must be an array of at least two strings' },
+        { status: 400 }
+      );
+    }
+
+    const result = checkInteractions(medications);
+
+    return NextResponse.json({
+      medications,
+      ...result,
+      metadata: {
+        source: 'local interaction table',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Drug interaction API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
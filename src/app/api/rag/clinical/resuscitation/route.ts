@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ResuscitationError, generateResuscitationSheet } from '@/lib/resuscitation';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { weightKg, ageYears, lengthCm } = body;
+
+    // Validate required parameters
+    if (weightKg === undefined && ageYears === undefined && lengthCm === undefined) {
+      return NextResponse.json(
+        { error: 'Weight, length or age is required' },
+        { status: 400 }
+      );
+    }
+
+    if ((weightKg !== undefined && typeof weightKg !== 'number') ||
+        (ageYears !== undefined && typeof ageYears !== 'number') ||
+        (lengthCm !== undefined && typeof lengthCm !== 'number')) {
+      return NextResponse.json(
+        { error: 'weightKg, ageYears and lengthCm must be numbers' },
+        { status: 400 }
+      );
+    }
+
+    const sheet = generateResuscitationSheet({ weightKg, ageYears, lengthCm });
+
+    return NextResponse.json({
+      ...sheet,
+      metadata: {
+        method: 'PALS weight-based dosing with length-based color zones',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof ResuscitationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Resuscitation sheet API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
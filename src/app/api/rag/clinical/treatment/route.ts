@@ -1,18 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { mistralService } from '@/lib/mistral-service';
 import { geminiService } from '@/lib/gemini-service';
+import { TreatmentFormatError, TreatmentPlan, parseWeightKg, treatmentPlanService } from '@/lib/treatment-plan';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { 
-      condition, 
-      patientAge, 
-      patientWeight, 
-      allergies, 
-      currentMedications, 
+    const {
+      condition,
+      patientAge,
+      patientWeight,
+      allergies,
+      currentMedications,
       severity,
-      useGemini 
+      useGemini
     } = body;
 
     // Validate required parameters
@@ -30,64 +30,147 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (allergies !== undefined && (!Array.isArray(allergies) || allergies.some(allergy => typeof allergy !== 'string'))) {
+      return NextResponse.json(
+        { error: 'Allergies must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (currentMedications !== undefined && (!Array.isArray(currentMedications) || currentMedications.some(medication => typeof medication !== 'string'))) {
+      return NextResponse.json(
+        { error: 'Current medications must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    const patientWeightKg = patientWeight === undefined || patientWeight === null || patientWeight === ''
+      ? undefined
+      : parseWeightKg(patientWeight);
+    if (Number.isNaN(patientWeightKg)) {
+      return NextResponse.json(
+        { error: 'Patient weight must be a positive number of kilograms (e.g. "20" or "20 kg")' },
+        { status: 400 }
+      );
+    }
+
     console.log(`Processing treatment recommendation request for ${condition}`);
 
-    // Generate treatment recommendations using Mistral
-    const mistralResult = await mistralService.generateTreatmentRecommendations({
+    // Generate structured regimens and cross-check every dose against the drug_dosages table
+    const treatmentResult = await treatmentPlanService.generate({
       condition,
       patientAge,
-      patientWeight,
+      patientWeightKg,
       allergies,
       currentMedications,
       severity,
     });
 
-    let enhancedTreatment = mistralResult.response;
+    const allergyConflicts = treatmentResult.allergyCheck.warnings.filter(warning => warning.severity === 'avoid');
+
+    let familySummary: string | undefined;
     let geminiUsage = null;
 
-    // Apply Gemini enhancement if requested
+    // Apply Gemini enhancement if requested. Only the verified plan is summarized, so no new doses are introduced,
+    // and drugs the patient should avoid because of an allergy are left out.
     if (useGemini && geminiService) {
       try {
         const geminiResult = await geminiService.enhanceMedicalContent({
-          originalContent: mistralResult.response,
-          enhancementType: 'expansion',
-          targetAudience: 'clinicians',
-          additionalContext: `Patient: ${patientAge} years old, ${patientWeight ? `${patientWeight} kg` : 'weight not specified'}, ${severity || 'unknown'} severity`,
+          originalContent: formatTreatmentPlan(treatmentResult.plan, allergyConflicts.map(warning => warning.drug)),
+          enhancementType: 'simplification',
+          targetAudience: 'patients',
+          additionalContext: `Patient: ${patientAge} years old, ${patientWeightKg !== undefined ? `${patientWeightKg} kg` : 'weight not specified'}, ${severity || 'unknown'} severity`,
         });
 
-        enhancedTreatment = geminiResult.enhancedContent;
+        familySummary = geminiResult.enhancedContent;
         geminiUsage = geminiResult.usage;
       } catch (geminiError) {
         console.error('Gemini treatment enhancement failed:', geminiError);
-        // Continue with Mistral response
+        // Continue with the structured plan alone
       }
     }
 
+    const doseErrors = treatmentResult.doseCheck.alerts.filter(alert => alert.severity === 'error');
+    const seriousInteractions = treatmentResult.interactions.interactions.filter(
+      interaction => interaction.severity === 'contraindicated' || interaction.severity === 'major'
+    );
+
     const responseData = {
       condition,
       patientAge,
-      patientWeight,
+      patientWeightKg,
       allergies,
       currentMedications,
       severity,
-      treatment: enhancedTreatment,
+      plan: treatmentResult.plan,
+      doseCheck: treatmentResult.doseCheck,
+      // Surfaced at the top level so clients cannot miss a dose that contradicts the reference table
+      doseWarning: doseErrors.length > 0
+        ? `DOSE CHECK FAILED: ${doseErrors.length} dose problem(s) found. Do not use the flagged regimens without independent verification.`
+        : undefined,
+      interactions: treatmentResult.interactions,
+      interactionWarning: seriousInteractions.length > 0
+        ? `INTERACTION CHECK: ${seriousInteractions.map(interaction => `${interaction.drugs.join(' + ')} (${interaction.severity})`).join('; ')}`
+        : undefined,
+      allergyCheck: treatmentResult.allergyCheck,
+      allergyWarning: allergyConflicts.length > 0
+        ? `ALLERGY CHECK: ${allergyConflicts.map(warning => `${warning.drug} (${warning.risk} risk with ${warning.allergy} allergy)`).join('; ')}`
+        : undefined,
+      familySummary,
       metadata: {
-        mistralUsage: mistralResult.usage,
+        llm: {
+          provider: treatmentResult.provider,
+          model: treatmentResult.model,
+          attempts: treatmentResult.llmAttempts,
+        },
+        llmUsage: treatmentResult.usage,
+        parseAttempts: treatmentResult.parseAttempts,
+        repaired: treatmentResult.repaired,
         geminiUsage,
         enhancementApplied: !!geminiUsage,
         timestamp: new Date().toISOString(),
       },
     };
 
-    return NextResponse.json(responseData);
+    return NextResponse.json(responseData, {
+      headers: { 'X-Dose-Check': treatmentResult.doseCheck.status },
+    });
   } catch (error) {
     console.error('Treatment recommendation API error:', error);
+
+    if (error instanceof TreatmentFormatError) {
+      return NextResponse.json(
+        {
+          error: 'The model did not return a valid treatment plan',
+          details: error.errors,
+        },
+        { status: 502 }
+      );
+    }
+
     return NextResponse.json(
-      { 
+      {
         error: 'Internal server error',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+function formatTreatmentPlan(plan: TreatmentPlan, excludedDrugs: string[]): string {
+  const regimens = plan.regimens
+    .filter(regimen => regimen.doseCheck.status !== 'flagged' && !excludedDrugs.includes(regimen.drug))
+    .map(regimen => `- ${regimen.drug} (${regimen.route}), ${regimen.frequency}, for ${regimen.duration}${regimen.notes ? `. ${regimen.notes}` : ''}`);
+
+  return [
+    '## Medicines',
+    ...(regimens.length > 0 ? regimens : ['- No medicines recommended']),
+    '## Monitoring',
+    ...plan.monitoring.map(item => `- ${item}`),
+    '## Education',
+    ...plan.patientEducation.map(item => `- ${item}`),
+    '## When to Seek Care',
+    ...plan.whenToSeekCare.map(item => `- ${item}`),
+  ].join('\n');
+}
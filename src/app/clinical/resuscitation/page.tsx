@@ -0,0 +1,24 @@
+'use client'
+
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import ResuscitationSheet from '@/components/ResuscitationSheet'
+
+export default function ResuscitationPage() {
+  return (
+    <div className="min-h-screen bg-white text-black">
+      {/* Header */}
+      <div className="no-print flex items-center gap-3 p-2 sm:p-3 md:p-6 border-b-2 border-black">
+        <Button variant="ghost" size="icon" className="h-8 w-8 md:h-10 md:w-10 touch-manipulation" asChild>
+          <a href="/clinical">
+            <ArrowLeft className="h-4 w-4 md:h-5 md:w-5" />
+          </a>
+        </Button>
+        <h1 className="text-base sm:text-lg md:text-2xl font-bold">Resuscitation Sheet</h1>
+      </div>
+
+      {/* Main Content */}
+      <ResuscitationSheet />
+    </div>
+  )
+}
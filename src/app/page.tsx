@@ -12,6 +12,10 @@ import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import SplashScreen from '@/components/SplashScreen'
 import MarkdownRenderer from '@/components/MarkdownRenderer'
+import DecisionRules from '@/components/DecisionRules'
+import type { Citation } from '@/lib/citations'
+import type { DecisionRuleResult } from '@/lib/decision-rules'
+import { readChatEventStream, ChatStreamStage } from '@/lib/sse'
 import SettingsModal from '@/components/SettingsModal'
 import GestureIndicator from '@/components/GestureIndicator'
 import { useChatSessions, useTheme } from '@/lib/store'
@@ -23,11 +27,23 @@ interface Message {
   role: 'user' | 'assistant'
   timestamp: Date
   citations?: string[]
+  inlineCitations?: Citation[]
+  decisionRules?: DecisionRuleResult[]
+}
+
+const STAGE_LABELS: Record<ChatStreamStage, string> = {
+  analysis: 'Analyzing query...',
+  retrieval: 'Searching Nelson Textbook...',
+  generation: 'Writing answer...',
+  enhancement: 'Refining answer...',
+  validation: 'Checking sources...',
 }
 
 export default function NelsonGPT() {
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [streamingContent, setStreamingContent] = useState('')
+  const [streamingStage, setStreamingStage] = useState<ChatStreamStage | null>(null)
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -129,8 +145,10 @@ export default function NelsonGPT() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
+          stream: true,
           query: input,
           sessionId: currentSessionId,
           chatHistory: messages.map(msg => ({
@@ -145,10 +163,27 @@ export default function NelsonGPT() {
         }),
       })
 
-      const data = await response.json()
+      // Errors raised before streaming starts (rate limit, validation) come back as JSON
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to get response')
+      }
+
+      let data: any = null
+      for await (const event of readChatEventStream(response.body)) {
+        if (event.type === 'stage') {
+          setStreamingStage(event.stage)
+        } else if (event.type === 'token') {
+          setStreamingContent(content => content + event.delta)
+        } else if (event.type === 'error') {
+          throw new Error(event.error)
+        } else if (event.type === 'done') {
+          data = event
+        }
+      }
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to get response')
+      if (!data) {
+        throw new Error('Response stream ended unexpectedly')
       }
 
       const assistantMessage: Message = {
@@ -156,7 +191,9 @@ export default function NelsonGPT() {
         content: data.response,
         role: 'assistant',
         timestamp: new Date(),
-        citations: data.sources || []
+        citations: data.sources || [],
+        inlineCitations: data.citations || [],
+        decisionRules: data.decisionRules || []
       }
       
       // Add assistant message to store
@@ -179,6 +216,8 @@ export default function NelsonGPT() {
       addMessageToSession(currentSessionId, errorMessage)
     } finally {
       setIsLoading(false)
+      setStreamingContent('')
+      setStreamingStage(null)
     }
   }
 
@@ -343,8 +382,12 @@ export default function NelsonGPT() {
                           : 'bg-card text-card-foreground assistant-glow'
                       }`}
                     >
+                      {message.decisionRules && message.decisionRules.length > 0 && (
+                        <DecisionRules results={message.decisionRules} />
+                      )}
+
                       <div className="whitespace-pre-wrap break-words text-sm sm:text-base">
-                        <MarkdownRenderer content={message.content} />
+                        <MarkdownRenderer content={message.content} citations={message.inlineCitations} />
                       </div>
                       
                       {message.citations && safeSettings.showCitations && message.citations.length > 0 && (
@@ -364,7 +407,22 @@ export default function NelsonGPT() {
                   </div>
                 ))}
                 
-                {isLoading && (
+                {isLoading && streamingContent && (
+                  <div className="flex justify-start">
+                    <div className="max-w-[90%] sm:max-w-[80%] rounded-lg p-2 sm:p-4 bg-card text-card-foreground assistant-glow">
+                      <div className="whitespace-pre-wrap break-words text-sm sm:text-base">
+                        <MarkdownRenderer content={streamingContent} />
+                      </div>
+                      {streamingStage && streamingStage !== 'generation' && (
+                        <div className="text-xs text-muted-foreground mt-2 animate-pulse">
+                          {STAGE_LABELS[streamingStage]}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {isLoading && !streamingContent && (
                   <div className="flex justify-start">
                     <div className="bg-card rounded-lg p-2 sm:p-4 assistant-glow">
                       <div className="flex items-center gap-2">
@@ -373,7 +431,9 @@ export default function NelsonGPT() {
                           <div className="w-2 h-2 bg-primary rounded-full"></div>
                           <div className="w-2 h-2 bg-primary rounded-full"></div>
                         </div>
-                        <span className="text-xs sm:text-sm text-muted-foreground">Thinking...</span>
+                        <span className="text-xs sm:text-sm text-muted-foreground">
+                          {streamingStage ? STAGE_LABELS[streamingStage] : 'Thinking...'}
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Calculator, Stethoscope, Activity, Baby, AlertTriangle, CheckCircle, Brain, BookOpen, Heart } from 'lucide-react'
+import { Calculator, Stethoscope, Activity, Baby, AlertTriangle, CheckCircle, Brain, BookOpen, Heart, Plus, X, Droplets, FileText, Play, ListChecks, Syringe } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -11,28 +11,115 @@ import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import MarkdownRenderer from './MarkdownRenderer'
+import ProtocolRunner from './ProtocolRunner'
+import type { DifferentialDiagnosis, LikelihoodTier } from '@/lib/differential-diagnosis'
+import type { DoseCheckStatus, DoseCheckSummary, TreatmentPlan } from '@/lib/treatment-plan'
+import type { InteractionCheckResult, InteractionSeverity } from '@/lib/drug-interactions'
+import type { AllergyCheckResult } from '@/lib/drug-allergies'
+import { DoseCalculation, DosingError, bedsideSchwartzEgfr, describeDoseLimits, describeDoseRule, formatDoseRange } from '@/lib/dosing'
+import { EMERGENCY_PROTOCOLS, EmergencyProtocol } from '@/lib/protocol-runner'
+import { DRUG_CATALOG, calculateCatalogDose, calculateFormulationVolumes } from '@/lib/drug-catalog'
+import { GROWTH_MEASURES, GrowthError, GrowthMeasure, GrowthMeasurement, Sex, assessGrowth } from '@/lib/growth'
+import { FluidError, FluidPlan, calculateFluidPlan } from '@/lib/fluids'
+import { CLINICAL_SCORES, ScoreId, ScoreResult, ScoreSeverity, ScoreValidationError, ScoreValues, calculateScore, getScore } from '@/lib/clinical-scores'
+import { DoseGiven, ImmunizationError, ImmunizationSchedule, SeriesStatus, VACCINE_SERIES, VaccineId, evaluateImmunizations } from '@/lib/immunization'
+import GrowthChart from './GrowthChart'
 
-interface Drug {
-  name: string
-  dosage: string
-  frequency: string
-  maxDose: string
-  notes: string
+const LIKELIHOOD_STYLES: Record<LikelihoodTier, string> = {
+  high: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  moderate: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  low: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
 }
 
+const DOSE_CHECK_STYLES: Record<DoseCheckStatus, string> = {
+  verified: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  unverified: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  flagged: 'bg-red-600 text-white',
+}
+
+const INTERACTION_STYLES: Record<InteractionSeverity, string> = {
+  contraindicated: 'bg-red-600 text-white',
+  major: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  moderate: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  minor: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+}
+
+const SCORE_SEVERITY_STYLES: Record<ScoreSeverity, string> = {
+  critical: 'bg-red-600 text-white',
+  high: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  moderate: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  low: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+}
+
+const SERIES_STATUS_STYLES: Record<SeriesStatus, string> = {
+  overdue: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  due: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  upcoming: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  complete: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  'not-recommended': 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+}
+
+const vaccineName = (id: VaccineId) => VACCINE_SERIES.find(series => series.id === id)?.name ?? id
+
+// Boolean inputs start unchecked; select and number inputs start empty
+const initialScoreValues = (id: ScoreId): ScoreValues =>
+  Object.fromEntries(getScore(id).inputs.filter(input => input.type === 'boolean').map(input => [input.id, false]))
+
 export default function ClinicalFeatures() {
-  const [activeTab, setActiveTab] = useState<'calculator' | 'diagnosis' | 'treatment' | 'templates' | 'emergency' | 'education'>('calculator')
+  const [activeTab, setActiveTab] = useState<'calculator' | 'growth' | 'fluids' | 'scores' | 'vaccines' | 'diagnosis' | 'treatment' | 'templates' | 'emergency' | 'education'>('calculator')
   const [weight, setWeight] = useState('')
   const [age, setAge] = useState('')
   const [selectedDrug, setSelectedDrug] = useState('')
-  const [calculation, setCalculation] = useState<Drug | null>(null)
+  const [height, setHeight] = useState('')
+  const [creatinine, setCreatinine] = useState('')
+  const [calculation, setCalculation] = useState<DoseCalculation | null>(null)
+  const [calculationError, setCalculationError] = useState('')
+
+  // Growth assessment state
+  const [growthSex, setGrowthSex] = useState<Sex>('male')
+  const [growthAge, setGrowthAge] = useState('')
+  const [growthWeight, setGrowthWeight] = useState('')
+  const [growthLength, setGrowthLength] = useState('')
+  const [growthHead, setGrowthHead] = useState('')
+  const [growthMeasurements, setGrowthMeasurements] = useState<GrowthMeasurement[]>([])
+  const [growthMeasure, setGrowthMeasure] = useState<GrowthMeasure>('weight-for-age')
+  const [growthError, setGrowthError] = useState('')
+
+  // Fluid calculator state
+  const [fluidWeight, setFluidWeight] = useState('')
+  const [fluidDehydration, setFluidDehydration] = useState('')
+  const [fluidSodium, setFluidSodium] = useState('')
+  const [fluidShock, setFluidShock] = useState(false)
+  const [fluidPlan, setFluidPlan] = useState<FluidPlan | null>(null)
+  const [fluidError, setFluidError] = useState('')
+
+  // Clinical score state
+  const [scoreId, setScoreId] = useState<ScoreId>('pgcs')
+  const [scoreValues, setScoreValues] = useState<ScoreValues>(() => initialScoreValues('pgcs'))
+  const [scoreResult, setScoreResult] = useState<ScoreResult | null>(null)
+  const [scoreError, setScoreError] = useState('')
+
+  // Catch-up immunizations
+  const [vaccineDob, setVaccineDob] = useState('')
+  const [vaccineAsOf, setVaccineAsOf] = useState('')
+  const [vaccineDoses, setVaccineDoses] = useState<DoseGiven[]>([])
+  const [doseVaccine, setDoseVaccine] = useState<VaccineId>('hepb')
+  const [doseDate, setDoseDate] = useState('')
+  const [doseProduct, setDoseProduct] = useState('')
+  const [immunizationSchedule, setImmunizationSchedule] = useState<ImmunizationSchedule | null>(null)
+  const [immunizationError, setImmunizationError] = useState('')
   
   // RAG-based features state
   const [symptoms, setSymptoms] = useState('')
   const [diagnosisAge, setDiagnosisAge] = useState('')
   const [diagnosisGender, setDiagnosisGender] = useState('')
-  const [diagnosisResult, setDiagnosisResult] = useState('')
+  const [differential, setDifferential] = useState<DifferentialDiagnosis | null>(null)
+  const [diagnosisReasoning, setDiagnosisReasoning] = useState('')
+  const [diagnosisError, setDiagnosisError] = useState('')
+  const [mustNotMissOnly, setMustNotMissOnly] = useState(false)
   const [isDiagnosisLoading, setIsDiagnosisLoading] = useState(false)
   
   const [treatmentCondition, setTreatmentCondition] = useState('')
@@ -40,7 +127,14 @@ export default function ClinicalFeatures() {
   const [treatmentWeight, setTreatmentWeight] = useState('')
   const [treatmentAllergies, setTreatmentAllergies] = useState('')
   const [treatmentSeverity, setTreatmentSeverity] = useState('')
-  const [treatmentResult, setTreatmentResult] = useState('')
+  const [currentMedications, setCurrentMedications] = useState<string[]>([])
+  const [medicationInput, setMedicationInput] = useState('')
+  const [interactions, setInteractions] = useState<InteractionCheckResult | null>(null)
+  const [allergyCheck, setAllergyCheck] = useState<AllergyCheckResult | null>(null)
+  const [treatmentPlan, setTreatmentPlan] = useState<TreatmentPlan | null>(null)
+  const [doseCheck, setDoseCheck] = useState<DoseCheckSummary | null>(null)
+  const [familySummary, setFamilySummary] = useState('')
+  const [treatmentError, setTreatmentError] = useState('')
   const [isTreatmentLoading, setIsTreatmentLoading] = useState(false)
   
   const [educationTopic, setEducationTopic] = useState('')
@@ -50,42 +144,14 @@ export default function ClinicalFeatures() {
   const [educationResult, setEducationResult] = useState('')
   const [isEducationLoading, setIsEducationLoading] = useState(false)
 
-  const commonDrugs = [
-    {
-      name: 'Acetaminophen',
-      dosage: '10-15 mg/kg/dose',
-      frequency: 'Every 4-6 hours',
-      maxDose: '75 mg/kg/day, max 4000 mg/day',
-      notes: 'For fever and pain. Monitor liver function in prolonged use.'
-    },
-    {
-      name: 'Ibuprofen',
-      dosage: '5-10 mg/kg/dose',
-      frequency: 'Every 6-8 hours',
-      maxDose: '40 mg/kg/day, max 2400 mg/day',
-      notes: 'For fever and pain. Avoid in dehydration. Use with food.'
-    },
-    {
-      name: 'Amoxicillin',
-      dosage: '25-45 mg/kg/day',
-      frequency: 'Every 12 hours',
-      maxDose: '90 mg/kg/day',
-      notes: 'For bacterial infections. Complete full course of treatment.'
-    },
-    {
-      name: 'Albuterol',
-      dosage: '0.1-0.3 mg/kg/dose',
-      frequency: 'Every 4-6 hours as needed',
-      maxDose: '2.5 mg per dose',
-      notes: 'For asthma and wheezing. Monitor heart rate.'
-    }
-  ]
+  const [runningProtocol, setRunningProtocol] = useState<EmergencyProtocol | null>(null)
 
   // RAG-based functions
   const generateDifferentialDiagnosis = async () => {
     if (!symptoms || !diagnosisAge) return
 
     setIsDiagnosisLoading(true)
+    setDiagnosisError('')
     try {
       const symptomsList = symptoms.split(',').map(s => s.trim()).filter(s => s)
       
@@ -102,12 +168,15 @@ export default function ClinicalFeatures() {
 
       const data = await response.json()
       if (response.ok) {
-        setDiagnosisResult(data.diagnosis)
+        setDifferential(data.differential)
+        setDiagnosisReasoning(data.clinicalReasoning || '')
       } else {
-        setDiagnosisResult('Error generating diagnosis. Please try again.')
+        setDifferential(null)
+        setDiagnosisError(data.error || 'Error generating diagnosis. Please try again.')
       }
     } catch (error) {
-      setDiagnosisResult('Network error. Please check your connection and try again.')
+      setDifferential(null)
+      setDiagnosisError('Network error. Please check your connection and try again.')
     } finally {
       setIsDiagnosisLoading(false)
     }
@@ -117,6 +186,7 @@ export default function ClinicalFeatures() {
     if (!treatmentCondition || !treatmentAge) return
 
     setIsTreatmentLoading(true)
+    setTreatmentError('')
     try {
       const response = await fetch('/api/rag/clinical/treatment', {
         method: 'POST',
@@ -126,7 +196,7 @@ export default function ClinicalFeatures() {
           patientAge: treatmentAge,
           patientWeight: treatmentWeight,
           allergies: treatmentAllergies ? treatmentAllergies.split(',').map(a => a.trim()) : [],
-          currentMedications: [],
+          currentMedications,
           severity: treatmentSeverity,
           useGemini: true,
         }),
@@ -134,17 +204,31 @@ export default function ClinicalFeatures() {
 
       const data = await response.json()
       if (response.ok) {
-        setTreatmentResult(data.treatment)
+        setTreatmentPlan(data.plan)
+        setDoseCheck(data.doseCheck)
+        setInteractions(data.interactions)
+        setAllergyCheck(data.allergyCheck)
+        setFamilySummary(data.familySummary || '')
       } else {
-        setTreatmentResult('Error generating treatment recommendations. Please try again.')
+        setTreatmentPlan(null)
+        setTreatmentError(data.error || 'Error generating treatment recommendations. Please try again.')
       }
     } catch (error) {
-      setTreatmentResult('Network error. Please check your connection and try again.')
+      setTreatmentPlan(null)
+      setTreatmentError('Network error. Please check your connection and try again.')
     } finally {
       setIsTreatmentLoading(false)
     }
   }
 
+  const addCurrentMedication = () => {
+    const medication = medicationInput.trim()
+    if (medication && !currentMedications.some(m => m.toLowerCase() === medication.toLowerCase())) {
+      setCurrentMedications([...currentMedications, medication])
+    }
+    setMedicationInput('')
+  }
+
   const generateMedicalEducation = async () => {
     if (!educationTopic) return
 
@@ -174,54 +258,6 @@ export default function ClinicalFeatures() {
     }
   }
 
-  const emergencyProtocols = [
-    {
-      title: 'Pediatric Advanced Life Support (PALS)',
-      category: 'Cardiac',
-      ageGroup: 'All Ages',
-      description: 'Cardiopulmonary resuscitation for pediatric patients',
-      steps: [
-        'Check responsiveness and breathing',
-        'Call for help and activate emergency response',
-        'Check pulse (brachial/femoral)',
-        'Start chest compressions if no pulse',
-        'Provide rescue breaths',
-        'Use AED as soon as available',
-        'Administer epinephrine if indicated'
-      ]
-    },
-    {
-      title: 'Anaphylaxis Management',
-      category: 'Allergic',
-      ageGroup: 'All Ages',
-      description: 'Emergency management of severe allergic reactions',
-      steps: [
-        'Administer epinephrine IM (0.01 mg/kg, max 0.5 mg)',
-        'Position patient supine with legs elevated',
-        'Administer oxygen',
-        'Establish IV access',
-        'Give antihistamines and corticosteroids',
-        'Monitor vital signs closely',
-        'Prepare for advanced airway management'
-      ]
-    },
-    {
-      title: 'Febrile Seizure Management',
-      category: 'Neurological',
-      ageGroup: '6 months - 6 years',
-      description: 'Management of febrile seizures in children',
-      steps: [
-        'Ensure airway patency and safety',
-        'Position on side to prevent aspiration',
-        'Do not restrain or put objects in mouth',
-        'Monitor duration and characteristics',
-        'Treat fever if present (acetaminophen/ibuprofen)',
-        'Consider diagnostic workup for first seizure',
-        'Parent education and reassurance'
-      ]
-    }
-  ]
-
   const clinicalTemplates = [
     {
       title: 'Well Child Visit',
@@ -246,23 +282,94 @@ export default function ClinicalFeatures() {
   const calculateDosage = () => {
     if (!weight || !selectedDrug) return
 
-    const drug = commonDrugs.find(d => d.name === selectedDrug)
-    if (!drug) return
+    try {
+      const heightCm = height ? parseFloat(height) : undefined
+      setCalculation(calculateCatalogDose(selectedDrug, {
+        weightKg: parseFloat(weight),
+        heightCm,
+        egfr: creatinine ? bedsideSchwartzEgfr(heightCm ?? NaN, parseFloat(creatinine)) : undefined,
+      }))
+      setCalculationError('')
+    } catch (error) {
+      setCalculation(null)
+      setCalculationError(error instanceof DosingError ? error.message : 'Unable to calculate this dose.')
+    }
+  }
+
+  const addGrowthMeasurement = () => {
+    const measurement: GrowthMeasurement = {
+      ageMonths: parseFloat(growthAge),
+      weightKg: growthWeight ? parseFloat(growthWeight) : undefined,
+      lengthCm: growthLength ? parseFloat(growthLength) : undefined,
+      headCircumferenceCm: growthHead ? parseFloat(growthHead) : undefined,
+    }
 
-    const weightNum = parseFloat(weight)
-    const dosageMatch = drug.dosage.match(/(\d+)-?(\d*)\s*mg\/kg/)
-    
-    if (dosageMatch) {
-      const minDose = parseFloat(dosageMatch[1])
-      const maxDose = dosageMatch[2] ? parseFloat(dosageMatch[2]) : minDose
-      
-      setCalculation({
-        ...drug,
-        dosage: `${(minDose * weightNum).toFixed(1)}-${(maxDose * weightNum).toFixed(1)} mg per dose`
-      })
+    try {
+      assessGrowth(measurement, growthSex)
+      setGrowthMeasurements([...growthMeasurements, measurement].sort((a, b) => a.ageMonths - b.ageMonths))
+      setGrowthError('')
+    } catch (error) {
+      setGrowthError(error instanceof GrowthError ? error.message : 'Unable to assess this measurement.')
+    }
+  }
+
+  const calculateFluids = () => {
+    try {
+      setFluidPlan(calculateFluidPlan({
+        weightKg: parseFloat(fluidWeight),
+        dehydrationPercent: fluidDehydration ? parseFloat(fluidDehydration) : undefined,
+        serumSodium: fluidSodium ? parseFloat(fluidSodium) : undefined,
+        shock: fluidShock,
+      }))
+      setFluidError('')
+    } catch (error) {
+      setFluidPlan(null)
+      setFluidError(error instanceof FluidError ? error.message : 'Unable to calculate fluids.')
+    }
+  }
+
+  const selectScore = (id: ScoreId) => {
+    setScoreId(id)
+    setScoreValues(initialScoreValues(id))
+    setScoreResult(null)
+    setScoreError('')
+  }
+
+  const calculateClinicalScore = () => {
+    try {
+      setScoreResult(calculateScore(scoreId, scoreValues))
+      setScoreError('')
+    } catch (error) {
+      setScoreResult(null)
+      setScoreError(error instanceof ScoreValidationError ? error.message : 'Unable to calculate score.')
     }
   }
 
+  const addVaccineDose = () => {
+    if (!doseDate) return
+    setVaccineDoses([...vaccineDoses, { vaccine: doseVaccine, date: doseDate, product: doseProduct.trim() || undefined }]
+      .sort((a, b) => a.date.localeCompare(b.date)))
+    setDoseDate('')
+    setDoseProduct('')
+  }
+
+  const evaluateVaccines = () => {
+    try {
+      setImmunizationSchedule(evaluateImmunizations({ dateOfBirth: vaccineDob, doses: vaccineDoses, asOf: vaccineAsOf || undefined }))
+      setImmunizationError('')
+    } catch (error) {
+      setImmunizationSchedule(null)
+      setImmunizationError(error instanceof ImmunizationError ? error.message : 'Unable to evaluate immunizations.')
+    }
+  }
+
+  const latestGrowth = growthMeasurements.length > 0
+    ? assessGrowth(growthMeasurements[growthMeasurements.length - 1], growthSex)
+    : null
+
+  const selectedMonograph = DRUG_CATALOG.find(drug => drug.name === calculation?.drug)
+  const formulationVolumes = calculation ? calculateFormulationVolumes(calculation) : []
+
   return (
     <div className="max-w-6xl mx-auto p-2 sm:p-3 md:p-6 space-y-4 sm:space-y-6">
       <div className="flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6">
@@ -282,6 +389,46 @@ export default function ClinicalFeatures() {
           <span className="hidden sm:inline">Drug Calculator</span>
           <span className="sm:hidden">Calc</span>
         </Button>
+        <Button
+          variant={activeTab === 'growth' ? 'default' : 'outline'}
+          onClick={() => setActiveTab('growth')}
+          className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm touch-manipulation"
+          size="sm"
+        >
+          <Baby className="h-3 w-3 sm:h-4 sm:w-4" />
+          <span className="hidden sm:inline">Growth</span>
+          <span className="sm:hidden">Grw</span>
+        </Button>
+        <Button
+          variant={activeTab === 'fluids' ? 'default' : 'outline'}
+          onClick={() => setActiveTab('fluids')}
+          className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm touch-manipulation"
+          size="sm"
+        >
+          <Droplets className="h-3 w-3 sm:h-4 sm:w-4" />
+          <span className="hidden sm:inline">Fluids</span>
+          <span className="sm:hidden">IVF</span>
+        </Button>
+        <Button
+          variant={activeTab === 'scores' ? 'default' : 'outline'}
+          onClick={() => setActiveTab('scores')}
+          className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm touch-manipulation"
+          size="sm"
+        >
+          <ListChecks className="h-3 w-3 sm:h-4 sm:w-4" />
+          <span className="hidden sm:inline">Scores</span>
+          <span className="sm:hidden">Scr</span>
+        </Button>
+        <Button
+          variant={activeTab === 'vaccines' ? 'default' : 'outline'}
+          onClick={() => setActiveTab('vaccines')}
+          className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm touch-manipulation"
+          size="sm"
+        >
+          <Syringe className="h-3 w-3 sm:h-4 sm:w-4" />
+          <span className="hidden sm:inline">Vaccines</span>
+          <span className="sm:hidden">Vax</span>
+        </Button>
         <Button
           variant={activeTab === 'diagnosis' ? 'default' : 'outline'}
           onClick={() => setActiveTab('diagnosis')}
@@ -378,7 +525,7 @@ export default function ClinicalFeatures() {
                     <SelectValue placeholder="Select medication" />
                   </SelectTrigger>
                   <SelectContent>
-                    {commonDrugs.map((drug) => (
+                    {DRUG_CATALOG.map((drug) => (
                       <SelectItem key={drug.name} value={drug.name}>
                         {drug.name}
                       </SelectItem>
@@ -386,12 +533,40 @@ export default function ClinicalFeatures() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="height" className="text-sm">Height (cm, for mg/m² drugs and eGFR)</Label>
+                <Input
+                  id="height"
+                  type="number"
+                  value={height}
+                  onChange={(e) => setHeight(e.target.value)}
+                  placeholder="Optional"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="creatinine" className="text-sm">Serum Creatinine (mg/dL, for renal dosing)</Label>
+                <Input
+                  id="creatinine"
+                  type="number"
+                  value={creatinine}
+                  onChange={(e) => setCreatinine(e.target.value)}
+                  placeholder="Optional"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
             </div>
             
             <Button onClick={calculateDosage} disabled={!weight || !selectedDrug} className="w-full sm:w-auto touch-manipulation">
               Calculate Dosage
             </Button>
 
+            {calculationError && (
+              <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs sm:text-sm">
+                {calculationError}
+              </div>
+            )}
+
             {calculation && (
               <Card className="bg-muted/50">
                 <CardContent className="p-3 sm:p-4">
@@ -400,12 +575,71 @@ export default function ClinicalFeatures() {
                     <h3 className="font-semibold text-sm sm:text-base">Dosage Calculation</h3>
                   </div>
                   <div className="space-y-2 text-xs sm:text-sm">
-                    <p><strong>Medication:</strong> {calculation.name}</p>
-                    <p><strong>Calculated Dosage:</strong> {calculation.dosage}</p>
-                    <p><strong>Frequency:</strong> {calculation.frequency}</p>
-                    <p><strong>Maximum Daily Dose:</strong> {calculation.maxDose}</p>
-                    <p><strong>Important Notes:</strong> {calculation.notes}</p>
+                    <p><strong>Medication:</strong> {calculation.drug} ({calculation.rule.route}, {describeDoseRule(calculation.rule)})</p>
+                    {calculation.bsaM2 !== undefined && <p><strong>Body Surface Area:</strong> {calculation.bsaM2} m²</p>}
+                    {calculation.renal && <p><strong>eGFR (bedside Schwartz):</strong> {calculation.renal.egfr} mL/min/1.73 m²</p>}
+                    {calculation.perDose && (
+                      <p>
+                        <strong>Per Dose:</strong> {formatDoseRange(calculation.perDose, calculation.unit)}
+                        {calculation.perDose.capped && <Badge variant="destructive" className="ml-2 text-xs">Capped</Badge>}
+                      </p>
+                    )}
+                    {calculation.perDay && (
+                      <p>
+                        <strong>Per Day:</strong> {formatDoseRange(calculation.perDay, calculation.unit)}
+                        {calculation.perDay.capped && <Badge variant="destructive" className="ml-2 text-xs">Capped</Badge>}
+                      </p>
+                    )}
+                    <p><strong>Frequency:</strong> {calculation.rule.frequency}</p>
+                    <p><strong>Maximum Dose:</strong> {describeDoseLimits(calculation.rule)}</p>
+                    {selectedMonograph && <p><strong>Important Notes:</strong> {selectedMonograph.notes}</p>}
                   </div>
+                  {formulationVolumes.length > 0 && (
+                    <Table className="mt-3">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Formulation</TableHead>
+                          <TableHead>Volume per Dose</TableHead>
+                          <TableHead className="hidden sm:table-cell">Delivers</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {formulationVolumes.map((volume) => (
+                          <TableRow key={volume.formulation.label}>
+                            <TableCell className="align-top whitespace-normal text-xs sm:text-sm">{volume.formulation.label}</TableCell>
+                            <TableCell className="align-top whitespace-normal text-xs sm:text-sm">
+                              <span className="font-medium">{formatDoseRange(volume.perDoseMl, 'mL')}</span>
+                              <span className="text-muted-foreground"> (in {volume.incrementMl} mL steps)</span>
+                              {volume.warning && <p className="text-red-600 mt-1">{volume.warning}</p>}
+                            </TableCell>
+                            <TableCell className="hidden sm:table-cell align-top text-xs sm:text-sm">
+                              {formatDoseRange(volume.deliveredPerDose, calculation.unit)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  {calculation.renal && (
+                    <div className={`mt-3 p-2 border rounded text-xs ${calculation.renal.avoid ? 'border-red-300 bg-red-50 dark:bg-red-950/30' : 'border-amber-300 bg-amber-50 dark:bg-amber-950/30'}`}>
+                      <div className="flex items-center gap-1 font-semibold mb-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        {calculation.renal.avoid ? 'Avoid in this degree of renal impairment' : calculation.renal.adjustment ? 'Adjusted for renal function' : 'Renal function checked'}
+                      </div>
+                      <p>{calculation.renal.explanation}</p>
+                    </div>
+                  )}
+                  {calculation.capsApplied.length > 0 && (
+                    <div className="mt-3 p-2 border border-red-300 bg-red-50 dark:bg-red-950/30 rounded text-xs">
+                      <div className="flex items-center gap-1 font-semibold text-red-700 dark:text-red-300 mb-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        Maximum dose reached
+                      </div>
+                      <ul className="list-disc pl-5 space-y-0.5">
+                        {calculation.capsApplied.map((cap, index) => <li key={index}>{cap.message}</li>)}
+                      </ul>
+                    </div>
+                  )}
                   <div className="mt-3 p-2 bg-yellow-100 dark:bg-yellow-900/20 rounded text-xs">
                     <strong>Disclaimer:</strong> This calculator provides estimates only. Always verify dosages and consult appropriate references before administration.
                   </div>
@@ -416,6 +650,547 @@ export default function ClinicalFeatures() {
         </Card>
       )}
 
+      {/* Growth Assessment */}
+      {activeTab === 'growth' && (
+        <Card>
+          <CardHeader className="pb-3 sm:pb-6">
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <Baby className="h-4 w-4 sm:h-5 sm:w-5" />
+              Growth Percentiles and Z-Scores
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 sm:space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+              <div>
+                <Label htmlFor="growth-sex" className="text-sm">Sex</Label>
+                <Select value={growthSex} onValueChange={(value) => setGrowthSex(value as Sex)}>
+                  <SelectTrigger id="growth-sex" className="text-sm touch-manipulation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="male">Male</SelectItem>
+                    <SelectItem value="female">Female</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="growth-age" className="text-sm">Age (months)</Label>
+                <Input
+                  id="growth-age"
+                  type="number"
+                  value={growthAge}
+                  onChange={(e) => setGrowthAge(e.target.value)}
+                  placeholder="e.g., 9"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="growth-weight" className="text-sm">Weight (kg)</Label>
+                <Input
+                  id="growth-weight"
+                  type="number"
+                  value={growthWeight}
+                  onChange={(e) => setGrowthWeight(e.target.value)}
+                  placeholder="Optional"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="growth-length" className="text-sm">Length/Height (cm)</Label>
+                <Input
+                  id="growth-length"
+                  type="number"
+                  value={growthLength}
+                  onChange={(e) => setGrowthLength(e.target.value)}
+                  placeholder="Optional"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="growth-head" className="text-sm">Head Circumference (cm)</Label>
+                <Input
+                  id="growth-head"
+                  type="number"
+                  value={growthHead}
+                  onChange={(e) => setGrowthHead(e.target.value)}
+                  placeholder="Optional"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={addGrowthMeasurement}
+                disabled={!growthAge || !(growthWeight || growthLength || growthHead)}
+                className="w-full sm:w-auto touch-manipulation"
+              >
+                Add Measurement
+              </Button>
+              {growthMeasurements.length > 0 && (
+                <Button variant="outline" onClick={() => setGrowthMeasurements([])} className="w-full sm:w-auto touch-manipulation">
+                  Clear Series
+                </Button>
+              )}
+            </div>
+
+            {growthError && (
+              <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs sm:text-sm">
+                {growthError}
+              </div>
+            )}
+
+            {latestGrowth && (
+              <Card className="bg-muted/50">
+                <CardContent className="p-3 sm:p-4 space-y-3">
+                  <h3 className="font-semibold text-sm sm:text-base">
+                    Latest Measurement ({latestGrowth.ageMonths} months{latestGrowth.bmi !== undefined ? `, BMI ${latestGrowth.bmi}` : ''})
+                  </h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Measure</TableHead>
+                        <TableHead>Z-Score</TableHead>
+                        <TableHead>Percentile</TableHead>
+                        <TableHead className="hidden sm:table-cell">Reference</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {latestGrowth.scores.map((score) => (
+                        <TableRow key={score.measure}>
+                          <TableCell className="text-xs sm:text-sm">{GROWTH_MEASURES[score.measure].label}</TableCell>
+                          <TableCell className={`text-xs sm:text-sm ${Math.abs(score.zScore) > 2 ? 'text-red-600 font-medium' : ''}`}>{score.zScore}</TableCell>
+                          <TableCell className="text-xs sm:text-sm">{score.percentile}</TableCell>
+                          <TableCell className="hidden sm:table-cell text-xs sm:text-sm">{score.source}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {latestGrowth.unavailable.length > 0 && (
+                    <ul className="list-disc pl-5 text-xs text-muted-foreground space-y-0.5">
+                      {latestGrowth.unavailable.map((item) => <li key={item.measure}>{item.reason}</li>)}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {growthMeasurements.length > 0 && (
+              <div className="space-y-2">
+                <Select value={growthMeasure} onValueChange={(value) => setGrowthMeasure(value as GrowthMeasure)}>
+                  <SelectTrigger className="text-sm touch-manipulation sm:w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(GROWTH_MEASURES) as GrowthMeasure[]).map((measure) => (
+                      <SelectItem key={measure} value={measure}>{GROWTH_MEASURES[measure].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <GrowthChart measure={growthMeasure} sex={growthSex} measurements={growthMeasurements} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Fluid Calculator */}
+      {activeTab === 'fluids' && (
+        <Card>
+          <CardHeader className="pb-3 sm:pb-6">
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <Droplets className="h-4 w-4 sm:h-5 sm:w-5" />
+              Maintenance and Dehydration Fluids
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 sm:space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+              <div>
+                <Label htmlFor="fluid-weight" className="text-sm">Weight (kg)</Label>
+                <Input
+                  id="fluid-weight"
+                  type="number"
+                  value={fluidWeight}
+                  onChange={(e) => setFluidWeight(e.target.value)}
+                  placeholder="Enter weight"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="fluid-dehydration" className="text-sm">Dehydration (% body weight)</Label>
+                <Input
+                  id="fluid-dehydration"
+                  type="number"
+                  value={fluidDehydration}
+                  onChange={(e) => setFluidDehydration(e.target.value)}
+                  placeholder="Mild 3-5, moderate 6-9, severe 10+"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="fluid-sodium" className="text-sm">Serum Sodium (mEq/L)</Label>
+                <Input
+                  id="fluid-sodium"
+                  type="number"
+                  value={fluidSodium}
+                  onChange={(e) => setFluidSodium(e.target.value)}
+                  placeholder="Optional"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="fluid-shock" checked={fluidShock} onCheckedChange={setFluidShock} />
+              <Label htmlFor="fluid-shock" className="text-sm">Signs of shock</Label>
+            </div>
+
+            <Button onClick={calculateFluids} disabled={!fluidWeight} className="w-full sm:w-auto touch-manipulation">
+              Calculate Fluids
+            </Button>
+
+            {fluidError && (
+              <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs sm:text-sm">
+                {fluidError}
+              </div>
+            )}
+
+            {fluidPlan && (
+              <Card className="bg-muted/50">
+                <CardContent className="p-3 sm:p-4 space-y-3 text-xs sm:text-sm">
+                  <div className="space-y-1">
+                    <p><strong>Maintenance:</strong> {fluidPlan.maintenance.mlPerHour} mL/h ({fluidPlan.maintenance.mlPerDay} mL/day)</p>
+                    {fluidPlan.deficit && <p><strong>Deficit:</strong> {fluidPlan.deficit.ml} mL ({fluidPlan.deficit.percent}%)</p>}
+                    <p><strong>Sodium Status:</strong> <span className="capitalize">{fluidPlan.sodiumStatus}</span></p>
+                    {fluidPlan.sodiumDeficitMeq !== undefined && <p><strong>Sodium Deficit:</strong> {fluidPlan.sodiumDeficitMeq} mEq</p>}
+                    {fluidPlan.freeWaterDeficitMl !== undefined && <p><strong>Free Water Deficit:</strong> {fluidPlan.freeWaterDeficitMl} mL</p>}
+                    <p><strong>First 24 Hours:</strong> {fluidPlan.first24hMl} mL</p>
+                  </div>
+
+                  {fluidPlan.bolus && (
+                    <div className="p-2 border border-red-300 bg-red-50 dark:bg-red-950/30 rounded">
+                      <div className="flex items-center gap-1 font-semibold text-red-700 dark:text-red-300 mb-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        Bolus first: {fluidPlan.bolus.ml} mL {fluidPlan.bolus.fluid}
+                      </div>
+                      <p>{fluidPlan.bolus.instructions}</p>
+                    </div>
+                  )}
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Phase</TableHead>
+                        <TableHead>Hours</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead className="hidden sm:table-cell">Fluid</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {fluidPlan.phases.map((phase) => (
+                        <TableRow key={phase.startHour}>
+                          <TableCell className="align-top whitespace-normal text-xs sm:text-sm">{phase.label}</TableCell>
+                          <TableCell className="align-top text-xs sm:text-sm">{phase.startHour}-{phase.startHour + phase.hours}</TableCell>
+                          <TableCell className="align-top text-xs sm:text-sm font-medium">{phase.mlPerHour} mL/h</TableCell>
+                          <TableCell className="hidden sm:table-cell align-top whitespace-normal text-xs sm:text-sm">{phase.fluid}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  {fluidPlan.warnings.length > 0 && (
+                    <ul className="list-disc pl-5 space-y-0.5 text-amber-800 dark:text-amber-300">
+                      {fluidPlan.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                    </ul>
+                  )}
+                  <div className="p-2 bg-yellow-100 dark:bg-yellow-900/20 rounded text-xs">
+                    <strong>Disclaimer:</strong> Reassess clinical status, urine output and electrolytes regularly and adjust rates accordingly.
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Clinical Scores */}
+      {activeTab === 'scores' && (
+        <Card>
+          <CardHeader className="pb-3 sm:pb-6">
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <ListChecks className="h-4 w-4 sm:h-5 sm:w-5" />
+              Clinical Scores
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 sm:space-y-4">
+            <div>
+              <Label className="text-sm">Score</Label>
+              <Select value={scoreId} onValueChange={(value) => selectScore(value as ScoreId)}>
+                <SelectTrigger className="text-sm touch-manipulation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLINICAL_SCORES.map((score) => (
+                    <SelectItem key={score.id} value={score.id}>{score.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">{getScore(scoreId).description}</p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              {getScore(scoreId).inputs.map((input) => (
+                <div key={`${scoreId}-${input.id}`} className={input.type === 'boolean' ? 'flex items-center gap-2 sm:col-span-2' : ''}>
+                  {input.type === 'boolean' ? (
+                    <>
+                      <Switch
+                        id={`score-${input.id}`}
+                        checked={scoreValues[input.id] === true}
+                        onCheckedChange={(checked) => setScoreValues({ ...scoreValues, [input.id]: checked })}
+                      />
+                      <Label htmlFor={`score-${input.id}`} className="text-sm">{input.label}</Label>
+                    </>
+                  ) : (
+                    <>
+                      <Label htmlFor={`score-${input.id}`} className="text-sm">
+                        {input.label}{input.type === 'number' && ` (${input.unit})`}{input.optional && ' (optional)'}
+                      </Label>
+                      {input.type === 'select' ? (
+                        <Select
+                          value={scoreValues[input.id] === undefined ? '' : String(scoreValues[input.id])}
+                          onValueChange={(value) => setScoreValues({ ...scoreValues, [input.id]: value })}
+                        >
+                          <SelectTrigger id={`score-${input.id}`} className="text-sm touch-manipulation">
+                            <SelectValue placeholder="Select" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {input.options.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>{option.label} ({option.points})</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          id={`score-${input.id}`}
+                          type="number"
+                          min={input.min}
+                          max={input.max}
+                          value={scoreValues[input.id] === undefined ? '' : String(scoreValues[input.id])}
+                          onChange={(e) => setScoreValues({ ...scoreValues, [input.id]: e.target.value || undefined })}
+                          className="text-sm touch-manipulation"
+                        />
+                      )}
+                      {input.help && <p className="text-xs text-muted-foreground mt-1">{input.help}</p>}
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={calculateClinicalScore} className="w-full sm:w-auto touch-manipulation">
+              Calculate Score
+            </Button>
+
+            {scoreError && (
+              <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs sm:text-sm">
+                {scoreError}
+              </div>
+            )}
+
+            {scoreResult && (
+              <Card className="bg-muted/50">
+                <CardContent className="p-3 sm:p-4 space-y-3 text-xs sm:text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {scoreResult.total !== undefined && (
+                      <span className="text-xl sm:text-2xl font-bold">{scoreResult.total}/{scoreResult.maxTotal}</span>
+                    )}
+                    <Badge className={`text-xs ${SCORE_SEVERITY_STYLES[scoreResult.severity]}`}>{scoreResult.label}</Badge>
+                  </div>
+                  <p>{scoreResult.interpretation}</p>
+                  {scoreResult.total !== undefined && (
+                    <Table>
+                      <TableBody>
+                        {scoreResult.components.filter((component) => component.points !== undefined).map((component) => (
+                          <TableRow key={component.id}>
+                            <TableCell className="whitespace-normal text-xs sm:text-sm">{component.label}</TableCell>
+                            <TableCell className="hidden sm:table-cell whitespace-normal text-xs sm:text-sm text-muted-foreground">{component.display}</TableCell>
+                            <TableCell className="text-right text-xs sm:text-sm font-medium">{component.points}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  {scoreResult.warnings.length > 0 && (
+                    <ul className="list-disc pl-5 space-y-0.5 text-amber-800 dark:text-amber-300">
+                      {scoreResult.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                    </ul>
+                  )}
+                  <p className="text-xs text-muted-foreground">{getScore(scoreId).reference}</p>
+                </CardContent>
+              </Card>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Catch-Up Immunizations */}
+      {activeTab === 'vaccines' && (
+        <Card>
+          <CardHeader className="pb-3 sm:pb-6">
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <Syringe className="h-4 w-4 sm:h-5 sm:w-5" />
+              Catch-Up Immunizations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 sm:space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              <div>
+                <Label htmlFor="vaccine-dob" className="text-sm">Date of Birth</Label>
+                <Input
+                  id="vaccine-dob"
+                  type="date"
+                  value={vaccineDob}
+                  onChange={(e) => setVaccineDob(e.target.value)}
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div>
+                <Label htmlFor="vaccine-as-of" className="text-sm">Assess As Of</Label>
+                <Input
+                  id="vaccine-as-of"
+                  type="date"
+                  value={vaccineAsOf}
+                  onChange={(e) => setVaccineAsOf(e.target.value)}
+                  placeholder="Today"
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+              <div className="sm:col-span-2">
+                <Label htmlFor="dose-vaccine" className="text-sm">Vaccine Given</Label>
+                <Select value={doseVaccine} onValueChange={(value) => setDoseVaccine(value as VaccineId)}>
+                  <SelectTrigger id="dose-vaccine" className="text-sm touch-manipulation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VACCINE_SERIES.map((series) => (
+                      <SelectItem key={series.id} value={series.id}>{series.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="dose-date" className="text-sm">Date</Label>
+                <Input
+                  id="dose-date"
+                  type="date"
+                  value={doseDate}
+                  onChange={(e) => setDoseDate(e.target.value)}
+                  className="text-sm touch-manipulation"
+                />
+              </div>
+              <div className="flex gap-2">
+                {doseVaccine === 'rv' && (
+                  <Input
+                    value={doseProduct}
+                    onChange={(e) => setDoseProduct(e.target.value)}
+                    placeholder="RV1/RV5"
+                    className="text-sm touch-manipulation"
+                  />
+                )}
+                <Button variant="outline" onClick={addVaccineDose} disabled={!doseDate} className="touch-manipulation">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {vaccineDoses.length > 0 && (
+              <div className="flex flex-wrap gap-1 sm:gap-2">
+                {vaccineDoses.map((dose, index) => (
+                  <Badge key={index} variant="secondary" className="text-xs gap-1">
+                    {vaccineName(dose.vaccine)}{dose.product ? ` (${dose.product})` : ''} {dose.date}
+                    <button
+                      type="button"
+                      onClick={() => setVaccineDoses(vaccineDoses.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${vaccineName(dose.vaccine)} ${dose.date}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <Button onClick={evaluateVaccines} disabled={!vaccineDob} className="w-full sm:w-auto touch-manipulation">
+              Evaluate Schedule
+            </Button>
+
+            {immunizationError && (
+              <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs sm:text-sm">
+                {immunizationError}
+              </div>
+            )}
+
+            {immunizationSchedule && (
+              <Card className="bg-muted/50">
+                <CardContent className="p-3 sm:p-4 space-y-3 text-xs sm:text-sm">
+                  <p><strong>Age:</strong> {immunizationSchedule.ageMonths} months (as of {immunizationSchedule.asOf})</p>
+
+                  {immunizationSchedule.doses.some((dose) => dose.validity !== 'valid') && (
+                    <ul className="list-disc pl-5 space-y-0.5 text-amber-800 dark:text-amber-300">
+                      {immunizationSchedule.doses.filter((dose) => dose.validity !== 'valid').map((dose, index) => (
+                        <li key={index}>
+                          {vaccineName(dose.vaccine)} {dose.date}: {dose.validity === 'invalid' ? 'not valid' : 'not needed'}. {dose.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Vaccine</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Doses</TableHead>
+                        <TableHead>Next Dose</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {immunizationSchedule.series.map((series) => (
+                        <TableRow key={series.vaccine}>
+                          <TableCell className="align-top whitespace-normal text-xs sm:text-sm">
+                            {series.name}
+                            {series.status !== 'complete' && series.notes.length > 0 && (
+                              <div className="text-xs text-muted-foreground">{series.notes[0]}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="align-top">
+                            <Badge className={`text-xs ${SERIES_STATUS_STYLES[series.status]}`}>{series.status.replace('-', ' ')}</Badge>
+                          </TableCell>
+                          <TableCell className="align-top text-xs sm:text-sm">{series.validDoses}/{series.dosesNeeded}</TableCell>
+                          <TableCell className="align-top whitespace-normal text-xs sm:text-sm">
+                            {series.nextDose && (
+                              <>
+                                Dose {series.nextDose.doseNumber}: earliest {series.nextDose.earliestDate}
+                                {series.nextDose.dueDate !== series.nextDose.earliestDate && <div>Due {series.nextDose.dueDate}</div>}
+                              </>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground">
+                    CDC catch-up schedule for healthy children: minimum ages and intervals with a 4-day grace period. Enter combination vaccines as their components.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Clinical Templates */}
       {activeTab === 'templates' && (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
@@ -444,11 +1219,18 @@ export default function ClinicalFeatures() {
       )}
 
       {/* Emergency Protocols */}
-      {activeTab === 'emergency' && (
+      {/* Kept mounted while another tab is open so a running protocol keeps its timers and log */}
+      {runningProtocol && (
+        <div className={activeTab === 'emergency' ? '' : 'hidden'}>
+          <ProtocolRunner protocol={runningProtocol} onClose={() => setRunningProtocol(null)} />
+        </div>
+      )}
+
+      {activeTab === 'emergency' && !runningProtocol && (
         <ScrollArea className="max-h-[500px] sm:max-h-[600px]">
           <div className="space-y-3 sm:space-y-4">
-            {emergencyProtocols.map((protocol, index) => (
-              <Card key={index}>
+            {EMERGENCY_PROTOCOLS.map((protocol) => (
+              <Card key={protocol.id}>
                 <CardHeader className="pb-3">
                   <div className="flex items-start justify-between">
                     <div>
@@ -467,14 +1249,28 @@ export default function ClinicalFeatures() {
                   <div className="space-y-2">
                     <Label className="text-sm font-medium">Emergency Steps:</Label>
                     {protocol.steps.map((step, idx) => (
-                      <div key={idx} className="flex items-start gap-2 text-xs sm:text-sm">
+                      <div key={step.id} className="flex items-start gap-2 text-xs sm:text-sm">
                         <span className="bg-primary text-primary-foreground rounded-full w-4 h-4 sm:w-5 sm:h-5 flex items-center justify-center text-xs font-bold flex-shrink-0 mt-0.5">
                           {idx + 1}
                         </span>
-                        <span>{step}</span>
+                        <span>{step.text}</span>
                       </div>
                     ))}
                   </div>
+                  <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                    <Button size="sm" className="w-full sm:w-auto touch-manipulation" onClick={() => setRunningProtocol(protocol)}>
+                      <Play className="h-4 w-4 mr-2" />
+                      Start Protocol
+                    </Button>
+                    {protocol.sheetHref && (
+                      <Button variant="outline" size="sm" className="w-full sm:w-auto touch-manipulation" asChild>
+                        <a href={protocol.sheetHref}>
+                          <FileText className="h-4 w-4 mr-2" />
+                          Patient-specific resuscitation sheet
+                        </a>
+                      </Button>
+                    )}
+                  </div>
                   <div className="mt-4 p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs">
                     <strong>Emergency:</strong> This protocol is for emergency situations only. Always call for immediate medical assistance.
                   </div>
@@ -536,17 +1332,101 @@ export default function ClinicalFeatures() {
               {isDiagnosisLoading ? 'Generating...' : 'Generate Differential Diagnosis'}
             </Button>
 
-            {diagnosisResult && (
+            {diagnosisError && (
+              <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs sm:text-sm">
+                {diagnosisError}
+              </div>
+            )}
+
+            {differential && (
               <Card className="bg-muted/50">
-                <CardContent className="p-3 sm:p-4">
-                  <div className="flex items-center gap-2 mb-2">
-                    <Brain className="h-4 w-4 sm:h-5 sm:w-5 text-blue-500" />
-                    <h3 className="font-semibold text-sm sm:text-base">AI Differential Diagnosis</h3>
+                <CardContent className="p-3 sm:p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Brain className="h-4 w-4 sm:h-5 sm:w-5 text-blue-500" />
+                      <h3 className="font-semibold text-sm sm:text-base">AI Differential Diagnosis</h3>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch id="must-not-miss" checked={mustNotMissOnly} onCheckedChange={setMustNotMissOnly} />
+                      <Label htmlFor="must-not-miss" className="text-xs sm:text-sm">Must-not-miss only</Label>
+                    </div>
                   </div>
-                  <div className="prose prose-sm max-w-none">
-                    <MarkdownRenderer content={diagnosisResult} />
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">#</TableHead>
+                        <TableHead>Diagnosis</TableHead>
+                        <TableHead>Likelihood</TableHead>
+                        <TableHead className="hidden sm:table-cell">Supporting</TableHead>
+                        <TableHead className="hidden sm:table-cell">Against</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {differential.diagnoses
+                        .filter(diagnosis => !mustNotMissOnly || diagnosis.mustNotMiss)
+                        .map((diagnosis) => (
+                          <TableRow key={diagnosis.rank}>
+                            <TableCell className="align-top font-medium">{diagnosis.rank}</TableCell>
+                            <TableCell className="align-top whitespace-normal">
+                              <div className="flex flex-wrap items-center gap-1">
+                                <span className="font-medium">{diagnosis.name}</span>
+                                {diagnosis.mustNotMiss && (
+                                  <Badge variant="destructive" className="text-xs">
+                                    <AlertTriangle className="h-3 w-3 mr-1" />
+                                    Must not miss
+                                  </Badge>
+                                )}
+                              </div>
+                              {diagnosis.rationale && (
+                                <p className="text-xs text-muted-foreground mt-1">{diagnosis.rationale}</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="align-top">
+                              <Badge className={`text-xs capitalize ${LIKELIHOOD_STYLES[diagnosis.likelihood]}`}>{diagnosis.likelihood}</Badge>
+                            </TableCell>
+                            <TableCell className="hidden sm:table-cell align-top whitespace-normal text-xs">
+                              {diagnosis.supportingFindings.join(', ') || '—'}
+                            </TableCell>
+                            <TableCell className="hidden sm:table-cell align-top whitespace-normal text-xs">
+                              {diagnosis.opposingFindings.join(', ') || '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {differential.recommendedWorkup.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-sm mb-1">Recommended Workup</h4>
+                        <ul className="list-disc pl-5 text-xs sm:text-sm space-y-0.5">
+                          {differential.recommendedWorkup.map((item, index) => <li key={index}>{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    {differential.redFlags.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-sm mb-1 flex items-center gap-1 text-red-600">
+                          <AlertTriangle className="h-4 w-4" />
+                          Red Flags
+                        </h4>
+                        <ul className="list-disc pl-5 text-xs sm:text-sm space-y-0.5">
+                          {differential.redFlags.map((item, index) => <li key={index}>{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
                   </div>
-                  <div className="mt-3 p-2 bg-blue-100 dark:bg-blue-900/20 rounded text-xs">
+
+                  {diagnosisReasoning && (
+                    <div className="prose prose-sm max-w-none">
+                      <Separator className="my-2" />
+                      <h4 className="font-medium text-sm">Clinical Reasoning</h4>
+                      <MarkdownRenderer content={diagnosisReasoning} />
+                    </div>
+                  )}
+
+                  <div className="p-2 bg-blue-100 dark:bg-blue-900/20 rounded text-xs">
                     <strong>AI Disclaimer:</strong> This diagnosis is generated by AI and should be used as a supportive tool. Always verify with clinical judgment and consult appropriate medical resources.
                   </div>
                 </CardContent>
@@ -622,23 +1502,194 @@ export default function ClinicalFeatures() {
                 </Select>
               </div>
             </div>
+
+            <div>
+              <Label htmlFor="treatment-medications" className="text-sm">Current Medications</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="treatment-medications"
+                  value={medicationInput}
+                  onChange={(e) => setMedicationInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault()
+                      addCurrentMedication()
+                    }
+                  }}
+                  placeholder="e.g., valproic acid 250 mg BID"
+                  className="text-sm touch-manipulation"
+                />
+                <Button type="button" variant="outline" size="sm" onClick={addCurrentMedication} disabled={!medicationInput.trim()} className="touch-manipulation">
+                  <Plus className="h-4 w-4" />
+                  <span className="sr-only">Add medication</span>
+                </Button>
+              </div>
+              {currentMedications.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {currentMedications.map((medication) => (
+                    <Badge key={medication} variant="secondary" className="text-xs gap-1">
+                      {medication}
+                      <button
+                        type="button"
+                        onClick={() => setCurrentMedications(currentMedications.filter(m => m !== medication))}
+                        aria-label={`Remove ${medication}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
             
             <Button onClick={generateTreatmentRecommendations} disabled={!treatmentCondition || !treatmentAge || isTreatmentLoading} className="w-full sm:w-auto touch-manipulation">
               {isTreatmentLoading ? 'Generating...' : 'Generate Treatment Recommendations'}
             </Button>
 
-            {treatmentResult && (
+            {treatmentError && (
+              <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs sm:text-sm">
+                {treatmentError}
+              </div>
+            )}
+
+            {treatmentPlan && doseCheck && (
               <Card className="bg-muted/50">
-                <CardContent className="p-3 sm:p-4">
-                  <div className="flex items-center gap-2 mb-2">
-                    <Heart className="h-4 w-4 sm:h-5 sm:w-5 text-green-500" />
-                    <h3 className="font-semibold text-sm sm:text-base">AI Treatment Recommendations</h3>
+                <CardContent className="p-3 sm:p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Heart className="h-4 w-4 sm:h-5 sm:w-5 text-green-500" />
+                      <h3 className="font-semibold text-sm sm:text-base">AI Treatment Recommendations</h3>
+                    </div>
+                    <Badge className={`text-xs capitalize ${DOSE_CHECK_STYLES[doseCheck.status]}`}>Doses {doseCheck.status}</Badge>
                   </div>
-                  <div className="prose prose-sm max-w-none">
-                    <MarkdownRenderer content={treatmentResult} />
+
+                  {doseCheck.status === 'flagged' && (
+                    <div role="alert" className="p-3 border-2 border-red-600 bg-red-50 dark:bg-red-950/40 rounded text-xs sm:text-sm text-red-800 dark:text-red-200">
+                      <div className="flex items-center gap-2 font-semibold mb-1">
+                        <AlertTriangle className="h-4 w-4" />
+                        Dose check failed — do not use flagged regimens without independent verification
+                      </div>
+                      <ul className="list-disc pl-5 space-y-0.5">
+                        {doseCheck.alerts.filter(alert => alert.severity === 'error').map((alert, index) => <li key={index}>{alert.message}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  {allergyCheck && allergyCheck.warnings.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="font-medium text-sm flex items-center gap-1">
+                        <AlertTriangle className="h-4 w-4 text-red-500" />
+                        Allergy Warnings
+                      </h4>
+                      {allergyCheck.warnings.map((warning, index) => (
+                        <div key={index} className="p-2 border rounded text-xs sm:text-sm space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge className={`text-xs ${warning.severity === 'avoid' ? 'bg-red-600 text-white' : 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'}`}>
+                              {warning.severity === 'avoid' ? 'Avoid' : 'Caution'}
+                            </Badge>
+                            <span className="font-medium">{warning.drug}</span>
+                            <span className="text-muted-foreground">{warning.risk} risk with {warning.allergy} allergy</span>
+                          </div>
+                          <p>{warning.message}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {interactions && interactions.interactions.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="font-medium text-sm flex items-center gap-1">
+                        <AlertTriangle className="h-4 w-4 text-amber-500" />
+                        Drug Interactions
+                      </h4>
+                      {interactions.interactions.map((interaction, index) => (
+                        <div key={index} className="p-2 border rounded text-xs sm:text-sm space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge className={`text-xs capitalize ${INTERACTION_STYLES[interaction.severity]}`}>{interaction.severity}</Badge>
+                            <span className="font-medium">{interaction.drugs.join(' + ')}</span>
+                          </div>
+                          <p>{interaction.effect}</p>
+                          <p className="text-muted-foreground">Mechanism: {interaction.mechanism}</p>
+                          <p><strong>Management:</strong> {interaction.management}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {treatmentPlan.regimens.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Drug</TableHead>
+                          <TableHead>Dose</TableHead>
+                          <TableHead className="hidden sm:table-cell">Frequency / Duration</TableHead>
+                          <TableHead>Check</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {treatmentPlan.regimens.map((regimen, index) => (
+                          <TableRow key={index} className={regimen.doseCheck.status === 'flagged' ? 'bg-red-50 dark:bg-red-950/30' : undefined}>
+                            <TableCell className="align-top whitespace-normal">
+                              <div className="font-medium">{regimen.drug}</div>
+                              <div className="text-xs text-muted-foreground">{regimen.route} · {regimen.line}</div>
+                              {regimen.notes && <p className="text-xs text-muted-foreground mt-1">{regimen.notes}</p>}
+                            </TableCell>
+                            <TableCell className="align-top whitespace-normal text-xs">
+                              <div>{regimen.mgPerKg} mg/kg/{regimen.doseBasis}</div>
+                              {regimen.doseCheck.calculatedDoseMg !== undefined && (
+                                <div className="font-medium">{regimen.doseCheck.calculatedDoseMg} mg/{regimen.doseBasis}</div>
+                              )}
+                              {regimen.maxDose && <div className="text-muted-foreground">max {regimen.maxDose.mg} mg/{regimen.maxDose.per}</div>}
+                              {regimen.doseCheck.reference && (
+                                <div className="text-muted-foreground">ref {regimen.doseCheck.reference.dosage}</div>
+                              )}
+                            </TableCell>
+                            <TableCell className="hidden sm:table-cell align-top whitespace-normal text-xs">
+                              {regimen.frequency}<br />{regimen.duration}
+                            </TableCell>
+                            <TableCell className="align-top whitespace-normal">
+                              <Badge className={`text-xs capitalize ${DOSE_CHECK_STYLES[regimen.doseCheck.status]}`}>{regimen.doseCheck.status}</Badge>
+                              {regimen.doseCheck.alerts.filter(alert => alert.code !== 'NO_WEIGHT').map((alert, alertIndex) => (
+                                <p key={alertIndex} className={`text-xs mt-1 ${alert.severity === 'error' ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>{alert.message}</p>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-xs sm:text-sm text-muted-foreground">No drug treatment recommended.</p>
+                  )}
+
+                  {doseCheck.weightKg === undefined && treatmentPlan.regimens.length > 0 && (
+                    <p className="text-xs text-amber-700 dark:text-amber-300">No weight supplied: absolute doses were not checked against maximum doses.</p>
+                  )}
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {[
+                      { title: 'Monitoring', items: treatmentPlan.monitoring },
+                      { title: 'Family Education', items: treatmentPlan.patientEducation },
+                      { title: 'When to Seek Care', items: treatmentPlan.whenToSeekCare },
+                    ].filter(section => section.items.length > 0).map(section => (
+                      <div key={section.title}>
+                        <h4 className="font-medium text-sm mb-1">{section.title}</h4>
+                        <ul className="list-disc pl-5 text-xs sm:text-sm space-y-0.5">
+                          {section.items.map((item, index) => <li key={index}>{item}</li>)}
+                        </ul>
+                      </div>
+                    ))}
                   </div>
-                  <div className="mt-3 p-2 bg-green-100 dark:bg-green-900/20 rounded text-xs">
-                    <strong>Treatment Disclaimer:</strong> These recommendations are AI-generated and should be used as a supportive tool. Always verify with clinical judgment and consult appropriate medical resources.
+
+                  {familySummary && (
+                    <div className="prose prose-sm max-w-none">
+                      <Separator className="my-2" />
+                      <h4 className="font-medium text-sm">Summary for Families</h4>
+                      <MarkdownRenderer content={familySummary} />
+                    </div>
+                  )}
+
+                  <div className="p-2 bg-green-100 dark:bg-green-900/20 rounded text-xs">
+                    <strong>Treatment Disclaimer:</strong> These recommendations are AI-generated and should be used as a supportive tool. Doses are checked against the drug dosage reference, but always verify with clinical judgment and consult appropriate medical resources.
                   </div>
                 </CardContent>
               </Card>
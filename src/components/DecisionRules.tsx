@@ -0,0 +1,48 @@
+'use client'
+
+import { ClipboardCheck } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { DecisionRuleResult, DecisionRuleRisk } from '@/lib/decision-rules'
+
+interface DecisionRulesProps {
+  results: DecisionRuleResult[]
+}
+
+const RISK_STYLES: Record<DecisionRuleRisk, string> = {
+  high: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  intermediate: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300',
+  low: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  'not-applicable': 'bg-muted text-muted-foreground',
+}
+
+// Deterministic rule results shown above the generated answer
+export default function DecisionRules({ results }: DecisionRulesProps) {
+  return (
+    <div className="mb-3 space-y-2">
+      {results.map(result => (
+        <details key={result.rule} className="p-2 sm:p-3 border rounded text-xs sm:text-sm">
+          <summary className="cursor-pointer list-none">
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-1 font-medium">
+                <ClipboardCheck className="h-4 w-4 flex-shrink-0" />
+                {result.name}
+              </span>
+              <Badge className={`text-xs ${RISK_STYLES[result.risk]}`}>
+                {result.applicable ? `${result.risk} risk` : 'not applicable'}
+              </Badge>
+            </div>
+            <div className="mt-1">{result.recommendation}</div>
+          </summary>
+          <div className="mt-2 space-y-1 text-muted-foreground">
+            {result.findings.length > 0 && <div><strong>Findings:</strong> {result.findings.join('; ')}</div>}
+            {result.explanation.map((line, index) => <div key={index}>{line}</div>)}
+            {result.assumptions.length > 0 && (
+              <div><strong>Not stated, assumed:</strong> {result.assumptions.join('; ')}</div>
+            )}
+            <div className="italic">{result.reference}</div>
+          </div>
+        </details>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { CartesianGrid, ComposedChart, Line, Scatter, XAxis, YAxis } from 'recharts'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import { CHART_PERCENTILES, GROWTH_MEASURES, GrowthMeasure, GrowthMeasurement, Sex, growthCurves, growthSeries } from '@/lib/growth'
+
+interface GrowthChartProps {
+  measure: GrowthMeasure
+  sex: Sex
+  measurements: GrowthMeasurement[]
+}
+
+// WHO lines end at 24 months and CDC lines begin there, so each source keeps its own percentiles
+const PERCENTILES = Array.from(new Set(Object.values(CHART_PERCENTILES).flat())).sort((a, b) => a - b)
+
+const chartConfig: ChartConfig = {
+  ...Object.fromEntries(PERCENTILES.map(percentile => [
+    `p${percentile}`,
+    { label: `${percentile}th`, color: percentile === 50 ? 'var(--chart-2)' : 'var(--chart-4)' },
+  ])),
+  patient: { label: 'Patient', color: '#dc2626' },
+}
+
+export default function GrowthChart({ measure, sex, measurements }: GrowthChartProps) {
+  const { label, unit, axis } = GROWTH_MEASURES[measure]
+  const references = growthCurves(measure, sex)
+  const sources = Array.from(new Set(references.map(point => point.source)))
+  const curves = references.map(({ x, values }) => ({
+    x,
+    ...Object.fromEntries(Object.entries(values).map(([percentile, value]) => [`p${percentile}`, value])),
+  }))
+  const series = growthSeries(measurements, measure).map(({ x, value }) => ({ x, patient: value }))
+
+  if (curves.length === 0) {
+    return (
+      <div className="p-3 border rounded text-xs sm:text-sm text-muted-foreground">
+        No {label.toLowerCase()} reference chart is available.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <ChartContainer config={chartConfig} className="w-full aspect-[4/3] sm:aspect-video">
+        <ComposedChart data={curves} margin={{ top: 8, right: 16, bottom: 16, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            label={{ value: axis === 'age' ? 'Age (months)' : 'Length (cm)', position: 'insideBottom', offset: -8 }}
+          />
+          <YAxis domain={['auto', 'auto']} label={{ value: unit, angle: -90, position: 'insideLeft' }} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload?.x ?? ''} ${axis === 'age' ? 'months' : 'cm'}`} />} />
+          {PERCENTILES.map(percentile => (
+            <Line
+              key={percentile}
+              dataKey={`p${percentile}`}
+              stroke={`var(--color-p${percentile})`}
+              strokeWidth={percentile === 50 ? 2 : 1}
+              strokeDasharray={percentile === 50 ? undefined : '4 4'}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+          <Scatter data={series} dataKey="patient" fill="var(--color-patient)" line={{ stroke: 'var(--color-patient)' }} isAnimationActive={false} />
+        </ComposedChart>
+      </ChartContainer>
+      <div className="text-xs text-muted-foreground">
+        {sources.length > 1 ? 'WHO percentiles to 24 months, CDC percentiles after' : `${sources[0]} percentiles`}
+      </div>
+    </div>
+  )
+}
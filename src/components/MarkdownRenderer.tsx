@@ -3,13 +3,47 @@
 import ReactMarkdown, { Components } from 'react-markdown'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { CITATION_HREF_PREFIX, type Citation } from '@/lib/citations'
 
 interface MarkdownRendererProps {
   content: string
   className?: string
+  citations?: Citation[]
 }
 
-export default function MarkdownRenderer({ content, className = '' }: MarkdownRendererProps) {
+function CitationMarker({ citation }: { citation: Citation }) {
+  const location = [citation.chapter, citation.section, citation.page ? `p. ${citation.page}` : null]
+    .filter(Boolean)
+    .join(' · ')
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-primary/20 px-1 align-super text-[10px] font-semibold text-primary hover:bg-primary/30"
+          aria-label={`Source ${citation.marker}: ${location}`}
+        >
+          {citation.marker}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm">
+        <div className="mb-2 text-xs font-medium text-muted-foreground">
+          [{citation.marker}] {location}
+        </div>
+        {citation.title && citation.title !== citation.section && (
+          <div className="mb-1 font-medium text-foreground">{citation.title}</div>
+        )}
+        <blockquote className="border-l-2 border-primary pl-3 italic text-foreground">
+          {citation.excerpt}
+        </blockquote>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default function MarkdownRenderer({ content, className = '', citations = [] }: MarkdownRendererProps) {
   return (
     <div className={`prose prose-invert max-w-none ${className}`}>
       <ReactMarkdown
@@ -101,16 +135,26 @@ export default function MarkdownRenderer({ content, className = '' }: MarkdownRe
               {children}
             </em>
           ),
-          a: ({ href, children }) => (
-            <a 
-              href={href} 
-              className="text-primary hover:underline" 
-              target="_blank" 
-              rel="noopener noreferrer"
-            >
-              {children}
-            </a>
-          ),
+          a: ({ href, children }) => {
+            if (href?.startsWith(CITATION_HREF_PREFIX)) {
+              const marker = Number(href.slice(CITATION_HREF_PREFIX.length))
+              const citation = citations.find(c => c.marker === marker)
+              if (citation) {
+                return <CitationMarker citation={citation} />
+              }
+            }
+
+            return (
+              <a 
+                href={href} 
+                className="text-primary hover:underline" 
+                target="_blank" 
+                rel="noopener noreferrer"
+              >
+                {children}
+              </a>
+            )
+          },
         }}
       >
         {content}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckCircle, Clock, Download, Square } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  EmergencyProtocol,
+  EventLogFormat,
+  ProtocolRun,
+  ReminderStatus,
+  addNote,
+  completeStep,
+  endProtocolRun,
+  formatElapsed,
+  formatEventLog,
+  recordDose,
+  reminderStates,
+  startProtocolRun,
+} from '@/lib/protocol-runner'
+
+interface ProtocolRunnerProps {
+  protocol: EmergencyProtocol
+  onClose: () => void
+}
+
+const REMINDER_STYLES: Record<ReminderStatus, string> = {
+  inactive: 'border-border',
+  waiting: 'border-blue-300 bg-blue-50 dark:bg-blue-900/20',
+  due: 'border-orange-400 bg-orange-50 dark:bg-orange-900/20',
+  overdue: 'border-red-500 bg-red-100 dark:bg-red-900/30 animate-pulse',
+  complete: 'border-green-400 bg-green-50 dark:bg-green-900/20',
+}
+
+export default function ProtocolRunner({ protocol, onClose }: ProtocolRunnerProps) {
+  const [run, setRun] = useState<ProtocolRun>(() => startProtocolRun(protocol, Date.now()))
+  const [now, setNow] = useState(Date.now())
+  const [note, setNote] = useState('')
+
+  // One tick per second drives the elapsed timer and reminder countdowns
+  useEffect(() => {
+    if (run.endedAt !== undefined) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [run.endedAt])
+
+  const ended = run.endedAt !== undefined
+  const elapsed = (run.endedAt ?? now) - run.startedAt
+  const reminders = reminderStates(run, protocol, now)
+
+  const handleAddNote = () => {
+    if (!note.trim()) return
+    setRun(addNote(run, note, Date.now()))
+    setNote('')
+  }
+
+  const exportLog = (format: EventLogFormat) => {
+    const blob = new Blob([formatEventLog(run, protocol, format)], { type: format === 'csv' ? 'text/csv' : 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${protocol.id}-${new Date(run.startedAt).toISOString().replace(/[:.]/g, '-')}.${format === 'csv' ? 'csv' : 'txt'}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base sm:text-lg">{protocol.title}</CardTitle>
+            <Badge variant={ended ? 'secondary' : 'destructive'} className="text-xs mt-1">{ended ? 'Ended' : 'Running'}</Badge>
+          </div>
+          <div className="flex items-center gap-1 font-mono text-2xl sm:text-3xl font-bold tabular-nums">
+            <Clock className="h-5 w-5 sm:h-6 sm:w-6" />
+            {formatElapsed(elapsed)}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reminders.some(state => state.status !== 'inactive') && (
+          <div className="space-y-2">
+            {reminders.filter(state => state.status !== 'inactive').map(({ reminder, status, doseCount, dueInMs }) => (
+              <div key={reminder.id} className={`p-2 sm:p-3 border-2 rounded flex items-center justify-between gap-2 ${REMINDER_STYLES[status]}`}>
+                <div className="text-xs sm:text-sm">
+                  <div className="font-medium">{reminder.label}</div>
+                  <div className="text-muted-foreground">
+                    {status === 'waiting' && dueInMs !== undefined && `Next in ${formatElapsed(dueInMs)}`}
+                    {status === 'due' && 'Due now'}
+                    {status === 'overdue' && `Overdue (every ${reminder.intervalMinutes.min}-${reminder.intervalMinutes.max} min)`}
+                    {status === 'complete' && 'Maximum doses given'}
+                    {doseCount > 0 && ` · ${doseCount} given`}
+                  </div>
+                </div>
+                {!ended && status !== 'complete' && (
+                  <Button size="sm" variant={status === 'waiting' ? 'outline' : 'default'} className="touch-manipulation" onClick={() => setRun(recordDose(run, protocol, reminder.id, Date.now()))}>
+                    Given
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {protocol.steps.map((step, idx) => {
+            const completedAt = run.completedSteps[step.id]
+            return (
+              <button
+                key={step.id}
+                type="button"
+                disabled={ended || completedAt !== undefined}
+                onClick={() => setRun(completeStep(run, protocol, step.id, Date.now()))}
+                className={`w-full flex items-start gap-2 p-2 border rounded text-left text-xs sm:text-sm touch-manipulation ${completedAt !== undefined ? 'bg-green-50 dark:bg-green-900/20 border-green-300' : 'hover:bg-muted'}`}
+              >
+                {completedAt !== undefined ? (
+                  <CheckCircle className="h-4 w-4 sm:h-5 sm:w-5 text-green-600 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <span className="bg-primary text-primary-foreground rounded-full w-4 h-4 sm:w-5 sm:h-5 flex items-center justify-center text-xs font-bold flex-shrink-0 mt-0.5">
+                    {idx + 1}
+                  </span>
+                )}
+                <span className="flex-1">{step.text}</span>
+                {completedAt !== undefined && (
+                  <span className="font-mono text-xs text-muted-foreground">+{formatElapsed(completedAt - run.startedAt)}</span>
+                )}
+              </button>
+            )
+          })}
+        </div>
+
+        {!ended && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Add note (e.g. rhythm, vitals, interventions)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddNote()}
+              className="text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddNote} disabled={!note.trim()} className="touch-manipulation">
+              Add
+            </Button>
+          </div>
+        )}
+
+        {ended && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Event Log</Label>
+            <pre className="p-2 sm:p-3 bg-muted rounded text-xs whitespace-pre-wrap max-h-64 overflow-auto">{formatEventLog(run, protocol)}</pre>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!ended ? (
+            <Button variant="destructive" size="sm" onClick={() => setRun(endProtocolRun(run, Date.now()))} className="touch-manipulation">
+              <Square className="h-4 w-4 mr-2" />
+              End Protocol
+            </Button>
+          ) : (
+            <>
+              <Button size="sm" onClick={() => exportLog('text')} className="touch-manipulation">
+                <Download className="h-4 w-4 mr-2" />
+                Export Log
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportLog('csv')} className="touch-manipulation">
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => (ended || window.confirm('Discard this protocol run and its log?')) && onClose()} className="touch-manipulation">
+            Close
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Printer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ResuscitationError, ResuscitationSheet as Sheet, generateResuscitationSheet } from '@/lib/resuscitation'
+
+const WEIGHT_SOURCE_LABELS: Record<Sheet['weightSource'], string> = {
+  measured: 'measured weight',
+  length: 'estimated from length',
+  age: 'estimated from age',
+}
+
+// Computed in the browser so the sheet works offline once the page is cached
+export default function ResuscitationSheet() {
+  const [weight, setWeight] = useState('')
+  const [age, setAge] = useState('')
+  const [length, setLength] = useState('')
+
+  // Prefill from ?weight=&age=&length= so a sheet can be linked or bookmarked
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setWeight(params.get('weight') ?? '')
+    setAge(params.get('age') ?? '')
+    setLength(params.get('length') ?? '')
+  }, [])
+
+  let sheet: Sheet | null = null
+  let error = ''
+  if (weight || age || length) {
+    try {
+      sheet = generateResuscitationSheet({
+        weightKg: weight ? parseFloat(weight) : undefined,
+        ageYears: age ? parseFloat(age) : undefined,
+        lengthCm: length ? parseFloat(length) : undefined,
+      })
+    } catch (err) {
+      if (!(err instanceof ResuscitationError)) throw err
+      error = err.message
+    }
+  }
+
+  return (
+    <div className="bg-white text-black min-h-screen p-3 sm:p-6 print:p-0">
+      <div className="no-print grid grid-cols-1 sm:grid-cols-4 gap-3 items-end mb-4">
+        <div>
+          <Label htmlFor="resus-weight" className="text-sm font-semibold">Weight (kg)</Label>
+          <Input id="resus-weight" type="number" inputMode="decimal" value={weight} onChange={(e) => setWeight(e.target.value)} className="border-black text-lg" />
+        </div>
+        <div>
+          <Label htmlFor="resus-length" className="text-sm font-semibold">Length (cm)</Label>
+          <Input id="resus-length" type="number" inputMode="decimal" value={length} onChange={(e) => setLength(e.target.value)} className="border-black text-lg" />
+        </div>
+        <div>
+          <Label htmlFor="resus-age" className="text-sm font-semibold">Age (years)</Label>
+          <Input id="resus-age" type="number" inputMode="decimal" value={age} onChange={(e) => setAge(e.target.value)} className="border-black text-lg" />
+        </div>
+        <Button onClick={() => window.print()} disabled={!sheet} className="bg-black text-white hover:bg-black/80 touch-manipulation">
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      {error && (
+        <div className="no-print p-3 border-2 border-black font-semibold">{error}</div>
+      )}
+
+      {!sheet && !error && (
+        <p className="no-print text-base">Enter a measured weight, or length or age when weight is unknown.</p>
+      )}
+
+      {sheet && (
+        <div className="space-y-4 text-base">
+          <div className="flex items-stretch border-4 border-black">
+            <div
+              className="w-24 sm:w-32 flex items-center justify-center border-r-4 border-black font-bold text-lg print:[print-color-adjust:exact]"
+              style={{ backgroundColor: sheet.zone?.hex ?? '#ffffff', color: sheet.zone && ['White', 'Yellow', 'Grey'].includes(sheet.zone.color) ? '#000000' : '#ffffff' }}
+            >
+              {sheet.zone?.color.toUpperCase() ?? 'NO ZONE'}
+            </div>
+            <div className="p-3">
+              <div className="text-2xl sm:text-3xl font-extrabold">{sheet.weightKg} kg</div>
+              <div className="text-sm font-semibold">{WEIGHT_SOURCE_LABELS[sheet.weightSource]}</div>
+            </div>
+          </div>
+
+          {sheet.warnings.map((warning, index) => (
+            <div key={index} className="p-2 border-2 border-black font-bold">⚠ {warning}</div>
+          ))}
+
+          <table className="w-full border-collapse border-2 border-black">
+            <thead>
+              <tr className="bg-black text-white print:[print-color-adjust:exact]">
+                <th className="p-2 text-left">Drug</th>
+                <th className="p-2 text-left">Dose</th>
+                <th className="p-2 text-left">Volume</th>
+                <th className="p-2 text-left hidden sm:table-cell print:table-cell">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.medications.map((drug, index) => (
+                <tr key={index} className="border-t-2 border-black align-top">
+                  <td className="p-2">
+                    <div className="font-bold">{drug.name} {drug.route}</div>
+                    <div className="text-sm">{drug.indication}</div>
+                  </td>
+                  <td className="p-2 font-bold text-lg">
+                    {drug.amount} {drug.unit}
+                    <div className="text-xs font-normal">{drug.dose}</div>
+                  </td>
+                  <td className="p-2 font-extrabold text-lg">
+                    {drug.volumeMl} mL
+                    <div className="text-xs font-normal">of {drug.concentration}</div>
+                  </td>
+                  <td className="p-2 text-sm hidden sm:table-cell print:table-cell">
+                    {drug.frequency}
+                    {drug.note && <div>{drug.note}</div>}
+                    {drug.volumeWarning && <div className="font-bold">{drug.volumeWarning}</div>}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t-2 border-black align-top">
+                <td className="p-2">
+                  <div className="font-bold">Fluid bolus</div>
+                  <div className="text-sm">0.9% NaCl or balanced crystalloid</div>
+                </td>
+                <td className="p-2 font-bold text-lg">20 mL/kg</td>
+                <td className="p-2 font-extrabold text-lg">{sheet.fluidBolusMl} mL</td>
+                <td className="p-2 text-sm hidden sm:table-cell print:table-cell">Reassess after each bolus</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 print:grid-cols-3 gap-3">
+            <div className="border-2 border-black p-3">
+              <div className="font-bold mb-1">Defibrillation (VF/pVT)</div>
+              <div className="text-lg font-extrabold">1st {sheet.defibrillationJ.first} J</div>
+              <div className="text-lg font-extrabold">2nd {sheet.defibrillationJ.second} J</div>
+              <div className="text-sm">Then ≥4 J/kg, max {sheet.defibrillationJ.max} J</div>
+            </div>
+            <div className="border-2 border-black p-3">
+              <div className="font-bold mb-1">Synchronized cardioversion</div>
+              <div className="text-lg font-extrabold">{sheet.cardioversionJ.slice(0, 2).join('-')} J</div>
+              <div className="text-sm">Then {sheet.cardioversionJ[2]} J</div>
+            </div>
+            <div className="border-2 border-black p-3">
+              <div className="font-bold mb-1">Airway</div>
+              <div className="text-lg font-extrabold">ETT {sheet.airway.ettCuffed} cuffed</div>
+              <div className="text-sm">{sheet.airway.ettUncuffed} uncuffed</div>
+              <div className="text-lg font-extrabold">Depth {sheet.airway.depthCm} cm at lip</div>
+              <div className="text-sm">Size by {sheet.airway.basis === 'age' ? 'age' : 'color zone'}</div>
+            </div>
+          </div>
+
+          <p className="text-xs">
+            Doses follow PALS guidance. Verify every dose and volume before administration.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
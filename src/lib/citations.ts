@@ -0,0 +1,106 @@
+// Inline Citation Markers Linking Answer Sentences to Source Chunks
+import { GroundingDocument, groundednessChecker } from './groundedness';
+
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  chapter: string;
+  section?: string;
+  title?: string;
+  page?: number;
+  // Exact source text supporting the cited sentences (several spans joined with an ellipsis)
+  excerpt: string;
+}
+
+export interface CitedAnswer {
+  content: string;
+  citations: Citation[];
+}
+
+export type CitableDocument = GroundingDocument & {
+  metadata: GroundingDocument['metadata'] & { title?: string };
+};
+
+// Markers are written as markdown links so any renderer degrades to a plain "[n]" link
+export const CITATION_HREF_PREFIX = '#cite-';
+const CITATION_MARKER = /\s?\[(\d+)\]\(#cite-\d+\)/g;
+
+/**
+ * Build the markdown for a citation marker
+ */
+export function formatCitationMarker(marker: number): string {
+  return `[${marker}](${CITATION_HREF_PREFIX}${marker})`;
+}
+
+/**
+ * Remove citation markers, e.g. before re-annotating or exporting plain text
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(CITATION_MARKER, '');
+}
+
+export class CitationService {
+  /**
+   * Append a numbered marker to every answer sentence that a retrieved chunk supports.
+   * Markers are numbered by chunk in order of first use, so repeated support from the same
+   * chunk reuses its number.
+   */
+  annotate(answer: string, documents: CitableDocument[]): CitedAnswer {
+    const citations = new Map<string, Citation>();
+    const byId = new Map(documents.map(doc => [doc.id, doc]));
+    let inCodeBlock = false;
+
+    const content = stripCitationMarkers(answer)
+      .split('\n')
+      .map(line => {
+        if (line.trim().startsWith('```')) {
+          inCodeBlock = !inCodeBlock;
+          return line;
+        }
+        if (inCodeBlock || line.trim().length === 0) {
+          return line;
+        }
+
+        return this.splitSentences(line)
+          .map(sentence => {
+            const [claim] = groundednessChecker.check(sentence, documents).claims;
+            if (!claim?.supported || !claim.evidence) {
+              return sentence;
+            }
+
+            const { documentId, chapter, section, page, span } = claim.evidence;
+            let citation = citations.get(documentId);
+            if (!citation) {
+              citation = {
+                marker: citations.size + 1,
+                chunkId: documentId,
+                chapter,
+                section,
+                title: byId.get(documentId)?.metadata.title,
+                page,
+                excerpt: span,
+              };
+              citations.set(documentId, citation);
+            } else if (!citation.excerpt.includes(span)) {
+              citation.excerpt = `${citation.excerpt} … ${span}`;
+            }
+
+            // Place the marker before any trailing whitespace so line structure is untouched
+            const trimmed = sentence.replace(/\s+$/, '');
+            return `${trimmed} ${formatCitationMarker(citation.marker)}${sentence.slice(trimmed.length)}`;
+          })
+          .join('');
+      })
+      .join('\n');
+
+    return { content, citations: Array.from(citations.values()) };
+  }
+
+  private splitSentences(line: string): string[] {
+    // Split after sentence punctuation; punctuation followed directly by text ("0.5 mg") does not end a sentence
+    return line.match(/[^.!?]+(?:[.!?]+(?=\S)[^.!?]*)*[.!?]*\s*/g) || [line];
+  }
+}
+
+// Export singleton instance
+export const citationService = new CitationService();
@@ -0,0 +1,455 @@
+// Pediatric Clinical Scores: Typed Definitions, Input Validation and Interpretation Bands
+export type ScoreId = 'pgcs' | 'apgar' | 'pews' | 'westley' | 'pram' | 'mcisaac' | 'bhutani' | 'kawasaki';
+export type ScoreSeverity = 'low' | 'moderate' | 'high' | 'critical';
+export type ScoreValue = string | number | boolean;
+export type ScoreValues = Record<string, ScoreValue | undefined>;
+
+export interface ScoreOption {
+  value: string;
+  label: string;
+  points: number;
+}
+
+// Inclusive min, exclusive max; the first matching range gives the points
+export interface PointRange {
+  min?: number;
+  max?: number;
+  points: number;
+}
+
+interface BaseScoreInput {
+  id: string;
+  label: string;
+  help?: string;
+  // Inputs are required unless marked optional
+  optional?: boolean;
+}
+
+export interface SelectScoreInput extends BaseScoreInput {
+  type: 'select';
+  options: ScoreOption[];
+}
+
+export interface NumberScoreInput extends BaseScoreInput {
+  type: 'number';
+  min: number;
+  max: number;
+  unit: string;
+  // Omitted for measurements that feed a rule rather than a points total
+  pointRanges?: PointRange[];
+}
+
+export interface BooleanScoreInput extends BaseScoreInput {
+  type: 'boolean';
+  // Points when true
+  points: number;
+}
+
+export type ScoreInput = SelectScoreInput | NumberScoreInput | BooleanScoreInput;
+
+export interface ScoreBand {
+  min: number;
+  max: number;
+  label: string;
+  severity: ScoreSeverity;
+  interpretation: string;
+}
+
+export interface ScoreInterpretation {
+  label: string;
+  severity: ScoreSeverity;
+  interpretation: string;
+}
+
+export interface ClinicalScore {
+  id: ScoreId;
+  name: string;
+  description: string;
+  reference: string;
+  // 'points' scores sum their inputs; 'rule' scores interpret their inputs directly
+  kind: 'points' | 'rule';
+  inputs: ScoreInput[];
+  bands?: ScoreBand[];
+  // Replaces the band lookup for scores whose interpretation depends on more than the total
+  interpret?: (values: ScoreValues, total: number) => ScoreInterpretation;
+  // Caveats that depend on the inputs rather than the result
+  warnings?: (values: ScoreValues) => string[];
+}
+
+export interface ScoreComponent {
+  id: string;
+  label: string;
+  value: ScoreValue;
+  // Option label for select inputs
+  display: string;
+  points?: number;
+}
+
+export interface ScoreResult {
+  id: ScoreId;
+  name: string;
+  // Omitted for rule-based scores
+  total?: number;
+  maxTotal?: number;
+  components: ScoreComponent[];
+  label: string;
+  severity: ScoreSeverity;
+  interpretation: string;
+  warnings: string[];
+}
+
+export class ScoreValidationError extends Error {
+  // One message per invalid input
+  errors: string[];
+
+  constructor(message: string, errors: string[] = [message]) {
+    super(message);
+    this.name = 'ScoreValidationError';
+    this.errors = errors;
+  }
+}
+
+const options = (entries: Array<[number, string]>): ScoreOption[] =>
+  entries.map(([points, label]) => ({ value: String(points), label, points }));
+
+// Bhutani nomogram percentile curves for total serum bilirubin (mg/dL) by postnatal age in hours:
+// [hours, 40th, 75th, 95th]. Approximate values read from the published figure at 12-hour intervals.
+const BHUTANI_CURVES: Array<[number, number, number, number]> = [
+  [24, 5.0, 6.3, 8.0],
+  [36, 7.0, 9.0, 11.7],
+  [48, 8.5, 11.0, 13.2],
+  [60, 9.6, 12.4, 15.0],
+  [72, 10.8, 13.5, 15.9],
+  [84, 11.7, 14.5, 16.7],
+  [96, 12.4, 15.2, 17.4],
+  [108, 12.9, 15.5, 17.5],
+  [120, 13.2, 15.6, 17.6],
+  [144, 13.3, 15.7, 17.6],
+  [168, 13.3, 15.7, 17.6],
+];
+
+export const CLINICAL_SCORES: ClinicalScore[] = [
+  {
+    id: 'pgcs',
+    name: 'Pediatric Glasgow Coma Scale',
+    description: 'Level of consciousness, with verbal and motor responses adapted for preverbal children',
+    reference: 'Reilly et al., Childs Nerv Syst 1988; Teasdale & Jennett, Lancet 1974',
+    kind: 'points',
+    inputs: [
+      { id: 'eye', label: 'Eye opening', type: 'select', options: options([[4, 'Spontaneous'], [3, 'To speech or sound'], [2, 'To pain'], [1, 'None']]) },
+      {
+        id: 'verbal',
+        label: 'Verbal response',
+        type: 'select',
+        help: 'Preverbal wording first, verbal child second',
+        options: options([[5, 'Coos and babbles / oriented'], [4, 'Irritable cry / confused'], [3, 'Cries to pain / inappropriate words'], [2, 'Moans to pain / incomprehensible sounds'], [1, 'None']]),
+      },
+      {
+        id: 'motor',
+        label: 'Motor response',
+        type: 'select',
+        options: options([[6, 'Moves spontaneously and purposefully / obeys commands'], [5, 'Withdraws to touch / localizes pain'], [4, 'Withdraws to pain'], [3, 'Abnormal flexion (decorticate)'], [2, 'Extension (decerebrate)'], [1, 'None']]),
+      },
+    ],
+    bands: [
+      { min: 13, max: 15, label: 'Mild', severity: 'low', interpretation: 'Mild impairment; observe and repeat neurological checks' },
+      { min: 9, max: 12, label: 'Moderate', severity: 'moderate', interpretation: 'Moderate impairment; consider neuroimaging and close monitoring' },
+      { min: 3, max: 8, label: 'Severe', severity: 'critical', interpretation: 'Severe impairment; secure the airway and treat as a neurological emergency' },
+    ],
+  },
+  {
+    id: 'apgar',
+    name: 'APGAR Score',
+    description: 'Newborn condition at 1 and 5 minutes after birth',
+    reference: 'Apgar, Curr Res Anesth Analg 1953; AAP/ACOG Committee Opinion 644',
+    kind: 'points',
+    inputs: [
+      { id: 'appearance', label: 'Appearance (color)', type: 'select', options: options([[2, 'Pink all over'], [1, 'Body pink, extremities blue'], [0, 'Blue or pale all over']]) },
+      { id: 'pulse', label: 'Pulse', type: 'select', options: options([[2, '100/min or more'], [1, 'Below 100/min'], [0, 'Absent']]) },
+      { id: 'grimace', label: 'Grimace (reflex irritability)', type: 'select', options: options([[2, 'Cries, coughs or pulls away'], [1, 'Grimace'], [0, 'No response']]) },
+      { id: 'activity', label: 'Activity (muscle tone)', type: 'select', options: options([[2, 'Active motion'], [1, 'Some flexion'], [0, 'Limp']]) },
+      { id: 'respiration', label: 'Respiration', type: 'select', options: options([[2, 'Good, crying'], [1, 'Slow or irregular, weak cry'], [0, 'Absent']]) },
+    ],
+    bands: [
+      { min: 7, max: 10, label: 'Reassuring', severity: 'low', interpretation: 'Normal transition' },
+      { min: 4, max: 6, label: 'Moderately abnormal', severity: 'moderate', interpretation: 'May need stimulation or respiratory support; below 7 at 5 minutes, repeat every 5 minutes up to 20 minutes' },
+      { min: 0, max: 3, label: 'Low', severity: 'critical', interpretation: 'Needs immediate neonatal resuscitation; the score itself does not guide resuscitation steps' },
+    ],
+  },
+  {
+    id: 'pews',
+    name: 'Pediatric Early Warning Score (Brighton)',
+    description: 'Early recognition of clinical deterioration in hospitalized children',
+    reference: 'Monaghan, Paediatr Nurs 2005',
+    kind: 'points',
+    inputs: [
+      { id: 'behavior', label: 'Behavior', type: 'select', options: options([[0, 'Playing or appropriate'], [1, 'Sleeping'], [2, 'Irritable'], [3, 'Lethargic, confused or reduced response to pain']]) },
+      {
+        id: 'cardiovascular',
+        label: 'Cardiovascular',
+        type: 'select',
+        options: options([[0, 'Pink or capillary refill 1-2 s'], [1, 'Pale or capillary refill 3 s'], [2, 'Grey, capillary refill 4 s or heart rate 20 above normal'], [3, 'Grey and mottled, capillary refill 5 s or more, heart rate 30 above normal or bradycardia']]),
+      },
+      {
+        id: 'respiratory',
+        label: 'Respiratory',
+        type: 'select',
+        options: options([[0, 'Within normal parameters, no retractions'], [1, 'Rate 10 above normal, accessory muscles, or FiO2 30% / 3 L/min'], [2, 'Rate 20 above normal, retractions, or FiO2 40% / 6 L/min'], [3, 'Rate 5 below normal with sternal retractions, tugging or grunting, or FiO2 50% / 8 L/min']]),
+      },
+      { id: 'nebulizers', label: 'Nebulizers every 15 minutes', type: 'boolean', points: 2 },
+      { id: 'vomiting', label: 'Persistent vomiting after surgery', type: 'boolean', points: 2 },
+    ],
+    bands: [
+      { min: 0, max: 2, label: 'Low', severity: 'low', interpretation: 'Continue routine observations' },
+      { min: 3, max: 4, label: 'Medium', severity: 'moderate', interpretation: 'Increase observation frequency and inform the nurse in charge and medical team' },
+      { min: 5, max: 13, label: 'High', severity: 'critical', interpretation: 'Urgent medical review; consider the rapid response team' },
+    ],
+  },
+  {
+    id: 'westley',
+    name: 'Westley Croup Score',
+    description: 'Severity of croup (laryngotracheobronchitis)',
+    reference: 'Westley et al., Am J Dis Child 1978',
+    kind: 'points',
+    inputs: [
+      { id: 'consciousness', label: 'Level of consciousness', type: 'select', options: options([[0, 'Normal, including asleep'], [5, 'Disoriented']]) },
+      { id: 'cyanosis', label: 'Cyanosis', type: 'select', options: options([[0, 'None'], [4, 'With agitation'], [5, 'At rest']]) },
+      { id: 'stridor', label: 'Stridor', type: 'select', options: options([[0, 'None'], [1, 'With agitation'], [2, 'At rest']]) },
+      { id: 'airEntry', label: 'Air entry', type: 'select', options: options([[0, 'Normal'], [1, 'Decreased'], [2, 'Markedly decreased']]) },
+      { id: 'retractions', label: 'Retractions', type: 'select', options: options([[0, 'None'], [1, 'Mild'], [2, 'Moderate'], [3, 'Severe']]) },
+    ],
+    bands: [
+      { min: 0, max: 2, label: 'Mild', severity: 'low', interpretation: 'Single dose of oral dexamethasone 0.15-0.6 mg/kg; discharge if no stridor at rest' },
+      { min: 3, max: 5, label: 'Moderate', severity: 'moderate', interpretation: 'Dexamethasone; observe, and give nebulized epinephrine if stridor at rest persists' },
+      { min: 6, max: 11, label: 'Severe', severity: 'high', interpretation: 'Nebulized epinephrine and dexamethasone; admit and monitor closely' },
+      { min: 12, max: 17, label: 'Impending respiratory failure', severity: 'critical', interpretation: 'Nebulized epinephrine, dexamethasone and urgent airway expertise; prepare for intubation' },
+    ],
+  },
+  {
+    id: 'pram',
+    name: 'Pediatric Respiratory Assessment Measure (PRAM)',
+    description: 'Severity of acute asthma in children 2-17 years',
+    reference: 'Ducharme et al., J Pediatr 2008',
+    kind: 'points',
+    inputs: [
+      { id: 'spo2', label: 'Oxygen saturation (room air)', type: 'number', min: 50, max: 100, unit: '%', pointRanges: [{ min: 95, points: 0 }, { min: 92, max: 95, points: 1 }, { max: 92, points: 2 }] },
+      { id: 'suprasternal', label: 'Suprasternal retractions', type: 'boolean', points: 2 },
+      { id: 'scalene', label: 'Scalene muscle contraction', type: 'boolean', points: 2 },
+      { id: 'airEntry', label: 'Air entry', type: 'select', options: options([[0, 'Normal'], [1, 'Decreased at the bases'], [2, 'Widespread decrease'], [3, 'Absent or minimal']]) },
+      { id: 'wheezing', label: 'Wheezing', type: 'select', options: options([[0, 'Absent'], [1, 'Expiratory only'], [2, 'Inspiratory and expiratory'], [3, 'Audible without stethoscope, or silent chest']]) },
+    ],
+    bands: [
+      { min: 0, max: 3, label: 'Mild', severity: 'low', interpretation: 'Inhaled salbutamol; consider oral corticosteroid' },
+      { min: 4, max: 7, label: 'Moderate', severity: 'moderate', interpretation: 'Repeated salbutamol with ipratropium and oral corticosteroid; reassess after each treatment' },
+      { min: 8, max: 12, label: 'Severe', severity: 'high', interpretation: 'Continuous salbutamol, ipratropium, systemic corticosteroid and oxygen; consider IV magnesium and intensive care' },
+    ],
+  },
+  {
+    id: 'mcisaac',
+    name: 'Modified Centor (McIsaac) Score',
+    description: 'Likelihood of group A streptococcal pharyngitis',
+    reference: 'McIsaac et al., CMAJ 1998; IDSA pharyngitis guideline 2012',
+    kind: 'points',
+    inputs: [
+      { id: 'fever', label: 'Temperature above 38 °C', type: 'boolean', points: 1 },
+      { id: 'noCough', label: 'Absence of cough', type: 'boolean', points: 1 },
+      { id: 'adenopathy', label: 'Tender, swollen anterior cervical nodes', type: 'boolean', points: 1 },
+      { id: 'tonsils', label: 'Tonsillar swelling or exudate', type: 'boolean', points: 1 },
+      { id: 'age', label: 'Age', type: 'number', min: 0, max: 120, unit: 'years', pointRanges: [{ min: 3, max: 15, points: 1 }, { min: 15, max: 45, points: 0 }, { min: 45, points: -1 }, { max: 3, points: 0 }] },
+    ],
+    bands: [
+      { min: -1, max: 1, label: 'Low likelihood', severity: 'low', interpretation: 'About 1-10% risk of streptococcal pharyngitis; no testing or antibiotics' },
+      { min: 2, max: 3, label: 'Intermediate likelihood', severity: 'moderate', interpretation: 'About 11-35% risk; rapid antigen test (with culture if negative in children) and treat only if positive' },
+      { min: 4, max: 5, label: 'High likelihood', severity: 'high', interpretation: 'About 51-53% risk; test and treat if positive. Empiric antibiotics are not recommended in children' },
+    ],
+    warnings: (values) => (values.age as number) < 3
+      ? ['Streptococcal pharyngitis and rheumatic fever are rare under 3 years; testing is generally not recommended']
+      : [],
+  },
+  {
+    id: 'bhutani',
+    name: 'Bhutani Bilirubin Risk Zone',
+    description: 'Hour-specific risk of subsequent significant hyperbilirubinemia in well newborns of 35 weeks or more',
+    reference: 'Bhutani et al., Pediatrics 1999',
+    kind: 'rule',
+    inputs: [
+      { id: 'ageHours', label: 'Postnatal age', type: 'number', min: 24, max: 168, unit: 'hours' },
+      { id: 'bilirubin', label: 'Total serum bilirubin', type: 'number', min: 0, max: 40, unit: 'mg/dL' },
+    ],
+    interpret: (values) => {
+      const [p40, p75, p95] = bhutaniPercentiles(values.ageHours as number);
+      const bilirubin = values.bilirubin as number;
+      if (bilirubin > p95) {
+        return { label: 'High risk zone (above 95th percentile)', severity: 'high', interpretation: 'About 40% risk of subsequent significant hyperbilirubinemia; check phototherapy threshold now and repeat bilirubin' };
+      }
+      if (bilirubin > p75) {
+        return { label: 'High-intermediate risk zone (76th-95th percentile)', severity: 'moderate', interpretation: 'About 13% risk; repeat bilirubin within 24 hours' };
+      }
+      if (bilirubin > p40) {
+        return { label: 'Low-intermediate risk zone (40th-75th percentile)', severity: 'low', interpretation: 'About 2% risk; follow up within 48 hours' };
+      }
+      return { label: 'Low risk zone (below 40th percentile)', severity: 'low', interpretation: 'Very low risk; routine follow up' };
+    },
+    warnings: () => ['Use the 2022 AAP phototherapy thresholds, which account for gestational age and neurotoxicity risk factors, to decide on treatment'],
+  },
+  {
+    id: 'kawasaki',
+    name: 'Kawasaki Disease Criteria',
+    description: 'Principal clinical criteria for complete and incomplete Kawasaki disease',
+    reference: 'McCrindle et al., AHA Scientific Statement, Circulation 2017',
+    kind: 'points',
+    inputs: [
+      { id: 'feverDays', label: 'Days of fever', type: 'number', min: 0, max: 60, unit: 'days' },
+      { id: 'ageMonths', label: 'Age', type: 'number', min: 0, max: 216, unit: 'months', optional: true },
+      { id: 'conjunctivitis', label: 'Bilateral bulbar conjunctival injection without exudate', type: 'boolean', points: 1 },
+      { id: 'oral', label: 'Red cracked lips, strawberry tongue or oral erythema', type: 'boolean', points: 1 },
+      { id: 'extremities', label: 'Erythema or edema of hands and feet, or periungual desquamation', type: 'boolean', points: 1 },
+      { id: 'rash', label: 'Polymorphous rash', type: 'boolean', points: 1 },
+      { id: 'lymphadenopathy', label: 'Cervical lymphadenopathy 1.5 cm or more, usually unilateral', type: 'boolean', points: 1 },
+    ],
+    interpret: (values, criteria) => {
+      const feverDays = values.feverDays as number;
+      const ageMonths = values.ageMonths as number | undefined;
+      if (feverDays >= 5 && criteria >= 4) {
+        return { label: 'Complete Kawasaki disease', severity: 'high', interpretation: 'Treat with IVIG 2 g/kg and aspirin; obtain an echocardiogram' };
+      }
+      if (feverDays === 4 && criteria >= 4) {
+        return { label: 'Complete Kawasaki disease (day 4)', severity: 'high', interpretation: 'Can be diagnosed on day 4 of fever by experienced clinicians; treat and obtain an echocardiogram' };
+      }
+      if (feverDays >= 5 && criteria >= 2) {
+        return { label: 'Possible incomplete Kawasaki disease', severity: 'moderate', interpretation: 'Check CRP and ESR; if CRP 3 mg/dL or more or ESR 40 mm/h or more, treat when 3 or more supplemental laboratory criteria are met or the echocardiogram is abnormal' };
+      }
+      if (feverDays >= 7 && ageMonths !== undefined && ageMonths <= 6) {
+        return { label: 'Possible incomplete Kawasaki disease', severity: 'moderate', interpretation: 'Infants 6 months or younger with 7 or more days of unexplained fever need laboratory evaluation and an echocardiogram even without principal criteria' };
+      }
+      return { label: 'Criteria not met', severity: 'low', interpretation: 'Does not meet criteria for Kawasaki disease; reassess if fever persists or new features appear' };
+    },
+  },
+];
+
+/**
+ * Find a score definition by id
+ */
+export function getScore(id: string): ClinicalScore {
+  const score = CLINICAL_SCORES.find(candidate => candidate.id === id);
+  if (!score) {
+    throw new ScoreValidationError(`Unknown score: ${id}`);
+  }
+  return score;
+}
+
+/**
+ * Check every input of a score, collecting all problems before throwing. Numeric strings are accepted for number inputs.
+ */
+export function validateScoreInputs(score: ClinicalScore, values: ScoreValues): ScoreValues {
+  const errors: string[] = [];
+  const validated: ScoreValues = {};
+
+  for (const input of score.inputs) {
+    const raw = values[input.id];
+    if (raw === undefined || raw === null || raw === '') {
+      if (!input.optional) errors.push(`${input.label} is required`);
+      continue;
+    }
+
+    switch (input.type) {
+      case 'select':
+        if (!input.options.some(option => option.value === String(raw))) {
+          errors.push(`${input.label} must be one of: ${input.options.map(option => option.value).join(', ')}`);
+        } else {
+          validated[input.id] = String(raw);
+        }
+        break;
+      case 'number': {
+        const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw) : NaN;
+        if (!Number.isFinite(value) || value < input.min || value > input.max) {
+          errors.push(`${input.label} must be a number between ${input.min} and ${input.max} ${input.unit}`);
+        } else {
+          validated[input.id] = value;
+        }
+        break;
+      }
+      case 'boolean':
+        if (typeof raw !== 'boolean') {
+          errors.push(`${input.label} must be true or false`);
+        } else {
+          validated[input.id] = raw;
+        }
+        break;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ScoreValidationError(errors.join('; '), errors);
+  }
+  return validated;
+}
+
+/**
+ * Calculate a score and interpret it
+ */
+export function calculateScore(id: string, values: ScoreValues): ScoreResult {
+  const score = getScore(id);
+  const validated = validateScoreInputs(score, values);
+
+  const components: ScoreComponent[] = score.inputs
+    .filter(input => validated[input.id] !== undefined)
+    .map(input => {
+      const value = validated[input.id]!;
+      const component: ScoreComponent = { id: input.id, label: input.label, value, display: String(value) };
+      if (input.type === 'select') {
+        const option = input.options.find(candidate => candidate.value === value)!;
+        return { ...component, display: option.label, points: option.points };
+      }
+      if (input.type === 'boolean') {
+        return { ...component, display: value ? 'Yes' : 'No', points: value ? input.points : 0 };
+      }
+      const range = input.pointRanges?.find(candidate => (candidate.min === undefined || (value as number) >= candidate.min) && (candidate.max === undefined || (value as number) < candidate.max));
+      return { ...component, display: `${value} ${input.unit}`, points: range?.points };
+    });
+
+  const total = components.reduce((sum, component) => sum + (component.points ?? 0), 0);
+  const interpretation = score.interpret ? score.interpret(validated, total) : findBand(score.bands!, total);
+
+  return {
+    id: score.id,
+    name: score.name,
+    ...(score.kind === 'points' ? { total, maxTotal: maxScore(score) } : {}),
+    components,
+    ...interpretation,
+    warnings: score.warnings?.(validated) ?? [],
+  };
+}
+
+/**
+ * Highest possible total of a points score
+ */
+export function maxScore(score: ClinicalScore): number {
+  return score.inputs.reduce((sum, input) => {
+    switch (input.type) {
+      case 'select': return sum + Math.max(...input.options.map(option => option.points));
+      case 'boolean': return sum + Math.max(input.points, 0);
+      case 'number': return sum + Math.max(0, ...(input.pointRanges ?? []).map(range => range.points));
+    }
+  }, 0);
+}
+
+function findBand(bands: ScoreBand[], total: number): ScoreInterpretation {
+  const band = bands.find(candidate => total >= candidate.min && total <= candidate.max);
+  if (!band) {
+    throw new ScoreValidationError(`Total ${total} is outside the interpretation bands`);
+  }
+  const { label, severity, interpretation } = band;
+  return { label, severity, interpretation };
+}
+
+function bhutaniPercentiles(ageHours: number): [number, number, number] {
+  const upper = BHUTANI_CURVES.findIndex(([hours]) => hours >= ageHours);
+  const [h1, ...high] = BHUTANI_CURVES[upper];
+  if (upper === 0 || h1 === ageHours) {
+    return high as [number, number, number];
+  }
+  const [h0, ...low] = BHUTANI_CURVES[upper - 1];
+  const t = (ageHours - h0) / (h1 - h0);
+  return low.map((value, index) => value + (high[index] - value) * t) as [number, number, number];
+}
@@ -0,0 +1,525 @@
+// Deterministic Clinical Decision Rules: PECARN Head Trauma, PECARN Febrile Infant and AAP 2021 Febrile Infant Guideline
+export type DecisionRuleId = 'pecarn-head-trauma' | 'pecarn-febrile-infant' | 'aap-febrile-infant-2021';
+export type DecisionRuleRisk = 'high' | 'intermediate' | 'low' | 'not-applicable';
+
+export interface HeadTraumaInput {
+  ageMonths: number;
+  gcs: number;
+  hoursSinceInjury?: number;
+  // Agitation, somnolence, repetitive questioning or slow response
+  alteredMentalStatus?: boolean;
+  // Under 2 years
+  palpableSkullFracture?: boolean;
+  // 2 years and over: hemotympanum, raccoon eyes, Battle's sign, CSF rhinorrhea or otorrhea
+  basilarSkullFractureSigns?: boolean;
+  // Under 2 years: occipital, parietal or temporal
+  nonFrontalScalpHematoma?: boolean;
+  // Under 2 years: 5 seconds or more; 2 years and over: any
+  lossOfConsciousness?: boolean;
+  severeMechanism?: boolean;
+  // Under 2 years, per parent
+  notActingNormally?: boolean;
+  // 2 years and over
+  vomiting?: boolean;
+  severeHeadache?: boolean;
+}
+
+export interface FebrileInfantInput {
+  ageDays: number;
+  temperatureC: number;
+  wellAppearing: boolean;
+  // Born at 37 weeks or later
+  term?: boolean;
+  // Leukocyte esterase, nitrite or pyuria
+  urinalysisPositive?: boolean;
+  // Absolute neutrophil count, cells/µL
+  anc?: number;
+  // ng/mL
+  procalcitonin?: number;
+  // mg/L
+  crp?: number;
+  // Only when a lumbar puncture was done
+  csfPleocytosis?: boolean;
+}
+
+export interface DecisionRuleResult {
+  rule: DecisionRuleId;
+  name: string;
+  applicable: boolean;
+  risk: DecisionRuleRisk;
+  recommendation: string;
+  // Predictors present, or abnormal results, that drove the result
+  findings: string[];
+  // How the rule reached the result, step by step
+  explanation: string[];
+  // Set when inputs were read from free text: what was assumed about findings the text did not mention
+  assumptions: string[];
+  reference: string;
+}
+
+export class DecisionRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecisionRuleError';
+  }
+}
+
+export const DECISION_RULE_CONFIG = {
+  FEVER_C: 38.0,
+  // PECARN febrile infant rule thresholds (Kuppermann 2019)
+  PECARN_ANC_PER_UL: 4090,
+  PECARN_PROCALCITONIN_NG_ML: 1.71,
+  PECARN_MAX_AGE_DAYS: 60,
+  // AAP 2021 inflammatory marker thresholds
+  AAP_TEMPERATURE_C: 38.5,
+  AAP_PROCALCITONIN_NG_ML: 0.5,
+  AAP_CRP_MG_L: 20,
+  AAP_ANC_PER_UL: 4000,
+  AAP_MIN_AGE_DAYS: 8,
+  AAP_MAX_AGE_DAYS: 60,
+  HEAD_TRAUMA_MAX_HOURS: 24,
+} as const;
+
+const REFERENCES: Record<DecisionRuleId, string> = {
+  'pecarn-head-trauma': 'Kuppermann et al., Lancet 2009',
+  'pecarn-febrile-infant': 'Kuppermann et al., JAMA Pediatr 2019',
+  'aap-febrile-infant-2021': 'Pantell et al., AAP Clinical Practice Guideline, Pediatrics 2021',
+};
+
+const RULE_NAMES: Record<DecisionRuleId, string> = {
+  'pecarn-head-trauma': 'PECARN Pediatric Head Injury Rule',
+  'pecarn-febrile-infant': 'PECARN Febrile Infant Rule',
+  'aap-febrile-infant-2021': 'AAP 2021 Well-Appearing Febrile Infant Guideline',
+};
+
+/**
+ * PECARN head trauma rule for minor blunt head trauma (GCS 14-15) within 24 hours; separate predictors under and over 2 years
+ */
+export function pecarnHeadTrauma(input: HeadTraumaInput): DecisionRuleResult {
+  const { ageMonths, gcs, hoursSinceInjury } = input;
+  if (!Number.isFinite(ageMonths) || ageMonths < 0 || ageMonths >= 216) {
+    throw new DecisionRuleError('Age must be between 0 and 18 years (0-215 months)');
+  }
+  if (!Number.isInteger(gcs) || gcs < 3 || gcs > 15) {
+    throw new DecisionRuleError('GCS must be a whole number between 3 and 15');
+  }
+
+  const underTwo = ageMonths < 24;
+  const ageGroup = underTwo ? 'under 2 years' : '2 years and over';
+  const result = baseResult('pecarn-head-trauma');
+  result.name = `${RULE_NAMES['pecarn-head-trauma']} (${ageGroup})`;
+
+  if (gcs < 14) {
+    return {
+      ...result,
+      applicable: false,
+      risk: 'not-applicable',
+      recommendation: 'GCS below 14 is outside the rule: treat as moderate or severe head injury and obtain a head CT',
+      explanation: [`GCS ${gcs}: the rule applies only to GCS 14-15`],
+    };
+  }
+  if (hoursSinceInjury !== undefined && hoursSinceInjury > DECISION_RULE_CONFIG.HEAD_TRAUMA_MAX_HOURS) {
+    return {
+      ...result,
+      applicable: false,
+      risk: 'not-applicable',
+      recommendation: 'The rule applies within 24 hours of injury; use clinical judgment',
+      explanation: [`${hoursSinceInjury} hours since injury`],
+    };
+  }
+
+  const highRisk: Array<[boolean | undefined, string]> = [
+    [gcs === 14, 'GCS 14'],
+    [input.alteredMentalStatus, 'Altered mental status'],
+    underTwo
+      ? [input.palpableSkullFracture, 'Palpable skull fracture']
+      : [input.basilarSkullFractureSigns, 'Signs of basilar skull fracture'],
+  ];
+  const intermediateRisk: Array<[boolean | undefined, string]> = underTwo
+    ? [
+      [input.nonFrontalScalpHematoma, 'Occipital, parietal or temporal scalp hematoma'],
+      [input.lossOfConsciousness, 'Loss of consciousness 5 seconds or more'],
+      [input.severeMechanism, 'Severe mechanism of injury'],
+      [input.notActingNormally, 'Not acting normally per parent'],
+    ]
+    : [
+      [input.lossOfConsciousness, 'History of loss of consciousness'],
+      [input.vomiting, 'History of vomiting'],
+      [input.severeMechanism, 'Severe mechanism of injury'],
+      [input.severeHeadache, 'Severe headache'],
+    ];
+
+  const high = highRisk.filter(([present]) => present).map(([, label]) => label);
+  const intermediate = intermediateRisk.filter(([present]) => present).map(([, label]) => label);
+  const explanation = [
+    `High-risk predictors (${ageGroup}): ${highRisk.map(([, label]) => label).join(', ')}`,
+    `Intermediate-risk predictors: ${intermediateRisk.map(([, label]) => label).join(', ')}`,
+  ];
+
+  if (high.length > 0) {
+    return {
+      ...result,
+      risk: 'high',
+      findings: high.concat(intermediate),
+      recommendation: 'CT recommended',
+      explanation: [...explanation, `About ${underTwo ? '4.4' : '4.3'}% risk of clinically important traumatic brain injury`],
+    };
+  }
+  if (intermediate.length > 0) {
+    return {
+      ...result,
+      risk: 'intermediate',
+      findings: intermediate,
+      recommendation: 'Observation versus CT, guided by clinician experience, multiple versus isolated findings, worsening symptoms' + (underTwo ? ', age under 3 months' : '') + ' and parental preference',
+      explanation: [...explanation, 'About 0.9% risk of clinically important traumatic brain injury'],
+    };
+  }
+  return {
+    ...result,
+    risk: 'low',
+    recommendation: 'CT not recommended',
+    explanation: [...explanation, `No predictors present: under ${underTwo ? '0.02' : '0.05'}% risk of clinically important traumatic brain injury`],
+  };
+}
+
+/**
+ * PECARN febrile infant rule for well-appearing infants 60 days or younger: low risk of serious bacterial infection
+ * when the urinalysis is negative, ANC is 4090/µL or less and procalcitonin is 1.71 ng/mL or less
+ */
+export function pecarnFebrileInfant(input: FebrileInfantInput): DecisionRuleResult {
+  assertFebrileInfantInput(input);
+  const { ageDays, temperatureC, wellAppearing, urinalysisPositive, anc, procalcitonin } = input;
+  const result = baseResult('pecarn-febrile-infant');
+
+  const outside = [
+    ageDays > DECISION_RULE_CONFIG.PECARN_MAX_AGE_DAYS && `Age ${ageDays} days is over 60 days`,
+    temperatureC < DECISION_RULE_CONFIG.FEVER_C && `Temperature ${temperatureC} °C is below 38.0 °C`,
+    !wellAppearing && 'Not well-appearing',
+  ].filter((reason): reason is string => typeof reason === 'string');
+  if (outside.length > 0) {
+    return { ...result, applicable: false, risk: 'not-applicable', recommendation: wellAppearing ? 'Outside the rule; use clinical judgment' : 'Ill-appearing infants need a full sepsis evaluation, parenteral antibiotics and admission', explanation: outside };
+  }
+
+  const missing = [
+    urinalysisPositive === undefined && 'urinalysis',
+    anc === undefined && 'absolute neutrophil count',
+    procalcitonin === undefined && 'procalcitonin',
+  ].filter((item): item is string => typeof item === 'string');
+  if (missing.length > 0) {
+    return { ...result, applicable: false, risk: 'not-applicable', recommendation: `Obtain ${missing.join(', ')} to apply the rule`, explanation: ['The rule needs a urinalysis, ANC and procalcitonin'] };
+  }
+
+  const findings = [
+    urinalysisPositive && 'Positive urinalysis',
+    anc! > DECISION_RULE_CONFIG.PECARN_ANC_PER_UL && `ANC ${anc}/µL (over 4090)`,
+    procalcitonin! > DECISION_RULE_CONFIG.PECARN_PROCALCITONIN_NG_ML && `Procalcitonin ${procalcitonin} ng/mL (over 1.71)`,
+  ].filter((finding): finding is string => typeof finding === 'string');
+  const explanation = ['Low risk requires a negative urinalysis, ANC 4090/µL or less and procalcitonin 1.71 ng/mL or less'];
+  if (ageDays <= 28) {
+    explanation.push('Fewer infants 28 days or younger were studied; the AAP recommends a lumbar puncture in all infants 21 days or younger');
+  }
+
+  if (findings.length > 0) {
+    return { ...result, risk: 'high', findings, recommendation: 'Not low risk: evaluate for serious bacterial infection, including lumbar puncture, and give parenteral antibiotics', explanation };
+  }
+  return {
+    ...result,
+    risk: 'low',
+    recommendation: 'Low risk of serious bacterial infection (negative predictive value 99.6%): lumbar puncture and antibiotics may be avoided with close follow-up',
+    explanation,
+  };
+}
+
+/**
+ * AAP 2021 guideline for well-appearing term infants 8-60 days with fever, by age group: 8-21, 22-28 and 29-60 days
+ */
+export function aapFebrileInfant2021(input: FebrileInfantInput): DecisionRuleResult {
+  assertFebrileInfantInput(input);
+  const { ageDays, temperatureC, wellAppearing, term = true, urinalysisPositive, anc, procalcitonin, crp, csfPleocytosis } = input;
+  const result = baseResult('aap-febrile-infant-2021');
+
+  const outside = [
+    (ageDays < DECISION_RULE_CONFIG.AAP_MIN_AGE_DAYS || ageDays > DECISION_RULE_CONFIG.AAP_MAX_AGE_DAYS) && `Age ${ageDays} days is outside 8-60 days`,
+    temperatureC < DECISION_RULE_CONFIG.FEVER_C && `Temperature ${temperatureC} °C is below 38.0 °C`,
+    !wellAppearing && 'Not well-appearing',
+    !term && 'Born before 37 weeks',
+  ].filter((reason): reason is string => typeof reason === 'string');
+  if (outside.length > 0) {
+    return { ...result, applicable: false, risk: 'not-applicable', recommendation: wellAppearing ? 'Outside the guideline; use clinical judgment' : 'Ill-appearing infants need a full sepsis evaluation, parenteral antibiotics and admission', explanation: outside };
+  }
+
+  const explanation: string[] = [];
+  if (ageDays <= 21) {
+    explanation.push('8-21 days: urinalysis, blood culture and CSF studies for every infant');
+    explanation.push('Consider HSV testing and acyclovir');
+    if (csfPleocytosis) {
+      return { ...result, risk: 'high', findings: ['CSF pleocytosis'], recommendation: 'Admit and give parenteral antibiotics at meningitic doses', explanation };
+    }
+    return {
+      ...result,
+      risk: 'high',
+      findings: urinalysisPositive ? ['Positive urinalysis'] : [],
+      recommendation: 'Obtain urinalysis, blood culture and CSF; admit and start parenteral antibiotics',
+      explanation,
+    };
+  }
+
+  const markers = [
+    procalcitonin !== undefined && procalcitonin > DECISION_RULE_CONFIG.AAP_PROCALCITONIN_NG_ML && `Procalcitonin ${procalcitonin} ng/mL (over 0.5)`,
+    crp !== undefined && crp > DECISION_RULE_CONFIG.AAP_CRP_MG_L && `CRP ${crp} mg/L (over 20)`,
+    anc !== undefined && anc > DECISION_RULE_CONFIG.AAP_ANC_PER_UL && `ANC ${anc}/µL (over 4000)`,
+    temperatureC > DECISION_RULE_CONFIG.AAP_TEMPERATURE_C && `Temperature ${temperatureC} °C (over 38.5)`,
+  ].filter((marker): marker is string => typeof marker === 'string');
+  const markersObtained = procalcitonin !== undefined || crp !== undefined || anc !== undefined;
+  const abnormal = markers.length > 0;
+  const findings = [...(urinalysisPositive ? ['Positive urinalysis'] : []), ...markers];
+
+  explanation.push('Inflammatory markers are abnormal when procalcitonin is over 0.5 ng/mL, CRP over 20 mg/L, ANC over 4000/µL or temperature over 38.5 °C');
+  if (!markersObtained && !abnormal) {
+    return {
+      ...result,
+      risk: 'intermediate',
+      recommendation: 'Obtain urinalysis, blood culture and inflammatory markers (procalcitonin, with CRP and ANC) before deciding on lumbar puncture and disposition',
+      explanation,
+    };
+  }
+
+  if (csfPleocytosis) {
+    return { ...result, risk: 'high', findings: [...findings, 'CSF pleocytosis'], recommendation: 'Admit and give parenteral antibiotics at meningitic doses', explanation };
+  }
+
+  // Every age group needs a urinalysis; only abnormal markers decide the pathway without one
+  if (urinalysisPositive === undefined && !abnormal) {
+    return { ...result, applicable: false, risk: 'not-applicable', findings, recommendation: 'Obtain a urinalysis to apply the guideline', explanation };
+  }
+
+  if (ageDays <= 28) {
+    explanation.unshift('22-28 days: urinalysis, blood culture and inflammatory markers');
+    if (abnormal) {
+      return { ...result, risk: 'high', findings, recommendation: 'Perform a lumbar puncture; admit and give parenteral antibiotics (meningitic doses if CSF is not obtained or uninterpretable)', explanation };
+    }
+    return {
+      ...result,
+      risk: 'intermediate',
+      findings,
+      recommendation: urinalysisPositive
+        ? 'Lumbar puncture may be performed; give antibiotics for urinary tract infection (parenteral if CSF is not obtained) and observe in hospital or, with reliable follow-up, at home'
+        : 'Lumbar puncture may be performed; observe in hospital or, with follow-up within 24 hours assured, at home without antibiotics',
+      explanation,
+    };
+  }
+
+  explanation.unshift('29-60 days: urinalysis and inflammatory markers, with blood culture if markers are abnormal');
+  if (abnormal) {
+    return {
+      ...result,
+      risk: 'high',
+      findings,
+      recommendation: 'Obtain a blood culture; lumbar puncture may be performed. If CSF is normal or not obtained, give parenteral ceftriaxone and reassess within 24 hours at home or in hospital',
+      explanation,
+    };
+  }
+  if (urinalysisPositive) {
+    return { ...result, risk: 'intermediate', findings, recommendation: 'Lumbar puncture not needed; treat urinary tract infection with oral antibiotics and follow up within 24 hours', explanation };
+  }
+  return {
+    ...result,
+    risk: 'low',
+    findings,
+    recommendation: 'Lumbar puncture and antibiotics not needed; observe at home with follow-up within 24-36 hours',
+    explanation,
+  };
+}
+
+/**
+ * Match a free-text query to febrile infant or head trauma scenarios and apply the rules to what it states.
+ * Febrile infant findings the text does not mention are treated as absent and listed as assumptions; the head
+ * trauma rule is not applied until the GCS and every predictor are stated, and the missing ones are listed instead.
+ */
+export function evaluateQueryDecisionRules(query: string): DecisionRuleResult[] {
+  const text = query.toLowerCase();
+  const ageDays = extractAgeDays(text);
+  const results: DecisionRuleResult[] = [];
+
+  const febrile = /\b(fever|febrile|pyrexi)/.test(text) || extractTemperatureC(text) !== undefined;
+  const young = ageDays !== undefined ? ageDays <= 90 : /\b(neonat\w*|newborn|young infant)\b/.test(text);
+  if (febrile && young) {
+    results.push(...febrileInfantFromText(text, ageDays));
+  }
+
+  if (/\b(head (injury|injuries|trauma|bump)|hit (his|her|their|the) head|head[- ]?strike|fell on (his|her|their) head|concussion|skull)\b/.test(text)) {
+    results.push(headTraumaFromText(text, ageDays));
+  }
+
+  return results;
+}
+
+/**
+ * Plain-text summary of rule results for inclusion in an LLM prompt
+ */
+export function formatDecisionRules(results: DecisionRuleResult[]): string {
+  return results.map(result => [
+    `${result.name}: ${result.applicable ? `${result.risk} risk` : 'not applicable'}`,
+    `Recommendation: ${result.recommendation}`,
+    ...(result.findings.length > 0 ? [`Findings: ${result.findings.join('; ')}`] : []),
+    ...(result.assumptions.length > 0 ? [`Assumed: ${result.assumptions.join('; ')}`] : []),
+  ].join('\n')).join('\n\n');
+}
+
+function febrileInfantFromText(text: string, ageDays: number | undefined): DecisionRuleResult[] {
+  if (ageDays === undefined) {
+    return (['pecarn-febrile-infant', 'aap-febrile-infant-2021'] as const).map(rule => ({
+      ...baseResult(rule),
+      applicable: false,
+      risk: 'not-applicable' as const,
+      recommendation: 'State the infant\'s age in days or weeks to apply this rule',
+    }));
+  }
+
+  const assumptions: string[] = [];
+  let temperatureC = extractTemperatureC(text);
+  const temperatureWasAssumed = temperatureC === undefined;
+  if (temperatureC === undefined) {
+    temperatureC = DECISION_RULE_CONFIG.FEVER_C;
+    assumptions.push('Temperature taken as 38.0 °C because no value was given');
+  }
+  const illAppearing = findingState(text, ['ill[- ]appearing', 'toxic[- ]appearing', 'lethargic', 'poorly perfused', 'mottled']);
+  if (illAppearing === undefined) assumptions.push('Well-appearing');
+  const preterm = findingState(text, ['preterm', 'premature', 'born at 3[0-6] weeks']);
+  const urinalysis = extractUrinalysis(text);
+
+  const input: FebrileInfantInput = {
+    ageDays,
+    temperatureC,
+    wellAppearing: illAppearing !== true,
+    term: preterm !== true,
+    urinalysisPositive: urinalysis,
+    anc: extractLab(text, ['anc', 'absolute neutrophil count', 'neutrophils'], value => (value < 100 ? value * 1000 : value)),
+    procalcitonin: extractLab(text, ['procalcitonin', 'pct']),
+    crp: extractLab(text, ['crp', 'c-reactive protein'], (value, unit) => (unit === 'mg/dl' ? value * 10 : value)),
+    csfPleocytosis: findingState(text, ['csf pleocytosis', 'pleocytosis']),
+  };
+
+  const aap = aapFebrileInfant2021(input);
+  // A temperature over 38.5 °C is an abnormal AAP marker, so an assumed 38.0 °C may only support a high-risk result
+  const aapResult: DecisionRuleResult = temperatureWasAssumed && aap.applicable && aap.risk !== 'high'
+    ? { ...aap, applicable: false, risk: 'not-applicable', recommendation: 'State the measured temperature to apply the guideline: over 38.5 °C is an abnormal inflammatory marker' }
+    : aap;
+
+  return [pecarnFebrileInfant(input), aapResult].map(result => ({ ...result, assumptions }));
+}
+
+function headTraumaFromText(text: string, ageDays: number | undefined): DecisionRuleResult {
+  if (ageDays === undefined || ageDays >= 18 * 365.25) {
+    return {
+      ...baseResult('pecarn-head-trauma'),
+      applicable: false,
+      risk: 'not-applicable',
+      recommendation: ageDays === undefined ? 'State the child\'s age to apply this rule' : 'The rule applies to children under 18 years',
+    };
+  }
+
+  const gcsMatch = text.match(/\bgcs\s*(?:of|is|was|=|:)?\s*(\d{1,2})\b/);
+  const ageMonths = ageDays / (365.25 / 12);
+  // Key, name listed when missing, phrases stating it is present and, where the natural phrasing is positive, phrases stating it is absent
+  const predictors: Array<[keyof HeadTraumaInput, string, string[], string[]?]> = [
+    ['alteredMentalStatus', 'altered mental status', ['altered mental status', 'confused', 'agitated', 'somnolent', 'drowsy', 'repetitive questioning', 'slow to respond']],
+    ['lossOfConsciousness', 'loss of consciousness', ['loss of consciousness', 'lost consciousness', 'loc', 'passed out', 'knocked out', 'unconscious']],
+    ['severeMechanism', 'severe mechanism of injury', ['severe mechanism', 'high[- ]speed', 'ejected', 'rollover', 'struck by (a )?(car|vehicle)', 'fell from (a )?(height|window|balcony)', 'fall from (a )?(height|window|balcony)']],
+    ...(ageMonths < 24
+      ? [
+        ['palpableSkullFracture', 'palpable skull fracture', ['palpable skull fracture', 'skull depression', 'step[- ]off']],
+        ['nonFrontalScalpHematoma', 'occipital, parietal or temporal scalp hematoma', ['(occipital|parietal|temporal) (scalp )?(hematoma|haematoma|swelling|bump)']],
+        ['notActingNormally', 'not acting normally per parent', ['not acting normally', 'not acting (him|her|them)sel(f|ves)', 'acting abnormally'], ['acting normally', 'acting (him|her|them)sel(f|ves)', 'behaving normally', 'at (his|her|their )?baseline']],
+      ] as Array<[keyof HeadTraumaInput, string, string[], string[]?]>
+      : [
+        ['basilarSkullFractureSigns', 'signs of basilar skull fracture', ['basilar skull fracture', 'hemotympanum', 'raccoon eyes', 'battle\'?s sign', 'csf (rhinorrhea|otorrhea)']],
+        ['vomiting', 'vomiting', ['vomit\\w*', 'emesis']],
+        ['severeHeadache', 'severe headache', ['severe headache', 'bad headache', 'worst headache']],
+      ] as Array<[keyof HeadTraumaInput, string, string[], string[]?]>),
+  ];
+
+  const input = { ageMonths } as HeadTraumaInput;
+  const missing = gcsMatch ? [] : ['GCS'];
+  for (const [key, name, patterns, absentPatterns] of predictors) {
+    const state = findingState(text, patterns) ?? (absentPatterns && findingState(text, absentPatterns) ? false : undefined);
+    if (state === undefined) missing.push(name);
+    (input as unknown as Record<string, unknown>)[key] = state;
+  }
+
+  // An unmentioned predictor is unknown, not absent, and GCS 14 alone is high risk, so the rule is only applied to a complete history
+  if (missing.length > 0) {
+    return {
+      ...baseResult('pecarn-head-trauma'),
+      applicable: false,
+      risk: 'not-applicable',
+      recommendation: `State the missing inputs to apply the rule: ${missing.join('; ')}`,
+      explanation: [`The rule needs the GCS and whether each predictor for children ${ageMonths < 24 ? 'under 2 years' : '2 years and over'} is present or absent`],
+    };
+  }
+
+  return pecarnHeadTrauma({ ...input, gcs: parseInt(gcsMatch![1], 10) });
+}
+
+function extractAgeDays(text: string): number | undefined {
+  const match = text.match(/\b(\d+(?:\.\d+)?)[ -]?(days?|d|weeks?|wks?|months?|mos?|years?|yrs?|y)[ -]?(?:old|of age)\b/)
+    ?? text.match(/\b(?:aged?|age of)\s*(\d+(?:\.\d+)?)\s*(days?|weeks?|wks?|months?|mos?|years?|yrs?)\b/);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  const unit = match[2];
+  if (unit.startsWith('d')) return value;
+  if (unit.startsWith('w')) return value * 7;
+  if (unit.startsWith('m')) return Math.round(value * (365.25 / 12));
+  return Math.round(value * 365.25);
+}
+
+function extractTemperatureC(text: string): number | undefined {
+  const match = text.match(/\b(\d{2,3}(?:\.\d+)?)\s*°?\s*(c|f)\b/);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  const celsius = match[2] === 'f' ? (value - 32) * 5 / 9 : value;
+  return celsius >= 30 && celsius <= 45 ? Math.round(celsius * 10) / 10 : undefined;
+}
+
+function extractUrinalysis(text: string): boolean | undefined {
+  if (/\b(negative|normal|clean|bland) (ua|urinalysis|urine)\b|\b(ua|urinalysis|urine dip\w*) (was |is )?(negative|normal|clean|bland)\b/.test(text)) return false;
+  if (/\bpositive (ua|urinalysis)\b|\b(ua|urinalysis) (was |is )?(positive|abnormal)\b|\bpyuria\b|\bleukocyte esterase\b|\bnitrite positive\b|\bpositive nitrite/.test(text)) return true;
+  return undefined;
+}
+
+function extractLab(text: string, names: string[], convert: (value: number, unit?: string) => number = value => value): number | undefined {
+  const match = text.match(new RegExp(`\\b(?:${names.join('|')})\\s*(?:of|is|was|=|:)?\\s*(\\d[\\d,]*(?:\\.\\d+)?)\\s*(mg/dl|mg/l|ng/ml)?`));
+  if (!match) return undefined;
+  return convert(parseFloat(match[1].replace(/,/g, '')), match[2]);
+}
+
+// True when a finding is mentioned, false when negated ("no vomiting", "denies LOC"), undefined when not mentioned
+function findingState(text: string, patterns: string[]): boolean | undefined {
+  const finding = new RegExp(`\\b(?:${patterns.join('|')})\\b`);
+  const negated = new RegExp(`\\b(?:no|not|without|denies|denied|negative for)\\s+(?:\\w+\\s+){0,2}?(?:${patterns.join('|')})\\b`);
+  if (negated.test(text)) return false;
+  return finding.test(text) ? true : undefined;
+}
+
+function baseResult(rule: DecisionRuleId): DecisionRuleResult {
+  return {
+    rule,
+    name: RULE_NAMES[rule],
+    applicable: true,
+    risk: 'low',
+    recommendation: '',
+    findings: [],
+    explanation: [],
+    assumptions: [],
+    reference: REFERENCES[rule],
+  };
+}
+
+function assertFebrileInfantInput({ ageDays, temperatureC }: FebrileInfantInput): void {
+  if (!Number.isFinite(ageDays) || ageDays < 0) {
+    throw new DecisionRuleError('Age must be a non-negative number of days');
+  }
+  if (!Number.isFinite(temperatureC) || temperatureC < 30 || temperatureC > 45) {
+    throw new DecisionRuleError('Temperature must be between 30 and 45 °C');
+  }
+}
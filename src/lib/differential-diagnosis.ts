@@ -0,0 +1,223 @@
+// Structured, Schema-Validated Differential Diagnosis Generation
+import { z } from 'zod';
+import { LLMAttempt, LLMProviderChain, LLMUsage, llmProviderChain } from './llm-provider';
+import { extractJson, formatSchemaErrors, generateStructuredOutput, normalizeKeys } from './structured-output';
+
+export const DIAGNOSIS_CONFIG = {
+  // Initial request plus repair retries when the model output fails validation
+  MAX_ATTEMPTS: 3,
+  MAX_DIAGNOSES: 10,
+} as const;
+
+export const LIKELIHOOD_TIERS = ['high', 'moderate', 'low'] as const;
+export type LikelihoodTier = typeof LIKELIHOOD_TIERS[number];
+
+const LIKELIHOOD_ALIASES: Record<string, LikelihoodTier> = {
+  high: 'high',
+  likely: 'high',
+  'most likely': 'high',
+  probable: 'high',
+  moderate: 'moderate',
+  medium: 'moderate',
+  possible: 'moderate',
+  intermediate: 'moderate',
+  low: 'low',
+  unlikely: 'low',
+  'less likely': 'low',
+  rare: 'low',
+};
+
+// Keys models commonly use instead of the schema's names
+const KEY_ALIASES: Record<string, string> = {
+  diagnosis: 'name',
+  condition: 'name',
+  probability: 'likelihood',
+  likelihoodTier: 'likelihood',
+  supporting: 'supportingFindings',
+  findingsFor: 'supportingFindings',
+  opposing: 'opposingFindings',
+  against: 'opposingFindings',
+  findingsAgainst: 'opposingFindings',
+  cannotMiss: 'mustNotMiss',
+  dangerous: 'mustNotMiss',
+  workup: 'recommendedWorkup',
+  investigations: 'recommendedWorkup',
+  differential: 'diagnoses',
+  differentials: 'diagnoses',
+};
+
+const findingList = z.preprocess(
+  value => typeof value === 'string' ? value.split(/[;\n]|,\s+/).map(item => item.trim()).filter(Boolean) : value ?? [],
+  z.array(z.string().trim().min(1))
+);
+
+const diagnosisSchema = z.object({
+  name: z.string().trim().min(1),
+  likelihood: z.preprocess(
+    value => typeof value === 'string' ? LIKELIHOOD_ALIASES[value.trim().toLowerCase()] ?? value : value,
+    z.enum(LIKELIHOOD_TIERS)
+  ),
+  rationale: z.string().trim().optional(),
+  supportingFindings: findingList,
+  opposingFindings: findingList,
+  mustNotMiss: z.preprocess(
+    value => typeof value === 'string' ? /^(true|yes)$/i.test(value.trim()) : value ?? false,
+    z.boolean()
+  ),
+});
+
+export const differentialDiagnosisSchema = z.object({
+  diagnoses: z.array(diagnosisSchema).min(1).max(DIAGNOSIS_CONFIG.MAX_DIAGNOSES),
+  recommendedWorkup: findingList,
+  redFlags: findingList,
+});
+
+export type DiagnosisEntry = z.infer<typeof diagnosisSchema>;
+
+export interface RankedDiagnosis extends DiagnosisEntry {
+  rank: number;
+}
+
+export interface DifferentialDiagnosis {
+  // Ordered by likelihood tier, keeping the model's order within a tier
+  diagnoses: RankedDiagnosis[];
+  recommendedWorkup: string[];
+  redFlags: string[];
+}
+
+export interface DiagnosisRequest {
+  symptoms: string[];
+  patientAge: string;
+  patientGender?: string;
+  additionalContext?: string;
+}
+
+export interface DiagnosisResult {
+  differential: DifferentialDiagnosis;
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  llmAttempts: LLMAttempt[];
+  // Generation attempts needed to get schema-valid output
+  parseAttempts: number;
+  // Output needed syntactic or key repairs before it validated
+  repaired: boolean;
+}
+
+export type DiagnosisParseResult =
+  | { success: true; differential: DifferentialDiagnosis; repaired: boolean }
+  | { success: false; errors: string[] };
+
+export class DiagnosisFormatError extends Error {
+  constructor(public readonly errors: string[], public readonly attempts: number) {
+    super(`Model did not return a valid differential diagnosis after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'DiagnosisFormatError';
+  }
+}
+
+const SYSTEM_PROMPT = `You are a pediatric medical specialist. Generate a differential diagnosis based on the provided symptoms and patient information. Prioritize common conditions in pediatrics, consider age-appropriate diagnoses and flag dangerous conditions that must not be missed.
+
+Respond with ONLY a JSON object, no prose or code fences, matching:
+{
+  "diagnoses": [
+    {
+      "name": "string",
+      "likelihood": "high" | "moderate" | "low",
+      "rationale": "one sentence",
+      "supportingFindings": ["findings in this case that support it"],
+      "opposingFindings": ["findings in this case that argue against it"],
+      "mustNotMiss": true | false
+    }
+  ],
+  "recommendedWorkup": ["initial investigations"],
+  "redFlags": ["symptoms that require urgent attention"]
+}`;
+
+/**
+ * Validate (and where possible repair) raw model output against the differential diagnosis schema
+ */
+export function parseDifferentialDiagnosis(raw: string): DiagnosisParseResult {
+  const extracted = extractJson(raw);
+  if (!extracted) {
+    return { success: false, errors: ['Output does not contain a JSON object'] };
+  }
+
+  const normalized = normalizeKeys(Array.isArray(extracted.value) ? { diagnoses: extracted.value } : extracted.value, KEY_ALIASES);
+  const parsed = differentialDiagnosisSchema.safeParse(normalized.value);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: formatSchemaErrors(parsed.error),
+    };
+  }
+
+  return {
+    success: true,
+    differential: rankDiagnoses(parsed.data),
+    repaired: extracted.repaired || normalized.renamed,
+  };
+}
+
+/**
+ * Order diagnoses by likelihood tier, keeping the model's order within a tier
+ */
+export function rankDiagnoses(data: z.infer<typeof differentialDiagnosisSchema>): DifferentialDiagnosis {
+  const diagnoses = data.diagnoses
+    .map((diagnosis, index) => ({ diagnosis, index }))
+    .sort((a, b) =>
+      LIKELIHOOD_TIERS.indexOf(a.diagnosis.likelihood) - LIKELIHOOD_TIERS.indexOf(b.diagnosis.likelihood) || a.index - b.index
+    )
+    .map(({ diagnosis }, index) => ({ ...diagnosis, rank: index + 1 }));
+
+  return { diagnoses, recommendedWorkup: data.recommendedWorkup, redFlags: data.redFlags };
+}
+
+export class DifferentialDiagnosisService {
+  constructor(private llm: LLMProviderChain = llmProviderChain) {}
+
+  /**
+   * Generate a ranked differential. Output that fails validation is sent back to the model
+   * with the validation errors for correction.
+   */
+  async generate(request: DiagnosisRequest): Promise<DiagnosisResult> {
+    const result = await generateStructuredOutput(
+      this.llm,
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: this.buildUserPrompt(request) },
+      ],
+      raw => {
+        const parsed = parseDifferentialDiagnosis(raw);
+        return parsed.success ? { success: true, value: parsed.differential, repaired: parsed.repaired } : parsed;
+      },
+      { maxAttempts: DIAGNOSIS_CONFIG.MAX_ATTEMPTS, temperature: 0.4, maxTokens: 2000, label: 'Differential diagnosis' }
+    );
+
+    if (!result.success) {
+      throw new DiagnosisFormatError(result.errors, result.parseAttempts);
+    }
+
+    return {
+      differential: result.value,
+      provider: result.provider,
+      model: result.model,
+      usage: result.usage,
+      llmAttempts: result.llmAttempts,
+      parseAttempts: result.parseAttempts,
+      repaired: result.repaired,
+    };
+  }
+
+  private buildUserPrompt({ symptoms, patientAge, patientGender, additionalContext }: DiagnosisRequest): string {
+    return `Patient Information:
+- Age: ${patientAge}
+- Gender: ${patientGender || 'Not specified'}
+- Symptoms: ${symptoms.join(', ')}
+${additionalContext ? `Additional Context: ${additionalContext}` : ''}
+
+Return the differential diagnosis JSON.`;
+  }
+}
+
+// Export singleton instance
+export const differentialDiagnosisService = new DifferentialDiagnosisService();
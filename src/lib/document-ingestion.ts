@@ -0,0 +1,509 @@
+// Nelson Textbook Ingestion Pipeline for NelsonGPT
+import { v5 as uuidv5 } from 'uuid';
+import { VectorDatabaseService, vectorDatabaseService } from './vector-database';
+import type { StoredDocument } from './vector-store';
+import type { EmbeddingBatchOptions } from './embeddings';
+import type { EnhancedRAGConfig } from './rag-pipeline';
+
+export type IngestionFormat = 'text' | 'markdown' | 'html';
+
+export type ChunkingConfig = Pick<EnhancedRAGConfig, 'chunkSize' | 'chunkOverlap'>;
+
+export interface IngestionSource {
+  chapter: string;
+  content: string;
+  format?: IngestionFormat;
+  title?: string;
+  source?: string;
+  startPage?: number;
+  metadata?: {
+    medical_specialties?: string[];
+    age_groups?: string[];
+    urgency_level?: string;
+    evidence_level?: string;
+    last_reviewed?: string;
+    [key: string]: any;
+  };
+}
+
+export interface IngestionChunk {
+  id: string;
+  content: string;
+  contentHash: string;
+  metadata: {
+    chapter: string;
+    section?: string;
+    title?: string;
+    source: string;
+    page?: number;
+    chunk_index: number;
+    total_chunks: number;
+    ingestion_key: string;
+    [key: string]: any;
+  };
+}
+
+export interface IngestionProgress {
+  chapter: string;
+  totalChunks: number;
+  processedChunks: number;
+  stored: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface IngestionOptions extends Partial<ChunkingConfig> {
+  batchSize?: number;
+  dryRun?: boolean;
+  force?: boolean;
+  // Concurrency and retry settings for the embedding provider
+  embedding?: Omit<EmbeddingBatchOptions, 'onProgress'>;
+  onProgress?: (progress: IngestionProgress) => void;
+}
+
+export interface IngestionResult {
+  chapter: string;
+  totalChunks: number;
+  stored: number;
+  skipped: number;
+  removed: number;
+  failed: number;
+  // Chunks left without an embedding; a re-run picks up exactly these
+  failedChunkIds: string[];
+  errors: string[];
+  chunks?: IngestionChunk[];
+  processingTime: number;
+}
+
+interface TextUnit {
+  text: string;
+  page?: number;
+  paragraphStart: boolean;
+}
+
+interface DocumentSection {
+  section?: string;
+  title?: string;
+  units: TextUnit[];
+}
+
+// Fixed namespace so chunk IDs are stable across runs and machines
+const INGESTION_NAMESPACE = '6f1c2a1e-8d4b-5c3a-9e7f-2b1d0c4a6e58';
+const DEFAULT_SOURCE = 'Nelson Textbook of Pediatrics';
+const PAGE_MARKER = /^\s*\[?\s*page\s+(\d+)\s*\]?\s*$/i;
+
+export class DocumentIngestionService {
+  private config: ChunkingConfig;
+  private vectorDatabase: VectorDatabaseService;
+
+  constructor(config: Partial<ChunkingConfig> = {}, vectorDatabase: VectorDatabaseService = vectorDatabaseService) {
+    this.config = {
+      chunkSize: config.chunkSize || 1000,
+      chunkOverlap: config.chunkOverlap ?? 200,
+    };
+    this.vectorDatabase = vectorDatabase;
+  }
+
+  /**
+   * Ingest a chapter: chunk it, skip unchanged chunks, store the rest and prune stale ones
+   */
+  async ingest(source: IngestionSource, options: IngestionOptions = {}): Promise<IngestionResult> {
+    const startTime = Date.now();
+    const chunks = this.chunkDocument(source, options);
+    const result: IngestionResult = {
+      chapter: source.chapter,
+      totalChunks: chunks.length,
+      stored: 0,
+      skipped: 0,
+      removed: 0,
+      failed: 0,
+      failedChunkIds: [],
+      errors: [],
+      processingTime: 0,
+    };
+
+    if (options.dryRun) {
+      return { ...result, chunks, processingTime: Date.now() - startTime };
+    }
+
+    try {
+      const ingestionKey = this.buildIngestionKey(source);
+      const existing = await this.getExistingChunks(ingestionKey);
+      const chunkIds = new Set(chunks.map(chunk => chunk.id));
+
+      // Unchanged chunks are skipped, which makes re-runs idempotent and lets an
+      // interrupted ingestion resume where it stopped
+      const pending = chunks.filter(chunk => options.force || existing.get(chunk.id) !== chunk.contentHash);
+      result.skipped = chunks.length - pending.length;
+
+      const batchSize = options.batchSize || 25;
+      for (let i = 0; i < pending.length; i += batchSize) {
+        const batch = pending.slice(i, i + batchSize);
+
+        // Replace stale embeddings for chunks whose content changed
+        for (const chunk of batch) {
+          if (existing.has(chunk.id)) {
+            await this.vectorDatabase.deleteDocumentEmbedding(chunk.id);
+          }
+        }
+
+        try {
+          await this.vectorDatabase.upsertDocuments(batch.map(chunk => this.toDocumentRow(chunk, source)));
+          const stored = await this.vectorDatabase.batchStoreEmbeddings(
+            batch.map(chunk => ({ id: chunk.id, content: chunk.content, metadata: chunk.metadata })),
+            options.embedding
+          );
+          result.stored += stored.successful;
+          result.failed += stored.failed;
+          result.failedChunkIds.push(...stored.failedIds);
+          result.errors.push(...stored.errors);
+        } catch (error) {
+          result.failed += batch.length;
+          result.failedChunkIds.push(...batch.map(chunk => chunk.id));
+          result.errors.push(`Batch ${i / batchSize + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        options.onProgress?.({
+          chapter: source.chapter,
+          totalChunks: chunks.length,
+          processedChunks: result.skipped + Math.min(i + batchSize, pending.length),
+          stored: result.stored,
+          skipped: result.skipped,
+          failed: result.failed,
+        });
+      }
+
+      // Remove chunks left over from a previous, longer version of the chapter
+      const staleIds = Array.from(existing.keys()).filter(id => !chunkIds.has(id));
+      if (staleIds.length > 0) {
+        result.removed = await this.removeChunks(staleIds, result.errors);
+      }
+    } catch (error) {
+      console.error('Document ingestion failed:', error);
+      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    result.processingTime = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Ingest several chapters sequentially
+   */
+  async ingestMany(sources: IngestionSource[], options: IngestionOptions = {}): Promise<IngestionResult[]> {
+    const results: IngestionResult[] = [];
+    for (const source of sources) {
+      results.push(await this.ingest(source, options));
+    }
+    return results;
+  }
+
+  /**
+   * Split raw chapter content into overlapping, heading-aware chunks
+   */
+  chunkDocument(source: IngestionSource, options: Partial<ChunkingConfig> = {}): IngestionChunk[] {
+    const chunkSize = options.chunkSize || this.config.chunkSize;
+    const chunkOverlap = Math.min(options.chunkOverlap ?? this.config.chunkOverlap, Math.floor(chunkSize / 2));
+    const format = source.format || this.detectFormat(source.content);
+    const text = format === 'html' ? this.htmlToMarkdown(source.content) : source.content;
+    const sections = this.splitIntoSections(text, format, source.startPage);
+    const ingestionKey = this.buildIngestionKey(source);
+    const sourceName = source.source || DEFAULT_SOURCE;
+
+    const drafts: Array<{ content: string; section?: string; title?: string; page?: number }> = [];
+    for (const section of sections) {
+      for (const piece of this.packUnits(section.units, chunkSize, chunkOverlap)) {
+        drafts.push({ ...piece, section: section.section, title: section.title });
+      }
+    }
+
+    return drafts.map((draft, index) => ({
+      id: uuidv5(`${ingestionKey}|${index}`, INGESTION_NAMESPACE),
+      content: draft.content,
+      contentHash: this.vectorDatabase.generateContentHash(draft.content),
+      metadata: {
+        ...source.metadata,
+        chapter: source.chapter,
+        section: draft.section,
+        title: draft.title || source.title,
+        source: sourceName,
+        page: draft.page,
+        chunk_index: index,
+        total_chunks: drafts.length,
+        ingestion_key: ingestionKey,
+      },
+    }));
+  }
+
+  /**
+   * Guess the content format when the caller does not specify one
+   */
+  detectFormat(content: string): IngestionFormat {
+    if (/<\/?(h[1-6]|p|div|section|article|body|li)\b[^>]*>/i.test(content)) {
+      return 'html';
+    }
+    if (/^#{1,6}\s+\S/m.test(content)) {
+      return 'markdown';
+    }
+    return 'text';
+  }
+
+  // Helper methods
+  private splitIntoSections(text: string, format: IngestionFormat, startPage?: number): DocumentSection[] {
+    const sections: DocumentSection[] = [];
+    const headingStack: Array<{ level: number; text: string }> = [];
+    let page = startPage;
+    let current: DocumentSection = { units: [] };
+    let paragraph: string[] = [];
+    let paragraphPage = page;
+
+    const flushParagraph = () => {
+      const joined = paragraph.join(' ').replace(/\s+/g, ' ').trim();
+      if (joined) {
+        this.splitSentences(joined).forEach((sentence, idx) => {
+          current.units.push({ text: sentence, page: paragraphPage, paragraphStart: idx === 0 });
+        });
+      }
+      paragraph = [];
+    };
+
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    for (const rawLine of lines) {
+      // Form feeds mark page breaks in text extracted from PDFs
+      const formFeeds = rawLine.split('\f').length - 1;
+      if (formFeeds > 0 && page !== undefined) {
+        page += formFeeds;
+      }
+      const line = rawLine.replace(/\f/g, '').trim();
+
+      const pageMatch = line.match(PAGE_MARKER);
+      if (pageMatch) {
+        flushParagraph();
+        page = parseInt(pageMatch[1], 10);
+        continue;
+      }
+
+      const heading = this.parseHeading(line, format);
+      if (heading) {
+        flushParagraph();
+        if (current.units.length > 0) {
+          sections.push(current);
+        }
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= heading.level) {
+          headingStack.pop();
+        }
+        headingStack.push(heading);
+        current = {
+          section: headingStack[0].text,
+          title: headingStack[headingStack.length - 1].text,
+          units: [],
+        };
+        continue;
+      }
+
+      if (!line) {
+        flushParagraph();
+        continue;
+      }
+
+      if (paragraph.length === 0) {
+        paragraphPage = page;
+      }
+      paragraph.push(format === 'text' ? line : line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '- '));
+    }
+
+    flushParagraph();
+    if (current.units.length > 0) {
+      sections.push(current);
+    }
+
+    return sections;
+  }
+
+  private parseHeading(line: string, format: IngestionFormat): { level: number; text: string } | null {
+    if (!line) return null;
+
+    const markdownHeading = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    if (markdownHeading && format !== 'text') {
+      return { level: markdownHeading[1].length, text: markdownHeading[2].trim() };
+    }
+
+    if (format === 'text' && line.length <= 80 && !/[.:;,]$/.test(line)) {
+      // Numbered headings such as "12.3 Clinical Manifestations"
+      const numbered = line.match(/^(\d+(?:\.\d+)*)\.?\s+([A-Z].*)$/);
+      if (numbered && line.split(/\s+/).length <= 10) {
+        return { level: numbered[1].split('.').length, text: numbered[2].trim() };
+      }
+      // ALL CAPS headings such as "TREATMENT"
+      if (/[A-Z]/.test(line) && line === line.toUpperCase() && /^[A-Z0-9 ,&()/'-]+$/.test(line)) {
+        return { level: 1, text: line };
+      }
+    }
+
+    return null;
+  }
+
+  private htmlToMarkdown(html: string): string {
+    return html
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--\s*page:?\s*(\d+)\s*-->/gi, '\n[Page $1]\n')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) =>
+        `\n${'#'.repeat(parseInt(level, 10))} ${inner.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n`
+      )
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|section|article|li|ul|ol|table|tr|blockquote)>/gi, '\n\n')
+      .replace(/<(td|th)\b[^>]*>/gi, ' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private splitSentences(paragraph: string): string[] {
+    // Avoid splitting on common abbreviations and decimal doses (e.g. "0.5 mg")
+    return paragraph
+      .split(/(?<=[.!?])\s+(?=[A-Z(\["'-])/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0)
+      .reduce<string[]>((sentences, sentence) => {
+        const previous = sentences[sentences.length - 1];
+        if (previous && /\b(e\.g|i\.e|et al|vs|Dr|Fig|approx|No)\.$/i.test(previous)) {
+          sentences[sentences.length - 1] = `${previous} ${sentence}`;
+        } else {
+          sentences.push(sentence);
+        }
+        return sentences;
+      }, []);
+  }
+
+  private packUnits(
+    units: TextUnit[],
+    chunkSize: number,
+    chunkOverlap: number
+  ): Array<{ content: string; page?: number }> {
+    const pieces = units.flatMap(unit => this.splitOversizedUnit(unit, chunkSize));
+    const chunks: Array<{ content: string; page?: number }> = [];
+    let current: TextUnit[] = [];
+    let currentLength = 0;
+    let hasNewContent = false;
+
+    const render = (group: TextUnit[]) =>
+      group
+        .map((unit, idx) => (idx > 0 && unit.paragraphStart ? `\n\n${unit.text}` : `${idx > 0 ? ' ' : ''}${unit.text}`))
+        .join('')
+        .trim();
+
+    for (const unit of pieces) {
+      const addition = unit.text.length + (current.length > 0 ? 1 : 0);
+      if (current.length > 0 && currentLength + addition > chunkSize) {
+        chunks.push({ content: render(current), page: current[0].page });
+
+        // Carry trailing sentences into the next chunk as overlap
+        const overlap: TextUnit[] = [];
+        let overlapLength = 0;
+        for (let i = current.length - 1; i >= 0; i--) {
+          const length = current[i].text.length + (overlap.length > 0 ? 1 : 0);
+          if (overlapLength + length > chunkOverlap) break;
+          overlap.unshift(current[i]);
+          overlapLength += length;
+        }
+        if (overlap.length === 0 && chunkOverlap > 0) {
+          const tail = current[current.length - 1].text.slice(-chunkOverlap);
+          const wordStart = tail.indexOf(' ');
+          const trimmed = (wordStart > 0 ? tail.slice(wordStart + 1) : tail).trim();
+          if (trimmed) {
+            overlap.push({ text: trimmed, page: current[current.length - 1].page, paragraphStart: false });
+            overlapLength = trimmed.length;
+          }
+        }
+
+        current = overlap;
+        currentLength = overlapLength;
+        hasNewContent = false;
+      }
+
+      current.push(unit);
+      currentLength += unit.text.length + (current.length > 1 ? 1 : 0);
+      hasNewContent = true;
+    }
+
+    if (current.length > 0 && hasNewContent) {
+      chunks.push({ content: render(current), page: current[0].page });
+    }
+
+    return chunks;
+  }
+
+  private splitOversizedUnit(unit: TextUnit, chunkSize: number): TextUnit[] {
+    if (unit.text.length <= chunkSize) {
+      return [unit];
+    }
+
+    const parts: TextUnit[] = [];
+    let buffer = '';
+    for (const word of unit.text.split(' ')) {
+      if (buffer && buffer.length + word.length + 1 > chunkSize) {
+        parts.push({ text: buffer, page: unit.page, paragraphStart: parts.length === 0 && unit.paragraphStart });
+        buffer = word;
+      } else {
+        buffer = buffer ? `${buffer} ${word}` : word;
+      }
+    }
+    if (buffer) {
+      parts.push({ text: buffer, page: unit.page, paragraphStart: parts.length === 0 && unit.paragraphStart });
+    }
+    return parts;
+  }
+
+  private buildIngestionKey(source: IngestionSource): string {
+    return `${source.source || DEFAULT_SOURCE}|${source.chapter}`;
+  }
+
+  private toDocumentRow(chunk: IngestionChunk, source: IngestionSource): StoredDocument {
+    return {
+      id: chunk.id,
+      title: chunk.metadata.title || chunk.metadata.section || source.chapter,
+      chapter: source.chapter,
+      section: chunk.metadata.section,
+      subsection: chunk.metadata.title !== chunk.metadata.section ? chunk.metadata.title : null,
+      content: chunk.content,
+      medical_specialties: source.metadata?.medical_specialties || [],
+      age_groups: source.metadata?.age_groups || [],
+      urgency_level: source.metadata?.urgency_level,
+      evidence_level: source.metadata?.evidence_level,
+      last_reviewed: source.metadata?.last_reviewed,
+      metadata: {
+        source: chunk.metadata.source,
+        page: chunk.metadata.page,
+        chunk_index: chunk.metadata.chunk_index,
+        total_chunks: chunk.metadata.total_chunks,
+        ingestion_key: chunk.metadata.ingestion_key,
+      },
+    };
+  }
+
+  private async getExistingChunks(ingestionKey: string): Promise<Map<string, string | undefined>> {
+    return this.vectorDatabase.getDocumentContentHashes({ ingestion_key: ingestionKey });
+  }
+
+  private async removeChunks(ids: string[], errors: string[]): Promise<number> {
+    let removed = 0;
+    for (const id of ids) {
+      const deleted = await this.vectorDatabase.deleteDocument(id);
+      if (deleted.success) {
+        removed++;
+      } else {
+        errors.push(`Document ${id}: ${deleted.error}`);
+      }
+    }
+    return removed;
+  }
+}
+
+// Export singleton instance
+export const documentIngestionService = new DocumentIngestionService();
@@ -0,0 +1,495 @@
+// Weight- and Body-Surface-Area-Based Dosing Engine
+export type DoseUnit = 'mg' | 'mcg' | 'g' | 'units' | 'mmol';
+// What the dose amount is multiplied by: weight, body surface area, or nothing for flat doses
+export type DoseScale = 'kg' | 'm2' | 'fixed';
+export type DoseInterval = 'dose' | 'day';
+
+export interface DoseRange {
+  min: number;
+  max: number;
+}
+
+export interface DoseRule {
+  indication?: string;
+  route: string;
+  // Amount in `unit` per `scale` per `per`, e.g. 10-15 mg/kg/dose
+  amount: DoseRange;
+  unit: DoseUnit;
+  scale: DoseScale;
+  per: DoseInterval;
+  frequency: string;
+  // Omitted for single or as-needed doses without a daily count
+  dosesPerDay?: DoseRange;
+  // Absolute caps, in `unit`
+  maxPerDose?: number;
+  maxPerDay?: number;
+  // Weight-based daily cap, in `unit`/kg/day
+  maxPerKgPerDay?: number;
+}
+
+// A concentration as dispensed, e.g. 250 mg per 5 mL
+export interface Formulation {
+  label: string;
+  form: 'suspension' | 'solution' | 'drops' | 'injection' | 'nebulizer';
+  amount: number;
+  unit: DoseUnit;
+  volumeMl: number;
+  // Smallest measurable step, overriding the default oral syringe graduations
+  incrementMl?: number;
+}
+
+// A change to a dose rule that applies when eGFR is below `belowEgfr`
+export interface RenalAdjustment {
+  belowEgfr: number;
+  // Replaces the rule's amount, optionally switching between per-dose and per-day
+  amount?: DoseRange;
+  per?: DoseInterval;
+  // Multiplies the rule's amount and absolute caps when no replacement amount is given
+  doseFactor?: number;
+  dosesPerDay?: DoseRange;
+  frequency?: string;
+  avoid?: boolean;
+  note: string;
+}
+
+export interface DrugMonograph {
+  name: string;
+  rules: DoseRule[];
+  formulations?: Formulation[];
+  renalAdjustments?: RenalAdjustment[];
+  notes: string;
+}
+
+export interface PatientMeasurements {
+  weightKg: number;
+  heightCm?: number;
+  // Overrides the Mosteller estimate from height and weight
+  bsaM2?: number;
+  // mL/min/1.73 m², e.g. from bedsideSchwartzEgfr; renal adjustments are only applied when given
+  egfr?: number;
+}
+
+export interface CappedDoseRange extends DoseRange {
+  capped: boolean;
+}
+
+export interface DoseCap {
+  limit: 'perDose' | 'perDay';
+  // Cap value in the rule's unit
+  value: number;
+  source: string;
+  // Uncapped maximum that exceeded the cap
+  calculated: number;
+  message: string;
+}
+
+export interface RenalDoseAdjustment {
+  egfr: number;
+  // The band that applied, if any
+  adjustment?: RenalAdjustment;
+  // Rule before adjustment; DoseCalculation.rule is the adjusted rule
+  originalRule: DoseRule;
+  avoid: boolean;
+  explanation: string;
+}
+
+export interface DoseCalculation {
+  drug: string;
+  rule: DoseRule;
+  unit: DoseUnit;
+  weightKg: number;
+  bsaM2?: number;
+  perDose?: CappedDoseRange;
+  perDay?: CappedDoseRange;
+  capsApplied: DoseCap[];
+  renal?: RenalDoseAdjustment;
+}
+
+export interface VolumeDose {
+  formulation: Formulation;
+  // Rule unit per mL
+  concentration: number;
+  // Rounded to measurable increments, never above the (capped) per-dose maximum
+  perDoseMl: DoseRange;
+  incrementMl: number;
+  // Amount actually given by the rounded volumes, in the rule's unit
+  deliveredPerDose: DoseRange;
+  warning?: string;
+}
+
+export class DosingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DosingError';
+  }
+}
+
+// Default oral syringe graduations: [largest volume in mL, step in mL]
+const MEASURABLE_INCREMENTS_ML: Array<[number, number]> = [
+  [1, 0.05],
+  [5, 0.1],
+  [10, 0.5],
+  [Infinity, 1],
+];
+
+// Largest acceptable difference between the measured and calculated dose
+const VOLUME_ROUNDING_TOLERANCE = 0.1;
+
+const MASS_UNITS_IN_MG: Partial<Record<DoseUnit, number>> = { mg: 1, mcg: 0.001, g: 1000 };
+
+// Bedside Schwartz constant for enzymatic creatinine (mg/dL), and µmol/L per mg/dL of creatinine
+const SCHWARTZ_K = 0.413;
+const CREATININE_UMOL_PER_MG_DL = 88.4;
+
+/**
+ * Body surface area by the Mosteller formula
+ */
+export function bodySurfaceArea(weightKg: number, heightCm: number): number {
+  return Math.sqrt((weightKg * heightCm) / 3600);
+}
+
+/**
+ * Estimated GFR (mL/min/1.73 m²) by the bedside Schwartz formula: 0.413 × height (cm) / serum creatinine (mg/dL)
+ */
+export function bedsideSchwartzEgfr(heightCm: number, creatinine: number, unit: 'mg/dL' | 'umol/L' = 'mg/dL'): number {
+  if (!Number.isFinite(heightCm) || heightCm <= 0) {
+    throw new DosingError('Height must be a positive number of centimetres to estimate eGFR');
+  }
+  if (!Number.isFinite(creatinine) || creatinine <= 0) {
+    throw new DosingError('Serum creatinine must be a positive number');
+  }
+  const creatinineMgDl = unit === 'umol/L' ? creatinine / CREATININE_UMOL_PER_MG_DL : creatinine;
+  return Math.round((SCHWARTZ_K * heightCm / creatinineMgDl) * 10) / 10;
+}
+
+/**
+ * Apply the most restrictive renal adjustment band that covers the eGFR
+ */
+export function applyRenalAdjustment(rule: DoseRule, adjustments: RenalAdjustment[], egfr: number): { rule: DoseRule; renal: RenalDoseAdjustment } {
+  if (!Number.isFinite(egfr) || egfr < 0) {
+    throw new DosingError('eGFR must be a non-negative number');
+  }
+
+  const adjustment = adjustments
+    .filter(band => egfr < band.belowEgfr)
+    .sort((a, b) => a.belowEgfr - b.belowEgfr)[0];
+
+  if (!adjustment) {
+    const explanation = adjustments.length === 0
+      ? `No renal dose adjustment is listed for this drug at eGFR ${egfr}; use clinical judgement in severe impairment`
+      : `No renal adjustment needed at eGFR ${egfr} (adjust below ${Math.max(...adjustments.map(band => band.belowEgfr))} mL/min/1.73 m²)`;
+    return { rule, renal: { egfr, originalRule: rule, avoid: false, explanation } };
+  }
+
+  const adjusted: DoseRule = { ...rule };
+  if (adjustment.amount) {
+    adjusted.amount = adjustment.amount;
+    adjusted.per = adjustment.per ?? rule.per;
+  } else if (adjustment.doseFactor !== undefined) {
+    const factor = adjustment.doseFactor;
+    adjusted.amount = { min: rule.amount.min * factor, max: rule.amount.max * factor };
+    adjusted.maxPerDose = rule.maxPerDose !== undefined ? rule.maxPerDose * factor : undefined;
+    adjusted.maxPerDay = rule.maxPerDay !== undefined ? rule.maxPerDay * factor : undefined;
+    adjusted.maxPerKgPerDay = rule.maxPerKgPerDay !== undefined ? rule.maxPerKgPerDay * factor : undefined;
+  }
+  if (adjustment.dosesPerDay) {
+    // A daily amount given less often keeps the same size of each dose
+    if (!adjustment.amount && rule.per === 'day' && rule.dosesPerDay) {
+      const ratio = adjustment.dosesPerDay.max / rule.dosesPerDay.max;
+      adjusted.amount = { min: adjusted.amount.min * ratio, max: adjusted.amount.max * ratio };
+    }
+    adjusted.dosesPerDay = adjustment.dosesPerDay;
+  }
+  adjusted.frequency = adjustment.frequency ?? rule.frequency;
+
+  const changes = [
+    adjusted.amount !== rule.amount || adjusted.per !== rule.per ? `${describeDoseRule(rule)} → ${describeDoseRule(adjusted)}` : null,
+    adjusted.frequency !== rule.frequency ? `${rule.frequency.toLowerCase()} → ${adjusted.frequency.toLowerCase()}` : null,
+  ].filter(Boolean);
+  const explanation = [
+    `eGFR ${egfr} is below ${adjustment.belowEgfr} mL/min/1.73 m²`,
+    adjustment.avoid ? 'avoid this drug' : changes.length > 0 ? changes.join('; ') : null,
+    adjustment.note,
+  ].filter(Boolean).join('. ');
+
+  return { rule: adjusted, renal: { egfr, adjustment, originalRule: rule, avoid: adjustment.avoid ?? false, explanation } };
+}
+
+/**
+ * Convert between mass units; null when either unit is not a mass (units, mmol)
+ */
+export function convertDoseUnit(value: number, from: DoseUnit, to: DoseUnit): number | null {
+  const fromFactor = MASS_UNITS_IN_MG[from];
+  const toFactor = MASS_UNITS_IN_MG[to];
+  if (from === to) return value;
+  if (fromFactor === undefined || toFactor === undefined) return null;
+  return (value * fromFactor) / toFactor;
+}
+
+/**
+ * Compute per-dose and per-day amounts for a patient, applying every cap on the rule.
+ * When the patient's eGFR is given the rule is first adjusted for renal function.
+ */
+export function calculateDose(drug: string, doseRule: DoseRule, patient: PatientMeasurements, renalAdjustments: RenalAdjustment[] = []): DoseCalculation {
+  const { weightKg } = patient;
+  if (!Number.isFinite(weightKg) || weightKg <= 0) {
+    throw new DosingError('Weight must be a positive number of kilograms');
+  }
+
+  const { rule, renal } = patient.egfr !== undefined
+    ? applyRenalAdjustment(doseRule, renalAdjustments, patient.egfr)
+    : { rule: doseRule, renal: undefined };
+
+  let bsaM2: number | undefined;
+  if (rule.scale === 'm2') {
+    bsaM2 = patient.bsaM2 ?? (patient.heightCm && patient.heightCm > 0 ? bodySurfaceArea(weightKg, patient.heightCm) : undefined);
+    if (!bsaM2 || !Number.isFinite(bsaM2)) {
+      throw new DosingError(`${drug} is dosed per m²; height or body surface area is required`);
+    }
+  }
+
+  const factor = rule.scale === 'kg' ? weightKg : rule.scale === 'm2' ? bsaM2! : 1;
+  const base = { min: rule.amount.min * factor, max: rule.amount.max * factor };
+  const capsApplied: DoseCap[] = [];
+  const unit = rule.unit;
+
+  const dayLimits = [
+    rule.maxPerDay !== undefined ? { value: rule.maxPerDay, source: 'absolute maximum' } : null,
+    rule.maxPerKgPerDay !== undefined ? { value: rule.maxPerKgPerDay * weightKg, source: `${rule.maxPerKgPerDay} ${unit}/kg/day` } : null,
+  ].filter((limit): limit is { value: number; source: string } => limit !== null);
+  const dayLimit = dayLimits.sort((a, b) => a.value - b.value)[0];
+  const doseLimit = rule.maxPerDose !== undefined ? { value: rule.maxPerDose, source: 'absolute maximum' } : undefined;
+
+  const applyCap = (range: DoseRange, limit: 'perDose' | 'perDay', cap?: { value: number; source: string }): CappedDoseRange => {
+    if (!cap || range.max <= cap.value) {
+      return { ...roundRange(range), capped: false };
+    }
+    const interval = limit === 'perDose' ? 'dose' : 'day';
+    capsApplied.push({
+      limit,
+      value: cap.value,
+      source: cap.source,
+      calculated: roundDose(range.max),
+      message: limit === 'perDose'
+        ? `Capped at ${formatAmount(cap.value, unit)} per ${interval} (${cap.source}); weight-based dose was up to ${formatAmount(range.max, unit)}`
+        : `Daily total limited to ${formatAmount(cap.value, unit)} (${cap.source}); weight-based total was up to ${formatAmount(range.max, unit)}, so give fewer or smaller doses`,
+    });
+    return { ...roundRange({ min: Math.min(range.min, cap.value), max: cap.value }), capped: true };
+  };
+
+  let perDose: CappedDoseRange | undefined;
+  let perDay: CappedDoseRange | undefined;
+  const frequency = rule.dosesPerDay;
+
+  if (rule.per === 'dose') {
+    perDose = applyCap(base, 'perDose', doseLimit);
+    if (frequency) {
+      perDay = applyCap({ min: perDose.min * frequency.min, max: perDose.max * frequency.max }, 'perDay', dayLimit);
+    }
+  } else {
+    perDay = applyCap(base, 'perDay', dayLimit);
+    if (frequency) {
+      // A capped daily total is divided again so the per-dose amount reflects the cap
+      perDose = applyCap({ min: perDay.min / frequency.max, max: perDay.max / frequency.min }, 'perDose', doseLimit);
+    }
+  }
+
+  return { drug, rule, unit, weightKg, bsaM2: bsaM2 && roundDose(bsaM2), perDose, perDay, capsApplied, renal };
+}
+
+/**
+ * Convert a calculated per-dose amount into a measurable volume of a formulation.
+ * Null when there is no per-dose amount or the formulation strength is in an incompatible unit.
+ */
+export function calculateVolume(calculation: DoseCalculation, formulation: Formulation): VolumeDose | null {
+  const perDose = calculation.perDose;
+  const strength = convertDoseUnit(formulation.amount, formulation.unit, calculation.unit);
+  if (!perDose || strength === null) {
+    return null;
+  }
+
+  const concentration = strength / formulation.volumeMl;
+  const exact = { min: perDose.min / concentration, max: perDose.max / concentration };
+  const incrementMl = formulation.incrementMl ?? MEASURABLE_INCREMENTS_ML.find(([limit]) => exact.max <= limit)![1];
+
+  // Round inwards so the volumes stay inside the dose range
+  let volume = { min: roundToStep(exact.min, incrementMl, 'up'), max: roundToStep(exact.max, incrementMl, 'down') };
+  if (volume.min > volume.max) {
+    // Range narrower than one step: take the step below so the volume never exceeds the maximum
+    volume = { min: volume.max, max: volume.max };
+  }
+
+  let warning: string | undefined;
+  if (volume.max <= 0) {
+    volume = { min: roundDose(exact.min), max: roundDose(exact.max) };
+    warning = `Dose is below the smallest measurable volume (${incrementMl} mL); use a more dilute formulation`;
+  }
+
+  const delivered = { min: volume.min * concentration, max: volume.max * concentration };
+  if (!warning && (delivered.min < perDose.min * (1 - VOLUME_ROUNDING_TOLERANCE) || delivered.max > perDose.max * (1 + VOLUME_ROUNDING_TOLERANCE))) {
+    warning = `Nearest measurable volume is more than ${VOLUME_ROUNDING_TOLERANCE * 100}% away from the calculated dose; use a more dilute formulation or a finer syringe`;
+  }
+
+  return {
+    formulation,
+    concentration: roundDose(concentration),
+    perDoseMl: volume,
+    incrementMl,
+    deliveredPerDose: roundRange(delivered),
+    warning,
+  };
+}
+
+/**
+ * Render a rule's amount, e.g. "10-15 mg/kg/dose" or "5 mg/m²/dose"
+ */
+export function describeDoseRule(rule: DoseRule): string {
+  const scale = rule.scale === 'kg' ? '/kg' : rule.scale === 'm2' ? '/m²' : '';
+  return `${formatRange(rule.amount)} ${rule.unit}${scale}/${rule.per}`;
+}
+
+/**
+ * Render a rule's caps, e.g. "75 mg/kg/day, max 4000 mg/day"
+ */
+export function describeDoseLimits(rule: DoseRule): string {
+  const limits = [
+    rule.maxPerKgPerDay !== undefined ? `${rule.maxPerKgPerDay} ${rule.unit}/kg/day` : null,
+    rule.maxPerDose !== undefined ? `max ${rule.maxPerDose} ${rule.unit}/dose` : null,
+    rule.maxPerDay !== undefined ? `max ${rule.maxPerDay} ${rule.unit}/day` : null,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(', ') : 'No maximum specified';
+}
+
+/**
+ * Render a calculated range, e.g. "200-300 mg" or "6.3-9.4 mL"
+ */
+export function formatDoseRange(range: DoseRange, unit: DoseUnit | 'mL'): string {
+  return `${formatRange(range)} ${unit}`;
+}
+
+/**
+ * Parse free-text dosing such as "10-15 mg/kg/day", "50 mcg/kg", "75 units/kg" or "5 mg/m2/dose".
+ * A null `per` means the text did not say whether the amount is per dose or per day.
+ */
+export function parseDoseAmount(text: string): { amount: DoseRange; unit: DoseUnit; scale: DoseScale; per: DoseInterval | null } | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(?:(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(mcg|µg|mg|g|units?|u|mmol)\b\s*(?:\/\s*(kg|m2|m²))?(?:\s*\/\s*(dose|day|d|24\s*h))?/i);
+  if (!match) {
+    return null;
+  }
+
+  const min = parseFloat(match[1]);
+  return {
+    amount: { min, max: match[2] ? parseFloat(match[2]) : min },
+    unit: normalizeUnit(match[3]),
+    scale: match[4] ? (match[4].toLowerCase() === 'kg' ? 'kg' : 'm2') : 'fixed',
+    per: match[5] ? (/dose/i.test(match[5]) ? 'dose' : 'day') : null,
+  };
+}
+
+/**
+ * Parse free-text maximums such as "75 mg/kg/day, max 4000 mg/day" or "2.5 mg per dose"
+ */
+export function parseDoseLimits(text: string): Array<{ value: number; unit: DoseUnit; perKg: boolean; per: DoseInterval | null }> {
+  const pattern = /(\d+(?:\.\d+)?)\s*(mcg|µg|mg|g|units?|u|mmol)\b\s*(\/\s*kg)?(?:\s*(?:\/|per)\s*(dose|day|d|24\s*h))?/gi;
+  return Array.from(text.matchAll(pattern)).map(match => ({
+    value: parseFloat(match[1]),
+    unit: normalizeUnit(match[2]),
+    perKg: !!match[3],
+    per: match[4] ? (/dose/i.test(match[4]) ? 'dose' : 'day') : null,
+  }));
+}
+
+/**
+ * Doses per day implied by a frequency such as "every 4-6 hours", "BID" or "3 times daily"
+ */
+export function parseDosesPerDay(frequency: string): DoseRange | null {
+  const text = frequency.toLowerCase();
+  const interval = text.match(/(?:q|every)\s*(\d+(?:\.\d+)?)\s*(?:(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(?:h|hr|hrs|hours?)\b/);
+  if (interval) {
+    const shortest = parseFloat(interval[1]);
+    const longest = interval[2] ? parseFloat(interval[2]) : shortest;
+    return { min: 24 / longest, max: 24 / shortest };
+  }
+  const times = text.match(/(\d+)\s*(?:x|times)\s*(?:a|per)?\s*(?:day|daily)/);
+  if (times) {
+    const count = parseInt(times[1], 10);
+    return { min: count, max: count };
+  }
+  const named: Array<[RegExp, number]> = [
+    [/\b(qid|four times)\b/, 4],
+    [/\b(tid|tds|three times)\b/, 3],
+    [/\b(bid|bd|twice)\b/, 2],
+    [/\b(once|daily|qd|od|single|stat|nightly)\b/, 1],
+  ];
+  const count = named.find(([pattern]) => pattern.test(text))?.[1];
+  return count ? { min: count, max: count } : null;
+}
+
+/**
+ * Build a dose rule from a free-text dosage record (e.g. a drug_dosages row); null when the dosage is not parsable
+ */
+export function parseDoseRule(record: { dosage: string; frequency?: string | null; max_dosage?: string | null; indication?: string | null; route?: string | null }): DoseRule | null {
+  const parsed = parseDoseAmount(record.dosage);
+  if (!parsed) {
+    return null;
+  }
+
+  const dosesPerDay = record.frequency ? parseDosesPerDay(record.frequency) ?? undefined : undefined;
+  const rule: DoseRule = {
+    indication: record.indication ?? undefined,
+    route: record.route ?? 'Not specified',
+    amount: parsed.amount,
+    unit: parsed.unit,
+    scale: parsed.scale,
+    // Unlabelled ranges are read as daily totals, as drugService always has
+    per: parsed.per ?? 'day',
+    frequency: record.frequency ?? 'Not specified',
+    dosesPerDay,
+  };
+
+  for (const limit of record.max_dosage ? parseDoseLimits(record.max_dosage) : []) {
+    const value = convertDoseUnit(limit.value, limit.unit, rule.unit);
+    if (value === null) continue;
+    if (limit.perKg) {
+      if ((limit.per ?? 'day') === 'day') rule.maxPerKgPerDay = value;
+    } else if ((limit.per ?? rule.per) === 'dose') {
+      rule.maxPerDose = value;
+    } else {
+      rule.maxPerDay = value;
+    }
+  }
+
+  return rule;
+}
+
+function normalizeUnit(unit: string): DoseUnit {
+  const normalized = unit.toLowerCase();
+  if (normalized === 'µg') return 'mcg';
+  if (normalized.startsWith('u')) return 'units';
+  return normalized as DoseUnit;
+}
+
+function roundDose(value: number): number {
+  // Two decimals for small doses, one decimal otherwise
+  const places = Math.abs(value) < 10 ? 100 : 10;
+  return Math.round(value * places) / places;
+}
+
+function roundToStep(value: number, step: number, mode: 'up' | 'down'): number {
+  // Tolerance keeps exact multiples (e.g. 0.3 / 0.1) from moving a whole step
+  const steps = value / step;
+  const count = mode === 'up' ? Math.ceil(steps - 1e-9) : Math.floor(steps + 1e-9);
+  return Math.round(count * step * 1000) / 1000;
+}
+
+function roundRange(range: DoseRange): DoseRange {
+  return { min: roundDose(range.min), max: roundDose(range.max) };
+}
+
+function formatRange(range: DoseRange): string {
+  return range.min === range.max ? `${roundDose(range.min)}` : `${roundDose(range.min)}-${roundDose(range.max)}`;
+}
+
+function formatAmount(value: number, unit: DoseUnit): string {
+  return `${roundDose(value)} ${unit}`;
+}
@@ -0,0 +1,239 @@
+// Allergy and Cross-Reactivity Checking Against Recommended Drugs and Vaccines
+import { canonicalDrugName } from './drug-catalog';
+
+export type AllergyRisk = 'direct' | 'cross-reactive';
+export type AllergySeverity = 'avoid' | 'caution';
+
+// Generic drug and vaccine names grouped by the allergen they carry
+export const ALLERGY_CLASSES: Record<string, string[]> = {
+  penicillins: ['penicillin', 'penicillin v', 'penicillin g', 'amoxicillin', 'amoxicillin-clavulanate', 'ampicillin', 'ampicillin-sulbactam', 'piperacillin-tazobactam', 'nafcillin', 'oxacillin', 'dicloxacillin'],
+  aminopenicillins: ['amoxicillin', 'amoxicillin-clavulanate', 'ampicillin', 'ampicillin-sulbactam'],
+  cephalosporins: ['cephalexin', 'cefadroxil', 'cefazolin', 'cefaclor', 'cefprozil', 'cefuroxime', 'cefdinir', 'cefpodoxime', 'cefixime', 'ceftriaxone', 'cefotaxime', 'ceftazidime', 'cefepime', 'ceftaroline'],
+  // Cephalosporins sharing the aminopenicillin R1 side chain
+  aminocephalosporins: ['cephalexin', 'cefadroxil', 'cefaclor', 'cefprozil'],
+  carbapenems: ['meropenem', 'imipenem', 'ertapenem'],
+  'sulfonamide-antibiotics': ['trimethoprim-sulfamethoxazole', 'sulfamethoxazole', 'sulfadiazine', 'sulfasalazine'],
+  'non-antibiotic-sulfonamides': ['furosemide', 'hydrochlorothiazide', 'acetazolamide'],
+  nsaids: ['ibuprofen', 'naproxen', 'ketorolac', 'indomethacin', 'diclofenac', 'aspirin'],
+  egg: [],
+  gelatin: [],
+  // Influenza and MMR vaccines are deliberately absent: current ACIP/AAP guidance gives them to
+  // egg-allergic children without extra precautions
+  'egg-containing-vaccines': ['yellow fever', 'rabies'],
+  'gelatin-containing-vaccines': ['mmr', 'mmrv', 'varicella', 'zoster', 'yellow fever', 'live attenuated influenza', 'rabies'],
+};
+
+// Free-text allergy descriptions mapped to an ALLERGY_CLASSES key
+export const ALLERGEN_ALIASES: Record<string, string> = {
+  pcn: 'penicillins',
+  penicillins: 'penicillins',
+  'beta-lactams': 'penicillins',
+  cephalosporin: 'cephalosporins',
+  carbapenem: 'carbapenems',
+  sulfa: 'sulfonamide-antibiotics',
+  'sulfa drugs': 'sulfonamide-antibiotics',
+  sulfonamide: 'sulfonamide-antibiotics',
+  sulfonamides: 'sulfonamide-antibiotics',
+  nsaid: 'nsaids',
+  'anti-inflammatories': 'nsaids',
+  eggs: 'egg',
+  'egg protein': 'egg',
+  'egg white': 'egg',
+  'hen egg': 'egg',
+  'porcine gelatin': 'gelatin',
+};
+
+export interface CrossReactivityRule {
+  // Each side is a generic name or an ALLERGY_CLASSES key
+  allergen: string;
+  drug: string;
+  risk: AllergyRisk;
+  severity: AllergySeverity;
+  message: string;
+}
+
+// Most specific rules first: the first match decides the warning for a drug/allergy pair
+export const CROSS_REACTIVITY_RULES: CrossReactivityRule[] = [
+  {
+    allergen: 'aminopenicillins',
+    drug: 'aminocephalosporins',
+    risk: 'cross-reactive',
+    severity: 'avoid',
+    message: 'Shares the aminopenicillin R1 side chain; cross-reactivity is substantially higher than for other cephalosporins',
+  },
+  {
+    allergen: 'aminocephalosporins',
+    drug: 'aminopenicillins',
+    risk: 'cross-reactive',
+    severity: 'avoid',
+    message: 'Shares the R1 side chain of the reported cephalosporin; cross-reactivity is substantially higher than for other penicillins',
+  },
+  {
+    allergen: 'penicillins',
+    drug: 'penicillins',
+    risk: 'direct',
+    severity: 'avoid',
+    message: 'Belongs to the penicillin class',
+  },
+  {
+    allergen: 'penicillins',
+    drug: 'cephalosporins',
+    risk: 'cross-reactive',
+    severity: 'caution',
+    message: 'About 1-2% cross-reactivity with penicillins; a cephalosporin with a dissimilar side chain may be given unless the reaction was severe (anaphylaxis, SJS/TEN, DRESS)',
+  },
+  {
+    allergen: 'penicillins',
+    drug: 'carbapenems',
+    risk: 'cross-reactive',
+    severity: 'caution',
+    message: 'Under 1% cross-reactivity with penicillins; may be given with monitoring unless the reaction was severe',
+  },
+  {
+    allergen: 'cephalosporins',
+    drug: 'cephalosporins',
+    risk: 'direct',
+    severity: 'avoid',
+    message: 'Belongs to the cephalosporin class',
+  },
+  {
+    allergen: 'cephalosporins',
+    drug: 'penicillins',
+    risk: 'cross-reactive',
+    severity: 'caution',
+    message: 'Low cross-reactivity with cephalosporins; avoid if the reaction was severe or an allergist has not evaluated it',
+  },
+  {
+    allergen: 'carbapenems',
+    drug: 'carbapenems',
+    risk: 'direct',
+    severity: 'avoid',
+    message: 'Belongs to the carbapenem class',
+  },
+  {
+    allergen: 'sulfonamide-antibiotics',
+    drug: 'sulfonamide-antibiotics',
+    risk: 'direct',
+    severity: 'avoid',
+    message: 'Sulfonamide antibiotic with the arylamine group responsible for sulfa allergy',
+  },
+  {
+    allergen: 'sulfonamide-antibiotics',
+    drug: 'non-antibiotic-sulfonamides',
+    risk: 'cross-reactive',
+    severity: 'caution',
+    message: 'Non-antibiotic sulfonamide; no evidence of true cross-reactivity, but observe after the first dose',
+  },
+  {
+    allergen: 'nsaids',
+    drug: 'nsaids',
+    risk: 'cross-reactive',
+    severity: 'avoid',
+    message: 'NSAID hypersensitivity is usually driven by COX-1 inhibition and recurs with other NSAIDs',
+  },
+  {
+    allergen: 'nsaids',
+    drug: 'acetaminophen',
+    risk: 'cross-reactive',
+    severity: 'caution',
+    message: 'Tolerated by most patients with NSAID hypersensitivity; reactions are rare and dose-related',
+  },
+  {
+    allergen: 'egg',
+    drug: 'egg-containing-vaccines',
+    risk: 'direct',
+    severity: 'avoid',
+    message: 'Vaccine contains egg protein; severe egg allergy requires allergist evaluation (skin testing or graded dosing) before vaccination',
+  },
+  {
+    allergen: 'gelatin',
+    drug: 'gelatin-containing-vaccines',
+    risk: 'direct',
+    severity: 'avoid',
+    message: 'Vaccine contains gelatin as a stabilizer; anaphylaxis to gelatin requires allergist evaluation before vaccination',
+  },
+];
+
+export interface AllergyWarning {
+  // Drug and allergy as entered
+  drug: string;
+  allergy: string;
+  // The generic name or ALLERGY_CLASSES key the allergy was matched on
+  allergen: string;
+  risk: AllergyRisk;
+  severity: AllergySeverity;
+  message: string;
+}
+
+export interface AllergyCheckResult {
+  // Drugs to avoid first
+  warnings: AllergyWarning[];
+  // Allergies that matched no drug or allergen class, so they were not checked
+  unrecognized: string[];
+}
+
+const KNOWN_DRUGS = new Set([
+  ...Object.values(ALLERGY_CLASSES).flat(),
+  ...CROSS_REACTIVITY_RULES.flatMap(rule => [rule.allergen, rule.drug]).filter(term => !(term in ALLERGY_CLASSES)),
+]);
+
+function matchesTerm(drug: string, term: string): boolean {
+  return drug === term || (ALLERGY_CLASSES[term]?.includes(drug) ?? false);
+}
+
+/**
+ * Normalize a free-text allergy ("Amoxicillin (hives)", "sulfa allergy") to the allergen terms it covers:
+ * a class key, or a generic name followed by every class that contains it. Empty when unrecognized.
+ */
+export function normalizeAllergen(entry: string): string[] {
+  const text = entry
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\b(allergy|allergies|allergic to|intolerance)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const allergenClass = ALLERGEN_ALIASES[text] ?? (text in ALLERGY_CLASSES ? text : undefined);
+  if (allergenClass) {
+    return [allergenClass];
+  }
+
+  const drug = canonicalDrugName(text);
+  if (!KNOWN_DRUGS.has(drug)) {
+    return [];
+  }
+  return [drug, ...Object.keys(ALLERGY_CLASSES).filter(key => ALLERGY_CLASSES[key].includes(drug))];
+}
+
+/**
+ * Check every drug against every reported allergy for direct and cross-reactive risk
+ */
+export function checkAllergies(drugs: string[], allergies: string[]): AllergyCheckResult {
+  const allergens = Array.from(new Set(allergies.map(allergy => allergy.trim()).filter(Boolean)))
+    .map(allergy => ({ allergy, terms: normalizeAllergen(allergy) }));
+  const warnings: AllergyWarning[] = [];
+
+  for (const entry of Array.from(new Set(drugs.map(drug => drug.trim()).filter(Boolean)))) {
+    const drug = canonicalDrugName(entry);
+
+    for (const { allergy, terms } of allergens) {
+      if (terms[0] === drug) {
+        warnings.push({ drug: entry, allergy, allergen: drug, risk: 'direct', severity: 'avoid', message: 'This drug was reported as an allergy' });
+        continue;
+      }
+
+      const rule = CROSS_REACTIVITY_RULES.find(candidate => terms.includes(candidate.allergen) && matchesTerm(drug, candidate.drug));
+      if (rule) {
+        const { allergen, risk, severity, message } = rule;
+        warnings.push({ drug: entry, allergy, allergen, risk, severity, message });
+      }
+    }
+  }
+
+  warnings.sort((x, y) => Number(x.severity === 'caution') - Number(y.severity === 'caution'));
+
+  return {
+    warnings,
+    unrecognized: allergens.filter(({ terms }) => terms.length === 0).map(({ allergy }) => allergy),
+  };
+}
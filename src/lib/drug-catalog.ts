@@ -0,0 +1,346 @@
+// Shared Pediatric Drug Catalog (dose rules and formulations used by the calculator and dosing fallbacks)
+import { DoseCalculation, DrugMonograph, PatientMeasurements, VolumeDose, calculateDose, calculateVolume } from './dosing';
+
+export const DRUG_CATALOG: DrugMonograph[] = [
+  {
+    name: 'Acetaminophen',
+    rules: [{
+      indication: 'fever and pain',
+      route: 'PO',
+      amount: { min: 10, max: 15 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'dose',
+      frequency: 'Every 4-6 hours',
+      dosesPerDay: { min: 4, max: 6 },
+      maxPerKgPerDay: 75,
+      maxPerDay: 4000,
+    }],
+    formulations: [
+      { label: 'Suspension 160 mg/5 mL', form: 'suspension', amount: 160, unit: 'mg', volumeMl: 5 },
+    ],
+    notes: 'For fever and pain. Monitor liver function in prolonged use.',
+  },
+  {
+    name: 'Ibuprofen',
+    rules: [{
+      indication: 'fever and pain',
+      route: 'PO',
+      amount: { min: 5, max: 10 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'dose',
+      frequency: 'Every 6-8 hours',
+      dosesPerDay: { min: 3, max: 4 },
+      maxPerKgPerDay: 40,
+      maxPerDay: 2400,
+    }],
+    formulations: [
+      { label: 'Suspension 100 mg/5 mL', form: 'suspension', amount: 100, unit: 'mg', volumeMl: 5 },
+      { label: 'Infant drops 50 mg/1.25 mL', form: 'drops', amount: 50, unit: 'mg', volumeMl: 1.25, incrementMl: 0.625 },
+    ],
+    renalAdjustments: [
+      { belowEgfr: 30, avoid: true, note: 'NSAIDs reduce renal perfusion; use acetaminophen instead' },
+    ],
+    notes: 'For fever and pain. Avoid in dehydration. Use with food.',
+  },
+  {
+    name: 'Amoxicillin',
+    rules: [{
+      indication: 'bacterial infections',
+      route: 'PO',
+      amount: { min: 25, max: 45 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'day',
+      frequency: 'Every 12 hours',
+      dosesPerDay: { min: 2, max: 2 },
+      maxPerKgPerDay: 90,
+    }],
+    formulations: [
+      { label: 'Suspension 125 mg/5 mL', form: 'suspension', amount: 125, unit: 'mg', volumeMl: 5 },
+      { label: 'Suspension 250 mg/5 mL', form: 'suspension', amount: 250, unit: 'mg', volumeMl: 5 },
+      { label: 'Suspension 400 mg/5 mL', form: 'suspension', amount: 400, unit: 'mg', volumeMl: 5 },
+    ],
+    renalAdjustments: [
+      { belowEgfr: 30, amount: { min: 8, max: 20 }, per: 'dose', dosesPerDay: { min: 2, max: 2 }, frequency: 'Every 12 hours', note: 'Do not use 875 mg tablets' },
+      { belowEgfr: 10, amount: { min: 8, max: 20 }, per: 'dose', dosesPerDay: { min: 1, max: 1 }, frequency: 'Every 24 hours', note: 'Do not use 875 mg tablets' },
+    ],
+    notes: 'For bacterial infections. Complete full course of treatment.',
+  },
+  {
+    name: 'Cefazolin',
+    rules: [{
+      indication: 'bacterial infections',
+      route: 'IV',
+      amount: { min: 25, max: 100 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'day',
+      frequency: 'Every 8 hours',
+      dosesPerDay: { min: 3, max: 3 },
+      maxPerDay: 6000,
+    }],
+    formulations: [
+      { label: 'Injection 100 mg/mL (reconstituted)', form: 'injection', amount: 100, unit: 'mg', volumeMl: 1 },
+    ],
+    renalAdjustments: [
+      { belowEgfr: 30, dosesPerDay: { min: 2, max: 2 }, frequency: 'Every 12 hours', note: 'Usual dose at a longer interval' },
+      { belowEgfr: 10, dosesPerDay: { min: 1, max: 1 }, frequency: 'Every 24 hours', note: 'Usual dose at a longer interval' },
+    ],
+    notes: 'For skin, bone and joint infections and surgical prophylaxis.',
+  },
+  {
+    name: 'Gentamicin',
+    rules: [{
+      indication: 'serious gram-negative infections',
+      route: 'IV',
+      amount: { min: 2.5, max: 2.5 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'dose',
+      frequency: 'Every 8 hours',
+      dosesPerDay: { min: 3, max: 3 },
+    }],
+    formulations: [
+      { label: 'Injection 10 mg/mL', form: 'injection', amount: 10, unit: 'mg', volumeMl: 1 },
+      { label: 'Injection 40 mg/mL', form: 'injection', amount: 40, unit: 'mg', volumeMl: 1 },
+    ],
+    renalAdjustments: [
+      { belowEgfr: 50, dosesPerDay: { min: 2, max: 2 }, frequency: 'Every 12 hours', note: 'Check a trough level before the third dose' },
+      { belowEgfr: 30, dosesPerDay: { min: 1, max: 1 }, frequency: 'Every 24 hours', note: 'Check a trough level before the second dose' },
+      { belowEgfr: 10, dosesPerDay: { min: 0.5, max: 0.5 }, frequency: 'Every 48 hours', note: 'Redose only when the serum level is below 1 mcg/mL' },
+    ],
+    notes: 'Nephrotoxic and ototoxic. Monitor serum levels, creatinine and urine output.',
+  },
+  {
+    name: 'Acyclovir',
+    rules: [{
+      indication: 'herpes simplex encephalitis',
+      route: 'IV',
+      amount: { min: 10, max: 20 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'dose',
+      frequency: 'Every 8 hours',
+      dosesPerDay: { min: 3, max: 3 },
+    }],
+    formulations: [
+      { label: 'Injection 50 mg/mL', form: 'injection', amount: 50, unit: 'mg', volumeMl: 1 },
+    ],
+    renalAdjustments: [
+      { belowEgfr: 50, dosesPerDay: { min: 2, max: 2 }, frequency: 'Every 12 hours', note: 'Keep well hydrated to prevent crystal nephropathy' },
+      { belowEgfr: 25, dosesPerDay: { min: 1, max: 1 }, frequency: 'Every 24 hours', note: 'Keep well hydrated to prevent crystal nephropathy' },
+      { belowEgfr: 10, doseFactor: 0.5, dosesPerDay: { min: 1, max: 1 }, frequency: 'Every 24 hours', note: 'Give 50% of the usual dose' },
+    ],
+    notes: 'Infuse over 1 hour with adequate hydration. Monitor creatinine during treatment.',
+  },
+  {
+    name: 'Trimethoprim-Sulfamethoxazole',
+    rules: [{
+      indication: 'urinary tract infection',
+      route: 'PO',
+      // Dosed as the trimethoprim component
+      amount: { min: 8, max: 12 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'day',
+      frequency: 'Every 12 hours',
+      dosesPerDay: { min: 2, max: 2 },
+      maxPerDay: 320,
+    }],
+    formulations: [
+      { label: 'Suspension 40 mg TMP/200 mg SMX per 5 mL', form: 'suspension', amount: 40, unit: 'mg', volumeMl: 5 },
+    ],
+    renalAdjustments: [
+      { belowEgfr: 30, doseFactor: 0.5, note: 'Give 50% of the usual dose' },
+      { belowEgfr: 15, avoid: true, note: 'Risk of hyperkalemia and accumulation; choose another antibiotic' },
+    ],
+    notes: 'Doses refer to the trimethoprim component. Avoid under 2 months of age.',
+  },
+  {
+    name: 'Albuterol',
+    rules: [{
+      indication: 'asthma and wheezing',
+      route: 'Nebulized',
+      amount: { min: 0.1, max: 0.3 },
+      unit: 'mg',
+      scale: 'kg',
+      per: 'dose',
+      frequency: 'Every 4-6 hours as needed',
+      dosesPerDay: { min: 4, max: 6 },
+      maxPerDose: 2.5,
+    }],
+    formulations: [
+      { label: 'Nebulizer solution 2.5 mg/3 mL', form: 'nebulizer', amount: 2.5, unit: 'mg', volumeMl: 3 },
+    ],
+    notes: 'For asthma and wheezing. Monitor heart rate.',
+  },
+  {
+    name: 'Fentanyl',
+    rules: [{
+      indication: 'acute pain',
+      route: 'Intranasal',
+      amount: { min: 1.5, max: 1.5 },
+      unit: 'mcg',
+      scale: 'kg',
+      per: 'dose',
+      frequency: 'Single dose; may repeat once after 10 minutes',
+      maxPerDose: 100,
+    }],
+    formulations: [
+      { label: 'Injection 50 mcg/mL (intranasal use)', form: 'injection', amount: 50, unit: 'mcg', volumeMl: 1 },
+    ],
+    notes: 'For moderate to severe acute pain. Monitor respiratory rate and sedation.',
+  },
+  {
+    name: 'Heparin',
+    rules: [{
+      indication: 'thrombosis (loading dose)',
+      route: 'IV',
+      amount: { min: 75, max: 75 },
+      unit: 'units',
+      scale: 'kg',
+      per: 'dose',
+      frequency: 'Once over 10 minutes, then infusion',
+    }],
+    formulations: [
+      { label: 'Injection 1000 units/mL', form: 'injection', amount: 1000, unit: 'units', volumeMl: 1 },
+    ],
+    notes: 'Loading dose only. Follow with a weight-based infusion titrated to anti-Xa or aPTT.',
+  },
+  {
+    name: 'Ondansetron',
+    rules: [{
+      indication: 'chemotherapy-induced nausea',
+      route: 'IV',
+      amount: { min: 5, max: 5 },
+      unit: 'mg',
+      scale: 'm2',
+      per: 'dose',
+      frequency: 'Every 8 hours',
+      dosesPerDay: { min: 3, max: 3 },
+      maxPerDose: 8,
+    }],
+    formulations: [
+      { label: 'Injection 2 mg/mL', form: 'injection', amount: 2, unit: 'mg', volumeMl: 1 },
+      { label: 'Oral solution 4 mg/5 mL', form: 'solution', amount: 4, unit: 'mg', volumeMl: 5 },
+    ],
+    notes: 'For chemotherapy-induced nausea and vomiting. Dosed by body surface area; check QTc with other QT-prolonging drugs.',
+  },
+];
+
+// Brand names and international synonyms mapped to the generic names used across the app
+export const DRUG_ALIASES: Record<string, string> = {
+  paracetamol: 'acetaminophen',
+  tylenol: 'acetaminophen',
+  calpol: 'acetaminophen',
+  advil: 'ibuprofen',
+  motrin: 'ibuprofen',
+  nurofen: 'ibuprofen',
+  salbutamol: 'albuterol',
+  ventolin: 'albuterol',
+  proair: 'albuterol',
+  zofran: 'ondansetron',
+  versed: 'midazolam',
+  augmentin: 'amoxicillin-clavulanate',
+  'co-amoxiclav': 'amoxicillin-clavulanate',
+  bactrim: 'trimethoprim-sulfamethoxazole',
+  septra: 'trimethoprim-sulfamethoxazole',
+  'co-trimoxazole': 'trimethoprim-sulfamethoxazole',
+  'tmp-smx': 'trimethoprim-sulfamethoxazole',
+  'valproic acid': 'valproate',
+  'sodium valproate': 'valproate',
+  divalproex: 'valproate',
+  depakote: 'valproate',
+  tegretol: 'carbamazepine',
+  dilantin: 'phenytoin',
+  lamictal: 'lamotrigine',
+  prozac: 'fluoxetine',
+  zoloft: 'sertraline',
+  orapred: 'prednisolone',
+  decadron: 'dexamethasone',
+  iron: 'ferrous sulfate',
+  'fer-in-sol': 'ferrous sulfate',
+  rocephin: 'ceftriaxone',
+  keflex: 'cephalexin',
+  zithromax: 'azithromycin',
+  lasix: 'furosemide',
+  coumadin: 'warfarin',
+  rifampicin: 'rifampin',
+  amoxil: 'amoxicillin',
+  'pen vk': 'penicillin v',
+  unasyn: 'ampicillin-sulbactam',
+  zosyn: 'piperacillin-tazobactam',
+  omnicef: 'cefdinir',
+  aleve: 'naproxen',
+  toradol: 'ketorolac',
+  'acetylsalicylic acid': 'aspirin',
+  'measles-mumps-rubella': 'mmr',
+  proquad: 'mmrv',
+  varivax: 'varicella',
+  flumist: 'live attenuated influenza',
+  laiv: 'live attenuated influenza',
+  'yf-vax': 'yellow fever',
+  rabavert: 'rabies',
+};
+
+// Dosage-form words dropped when normalizing free-text medication entries
+const FORM_WORDS = new Set(['tablet', 'tablets', 'tab', 'capsule', 'capsules', 'suspension', 'syrup', 'solution', 'drops', 'oral', 'po', 'iv', 'im', 'inhaler', 'nebulizer', 'injection', 'liquid', 'chewable', 'vaccine']);
+
+/**
+ * Normalize a free-text medication entry ("Tylenol 160 mg/5 mL syrup") to a lowercase generic name ("acetaminophen")
+ */
+export function canonicalDrugName(entry: string): string {
+  const name = entry
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    // Drop strength, dose and frequency text
+    .split(/\s\d|^\d/)[0]
+    .split(/\s+/)
+    .filter(word => word && !FORM_WORDS.has(word))
+    .join(' ')
+    .trim();
+  return DRUG_ALIASES[name] ?? name;
+}
+
+/**
+ * Find a catalog drug by name (case-insensitive)
+ */
+export function findDrug(name: string): DrugMonograph | undefined {
+  const normalized = canonicalDrugName(name);
+  return DRUG_CATALOG.find(drug => drug.name.toLowerCase() === normalized);
+}
+
+/**
+ * Calculate a dose for a catalog drug; null when the drug is not in the catalog.
+ * The first rule is used unless an indication or route narrows the choice. A patient eGFR applies the drug's renal adjustments.
+ */
+export function calculateCatalogDose(
+  drugName: string,
+  patient: PatientMeasurements,
+  options: { indication?: string; route?: string } = {}
+): DoseCalculation | null {
+  const drug = findDrug(drugName);
+  if (!drug) {
+    return null;
+  }
+
+  const indication = options.indication?.toLowerCase();
+  const route = options.route?.toLowerCase();
+  const rule = drug.rules.find(candidate =>
+    (!indication || candidate.indication?.toLowerCase().includes(indication)) &&
+    (!route || candidate.route.toLowerCase() === route)
+  ) ?? drug.rules[0];
+
+  return calculateDose(drug.name, rule, patient, drug.renalAdjustments);
+}
+
+/**
+ * Measurable volumes of each catalog formulation of the calculated drug
+ */
+export function calculateFormulationVolumes(calculation: DoseCalculation): VolumeDose[] {
+  return (findDrug(calculation.drug)?.formulations ?? [])
+    .map(formulation => calculateVolume(calculation, formulation))
+    .filter((volume): volume is VolumeDose => volume !== null);
+}
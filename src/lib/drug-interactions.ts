@@ -0,0 +1,245 @@
+// Drug–Drug Interaction Checking Against a Local Interaction Table
+import { canonicalDrugName } from './drug-catalog';
+
+export const INTERACTION_SEVERITIES = ['contraindicated', 'major', 'moderate', 'minor'] as const;
+export type InteractionSeverity = typeof INTERACTION_SEVERITIES[number];
+
+// Generic names grouped by the property that drives an interaction
+export const INTERACTION_CLASSES: Record<string, string[]> = {
+  nsaids: ['ibuprofen', 'naproxen', 'ketorolac', 'indomethacin', 'aspirin'],
+  'qt-prolonging': ['ondansetron', 'azithromycin', 'clarithromycin', 'erythromycin', 'fluconazole', 'ciprofloxacin', 'levofloxacin', 'haloperidol', 'methadone'],
+  'macrolide-cyp3a4-inhibitors': ['clarithromycin', 'erythromycin'],
+  'azole-antifungals': ['fluconazole', 'itraconazole', 'ketoconazole', 'voriconazole'],
+  opioids: ['fentanyl', 'morphine', 'hydromorphone', 'oxycodone', 'codeine', 'methadone'],
+  benzodiazepines: ['midazolam', 'lorazepam', 'diazepam', 'clonazepam'],
+  ssris: ['fluoxetine', 'sertraline', 'citalopram', 'escitalopram', 'paroxetine', 'fluvoxamine'],
+  carbapenems: ['meropenem', 'imipenem', 'ertapenem'],
+  'chelating-antibiotics': ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'doxycycline', 'minocycline', 'tetracycline'],
+  'polyvalent-cations': ['ferrous sulfate', 'calcium carbonate', 'magnesium hydroxide', 'aluminum hydroxide', 'zinc sulfate', 'antacid'],
+  'enzyme-inducers': ['carbamazepine', 'phenytoin', 'phenobarbital', 'rifampin'],
+  'hormonal-contraceptives': ['ethinyl estradiol', 'levonorgestrel', 'norethindrone', 'oral contraceptive'],
+  'nonselective-beta-blockers': ['propranolol', 'nadolol'],
+  'beta2-agonists': ['albuterol', 'levalbuterol', 'salmeterol', 'formoterol', 'terbutaline'],
+  'systemic-corticosteroids': ['prednisone', 'prednisolone', 'dexamethasone', 'methylprednisolone', 'hydrocortisone'],
+  'iv-calcium': ['calcium gluconate', 'calcium chloride', "lactated ringer's"],
+  'warfarin-potentiators': ['trimethoprim-sulfamethoxazole', 'metronidazole', 'fluconazole'],
+};
+
+export interface InteractionRule {
+  // Each side is a generic name or an INTERACTION_CLASSES key
+  between: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  effect: string;
+  management: string;
+}
+
+export const DRUG_INTERACTIONS: InteractionRule[] = [
+  {
+    between: ['qt-prolonging', 'qt-prolonging'],
+    severity: 'major',
+    mechanism: 'Additive prolongation of cardiac repolarization',
+    effect: 'QT prolongation and risk of torsades de pointes',
+    management: 'Avoid the combination where possible; otherwise obtain a baseline ECG and correct potassium and magnesium',
+  },
+  {
+    between: ['opioids', 'benzodiazepines'],
+    severity: 'major',
+    mechanism: 'Additive central nervous system and respiratory depression',
+    effect: 'Profound sedation, respiratory depression, apnea',
+    management: 'Reduce doses of both, give with continuous pulse oximetry and have airway support and reversal agents ready',
+  },
+  {
+    between: ['valproate', 'carbapenems'],
+    severity: 'contraindicated',
+    mechanism: 'Carbapenems inhibit hydrolysis of valproate glucuronide, rapidly lowering valproate levels',
+    effect: 'Loss of seizure control within 24 hours; not overcome by higher valproate doses',
+    management: 'Use a non-carbapenem antibiotic or switch to an alternative antiseizure medication',
+  },
+  {
+    between: ['lamotrigine', 'valproate'],
+    severity: 'major',
+    mechanism: 'Valproate inhibits lamotrigine glucuronidation, roughly doubling its half-life',
+    effect: 'Lamotrigine toxicity and increased risk of serious rash including Stevens-Johnson syndrome',
+    management: 'Use the reduced lamotrigine titration schedule for patients on valproate',
+  },
+  {
+    between: ['macrolide-cyp3a4-inhibitors', 'carbamazepine'],
+    severity: 'major',
+    mechanism: 'CYP3A4 inhibition reduces carbamazepine clearance',
+    effect: 'Carbamazepine toxicity: ataxia, nystagmus, drowsiness',
+    management: 'Prefer azithromycin; otherwise monitor carbamazepine levels and reduce the dose',
+  },
+  {
+    between: ['macrolide-cyp3a4-inhibitors', 'midazolam'],
+    severity: 'major',
+    mechanism: 'CYP3A4 inhibition reduces midazolam clearance',
+    effect: 'Prolonged and deepened sedation',
+    management: 'Prefer azithromycin or reduce the midazolam dose and monitor',
+  },
+  {
+    between: ['azole-antifungals', 'midazolam'],
+    severity: 'major',
+    mechanism: 'CYP3A4 inhibition reduces midazolam clearance',
+    effect: 'Prolonged and deepened sedation',
+    management: 'Reduce the midazolam dose and monitor sedation and respiration',
+  },
+  {
+    between: ['linezolid', 'ssris'],
+    severity: 'major',
+    mechanism: 'Linezolid is a reversible monoamine oxidase inhibitor',
+    effect: 'Serotonin syndrome',
+    management: 'Avoid unless no alternative; monitor for agitation, hyperthermia, clonus',
+  },
+  {
+    between: ['methotrexate', 'nsaids'],
+    severity: 'major',
+    mechanism: 'NSAIDs reduce renal tubular secretion of methotrexate',
+    effect: 'Methotrexate toxicity: myelosuppression, mucositis, renal injury',
+    management: 'Avoid with high-dose methotrexate; with low-dose therapy monitor blood counts and renal function',
+  },
+  {
+    between: ['methotrexate', 'trimethoprim-sulfamethoxazole'],
+    severity: 'major',
+    mechanism: 'Additive antifolate effect and reduced methotrexate clearance',
+    effect: 'Severe bone marrow suppression',
+    management: 'Avoid outside of prophylactic dosing; monitor blood counts closely',
+  },
+  {
+    between: ['warfarin', 'warfarin-potentiators'],
+    severity: 'major',
+    mechanism: 'Inhibition of CYP2C9-mediated warfarin metabolism',
+    effect: 'Raised INR and bleeding',
+    management: 'Choose another antimicrobial or check INR within 3-5 days and adjust warfarin',
+  },
+  {
+    between: ['enzyme-inducers', 'hormonal-contraceptives'],
+    severity: 'major',
+    mechanism: 'Hepatic enzyme induction accelerates hormone metabolism',
+    effect: 'Contraceptive failure',
+    management: 'Advise a non-hormonal or long-acting reversible method',
+  },
+  {
+    between: ['ceftriaxone', 'iv-calcium'],
+    severity: 'major',
+    mechanism: 'Ceftriaxone-calcium salt precipitation',
+    effect: 'Fatal intravascular and pulmonary precipitates reported in neonates',
+    management: 'Contraindicated in neonates (28 days or younger); in older patients never mix and flush lines between infusions',
+  },
+  {
+    between: ['nonselective-beta-blockers', 'beta2-agonists'],
+    severity: 'major',
+    mechanism: 'Pharmacodynamic antagonism at beta-2 receptors',
+    effect: 'Reduced bronchodilator response; beta-blockade may provoke bronchospasm',
+    management: 'Avoid non-selective beta-blockers in patients with asthma',
+  },
+  {
+    between: ['chelating-antibiotics', 'polyvalent-cations'],
+    severity: 'moderate',
+    mechanism: 'Chelation in the gut reduces antibiotic absorption',
+    effect: 'Subtherapeutic antibiotic levels and treatment failure',
+    management: 'Give the antibiotic 2 hours before or 6 hours after the cation-containing product',
+  },
+  {
+    between: ['nsaids', 'systemic-corticosteroids'],
+    severity: 'moderate',
+    mechanism: 'Additive gastrointestinal mucosal injury',
+    effect: 'Gastrointestinal irritation and bleeding',
+    management: 'Limit the duration of combined use and consider gastroprotection',
+  },
+  {
+    between: ['nsaids', 'furosemide'],
+    severity: 'moderate',
+    mechanism: 'Prostaglandin inhibition reduces renal perfusion and natriuresis',
+    effect: 'Reduced diuretic effect and risk of acute kidney injury, especially when dehydrated',
+    management: 'Ensure hydration and monitor urine output and creatinine',
+  },
+  {
+    between: ['ibuprofen', 'aspirin'],
+    severity: 'minor',
+    mechanism: 'Ibuprofen competes with aspirin for the platelet COX-1 binding site',
+    effect: 'Reduced antiplatelet effect of low-dose aspirin',
+    management: 'Give aspirin at least 30 minutes before ibuprofen when antiplatelet effect matters (e.g. Kawasaki disease)',
+  },
+];
+
+export interface DrugInteraction {
+  // Medications as entered
+  drugs: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  effect: string;
+  management: string;
+}
+
+export interface InteractionCheckResult {
+  // Most severe first
+  interactions: DrugInteraction[];
+  highestSeverity: InteractionSeverity | null;
+  // Entries not found in any interaction class or rule, so they were not checked
+  unrecognized: string[];
+}
+
+const KNOWN_DRUGS = new Set([
+  ...Object.values(INTERACTION_CLASSES).flat(),
+  ...DRUG_INTERACTIONS.flatMap(rule => rule.between).filter(term => !(term in INTERACTION_CLASSES)),
+]);
+
+function matchesTerm(drug: string, term: string): boolean {
+  return drug === term || (INTERACTION_CLASSES[term]?.includes(drug) ?? false);
+}
+
+/**
+ * Check every pair of medications against the interaction table
+ */
+export function checkInteractions(medications: string[]): InteractionCheckResult {
+  const entries = Array.from(new Set(medications.map(medication => medication.trim()).filter(Boolean)))
+    .map(entry => ({ entry, drug: canonicalDrugName(entry) }));
+  const interactions: DrugInteraction[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const [a, b] = [entries[i], entries[j]];
+      // The same drug entered twice is a duplication, not an interaction
+      if (a.drug === b.drug) continue;
+
+      const rule = DRUG_INTERACTIONS.find(({ between: [x, y] }) =>
+        (matchesTerm(a.drug, x) && matchesTerm(b.drug, y)) || (matchesTerm(a.drug, y) && matchesTerm(b.drug, x))
+      );
+      if (rule) {
+        const { severity, mechanism, effect, management } = rule;
+        interactions.push({ drugs: [a.entry, b.entry], severity, mechanism, effect, management });
+      }
+    }
+  }
+
+  interactions.sort((x, y) => INTERACTION_SEVERITIES.indexOf(x.severity) - INTERACTION_SEVERITIES.indexOf(y.severity));
+
+  return {
+    interactions,
+    highestSeverity: interactions[0]?.severity ?? null,
+    unrecognized: entries.filter(({ drug }) => !KNOWN_DRUGS.has(drug)).map(({ entry }) => entry),
+  };
+}
+
+/**
+ * Merge results from several checks, dropping repeated pairs
+ */
+export function mergeInteractionResults(results: InteractionCheckResult[]): InteractionCheckResult {
+  const seen = new Set<string>();
+  const interactions = results
+    .flatMap(result => result.interactions)
+    .filter(interaction => {
+      const key = interaction.drugs.map(canonicalDrugName).sort().join('|');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((x, y) => INTERACTION_SEVERITIES.indexOf(x.severity) - INTERACTION_SEVERITIES.indexOf(y.severity));
+
+  return {
+    interactions,
+    highestSeverity: interactions[0]?.severity ?? null,
+    unrecognized: Array.from(new Set(results.flatMap(result => result.unrecognized))),
+  };
+}
@@ -1,14 +1,18 @@
 import { HfInference } from '@huggingface/inference';
-
-// Initialize Hugging Face client
-const hf = new HfInference(process.env.HUGGINGFACE_API_KEY);
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { tokenize } from './lexical-search';
 
 // Embedding configuration
 export const EMBEDDING_CONFIG = {
   MODEL: 'sentence-transformers/all-MiniLM-L6-v2',
+  LOCAL_MODEL: 'Xenova/all-MiniLM-L6-v2',
   DIMENSION: 384,
   MAX_TOKENS: 512,
   BATCH_SIZE: 32,
+  CONCURRENCY: 4,
+  MAX_RETRIES: 3,
+  RETRY_BASE_DELAY_MS: 500,
+  MAX_TEXT_LENGTH: 8000,
 } as const;
 
 export interface EmbeddingResult {
@@ -17,13 +21,193 @@ export interface EmbeddingResult {
   processingTime: number;
 }
 
-export class EmbeddingService {
-  private model: string;
+export interface EmbeddingBatchOptions {
+  batchSize?: number;
+  concurrency?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  onProgress?: (progress: { completed: number; failed: number; total: number }) => void;
+}
+
+export interface EmbeddingBatchFailure {
+  index: number;
+  text: string;
+  error: string;
+  attempts: number;
+}
+
+export interface EmbeddingBatchResult {
+  // Aligned with the input texts; null where the item failed
+  embeddings: Array<EmbeddingResult | null>;
+  failed: EmbeddingBatchFailure[];
+  successful: number;
+  processingTime: number;
+}
+
+export type EmbeddingProviderName = 'local' | 'huggingface' | 'hashing';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingDimensionError extends Error {
+  constructor(expected: number, actual: number, source: string) {
+    super(`Embedding dimension mismatch from ${source}: expected ${expected}, got ${actual}`);
+    this.name = 'EmbeddingDimensionError';
+  }
+}
+
+export interface EmbeddingModelInfo {
+  provider: string;
+  model: string;
+}
+
+export class EmbeddingModelMismatchError extends Error {
+  constructor(stored: EmbeddingModelInfo, active: EmbeddingModelInfo) {
+    super(`Stored embeddings were created by ${stored.provider} model ${stored.model}, but the active provider is ${active.provider} model ${active.model}; re-embed the corpus or switch back`);
+    this.name = 'EmbeddingModelMismatchError';
+  }
+}
+
+/**
+ * Hosted all-MiniLM-L6-v2 through the Hugging Face Inference API
+ */
+export class HuggingFaceEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'huggingface' as const;
+  readonly dimension = EMBEDDING_CONFIG.DIMENSION;
   private hf: HfInference;
 
-  constructor(model = EMBEDDING_CONFIG.MODEL) {
-    this.model = model;
-    this.hf = hf;
+  constructor(readonly model: string = EMBEDDING_CONFIG.MODEL, apiKey = process.env.HUGGINGFACE_API_KEY) {
+    this.hf = new HfInference(apiKey);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const result = await this.hf.featureExtraction({
+      model: this.model,
+      inputs: texts.length === 1 ? texts[0] : texts,
+    });
+
+    // The API returns a flat vector for a single input and one row per input otherwise
+    if (!Array.isArray(result)) {
+      return texts.map(() => []);
+    }
+    if (texts.length === 1) {
+      return [Array.isArray(result[0]) ? (result as number[][]).flat() : (result as number[])];
+    }
+    return result as number[][];
+  }
+}
+
+/**
+ * In-process all-MiniLM-L6-v2 via transformers.js (ONNX runtime), no network after the first model download
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly dimension = EMBEDDING_CONFIG.DIMENSION;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(readonly model: string = EMBEDDING_CONFIG.LOCAL_MODEL) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.loadExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  private loadExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      // Loaded lazily so the ONNX runtime is only pulled in when this provider is used
+      this.extractor = import('@huggingface/transformers')
+        .then(({ pipeline }) => pipeline('feature-extraction', this.model, { dtype: 'fp32' }))
+        .catch(error => {
+          // Allow a later call to retry the model load
+          this.extractor = null;
+          throw error;
+        });
+    }
+    return this.extractor;
+  }
+}
+
+/**
+ * Deterministic bag-of-words feature hashing. Needs no model or network, so it backs
+ * offline evaluation fixtures and tests; it is not a substitute for a semantic model.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing' as const;
+  readonly model = 'feature-hashing';
+
+  constructor(readonly dimension: number = EMBEDDING_CONFIG.DIMENSION) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(this.dimension).fill(0);
+      for (const token of tokenize(text)) {
+        const hash = this.hash(token);
+        // The top bit picks the sign so colliding tokens tend to cancel rather than pile up
+        vector[hash % this.dimension] += hash & 0x80000000 ? -1 : 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+
+  // 32-bit FNV-1a
+  private hash(token: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Create the configured embedding provider (EMBEDDING_PROVIDER=local|huggingface|hashing)
+ */
+export function createEmbeddingProvider(name?: EmbeddingProviderName): EmbeddingProvider {
+  const providerName = (name || process.env.EMBEDDING_PROVIDER || 'local') as EmbeddingProviderName;
+
+  switch (providerName) {
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'huggingface':
+      return new HuggingFaceEmbeddingProvider();
+    case 'hashing':
+      return new HashingEmbeddingProvider();
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`);
+  }
+}
+
+export class EmbeddingService {
+  private provider: EmbeddingProvider;
+  private dimension: number;
+
+  constructor(provider: EmbeddingProvider = createEmbeddingProvider(), dimension: number = EMBEDDING_CONFIG.DIMENSION) {
+    this.dimension = dimension;
+    this.assertDimension(provider.dimension, `provider ${provider.name}`);
+    this.provider = provider;
+  }
+
+  /**
+   * Provider and model that produced the current embeddings
+   */
+  getProviderInfo(): { name: EmbeddingProviderName; model: string; dimension: number } {
+    return { name: this.provider.name, model: this.provider.model, dimension: this.provider.dimension };
+  }
+
+  /**
+   * Switch embedding provider; refuses providers of a different dimension. The vector database
+   * separately refuses to search or write an index built by another provider or model.
+   */
+  setProvider(provider: EmbeddingProvider): void {
+    this.assertDimension(provider.dimension, `provider ${provider.name}`);
+    this.provider = provider;
   }
 
   /**
@@ -34,31 +218,14 @@ export class EmbeddingService {
       const startTime = Date.now();
 
       // Truncate text if too long
-      const truncatedText = text.length > 8000 ? text.substring(0, 8000) : text;
+      const truncatedText = this.truncate(text);
 
-      const result = await this.hf.featureExtraction({
-        model: this.model,
-        inputs: truncatedText,
-      });
+      const [embedding] = await this.provider.embed([truncatedText]);
+      this.assertDimension(embedding?.length || 0, `${this.provider.name} model ${this.provider.model}`);
 
       const endTime = Date.now();
       const processingTime = endTime - startTime;
 
-      // Handle different result types from HuggingFace API
-      let embedding: number[];
-      if (Array.isArray(result)) {
-        if (Array.isArray(result[0])) {
-          // If it's a 2D array, flatten it
-          embedding = result.flat();
-        } else {
-          // If it's already a 1D array
-          embedding = result;
-        }
-      } else {
-        // Fallback to empty array
-        embedding = [];
-      }
-
       return {
         embedding,
         tokenCount: this.estimateTokenCount(truncatedText),
@@ -71,25 +238,77 @@ export class EmbeddingService {
   }
 
   /**
-   * Generate embeddings for multiple texts (batch processing)
+   * Generate embeddings for multiple texts (batch processing).
+   * Texts are sent to the provider in batches with bounded concurrency; a failing batch is
+   * retried with backoff, then split into per-item requests so only the bad items fail.
    */
-  async generateEmbeddingsBatch(texts: string[]): Promise<EmbeddingResult[]> {
-    try {
-      const results: EmbeddingResult[] = [];
-      const batchSize = EMBEDDING_CONFIG.BATCH_SIZE;
-
-      for (let i = 0; i < texts.length; i += batchSize) {
-        const batch = texts.slice(i, i + batchSize);
-        const batchPromises = batch.map(text => this.generateEmbedding(text));
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
-      }
+  async generateEmbeddingsBatch(texts: string[], options: EmbeddingBatchOptions = {}): Promise<EmbeddingBatchResult> {
+    const startTime = Date.now();
+    const batchSize = options.batchSize || EMBEDDING_CONFIG.BATCH_SIZE;
+    const concurrency = Math.max(1, options.concurrency || EMBEDDING_CONFIG.CONCURRENCY);
+    const embeddings: Array<EmbeddingResult | null> = texts.map(() => null);
+    const failed: EmbeddingBatchFailure[] = [];
+    let completed = 0;
 
-      return results;
-    } catch (error) {
-      console.error('Error generating batch embeddings:', error);
-      throw new Error(`Failed to generate batch embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const batches: number[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      batches.push(Array.from({ length: Math.min(batchSize, texts.length - i) }, (_, offset) => i + offset));
     }
+
+    const processBatch = async (indices: number[]) => {
+      const inputs = indices.map(index => this.truncate(texts[index]));
+
+      try {
+        const { value: vectors, duration } = await this.withRetry(() => this.embedChecked(inputs), options);
+        vectors.forEach((embedding, i) => {
+          embeddings[indices[i]] = {
+            embedding,
+            tokenCount: this.estimateTokenCount(inputs[i]),
+            processingTime: Math.round(duration / vectors.length),
+          };
+        });
+        completed += indices.length;
+      } catch {
+        // Isolate the failing items instead of dropping the whole batch
+        for (const [i, index] of indices.entries()) {
+          let attempts = 0;
+          try {
+            const { value: [embedding], duration } = await this.withRetry(() => {
+              attempts++;
+              return this.embedChecked([inputs[i]]);
+            }, options);
+            embeddings[index] = { embedding, tokenCount: this.estimateTokenCount(inputs[i]), processingTime: duration };
+            completed++;
+          } catch (error) {
+            failed.push({
+              index,
+              text: texts[index],
+              error: error instanceof Error ? error.message : 'Unknown error',
+              attempts,
+            });
+          }
+        }
+      }
+
+      options.onProgress?.({ completed, failed: failed.length, total: texts.length });
+    };
+
+    // Fixed pool of workers pulling batches off a shared queue
+    let next = 0;
+    const workers = Array.from({ length: Math.min(concurrency, batches.length) }, async () => {
+      while (next < batches.length) {
+        await processBatch(batches[next++]);
+      }
+    });
+    await Promise.all(workers);
+
+    failed.sort((a, b) => a.index - b.index);
+    return {
+      embeddings,
+      failed,
+      successful: completed,
+      processingTime: Date.now() - startTime,
+    };
   }
 
   /**
@@ -145,6 +364,47 @@ export class EmbeddingService {
     }
   }
 
+  private async embedChecked(texts: string[]): Promise<number[][]> {
+    const vectors = await this.provider.embed(texts);
+    if (vectors.length !== texts.length) {
+      throw new Error(`Provider ${this.provider.name} returned ${vectors.length} embeddings for ${texts.length} inputs`);
+    }
+    vectors.forEach(vector => this.assertDimension(vector?.length || 0, `${this.provider.name} model ${this.provider.model}`));
+    return vectors;
+  }
+
+  /**
+   * Retry transient provider failures (rate limits, timeouts) with exponential backoff and jitter
+   */
+  private async withRetry<T>(operation: () => Promise<T>, options: EmbeddingBatchOptions): Promise<{ value: T; duration: number }> {
+    const maxRetries = options.maxRetries ?? EMBEDDING_CONFIG.MAX_RETRIES;
+    const baseDelay = options.retryBaseDelayMs ?? EMBEDDING_CONFIG.RETRY_BASE_DELAY_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      const startTime = Date.now();
+      try {
+        return { value: await operation(), duration: Date.now() - startTime };
+      } catch (error) {
+        // Dimension mismatches are configuration errors; retrying cannot fix them
+        if (attempt >= maxRetries || error instanceof EmbeddingDimensionError) {
+          throw error;
+        }
+        const delay = baseDelay * 2 ** attempt * (0.5 + Math.random() / 2);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private truncate(text: string): string {
+    return text.length > EMBEDDING_CONFIG.MAX_TEXT_LENGTH ? text.substring(0, EMBEDDING_CONFIG.MAX_TEXT_LENGTH) : text;
+  }
+
+  private assertDimension(actual: number, source: string): void {
+    if (actual !== this.dimension) {
+      throw new EmbeddingDimensionError(this.dimension, actual, source);
+    }
+  }
+
   /**
    * Estimate token count (rough approximation)
    */
@@ -163,7 +423,7 @@ export class EmbeddingService {
 
       return {
         success: true,
-        message: `Embedding generated successfully. Dimension: ${result.embedding.length}, Tokens: ${result.tokenCount}`,
+        message: `Embedding generated successfully with ${this.provider.name} (${this.provider.model}). Dimension: ${result.embedding.length}, Tokens: ${result.tokenCount}`,
         embedding: result.embedding.slice(0, 10), // Return first 10 dimensions for testing
       };
     } catch (error) {
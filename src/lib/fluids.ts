@@ -0,0 +1,182 @@
+// Maintenance Fluids (Holliday-Segar) and Dehydration Deficit Replacement
+export type SodiumStatus = 'isonatremic' | 'hyponatremic' | 'hypernatremic';
+
+export const FLUID_CONFIG = {
+  // Adult maintenance ceiling
+  MAX_MAINTENANCE_ML_PER_DAY: 2400,
+  MAX_DEHYDRATION_PERCENT: 15,
+  // A deficit at or above this, or shock, gets a resuscitation bolus first
+  SEVERE_DEHYDRATION_PERCENT: 10,
+  BOLUS_ML_PER_KG: 20,
+  MAX_BOLUS_ML: 1000,
+  HYPONATREMIA_BELOW: 130,
+  HYPERNATREMIA_ABOVE: 150,
+  TARGET_SODIUM: 140,
+  HYPERTONIC_SALINE_ML_PER_KG: 2,
+  MAX_HYPERTONIC_SALINE_ML: 100,
+} as const;
+
+// Isotonic fluids throughout: hypotonic maintenance fluid causes hospital-acquired hyponatremia
+export const FLUID_COMPOSITION: Record<SodiumStatus, string> = {
+  isonatremic: 'D5 0.9% NaCl (or D5 balanced crystalloid) with 20 mEq/L KCl once voiding',
+  hyponatremic: 'D5 0.9% NaCl with 20 mEq/L KCl once voiding; never hypotonic fluid',
+  hypernatremic: 'D5 0.9% NaCl with 20 mEq/L KCl once voiding; change to D5 0.45% NaCl only if sodium has not started to fall after 6-8 hours',
+};
+
+const BOLUS_FLUID = '0.9% NaCl or balanced crystalloid';
+
+export interface FluidRequest {
+  weightKg: number;
+  // Estimated percent of body weight lost; omit for maintenance only
+  dehydrationPercent?: number;
+  // mEq/L; isonatremia is assumed when omitted
+  serumSodium?: number;
+  shock?: boolean;
+}
+
+export interface MaintenanceFluids {
+  mlPerDay: number;
+  mlPerHour: number;
+  capped: boolean;
+}
+
+export interface FluidPhase {
+  label: string;
+  startHour: number;
+  hours: number;
+  mlPerHour: number;
+  totalMl: number;
+  fluid: string;
+}
+
+export interface FluidPlan {
+  weightKg: number;
+  maintenance: MaintenanceFluids;
+  sodiumStatus: SodiumStatus;
+  deficit?: { percent: number; ml: number };
+  bolus?: { ml: number; fluid: string; instructions: string };
+  // Hyponatremia: sodium needed to raise serum sodium to the target, in mEq
+  sodiumDeficitMeq?: number;
+  // Hypernatremia: free water needed to lower serum sodium to the target, in mL
+  freeWaterDeficitMl?: number;
+  phases: FluidPhase[];
+  // Bolus plus everything infused in the first 24 hours
+  first24hMl: number;
+  warnings: string[];
+}
+
+export class FluidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FluidError';
+  }
+}
+
+/**
+ * Daily maintenance by Holliday-Segar: 100 mL/kg for the first 10 kg, 50 mL/kg for the next 10 kg, 20 mL/kg beyond
+ */
+export function maintenanceFluids(weightKg: number): MaintenanceFluids {
+  assertWeight(weightKg);
+  const mlPerDay = 100 * Math.min(weightKg, 10)
+    + 50 * Math.min(Math.max(weightKg - 10, 0), 10)
+    + 20 * Math.max(weightKg - 20, 0);
+  const capped = mlPerDay > FLUID_CONFIG.MAX_MAINTENANCE_ML_PER_DAY;
+  const total = Math.min(mlPerDay, FLUID_CONFIG.MAX_MAINTENANCE_ML_PER_DAY);
+  return { mlPerDay: Math.round(total), mlPerHour: roundRate(total / 24), capped };
+}
+
+/**
+ * Classify serum sodium
+ */
+export function classifySodium(serumSodium: number): SodiumStatus {
+  if (serumSodium < FLUID_CONFIG.HYPONATREMIA_BELOW) return 'hyponatremic';
+  if (serumSodium > FLUID_CONFIG.HYPERNATREMIA_ABOVE) return 'hypernatremic';
+  return 'isonatremic';
+}
+
+/**
+ * Maintenance plus deficit replacement. Iso- and hyponatremic deficits are replaced over 24 hours
+ * (half in the first 8); hypernatremic deficits evenly over 48 hours.
+ */
+export function calculateFluidPlan(request: FluidRequest): FluidPlan {
+  const { weightKg, dehydrationPercent = 0, serumSodium, shock = false } = request;
+  assertWeight(weightKg);
+  if (!Number.isFinite(dehydrationPercent) || dehydrationPercent < 0 || dehydrationPercent > FLUID_CONFIG.MAX_DEHYDRATION_PERCENT) {
+    throw new FluidError(`Dehydration must be between 0 and ${FLUID_CONFIG.MAX_DEHYDRATION_PERCENT}% of body weight`);
+  }
+  if (serumSodium !== undefined && (!Number.isFinite(serumSodium) || serumSodium < 100 || serumSodium > 200)) {
+    throw new FluidError('Serum sodium must be between 100 and 200 mEq/L');
+  }
+
+  const maintenance = maintenanceFluids(weightKg);
+  const sodiumStatus = serumSodium !== undefined ? classifySodium(serumSodium) : 'isonatremic';
+  const warnings: string[] = [];
+  if (maintenance.capped) {
+    warnings.push(`Maintenance capped at the adult volume of ${FLUID_CONFIG.MAX_MAINTENANCE_ML_PER_DAY} mL/day`);
+  }
+  if (serumSodium === undefined && dehydrationPercent > 0) {
+    warnings.push('Serum sodium not given; isonatremic dehydration assumed. Check electrolytes before continuing replacement.');
+  }
+
+  const plan: FluidPlan = { weightKg, maintenance, sodiumStatus, phases: [], first24hMl: 0, warnings };
+
+  let deficitMl = Math.round(weightKg * dehydrationPercent * 10);
+  if (dehydrationPercent > 0) {
+    plan.deficit = { percent: dehydrationPercent, ml: deficitMl };
+  }
+
+  if (shock || dehydrationPercent >= FLUID_CONFIG.SEVERE_DEHYDRATION_PERCENT) {
+    const ml = Math.round(Math.min(weightKg * FLUID_CONFIG.BOLUS_ML_PER_KG, FLUID_CONFIG.MAX_BOLUS_ML));
+    plan.bolus = {
+      ml,
+      fluid: BOLUS_FLUID,
+      instructions: `Give ${ml} mL (${FLUID_CONFIG.BOLUS_ML_PER_KG} mL/kg) over 5-20 minutes and reassess; repeat up to 60 mL/kg while perfusion improves`,
+    };
+    // The bolus counts towards the deficit
+    deficitMl = Math.max(deficitMl - ml, 0);
+  }
+
+  const hourly = maintenance.mlPerDay / 24;
+  const fluid = FLUID_COMPOSITION[sodiumStatus];
+  if (deficitMl === 0) {
+    plan.phases.push(phase('Maintenance', 0, 24, hourly, fluid));
+  } else if (sodiumStatus === 'hypernatremic') {
+    plan.phases.push(phase('Deficit and maintenance', 0, 48, hourly + deficitMl / 48, fluid));
+  } else {
+    plan.phases.push(phase('Half of deficit plus maintenance', 0, 8, hourly + deficitMl / 2 / 8, fluid));
+    plan.phases.push(phase('Remaining deficit plus maintenance', 8, 16, hourly + deficitMl / 2 / 16, fluid));
+  }
+
+  if (serumSodium !== undefined && sodiumStatus === 'hyponatremic') {
+    plan.sodiumDeficitMeq = Math.round((FLUID_CONFIG.TARGET_SODIUM - serumSodium) * 0.6 * weightKg);
+    warnings.push('Raise sodium by no more than 8-10 mEq/L in 24 hours; check sodium every 4-6 hours');
+    const hypertonicMl = Math.round(Math.min(weightKg * FLUID_CONFIG.HYPERTONIC_SALINE_ML_PER_KG, FLUID_CONFIG.MAX_HYPERTONIC_SALINE_ML));
+    warnings.push(`If seizing or obtunded: 3% NaCl ${hypertonicMl} mL (${FLUID_CONFIG.HYPERTONIC_SALINE_ML_PER_KG} mL/kg) over 10 minutes, repeat up to twice until symptoms stop`);
+  }
+  if (serumSodium !== undefined && sodiumStatus === 'hypernatremic') {
+    plan.freeWaterDeficitMl = Math.round(4 * weightKg * (serumSodium - FLUID_CONFIG.TARGET_SODIUM));
+    warnings.push('Lower sodium by no more than 10 mEq/L in 24 hours (0.5 mEq/L per hour); check sodium every 4 hours and slow the rate if it falls faster');
+  }
+  if (serumSodium !== undefined && (serumSodium < 125 || serumSodium > 160)) {
+    warnings.push('Severe dysnatremia: manage with intensive care input');
+  }
+
+  plan.first24hMl = Math.round((plan.bolus?.ml ?? 0) + plan.phases.reduce((total, { startHour, hours, totalMl }) =>
+    total + totalMl * Math.max(Math.min(startHour + hours, 24) - startHour, 0) / hours, 0));
+
+  return plan;
+}
+
+function phase(label: string, startHour: number, hours: number, mlPerHour: number, fluid: string): FluidPhase {
+  return { label, startHour, hours, mlPerHour: roundRate(mlPerHour), totalMl: Math.round(mlPerHour * hours), fluid };
+}
+
+function assertWeight(weightKg: number): void {
+  if (!Number.isFinite(weightKg) || weightKg <= 0) {
+    throw new FluidError('Weight must be a positive number of kilograms');
+  }
+}
+
+function roundRate(mlPerHour: number): number {
+  return Math.round(mlPerHour * 10) / 10;
+}
@@ -1,4 +1,5 @@
 // Gemini API Service for Enhanced Cognitive Capabilities
+import { OFFLINE_LLM_MODEL, isOfflineLLMMode, offlineLLMService } from './offline-llm';
 
 export interface GeminiMessage {
   role: 'user' | 'model';
@@ -48,11 +49,14 @@ export interface GeminiConfig {
   defaultModel: string;
   maxTokens: number;
   temperature: number;
+  // 'local' answers with the deterministic local stand-in instead of calling the API (LLM_MODE=local)
+  mode: 'remote' | 'local';
+  // Attempts per request, with linear backoff between them; 1 leaves failover to the caller
+  retryAttempts: number;
 }
 
 export class GeminiService {
   private config: GeminiConfig;
-  private retryAttempts: number = 3;
   private retryDelay: number = 1000;
 
   constructor(config?: Partial<GeminiConfig>) {
@@ -62,13 +66,29 @@ export class GeminiService {
       defaultModel: config?.defaultModel || process.env.GEMINI_MODEL || 'gemini-1.5-pro-002',
       maxTokens: config?.maxTokens || 4000,
       temperature: config?.temperature || 0.7,
+      mode: config?.mode || (isOfflineLLMMode() ? 'local' : 'remote'),
+      retryAttempts: config?.retryAttempts ?? 3,
     };
 
-    if (!this.config.apiKey) {
+    if (!this.config.apiKey && this.config.mode === 'remote') {
       console.warn('Gemini API key not provided. Gemini service will be disabled.');
     }
   }
 
+  /**
+   * Whether requests can be served (API key configured, or running locally)
+   */
+  isConfigured(): boolean {
+    return this.config.mode === 'local' || !!this.config.apiKey;
+  }
+
+  /**
+   * Model used when a request does not name one
+   */
+  getDefaultModel(): string {
+    return this.config.mode === 'local' ? OFFLINE_LLM_MODEL : this.config.defaultModel;
+  }
+
   /**
    * Make a request to the Gemini API
    */
@@ -89,7 +109,7 @@ export class GeminiService {
 
     let lastError: Error | null = null;
 
-    for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+    for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
       try {
         const response = await fetch(url, config);
         
@@ -102,7 +122,7 @@ export class GeminiService {
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
-        if (attempt < this.retryAttempts) {
+        if (attempt < this.config.retryAttempts) {
           console.log(`Gemini retry attempt ${attempt + 1} after ${this.retryDelay}ms...`);
           await this.sleep(this.retryDelay * attempt);
         }
@@ -116,7 +136,7 @@ export class GeminiService {
    * Generate content using Gemini
    */
   async generateContent(request: GeminiGenerateContentRequest): Promise<GeminiGenerateContentResponse> {
-    if (!this.config.apiKey) {
+    if (!this.isConfigured()) {
       throw new Error('Gemini API key is required');
     }
 
@@ -150,10 +170,12 @@ export class GeminiService {
         ],
       };
 
-      const response = await this.makeRequest(`/models/${this.config.defaultModel}:generateContent`, {
-        method: 'POST',
-        body: JSON.stringify(enhancedRequest),
-      });
+      const response = this.config.mode === 'local'
+        ? await offlineLLMService.generateContent(enhancedRequest)
+        : await this.makeRequest(`/models/${this.config.defaultModel}:generateContent`, {
+          method: 'POST',
+          body: JSON.stringify(enhancedRequest),
+        });
 
       return response;
     } catch (error) {
@@ -450,7 +472,7 @@ Please provide the enhanced content while maintaining medical accuracy and relev
    * Test the Gemini service
    */
   async testService(): Promise<{ success: boolean; message: string; response?: string }> {
-    if (!this.config.apiKey) {
+    if (!this.isConfigured()) {
       return {
         success: false,
         message: 'Gemini API key not provided',
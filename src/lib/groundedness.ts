@@ -0,0 +1,219 @@
+// Answer Groundedness Checking Against Retrieved Nelson Chunks
+import { tokenize } from './lexical-search';
+
+export const GROUNDEDNESS_CONFIG = {
+  // Share of a claim's content terms that must appear in the supporting span
+  SUPPORT_THRESHOLD: 0.5,
+  MIN_CLAIM_TERMS: 4,
+  // Adjacent sentences joined when looking for a supporting span
+  SPAN_WINDOW: 2,
+} as const;
+
+export interface GroundingDocument {
+  id: string;
+  content: string;
+  metadata: {
+    chapter: string;
+    section?: string;
+    page?: number;
+  };
+}
+
+export interface ClaimEvidence {
+  documentId: string;
+  chapter: string;
+  section?: string;
+  page?: number;
+  span: string;
+}
+
+export interface ClaimSupport {
+  claim: string;
+  supported: boolean;
+  score: number;
+  // Claim states a number, dose, rate or duration and was checked against the source figures
+  numeric: boolean;
+  unsupportedQuantities: string[];
+  evidence?: ClaimEvidence;
+}
+
+export interface GroundednessReport {
+  claims: ClaimSupport[];
+  supportedCount: number;
+  unsupportedCount: number;
+  unsupportedNumericCount: number;
+  // Supported share of checkable claims (1 when nothing checkable was said)
+  score: number;
+}
+
+interface EvidenceSpan extends ClaimEvidence {
+  terms: Set<string>;
+}
+
+interface Quantity {
+  text: string;
+  low: number;
+  high: number;
+  unit: string;
+}
+
+const QUANTITY_PATTERN = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(mg\/kg\/day|mg\/kg\/dose|mg\/kg\/hr|mg\/kg\/hour|mg\/kg|mcg\/kg\/min|mcg\/kg|micrograms\/kg|units\/kg\/hr|units\/kg\/hour|units\/kg|g\/kg|ml\/kg\/hr|ml\/kg\/hour|ml\/kg|mg\/m2|mmol\/l|meq\/kg|meq\/l|mg\/dl|mg|mcg|g|ml|units|%|days?|hours?|hrs?|minutes?|mins?|weeks?|months?|years?)?(?![a-z])/gi;
+
+const UNIT_ALIASES: Record<string, string> = {
+  'micrograms/kg': 'mcg/kg',
+  'mg/kg/hr': 'mg/kg/hour',
+  'units/kg/hr': 'units/kg/hour',
+  'ml/kg/hr': 'ml/kg/hour',
+  days: 'day',
+  hours: 'hour',
+  hr: 'hour',
+  hrs: 'hour',
+  minutes: 'minute',
+  min: 'minute',
+  mins: 'minute',
+  weeks: 'week',
+  months: 'month',
+  years: 'year',
+};
+
+// Safety boilerplate and framing sentences are not factual claims about the sources
+const NON_CLAIM_PATTERN = /\b(consult|healthcare provider|physician|seek (immediate )?medical|not a substitute|clinical judgment|verify (the )?dos|this (information|response)|i (cannot|can't|am))\b/i;
+
+export class GroundednessChecker {
+  /**
+   * Check every claim in an answer against the retrieved chunks
+   */
+  check(answer: string, documents: GroundingDocument[]): GroundednessReport {
+    const spans = documents.flatMap(doc => this.buildSpans(doc));
+    const claims = this.splitClaims(answer).map(claim => this.checkClaim(claim, spans));
+
+    const supportedCount = claims.filter(claim => claim.supported).length;
+    return {
+      claims,
+      supportedCount,
+      unsupportedCount: claims.length - supportedCount,
+      unsupportedNumericCount: claims.filter(claim => !claim.supported && claim.numeric).length,
+      score: claims.length > 0 ? supportedCount / claims.length : 1,
+    };
+  }
+
+  /**
+   * Split a generated answer into checkable factual claims (one per sentence or list item)
+   */
+  splitClaims(answer: string): string[] {
+    return answer
+      .replace(/```[\s\S]*?```/g, ' ')
+      .split('\n')
+      .map(line => line
+        .replace(/^\s*(#{1,6}\s+|[-*+•]\s+|\d+[.)]\s+|>\s*)/, '')
+        .replace(/\*\*|__|`|\[\d+\](\(#cite-\d+\))?/g, '')
+        .trim())
+      .filter(line => line.length > 0 && !line.endsWith(':'))
+      .flatMap(line => this.splitSentences(line))
+      .filter(sentence => !sentence.endsWith('?') && !NON_CLAIM_PATTERN.test(sentence))
+      .filter(sentence => tokenize(sentence).length >= GROUNDEDNESS_CONFIG.MIN_CLAIM_TERMS || this.extractQuantities(sentence).length > 0);
+  }
+
+  /**
+   * Pull numbers with their units (doses, rates, durations) out of text
+   */
+  extractQuantities(text: string): Quantity[] {
+    const quantities: Quantity[] = [];
+    for (const match of text.matchAll(QUANTITY_PATTERN)) {
+      const low = parseFloat(match[1]);
+      const high = match[2] ? parseFloat(match[2]) : low;
+      const unit = (match[3] || '').toLowerCase();
+      quantities.push({
+        text: match[0].trim(),
+        low: Math.min(low, high),
+        high: Math.max(low, high),
+        unit: UNIT_ALIASES[unit] || unit.replace(/s$/, '') || '',
+      });
+    }
+    return quantities;
+  }
+
+  private checkClaim(claim: string, spans: EvidenceSpan[]): ClaimSupport {
+    const claimTerms = Array.from(new Set(tokenize(claim)));
+    const quantities = this.extractQuantities(claim);
+    const numeric = quantities.length > 0;
+
+    let best: { span: EvidenceSpan; score: number; missing: Quantity[] } | undefined;
+    let bestSupporting: typeof best;
+    for (const span of spans) {
+      const score = claimTerms.length > 0 ? claimTerms.filter(term => span.terms.has(term)).length / claimTerms.length : 0;
+      // Numbers and doses must be stated in the supporting span itself, not elsewhere in the chapter
+      const missing = numeric ? this.missingQuantities(quantities, span.span) : [];
+
+      if (!best || score > best.score) {
+        best = { span, score, missing };
+      }
+      if (missing.length === 0 && score >= GROUNDEDNESS_CONFIG.SUPPORT_THRESHOLD && (!bestSupporting || score > bestSupporting.score)) {
+        bestSupporting = { span, score, missing };
+      }
+    }
+
+    if (!best) {
+      return {
+        claim,
+        supported: false,
+        score: 0,
+        numeric,
+        unsupportedQuantities: quantities.map(q => q.text),
+      };
+    }
+
+    const chosen = bestSupporting || best;
+    const { documentId, chapter, section, page, span } = chosen.span;
+    return {
+      claim,
+      supported: !!bestSupporting,
+      score: Math.round(chosen.score * 100) / 100,
+      numeric,
+      unsupportedQuantities: chosen.missing.map(q => q.text),
+      evidence: chosen.score > 0 ? { documentId, chapter, section, page, span } : undefined,
+    };
+  }
+
+  private missingQuantities(quantities: Quantity[], evidenceText: string): Quantity[] {
+    const evidence = this.extractQuantities(evidenceText);
+    return quantities.filter(quantity => !evidence.some(source =>
+      // A stated dose must sit inside a range given by the source, in the same unit
+      (quantity.unit === '' || source.unit === quantity.unit) &&
+      quantity.low >= source.low &&
+      quantity.high <= source.high
+    ));
+  }
+
+  private buildSpans(doc: GroundingDocument): EvidenceSpan[] {
+    const sentences = this.splitSentences(doc.content.replace(/\s+/g, ' '));
+    const spans: EvidenceSpan[] = [];
+
+    for (let i = 0; i < sentences.length; i++) {
+      for (let size = 1; size <= GROUNDEDNESS_CONFIG.SPAN_WINDOW && i + size <= sentences.length; size++) {
+        const span = sentences.slice(i, i + size).join(' ');
+        spans.push({
+          documentId: doc.id,
+          chapter: doc.metadata.chapter,
+          section: doc.metadata.section,
+          page: doc.metadata.page,
+          span,
+          terms: new Set(tokenize(span)),
+        });
+      }
+    }
+
+    return spans;
+  }
+
+  private splitSentences(text: string): string[] {
+    // Only split before a capital so decimals ("0.5 mg") stay intact
+    return text
+      .split(/(?<=[.!?])\s+(?=[A-Z(])/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+}
+
+// Export singleton instance
+export const groundednessChecker = new GroundednessChecker();
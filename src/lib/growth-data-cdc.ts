@@ -0,0 +1,1338 @@
+// CDC 2000 Growth Charts LMS Tables, 2 to 20 Years
+// Source: CDC LMS parameters, https://www.cdc.gov/growthcharts/percentile_data_files.htm
+// Each row is [age in months, L, M, S]; ages follow the CDC half-month grid (24, 24.5, 25.5, ... 240).
+import { SexSpecificTable } from './growth-data';
+
+// Weight-for-age (kg), from wtage
+export const CDC_WEIGHT_FOR_AGE: SexSpecificTable = {
+  male: [
+    [24, -0.206, 12.6708, 0.10813],
+    [24.5, -0.2166, 12.7415, 0.10817],
+    [25.5, -0.2399, 12.881, 0.10828],
+    [26.5, -0.2665, 13.0184, 0.10842],
+    [27.5, -0.2957, 13.1545, 0.10861],
+    [28.5, -0.3278, 13.2899, 0.10883],
+    [29.5, -0.3619, 13.4252, 0.10909],
+    [30.5, -0.3975, 13.5609, 0.10938],
+    [31.5, -0.4343, 13.6974, 0.10971],
+    [32.5, -0.4723, 13.835, 0.11008],
+    [33.5, -0.5101, 13.9742, 0.11048],
+    [34.5, -0.548, 14.115, 0.11091],
+    [35.5, -0.5851, 14.2578, 0.11138],
+    [36.5, -0.6214, 14.4026, 0.11188],
+    [37.5, -0.6565, 14.5496, 0.11241],
+    [38.5, -0.6898, 14.6989, 0.11297],
+    [39.5, -0.7215, 14.8505, 0.11356],
+    [40.5, -0.7511, 15.0045, 0.11418],
+    [41.5, -0.7789, 15.1608, 0.11482],
+    [42.5, -0.8045, 15.3194, 0.1155],
+    [43.5, -0.828, 15.4803, 0.11619],
+    [44.5, -0.8495, 15.6434, 0.11691],
+    [45.5, -0.8688, 15.8087, 0.11764],
+    [46.5, -0.886, 15.9761, 0.1184],
+    [47.5, -0.9014, 16.1455, 0.11917],
+    [48.5, -0.9151, 16.3168, 0.11996],
+    [49.5, -0.9272, 16.4899, 0.12076],
+    [50.5, -0.938, 16.6647, 0.12157],
+    [51.5, -0.9474, 16.8411, 0.12239],
+    [52.5, -0.9558, 17.019, 0.12321],
+    [53.5, -0.963, 17.1984, 0.12405],
+    [54.5, -0.9695, 17.3791, 0.12488],
+    [55.5, -0.9754, 17.561, 0.12572],
+    [56.5, -0.9809, 17.744, 0.12656],
+    [57.5, -0.9859, 17.9281, 0.12739],
+    [58.5, -0.9908, 18.1132, 0.12823],
+    [59.5, -0.9956, 18.2991, 0.12906],
+    [60.5, -1.0005, 18.4859, 0.12988],
+    [61.5, -1.0054, 18.6735, 0.1307],
+    [62.5, -1.0105, 18.8618, 0.13151],
+    [63.5, -1.016, 19.0508, 0.13232],
+    [64.5, -1.0218, 19.2404, 0.13311],
+    [65.5, -1.0282, 19.4306, 0.1339],
+    [66.5, -1.0349, 19.6214, 0.13468],
+    [67.5, -1.0424, 19.8127, 0.13545],
+    [68.5, -1.0503, 20.0046, 0.13621],
+    [69.5, -1.0587, 20.197, 0.13696],
+    [70.5, -1.0677, 20.39, 0.13769],
+    [71.5, -1.0772, 20.5836, 0.13842],
+    [72.5, -1.0875, 20.7777, 0.13915],
+    [73.5, -1.0982, 20.9724, 0.13986],
+    [74.5, -1.1093, 21.1678, 0.14056],
+    [75.5, -1.121, 21.3638, 0.14126],
+    [76.5, -1.133, 21.5606, 0.14195],
+    [77.5, -1.1454, 21.7581, 0.14263],
+    [78.5, -1.1581, 21.9564, 0.14331],
+    [79.5, -1.171, 22.1557, 0.14399],
+    [80.5, -1.1841, 22.3558, 0.14466],
+    [81.5, -1.1973, 22.557, 0.14533],
+    [82.5, -1.2104, 22.7593, 0.146],
+    [83.5, -1.2236, 22.9627, 0.14667],
+    [84.5, -1.2364, 23.1674, 0.14734],
+    [85.5, -1.2492, 23.3734, 0.14801],
+    [86.5, -1.2614, 23.5809, 0.14869],
+    [87.5, -1.2735, 23.7898, 0.14938],
+    [88.5, -1.2849, 24.0003, 0.15007],
+    [89.5, -1.2959, 24.2125, 0.15077],
+    [90.5, -1.3062, 24.4265, 0.15148],
+    [91.5, -1.3159, 24.6423, 0.15219],
+    [92.5, -1.3247, 24.8601, 0.15292],
+    [93.5, -1.3329, 25.0799, 0.15367],
+    [94.5, -1.34, 25.3019, 0.15442],
+    [95.5, -1.3463, 25.5261, 0.15519],
+    [96.5, -1.3517, 25.7526, 0.15598],
+    [97.5, -1.3562, 25.9815, 0.15678],
+    [98.5, -1.3597, 26.2128, 0.15759],
+    [99.5, -1.3621, 26.4468, 0.15843],
+    [100.5, -1.3636, 26.6834, 0.15928],
+    [101.5, -1.364, 26.9227, 0.16015],
+    [102.5, -1.3634, 27.1649, 0.16103],
+    [103.5, -1.3618, 27.4099, 0.16193],
+    [104.5, -1.3592, 27.658, 0.16285],
+    [105.5, -1.3557, 27.909, 0.16378],
+    [106.5, -1.3511, 28.1632, 0.16473],
+    [107.5, -1.3457, 28.4206, 0.16569],
+    [108.5, -1.3393, 28.6813, 0.16666],
+    [109.5, -1.3321, 28.9453, 0.16765],
+    [110.5, -1.3241, 29.2127, 0.16865],
+    [111.5, -1.3152, 29.4836, 0.16966],
+    [112.5, -1.3057, 29.758, 0.17068],
+    [113.5, -1.2953, 30.036, 0.1717],
+    [114.5, -1.2843, 30.3177, 0.17273],
+    [115.5, -1.2727, 30.6031, 0.17377],
+    [116.5, -1.2605, 30.8923, 0.1748],
+    [117.5, -1.2477, 31.1853, 0.17584],
+    [118.5, -1.2345, 31.4823, 0.17688],
+    [119.5, -1.2208, 31.7831, 0.17791],
+    [120.5, -1.2066, 32.088, 0.17893],
+    [121.5, -1.1921, 32.3969, 0.17995],
+    [122.5, -1.1773, 32.7099, 0.18096],
+    [123.5, -1.1622, 33.027, 0.18196],
+    [124.5, -1.1468, 33.3484, 0.18294],
+    [125.5, -1.1312, 33.6739, 0.1839],
+    [126.5, -1.1155, 34.0036, 0.18485],
+    [127.5, -1.0996, 34.3377, 0.18578],
+    [128.5, -1.0836, 34.676, 0.18668],
+    [129.5, -1.0676, 35.0186, 0.18756],
+    [130.5, -1.0514, 35.3656, 0.18842],
+    [131.5, -1.0353, 35.7169, 0.18924],
+    [132.5, -1.0192, 36.0726, 0.19003],
+    [133.5, -1.0032, 36.4327, 0.1908],
+    [134.5, -0.9872, 36.797, 0.19152],
+    [135.5, -0.9713, 37.1658, 0.19221],
+    [136.5, -0.9556, 37.5388, 0.19287],
+    [137.5, -0.94, 37.9162, 0.19348],
+    [138.5, -0.9246, 38.2978, 0.19406],
+    [139.5, -0.9094, 38.6836, 0.19459],
+    [140.5, -0.8944, 39.0736, 0.19508],
+    [141.5, -0.8796, 39.4678, 0.19553],
+    [142.5, -0.8651, 39.866, 0.19593],
+    [143.5, -0.8509, 40.2683, 0.19629],
+    [144.5, -0.8369, 40.6744, 0.1966],
+    [145.5, -0.8233, 41.0844, 0.19686],
+    [146.5, -0.81, 41.4982, 0.19708],
+    [147.5, -0.797, 41.9155, 0.19725],
+    [148.5, -0.7844, 42.3364, 0.19737],
+    [149.5, -0.7721, 42.7607, 0.19744],
+    [150.5, -0.7602, 43.1883, 0.19747],
+    [151.5, -0.7488, 43.619, 0.19745],
+    [152.5, -0.7377, 44.0526, 0.19738],
+    [153.5, -0.7272, 44.489, 0.19727],
+    [154.5, -0.717, 44.9281, 0.19711],
+    [155.5, -0.7073, 45.3696, 0.19691],
+    [156.5, -0.6981, 45.8134, 0.19667],
+    [157.5, -0.6894, 46.2592, 0.19638],
+    [158.5, -0.6813, 46.7068, 0.19605],
+    [159.5, -0.6736, 47.1561, 0.19568],
+    [160.5, -0.6665, 47.6067, 0.19527],
+    [161.5, -0.66, 48.0585, 0.19483],
+    [162.5, -0.6541, 48.5111, 0.19435],
+    [163.5, -0.6488, 48.9644, 0.19383],
+    [164.5, -0.6441, 49.4181, 0.19329],
+    [165.5, -0.64, 49.8719, 0.19271],
+    [166.5, -0.6366, 50.3255, 0.1921],
+    [167.5, -0.6339, 50.7786, 0.19147],
+    [168.5, -0.6318, 51.231, 0.19081],
+    [169.5, -0.6305, 51.6823, 0.19013],
+    [170.5, -0.6299, 52.1323, 0.18943],
+    [171.5, -0.63, 52.5806, 0.18871],
+    [172.5, -0.6309, 53.027, 0.18797],
+    [173.5, -0.6325, 53.4711, 0.18721],
+    [174.5, -0.6349, 53.9126, 0.18645],
+    [175.5, -0.638, 54.3513, 0.18567],
+    [176.5, -0.642, 54.7868, 0.18488],
+    [177.5, -0.6467, 55.2188, 0.18408],
+    [178.5, -0.6522, 55.647, 0.18328],
+    [179.5, -0.6585, 56.0712, 0.18248],
+    [180.5, -0.6656, 56.491, 0.18167],
+    [181.5, -0.6734, 56.9061, 0.18086],
+    [182.5, -0.682, 57.3163, 0.18006],
+    [183.5, -0.6912, 57.7214, 0.17926],
+    [184.5, -0.7012, 58.121, 0.17846],
+    [185.5, -0.7119, 58.5149, 0.17767],
+    [186.5, -0.7232, 58.9029, 0.17689],
+    [187.5, -0.7351, 59.2848, 0.17612],
+    [188.5, -0.7476, 59.6603, 0.17536],
+    [189.5, -0.7605, 60.0293, 0.17461],
+    [190.5, -0.774, 60.3916, 0.17388],
+    [191.5, -0.7878, 60.747, 0.17316],
+    [192.5, -0.802, 61.0954, 0.17246],
+    [193.5, -0.8164, 61.4366, 0.17178],
+    [194.5, -0.8311, 61.7706, 0.17111],
+    [195.5, -0.8459, 62.0972, 0.17047],
+    [196.5, -0.8607, 62.4164, 0.16984],
+    [197.5, -0.8756, 62.7281, 0.16924],
+    [198.5, -0.8904, 63.0323, 0.16866],
+    [199.5, -0.905, 63.3289, 0.1681],
+    [200.5, -0.9194, 63.618, 0.16756],
+    [201.5, -0.9335, 63.8996, 0.16705],
+    [202.5, -0.9472, 64.1737, 0.16656],
+    [203.5, -0.9605, 64.4403, 0.16609],
+    [204.5, -0.9732, 64.6996, 0.16564],
+    [205.5, -0.9854, 64.9516, 0.16522],
+    [206.5, -0.9969, 65.1965, 0.16482],
+    [207.5, -1.0077, 65.4344, 0.16445],
+    [208.5, -1.0177, 65.6654, 0.16409],
+    [209.5, -1.027, 65.8897, 0.16376],
+    [210.5, -1.0354, 66.1075, 0.16344],
+    [211.5, -1.0429, 66.319, 0.16315],
+    [212.5, -1.0495, 66.5244, 0.16287],
+    [213.5, -1.0551, 66.7239, 0.16261],
+    [214.5, -1.0598, 66.9178, 0.16237],
+    [215.5, -1.0635, 67.1064, 0.16214],
+    [216.5, -1.0662, 67.2899, 0.16193],
+    [217.5, -1.0679, 67.4686, 0.16172],
+    [218.5, -1.0686, 67.6428, 0.16154],
+    [219.5, -1.0682, 67.8128, 0.16136],
+    [220.5, -1.0669, 67.9788, 0.16119],
+    [221.5, -1.0646, 68.1411, 0.16103],
+    [222.5, -1.0613, 68.3, 0.16087],
+    [223.5, -1.0571, 68.4558, 0.16073],
+    [224.5, -1.052, 68.6087, 0.16059],
+    [225.5, -1.0459, 68.7589, 0.16047],
+    [226.5, -1.0391, 68.9065, 0.16035],
+    [227.5, -1.0315, 69.0518, 0.16024],
+    [228.5, -1.0232, 69.1947, 0.16014],
+    [229.5, -1.0143, 69.3353, 0.16006],
+    [230.5, -1.0049, 69.4735, 0.16],
+    [231.5, -0.9951, 69.6093, 0.15995],
+    [232.5, -0.9849, 69.7423, 0.15994],
+    [233.5, -0.9746, 69.8722, 0.15995],
+    [234.5, -0.9643, 69.9987, 0.16001],
+    [235.5, -0.9542, 70.121, 0.16012],
+    [236.5, -0.9445, 70.2386, 0.16028],
+    [237.5, -0.9354, 70.3504, 0.16051],
+    [238.5, -0.927, 70.4555, 0.16082],
+    [239.5, -0.9197, 70.5525, 0.16123],
+    [240, -0.9165, 70.5976, 0.16148],
+  ],
+  female: [
+    [24, -0.7355, 12.055, 0.1074],
+    [24.5, -0.752, 12.1346, 0.10774],
+    [25.5, -0.7843, 12.291, 0.10848],
+    [26.5, -0.814, 12.4447, 0.10928],
+    [27.5, -0.842, 12.5962, 0.11015],
+    [28.5, -0.8678, 12.7462, 0.11106],
+    [29.5, -0.892, 12.8952, 0.11203],
+    [30.5, -0.9146, 13.0436, 0.11303],
+    [31.5, -0.9358, 13.1918, 0.11406],
+    [32.5, -0.9559, 13.3402, 0.11512],
+    [33.5, -0.9744, 13.4891, 0.1162],
+    [34.5, -0.9918, 13.6388, 0.11729],
+    [35.5, -1.0085, 13.7894, 0.11839],
+    [36.5, -1.0244, 13.9411, 0.11949],
+    [37.5, -1.0395, 14.0941, 0.1206],
+    [38.5, -1.0542, 14.2484, 0.1217],
+    [39.5, -1.0679, 14.4043, 0.12279],
+    [40.5, -1.0812, 14.5617, 0.12387],
+    [41.5, -1.0945, 14.7206, 0.12493],
+    [42.5, -1.1071, 14.8812, 0.12598],
+    [43.5, -1.1193, 15.0434, 0.127],
+    [44.5, -1.1314, 15.2072, 0.12801],
+    [45.5, -1.1431, 15.3726, 0.12899],
+    [46.5, -1.1547, 15.5396, 0.12995],
+    [47.5, -1.1658, 15.7082, 0.13089],
+    [48.5, -1.1771, 15.8782, 0.1318],
+    [49.5, -1.1878, 16.0498, 0.1327],
+    [50.5, -1.1984, 16.2228, 0.13356],
+    [51.5, -1.2087, 16.3972, 0.13441],
+    [52.5, -1.2189, 16.5729, 0.13523],
+    [53.5, -1.2289, 16.7499, 0.13603],
+    [54.5, -1.2382, 16.9283, 0.13681],
+    [55.5, -1.2475, 17.1078, 0.13758],
+    [56.5, -1.2563, 17.2886, 0.13833],
+    [57.5, -1.2648, 17.4705, 0.13906],
+    [58.5, -1.2729, 17.6536, 0.13978],
+    [59.5, -1.2805, 17.8378, 0.14049],
+    [60.5, -1.2877, 18.0231, 0.14119],
+    [61.5, -1.2942, 18.2096, 0.14189],
+    [62.5, -1.3004, 18.3971, 0.14258],
+    [63.5, -1.306, 18.5857, 0.14326],
+    [64.5, -1.311, 18.7754, 0.14395],
+    [65.5, -1.3152, 18.9663, 0.14463],
+    [66.5, -1.319, 19.1583, 0.14532],
+    [67.5, -1.322, 19.3515, 0.14601],
+    [68.5, -1.3243, 19.5459, 0.14671],
+    [69.5, -1.326, 19.7415, 0.14742],
+    [70.5, -1.327, 19.9384, 0.14813],
+    [71.5, -1.3272, 20.1367, 0.14886],
+    [72.5, -1.3267, 20.3364, 0.14959],
+    [73.5, -1.3255, 20.5375, 0.15034],
+    [74.5, -1.3236, 20.7401, 0.15111],
+    [75.5, -1.3208, 20.9444, 0.15189],
+    [76.5, -1.3174, 21.1503, 0.15269],
+    [77.5, -1.3133, 21.358, 0.1535],
+    [78.5, -1.3084, 21.5675, 0.15433],
+    [79.5, -1.3029, 21.7789, 0.15518],
+    [80.5, -1.2967, 21.9923, 0.15604],
+    [81.5, -1.2898, 22.2079, 0.15693],
+    [82.5, -1.2823, 22.4256, 0.15783],
+    [83.5, -1.2742, 22.6456, 0.15876],
+    [84.5, -1.2655, 22.868, 0.1597],
+    [85.5, -1.2563, 23.0929, 0.16066],
+    [86.5, -1.2465, 23.3204, 0.16163],
+    [87.5, -1.2362, 23.5505, 0.16262],
+    [88.5, -1.2255, 23.7834, 0.16363],
+    [89.5, -1.2143, 24.0192, 0.16466],
+    [90.5, -1.2029, 24.2579, 0.16569],
+    [91.5, -1.191, 24.4996, 0.16674],
+    [92.5, -1.1788, 24.7445, 0.16781],
+    [93.5, -1.1663, 24.9926, 0.16888],
+    [94.5, -1.1536, 25.244, 0.16996],
+    [95.5, -1.1407, 25.4988, 0.17105],
+    [96.5, -1.1276, 25.757, 0.17215],
+    [97.5, -1.1145, 26.0187, 0.17325],
+    [98.5, -1.1012, 26.284, 0.17436],
+    [99.5, -1.0878, 26.553, 0.17547],
+    [100.5, -1.0744, 26.8256, 0.17657],
+    [101.5, -1.0611, 27.1019, 0.17768],
+    [102.5, -1.0478, 27.382, 0.17878],
+    [103.5, -1.0346, 27.6659, 0.17987],
+    [104.5, -1.0214, 27.9537, 0.18096],
+    [105.5, -1.0085, 28.2452, 0.18204],
+    [106.5, -0.9957, 28.5406, 0.18311],
+    [107.5, -0.9831, 28.8398, 0.18416],
+    [108.5, -0.9706, 29.1429, 0.18521],
+    [109.5, -0.9585, 29.4498, 0.18623],
+    [110.5, -0.9466, 29.7605, 0.18724],
+    [111.5, -0.935, 30.0749, 0.18822],
+    [112.5, -0.9237, 30.3931, 0.18919],
+    [113.5, -0.9127, 30.7149, 0.19013],
+    [114.5, -0.9022, 31.0403, 0.19105],
+    [115.5, -0.8919, 31.3693, 0.19194],
+    [116.5, -0.882, 31.7017, 0.1928],
+    [117.5, -0.8726, 32.0374, 0.19363],
+    [118.5, -0.8636, 32.3765, 0.19444],
+    [119.5, -0.855, 32.7187, 0.19521],
+    [120.5, -0.8468, 33.0639, 0.19595],
+    [121.5, -0.8391, 33.4121, 0.19666],
+    [122.5, -0.8319, 33.763, 0.19733],
+    [123.5, -0.8251, 34.1166, 0.19797],
+    [124.5, -0.8189, 34.4727, 0.19857],
+    [125.5, -0.8131, 34.8312, 0.19913],
+    [126.5, -0.8078, 35.1918, 0.19965],
+    [127.5, -0.8031, 35.5544, 0.20014],
+    [128.5, -0.7989, 35.9188, 0.20058],
+    [129.5, -0.7951, 36.2849, 0.20099],
+    [130.5, -0.792, 36.6524, 0.20136],
+    [131.5, -0.7894, 37.0211, 0.20169],
+    [132.5, -0.7873, 37.3909, 0.20198],
+    [133.5, -0.7858, 37.7615, 0.20222],
+    [134.5, -0.7849, 38.1327, 0.20243],
+    [135.5, -0.7845, 38.5043, 0.2026],
+    [136.5, -0.7847, 38.8761, 0.20272],
+    [137.5, -0.7855, 39.2477, 0.20281],
+    [138.5, -0.7869, 39.6191, 0.20285],
+    [139.5, -0.7888, 39.99, 0.20286],
+    [140.5, -0.7914, 40.3601, 0.20282],
+    [141.5, -0.7945, 40.7292, 0.20275],
+    [142.5, -0.7983, 41.097, 0.20264],
+    [143.5, -0.8026, 41.4634, 0.20249],
+    [144.5, -0.8076, 41.828, 0.2023],
+    [145.5, -0.8131, 42.1906, 0.20208],
+    [146.5, -0.8193, 42.5511, 0.20182],
+    [147.5, -0.8261, 42.9091, 0.20152],
+    [148.5, -0.8335, 43.2644, 0.20119],
+    [149.5, -0.8416, 43.6168, 0.20082],
+    [150.5, -0.8503, 43.9661, 0.20042],
+    [151.5, -0.8596, 44.312, 0.19999],
+    [152.5, -0.8695, 44.6544, 0.19953],
+    [153.5, -0.88, 44.9929, 0.19903],
+    [154.5, -0.8912, 45.3274, 0.19851],
+    [155.5, -0.903, 45.6578, 0.19795],
+    [156.5, -0.9155, 45.9837, 0.19737],
+    [157.5, -0.9285, 46.305, 0.19676],
+    [158.5, -0.9422, 46.6216, 0.19612],
+    [159.5, -0.9565, 46.9331, 0.19546],
+    [160.5, -0.9714, 47.2396, 0.19477],
+    [161.5, -0.9869, 47.5408, 0.19407],
+    [162.5, -1.003, 47.8366, 0.19333],
+    [163.5, -1.0197, 48.1269, 0.19258],
+    [164.5, -1.037, 48.4114, 0.19181],
+    [165.5, -1.0548, 48.6902, 0.19103],
+    [166.5, -1.0732, 48.963, 0.19022],
+    [167.5, -1.0921, 49.2299, 0.1894],
+    [168.5, -1.1115, 49.4908, 0.18856],
+    [169.5, -1.1315, 49.7454, 0.18772],
+    [170.5, -1.1519, 49.9939, 0.18686],
+    [171.5, -1.1728, 50.2362, 0.18599],
+    [172.5, -1.1941, 50.4722, 0.18511],
+    [173.5, -1.2158, 50.702, 0.18422],
+    [174.5, -1.2379, 50.9254, 0.18333],
+    [175.5, -1.2604, 51.1426, 0.18244],
+    [176.5, -1.2831, 51.3535, 0.18154],
+    [177.5, -1.3062, 51.5582, 0.18064],
+    [178.5, -1.3294, 51.7568, 0.17974],
+    [179.5, -1.3528, 51.9493, 0.17884],
+    [180.5, -1.3764, 52.1357, 0.17795],
+    [181.5, -1.4001, 52.3162, 0.17706],
+    [182.5, -1.4238, 52.4908, 0.17618],
+    [183.5, -1.4475, 52.6597, 0.17531],
+    [184.5, -1.4712, 52.823, 0.17445],
+    [185.5, -1.4947, 52.9808, 0.1736],
+    [186.5, -1.5181, 53.1333, 0.17277],
+    [187.5, -1.5412, 53.2806, 0.17195],
+    [188.5, -1.5641, 53.4228, 0.17114],
+    [189.5, -1.5865, 53.5603, 0.17036],
+    [190.5, -1.6086, 53.6931, 0.16959],
+    [191.5, -1.6301, 53.8214, 0.16885],
+    [192.5, -1.6512, 53.9454, 0.16813],
+    [193.5, -1.6716, 54.0654, 0.16743],
+    [194.5, -1.6913, 54.1816, 0.16676],
+    [195.5, -1.7103, 54.2941, 0.16612],
+    [196.5, -1.7285, 54.4032, 0.16551],
+    [197.5, -1.7458, 54.5092, 0.16493],
+    [198.5, -1.7621, 54.6122, 0.16437],
+    [199.5, -1.7775, 54.7126, 0.16385],
+    [200.5, -1.7919, 54.8104, 0.16336],
+    [201.5, -1.8052, 54.9061, 0.16291],
+    [202.5, -1.8173, 54.9998, 0.16249],
+    [203.5, -1.8283, 55.0917, 0.16211],
+    [204.5, -1.838, 55.1822, 0.16176],
+    [205.5, -1.8464, 55.2714, 0.16145],
+    [206.5, -1.8536, 55.3595, 0.16117],
+    [207.5, -1.8594, 55.4469, 0.16093],
+    [208.5, -1.864, 55.5336, 0.16073],
+    [209.5, -1.8671, 55.62, 0.16056],
+    [210.5, -1.8689, 55.7062, 0.16043],
+    [211.5, -1.8693, 55.7925, 0.16033],
+    [212.5, -1.8683, 55.8789, 0.16027],
+    [213.5, -1.866, 55.9657, 0.16025],
+    [214.5, -1.8623, 56.053, 0.16026],
+    [215.5, -1.8572, 56.141, 0.1603],
+    [216.5, -1.8508, 56.2297, 0.16037],
+    [217.5, -1.8432, 56.3192, 0.16048],
+    [218.5, -1.8344, 56.4096, 0.16061],
+    [219.5, -1.8244, 56.501, 0.16077],
+    [220.5, -1.8132, 56.5932, 0.16096],
+    [221.5, -1.8011, 56.6863, 0.16117],
+    [222.5, -1.7879, 56.7803, 0.1614],
+    [223.5, -1.7738, 56.8749, 0.16166],
+    [224.5, -1.7589, 56.9701, 0.16193],
+    [225.5, -1.7433, 57.0656, 0.16221],
+    [226.5, -1.7271, 57.1613, 0.16251],
+    [227.5, -1.7103, 57.2568, 0.16282],
+    [228.5, -1.6932, 57.3518, 0.16314],
+    [229.5, -1.6758, 57.4458, 0.16347],
+    [230.5, -1.6582, 57.5384, 0.1638],
+    [231.5, -1.6407, 57.6291, 0.16412],
+    [232.5, -1.6232, 57.7173, 0.16445],
+    [233.5, -1.6061, 57.8023, 0.16478],
+    [234.5, -1.5895, 57.8833, 0.16509],
+    [235.5, -1.5734, 57.9597, 0.1654],
+    [236.5, -1.5581, 58.0304, 0.1657],
+    [237.5, -1.5438, 58.0945, 0.16599],
+    [238.5, -1.5306, 58.151, 0.16626],
+    [239.5, -1.5187, 58.1988, 0.16652],
+    [240, -1.5133, 58.219, 0.16665],
+  ],
+};
+
+// Stature-for-age (cm), from statage
+export const CDC_STATURE_FOR_AGE: SexSpecificTable = {
+  male: [
+    [24, 0.9416, 86.4522, 0.04032],
+    [24.5, 1.0072, 86.8616, 0.0404],
+    [25.5, 0.8374, 87.6525, 0.04058],
+    [26.5, 0.6818, 88.4233, 0.04072],
+    [27.5, 0.5389, 89.1755, 0.04083],
+    [28.5, 0.4077, 89.9104, 0.04091],
+    [29.5, 0.2868, 90.6291, 0.04095],
+    [30.5, 0.1744, 91.3324, 0.04097],
+    [31.5, 0.0695, 92.0213, 0.04095],
+    [32.5, -0.0295, 92.6964, 0.04091],
+    [33.5, -0.1242, 93.3585, 0.04084],
+    [34.5, -0.2155, 94.0082, 0.04076],
+    [35.5, -0.3037, 94.6464, 0.04066],
+    [36.5, -0.3909, 95.2736, 0.04053],
+    [37.5, -0.2549, 95.9147, 0.04057],
+    [38.5, -0.1258, 96.5473, 0.04062],
+    [39.5, -0.0031, 97.1719, 0.04067],
+    [40.5, 0.113, 97.789, 0.04072],
+    [41.5, 0.2226, 98.399, 0.04078],
+    [42.5, 0.3264, 99.0025, 0.04085],
+    [43.5, 0.4245, 99.6, 0.04092],
+    [44.5, 0.5166, 100.1918, 0.041],
+    [45.5, 0.6025, 100.7783, 0.04108],
+    [46.5, 0.683, 101.36, 0.04116],
+    [47.5, 0.7581, 101.9373, 0.04125],
+    [48.5, 0.8277, 102.5105, 0.04135],
+    [49.5, 0.8918, 103.0799, 0.04144],
+    [50.5, 0.9506, 103.6459, 0.04154],
+    [51.5, 1.0038, 104.2087, 0.04164],
+    [52.5, 1.0521, 104.7687, 0.04175],
+    [53.5, 1.0955, 105.3262, 0.04185],
+    [54.5, 1.1336, 105.8813, 0.04196],
+    [55.5, 1.1671, 106.4343, 0.04206],
+    [56.5, 1.1959, 106.9855, 0.04217],
+    [57.5, 1.2201, 107.535, 0.04228],
+    [58.5, 1.2398, 108.083, 0.04238],
+    [59.5, 1.255, 108.6296, 0.04249],
+    [60.5, 1.2662, 109.1751, 0.04259],
+    [61.5, 1.2736, 109.7196, 0.0427],
+    [62.5, 1.277, 110.2631, 0.0428],
+    [63.5, 1.2767, 110.8058, 0.0429],
+    [64.5, 1.2728, 111.3477, 0.04299],
+    [65.5, 1.2659, 111.889, 0.04309],
+    [66.5, 1.2555, 112.4296, 0.04318],
+    [67.5, 1.2421, 112.9696, 0.04327],
+    [68.5, 1.226, 113.509, 0.04336],
+    [69.5, 1.2073, 114.0479, 0.04344],
+    [70.5, 1.186, 114.5861, 0.04352],
+    [71.5, 1.1627, 115.1238, 0.0436],
+    [72.5, 1.1375, 115.6609, 0.04367],
+    [73.5, 1.1104, 116.1973, 0.04375],
+    [74.5, 1.0814, 116.7329, 0.04382],
+    [75.5, 1.0515, 117.2678, 0.04388],
+    [76.5, 1.0202, 117.8018, 0.04395],
+    [77.5, 0.9878, 118.3348, 0.04401],
+    [78.5, 0.9548, 118.8668, 0.04407],
+    [79.5, 0.9215, 119.3977, 0.04413],
+    [80.5, 0.8874, 119.9272, 0.04419],
+    [81.5, 0.8535, 120.4554, 0.04424],
+    [82.5, 0.8196, 120.9821, 0.0443],
+    [83.5, 0.7862, 121.5072, 0.04435],
+    [84.5, 0.7532, 122.0305, 0.0444],
+    [85.5, 0.721, 122.552, 0.04446],
+    [86.5, 0.6896, 123.0714, 0.04451],
+    [87.5, 0.6592, 123.5886, 0.04457],
+    [88.5, 0.6299, 124.1035, 0.04462],
+    [89.5, 0.6022, 124.616, 0.04468],
+    [90.5, 0.5759, 125.1259, 0.04474],
+    [91.5, 0.5512, 125.6331, 0.0448],
+    [92.5, 0.5281, 126.1374, 0.04486],
+    [93.5, 0.5072, 126.6388, 0.04492],
+    [94.5, 0.4878, 127.137, 0.04499],
+    [95.5, 0.4705, 127.632, 0.04506],
+    [96.5, 0.4552, 128.1237, 0.04513],
+    [97.5, 0.4419, 128.6119, 0.0452],
+    [98.5, 0.4306, 129.0966, 0.04528],
+    [99.5, 0.4213, 129.5777, 0.04536],
+    [100.5, 0.4139, 130.055, 0.04544],
+    [101.5, 0.4085, 130.5286, 0.04553],
+    [102.5, 0.4048, 130.9983, 0.04562],
+    [103.5, 0.4028, 131.4641, 0.04571],
+    [104.5, 0.4025, 131.926, 0.04581],
+    [105.5, 0.4038, 132.384, 0.04591],
+    [106.5, 0.4067, 132.8381, 0.04601],
+    [107.5, 0.4105, 133.2882, 0.04611],
+    [108.5, 0.4157, 133.7345, 0.04622],
+    [109.5, 0.4218, 134.1769, 0.04633],
+    [110.5, 0.4287, 134.6155, 0.04644],
+    [111.5, 0.4361, 135.0504, 0.04655],
+    [112.5, 0.4443, 135.4818, 0.04666],
+    [113.5, 0.4526, 135.9097, 0.04678],
+    [114.5, 0.4611, 136.3343, 0.0469],
+    [115.5, 0.4696, 136.7557, 0.04702],
+    [116.5, 0.4777, 137.1742, 0.04713],
+    [117.5, 0.4855, 137.5899, 0.04725],
+    [118.5, 0.4929, 138.0032, 0.04737],
+    [119.5, 0.4997, 138.4143, 0.04749],
+    [120.5, 0.5055, 138.8234, 0.04761],
+    [121.5, 0.5106, 139.231, 0.04773],
+    [122.5, 0.5146, 139.6373, 0.04785],
+    [123.5, 0.5174, 140.0427, 0.04796],
+    [124.5, 0.519, 140.4477, 0.04808],
+    [125.5, 0.5194, 140.8527, 0.04819],
+    [126.5, 0.5187, 141.2582, 0.04831],
+    [127.5, 0.5166, 141.6646, 0.04842],
+    [128.5, 0.5131, 142.0725, 0.04852],
+    [129.5, 0.5084, 142.4824, 0.04863],
+    [130.5, 0.5025, 142.8949, 0.04874],
+    [131.5, 0.4957, 143.3107, 0.04884],
+    [132.5, 0.488, 143.7304, 0.04894],
+    [133.5, 0.4794, 144.1545, 0.04904],
+    [134.5, 0.4704, 144.5838, 0.04913],
+    [135.5, 0.4611, 145.019, 0.04923],
+    [136.5, 0.4518, 145.4607, 0.04932],
+    [137.5, 0.4429, 145.9097, 0.0494],
+    [138.5, 0.4345, 146.3665, 0.04949],
+    [139.5, 0.4274, 146.832, 0.04957],
+    [140.5, 0.4215, 147.3066, 0.04965],
+    [141.5, 0.4176, 147.7911, 0.04973],
+    [142.5, 0.4158, 148.2859, 0.04981],
+    [143.5, 0.4168, 148.7917, 0.04988],
+    [144.5, 0.4209, 149.3088, 0.04995],
+    [145.5, 0.4285, 149.8376, 0.05001],
+    [146.5, 0.4401, 150.3784, 0.05008],
+    [147.5, 0.456, 150.9313, 0.05013],
+    [148.5, 0.4765, 151.4964, 0.05019],
+    [149.5, 0.5018, 152.0735, 0.05023],
+    [150.5, 0.532, 152.6624, 0.05027],
+    [151.5, 0.5672, 153.2627, 0.05031],
+    [152.5, 0.6074, 153.8738, 0.05033],
+    [153.5, 0.6528, 154.4951, 0.05035],
+    [154.5, 0.7027, 155.1255, 0.05036],
+    [155.5, 0.7574, 155.7642, 0.05035],
+    [156.5, 0.8163, 156.4099, 0.05033],
+    [157.5, 0.8789, 157.0612, 0.0503],
+    [158.5, 0.945, 157.7168, 0.05026],
+    [159.5, 1.0141, 158.3751, 0.0502],
+    [160.5, 1.0854, 159.0344, 0.05013],
+    [161.5, 1.1585, 159.6931, 0.05004],
+    [162.5, 1.2327, 160.3493, 0.04993],
+    [163.5, 1.3077, 161.0015, 0.0498],
+    [164.5, 1.3826, 161.6478, 0.04966],
+    [165.5, 1.4567, 162.2865, 0.04951],
+    [166.5, 1.5298, 162.9161, 0.04933],
+    [167.5, 1.6011, 163.535, 0.04915],
+    [168.5, 1.6703, 164.1418, 0.04895],
+    [169.5, 1.7369, 164.7352, 0.04873],
+    [170.5, 1.8005, 165.314, 0.04851],
+    [171.5, 1.8605, 165.8771, 0.04827],
+    [172.5, 1.9168, 166.4236, 0.04802],
+    [173.5, 1.9689, 166.9528, 0.04777],
+    [174.5, 2.0167, 167.4641, 0.04751],
+    [175.5, 2.0602, 167.9571, 0.04724],
+    [176.5, 2.0987, 168.4313, 0.04697],
+    [177.5, 2.1327, 168.8867, 0.0467],
+    [178.5, 2.1617, 169.3231, 0.04643],
+    [179.5, 2.1857, 169.7405, 0.04616],
+    [180.5, 2.2053, 170.1393, 0.04589],
+    [181.5, 2.2197, 170.5195, 0.04562],
+    [182.5, 2.2296, 170.8815, 0.04536],
+    [183.5, 2.2349, 171.2257, 0.0451],
+    [184.5, 2.2358, 171.5525, 0.04485],
+    [185.5, 2.2326, 171.8626, 0.0446],
+    [186.5, 2.2253, 172.1563, 0.04436],
+    [187.5, 2.2143, 172.4343, 0.04413],
+    [188.5, 2.1999, 172.6972, 0.04391],
+    [189.5, 2.1823, 172.9456, 0.04369],
+    [190.5, 2.1616, 173.1801, 0.04348],
+    [191.5, 2.1385, 173.4014, 0.04328],
+    [192.5, 2.1131, 173.6101, 0.04309],
+    [193.5, 2.0854, 173.8067, 0.0429],
+    [194.5, 2.0562, 173.992, 0.04273],
+    [195.5, 2.0255, 174.1665, 0.04256],
+    [196.5, 1.9936, 174.3308, 0.0424],
+    [197.5, 1.9607, 174.4854, 0.04225],
+    [198.5, 1.9273, 174.631, 0.04211],
+    [199.5, 1.8935, 174.768, 0.04197],
+    [200.5, 1.8594, 174.8969, 0.04185],
+    [201.5, 1.8253, 175.0182, 0.04173],
+    [202.5, 1.7912, 175.1323, 0.04161],
+    [203.5, 1.7578, 175.2398, 0.04151],
+    [204.5, 1.7248, 175.341, 0.04141],
+    [205.5, 1.6923, 175.4362, 0.04132],
+    [206.5, 1.6606, 175.5259, 0.04123],
+    [207.5, 1.6298, 175.6104, 0.04115],
+    [208.5, 1.6, 175.6901, 0.04107],
+    [209.5, 1.5711, 175.7652, 0.041],
+    [210.5, 1.5433, 175.836, 0.04094],
+    [211.5, 1.5166, 175.9028, 0.04088],
+    [212.5, 1.4908, 175.9658, 0.04082],
+    [213.5, 1.4665, 176.0254, 0.04077],
+    [214.5, 1.4431, 176.0816, 0.04073],
+    [215.5, 1.4211, 176.1348, 0.04068],
+    [216.5, 1.4, 176.185, 0.04064],
+    [217.5, 1.3802, 176.2326, 0.04061],
+    [218.5, 1.3615, 176.2776, 0.04058],
+    [219.5, 1.3438, 176.3202, 0.04055],
+    [220.5, 1.3272, 176.3606, 0.04052],
+    [221.5, 1.3118, 176.3989, 0.0405],
+    [222.5, 1.2972, 176.4352, 0.04048],
+    [223.5, 1.2837, 176.4697, 0.04046],
+    [224.5, 1.271, 176.5024, 0.04044],
+    [225.5, 1.2593, 176.5335, 0.04042],
+    [226.5, 1.2484, 176.563, 0.04041],
+    [227.5, 1.2383, 176.5911, 0.0404],
+    [228.5, 1.2292, 176.6179, 0.04039],
+    [229.5, 1.2206, 176.6433, 0.04038],
+    [230.5, 1.2129, 176.6676, 0.04038],
+    [231.5, 1.2057, 176.6907, 0.04037],
+    [232.5, 1.1992, 176.7127, 0.04037],
+    [233.5, 1.1933, 176.7337, 0.04037],
+    [234.5, 1.1879, 176.7538, 0.04036],
+    [235.5, 1.1833, 176.773, 0.04036],
+    [236.5, 1.1789, 176.7913, 0.04036],
+    [237.5, 1.1751, 176.8088, 0.04036],
+    [238.5, 1.1716, 176.8255, 0.04037],
+    [239.5, 1.1686, 176.8415, 0.04037],
+    [240, 1.1672, 176.8492, 0.04037],
+  ],
+  female: [
+    [24, 1.0727, 84.9756, 0.04079],
+    [24.5, 1.0513, 85.3973, 0.04086],
+    [25.5, 1.0421, 86.2903, 0.04114],
+    [26.5, 1.0124, 87.1571, 0.04135],
+    [27.5, 0.9704, 87.996, 0.0415],
+    [28.5, 0.9212, 88.8055, 0.04161],
+    [29.5, 0.8684, 89.5848, 0.04169],
+    [30.5, 0.8145, 90.3334, 0.04175],
+    [31.5, 0.7618, 91.0515, 0.0418],
+    [32.5, 0.7115, 91.7396, 0.04185],
+    [33.5, 0.6641, 92.3985, 0.04189],
+    [34.5, 0.6205, 93.0295, 0.04193],
+    [35.5, 0.5796, 93.6338, 0.04197],
+    [36.5, 0.5422, 94.2134, 0.04202],
+    [37.5, 0.5113, 94.7964, 0.04211],
+    [38.5, 0.4828, 95.3739, 0.0422],
+    [39.5, 0.4554, 95.9469, 0.0423],
+    [40.5, 0.4288, 96.5164, 0.04241],
+    [41.5, 0.4034, 97.0834, 0.04251],
+    [42.5, 0.378, 97.6485, 0.04262],
+    [43.5, 0.3527, 98.2125, 0.04273],
+    [44.5, 0.3272, 98.7759, 0.04284],
+    [45.5, 0.302, 99.3394, 0.04295],
+    [46.5, 0.2766, 99.9033, 0.04305],
+    [47.5, 0.2514, 100.4681, 0.04316],
+    [48.5, 0.2256, 101.0339, 0.04326],
+    [49.5, 0.2004, 101.6012, 0.04336],
+    [50.5, 0.1748, 102.17, 0.04346],
+    [51.5, 0.1497, 102.7406, 0.04355],
+    [52.5, 0.1247, 103.313, 0.04364],
+    [53.5, 0.1001, 103.8873, 0.04373],
+    [54.5, 0.0759, 104.4635, 0.04382],
+    [55.5, 0.052, 105.0415, 0.0439],
+    [56.5, 0.0285, 105.6213, 0.04398],
+    [57.5, 0.0059, 106.2029, 0.04406],
+    [58.5, -0.0159, 106.7861, 0.04413],
+    [59.5, -0.0372, 107.3707, 0.04421],
+    [60.5, -0.0577, 107.9566, 0.04428],
+    [61.5, -0.0773, 108.5436, 0.04435],
+    [62.5, -0.0956, 109.1316, 0.04441],
+    [63.5, -0.113, 109.7202, 0.04447],
+    [64.5, -0.1296, 110.3092, 0.04454],
+    [65.5, -0.1451, 110.8984, 0.0446],
+    [66.5, -0.1591, 111.4876, 0.04465],
+    [67.5, -0.1722, 112.0764, 0.04471],
+    [68.5, -0.184, 112.6646, 0.04476],
+    [69.5, -0.1946, 113.2519, 0.04482],
+    [70.5, -0.204, 113.838, 0.04487],
+    [71.5, -0.2122, 114.4226, 0.04492],
+    [72.5, -0.2191, 115.0055, 0.04496],
+    [73.5, -0.2247, 115.5863, 0.04501],
+    [74.5, -0.2291, 116.1648, 0.04506],
+    [75.5, -0.2324, 116.7406, 0.0451],
+    [76.5, -0.2342, 117.3136, 0.04514],
+    [77.5, -0.2352, 117.8833, 0.04519],
+    [78.5, -0.235, 118.4496, 0.04523],
+    [79.5, -0.2331, 119.0123, 0.04527],
+    [80.5, -0.2306, 119.571, 0.04531],
+    [81.5, -0.2271, 120.1254, 0.04535],
+    [82.5, -0.2225, 120.6755, 0.04539],
+    [83.5, -0.2168, 121.221, 0.04542],
+    [84.5, -0.2101, 121.7617, 0.04546],
+    [85.5, -0.2026, 122.2974, 0.0455],
+    [86.5, -0.1944, 122.8279, 0.04554],
+    [87.5, -0.1854, 123.3531, 0.04558],
+    [88.5, -0.1758, 123.8728, 0.04562],
+    [89.5, -0.1655, 124.387, 0.04565],
+    [90.5, -0.1544, 124.8956, 0.0457],
+    [91.5, -0.1427, 125.3985, 0.04574],
+    [92.5, -0.1308, 125.8956, 0.04578],
+    [93.5, -0.1184, 126.3869, 0.04582],
+    [94.5, -0.1058, 126.8724, 0.04587],
+    [95.5, -0.0926, 127.3522, 0.04592],
+    [96.5, -0.0792, 127.8263, 0.04597],
+    [97.5, -0.0658, 128.2947, 0.04602],
+    [98.5, -0.0523, 128.7576, 0.04608],
+    [99.5, -0.0384, 129.2152, 0.04614],
+    [100.5, -0.0248, 129.6675, 0.0462],
+    [101.5, -0.0111, 130.1148, 0.04627],
+    [102.5, 0.0028, 130.5574, 0.04634],
+    [103.5, 0.0164, 130.9954, 0.04642],
+    [104.5, 0.0301, 131.4293, 0.0465],
+    [105.5, 0.0436, 131.8593, 0.04659],
+    [106.5, 0.0573, 132.2859, 0.04668],
+    [107.5, 0.0707, 132.7094, 0.04678],
+    [108.5, 0.0843, 133.1304, 0.04688],
+    [109.5, 0.0978, 133.5493, 0.047],
+    [110.5, 0.1115, 133.9667, 0.04712],
+    [111.5, 0.1253, 134.3832, 0.04724],
+    [112.5, 0.1396, 134.7995, 0.04738],
+    [113.5, 0.1545, 135.2163, 0.04752],
+    [114.5, 0.1698, 135.6342, 0.04767],
+    [115.5, 0.1859, 136.054, 0.04783],
+    [116.5, 0.203, 136.4766, 0.04799],
+    [117.5, 0.2212, 136.9027, 0.04816],
+    [118.5, 0.2408, 137.3333, 0.04834],
+    [119.5, 0.2618, 137.7691, 0.04852],
+    [120.5, 0.2848, 138.2112, 0.04871],
+    [121.5, 0.3095, 138.6602, 0.04889],
+    [122.5, 0.3366, 139.1172, 0.04908],
+    [123.5, 0.3659, 139.5829, 0.04927],
+    [124.5, 0.3977, 140.0581, 0.04946],
+    [125.5, 0.4321, 140.5435, 0.04964],
+    [126.5, 0.4692, 141.0397, 0.04981],
+    [127.5, 0.509, 141.5472, 0.04998],
+    [128.5, 0.5514, 142.0664, 0.05013],
+    [129.5, 0.5963, 142.5974, 0.05026],
+    [130.5, 0.6438, 143.1404, 0.05037],
+    [131.5, 0.693, 143.695, 0.05046],
+    [132.5, 0.7442, 144.2609, 0.05053],
+    [133.5, 0.7969, 144.8376, 0.05056],
+    [134.5, 0.8504, 145.424, 0.05056],
+    [135.5, 0.9044, 146.0192, 0.05053],
+    [136.5, 0.9582, 146.6217, 0.05046],
+    [137.5, 1.011, 147.23, 0.05035],
+    [138.5, 1.0625, 147.8424, 0.05021],
+    [139.5, 1.1118, 148.4569, 0.05003],
+    [140.5, 1.1581, 149.0714, 0.04981],
+    [141.5, 1.201, 149.6839, 0.04955],
+    [142.5, 1.2398, 150.292, 0.04926],
+    [143.5, 1.2739, 150.8936, 0.04895],
+    [144.5, 1.3031, 151.4866, 0.0486],
+    [145.5, 1.3266, 152.0687, 0.04823],
+    [146.5, 1.3444, 152.6381, 0.04785],
+    [147.5, 1.3565, 153.193, 0.04744],
+    [148.5, 1.3626, 153.7317, 0.04703],
+    [149.5, 1.363, 154.2529, 0.04662],
+    [150.5, 1.3582, 154.7555, 0.0462],
+    [151.5, 1.3483, 155.2385, 0.04578],
+    [152.5, 1.3337, 155.7012, 0.04538],
+    [153.5, 1.3153, 156.1432, 0.04498],
+    [154.5, 1.2936, 156.5643, 0.04459],
+    [155.5, 1.2692, 156.9644, 0.04422],
+    [156.5, 1.2429, 157.3437, 0.04386],
+    [157.5, 1.2154, 157.7025, 0.04352],
+    [158.5, 1.1869, 158.0411, 0.0432],
+    [159.5, 1.1585, 158.3603, 0.0429],
+    [160.5, 1.1305, 158.6606, 0.04262],
+    [161.5, 1.1031, 158.9427, 0.04236],
+    [162.5, 1.0771, 159.2075, 0.04212],
+    [163.5, 1.0524, 159.4557, 0.04189],
+    [164.5, 1.0295, 159.6882, 0.04168],
+    [165.5, 1.0083, 159.9058, 0.0415],
+    [166.5, 0.9892, 160.1094, 0.04132],
+    [167.5, 0.9718, 160.2997, 0.04117],
+    [168.5, 0.9566, 160.4777, 0.04102],
+    [169.5, 0.9434, 160.6441, 0.04089],
+    [170.5, 0.9317, 160.7995, 0.04078],
+    [171.5, 0.922, 160.9449, 0.04067],
+    [172.5, 0.914, 161.0808, 0.04057],
+    [173.5, 0.9076, 161.2079, 0.04049],
+    [174.5, 0.9025, 161.3268, 0.04041],
+    [175.5, 0.8988, 161.4381, 0.04034],
+    [176.5, 0.8962, 161.5423, 0.04028],
+    [177.5, 0.8946, 161.6399, 0.04022],
+    [178.5, 0.8942, 161.7315, 0.04017],
+    [179.5, 0.8946, 161.8174, 0.04013],
+    [180.5, 0.8956, 161.898, 0.04008],
+    [181.5, 0.8974, 161.9738, 0.04005],
+    [182.5, 0.8997, 162.045, 0.04002],
+    [183.5, 0.9024, 162.112, 0.03999],
+    [184.5, 0.9058, 162.1752, 0.03996],
+    [185.5, 0.9095, 162.2347, 0.03994],
+    [186.5, 0.9132, 162.2908, 0.03991],
+    [187.5, 0.9178, 162.3439, 0.03989],
+    [188.5, 0.9221, 162.394, 0.03988],
+    [189.5, 0.9268, 162.4414, 0.03986],
+    [190.5, 0.9314, 162.4862, 0.03985],
+    [191.5, 0.9363, 162.5287, 0.03983],
+    [192.5, 0.9411, 162.569, 0.03982],
+    [193.5, 0.946, 162.6072, 0.03981],
+    [194.5, 0.951, 162.6435, 0.0398],
+    [195.5, 0.9563, 162.6781, 0.03979],
+    [196.5, 0.9612, 162.7109, 0.03978],
+    [197.5, 0.966, 162.7421, 0.03977],
+    [198.5, 0.9711, 162.7719, 0.03977],
+    [199.5, 0.9758, 162.8002, 0.03976],
+    [200.5, 0.9809, 162.8273, 0.03975],
+    [201.5, 0.9856, 162.8531, 0.03975],
+    [202.5, 0.9904, 162.8778, 0.03974],
+    [203.5, 0.9949, 162.9013, 0.03974],
+    [204.5, 0.9994, 162.9238, 0.03973],
+    [205.5, 1.004, 162.9454, 0.03973],
+    [206.5, 1.0083, 162.966, 0.03972],
+    [207.5, 1.0128, 162.9858, 0.03972],
+    [208.5, 1.017, 163.0047, 0.03972],
+    [209.5, 1.0211, 163.0228, 0.03971],
+    [210.5, 1.0252, 163.0402, 0.03971],
+    [211.5, 1.0292, 163.0569, 0.0397],
+    [212.5, 1.0331, 163.0729, 0.0397],
+    [213.5, 1.0366, 163.0882, 0.0397],
+    [214.5, 1.0405, 163.103, 0.03969],
+    [215.5, 1.0441, 163.1172, 0.03969],
+    [216.5, 1.0476, 163.1308, 0.03969],
+    [217.5, 1.0511, 163.1439, 0.03969],
+    [218.5, 1.0544, 163.1565, 0.03968],
+    [219.5, 1.0577, 163.1686, 0.03968],
+    [220.5, 1.0607, 163.1802, 0.03968],
+    [221.5, 1.0638, 163.1914, 0.03967],
+    [222.5, 1.0668, 163.2022, 0.03967],
+    [223.5, 1.0699, 163.2126, 0.03967],
+    [224.5, 1.0727, 163.2226, 0.03967],
+    [225.5, 1.0755, 163.2322, 0.03966],
+    [226.5, 1.0782, 163.2415, 0.03966],
+    [227.5, 1.0808, 163.2504, 0.03966],
+    [228.5, 1.0833, 163.259, 0.03966],
+    [229.5, 1.0858, 163.2673, 0.03966],
+    [230.5, 1.0883, 163.2753, 0.03965],
+    [231.5, 1.0906, 163.283, 0.03965],
+    [232.5, 1.0929, 163.2904, 0.03965],
+    [233.5, 1.0952, 163.2976, 0.03965],
+    [234.5, 1.0974, 163.3045, 0.03965],
+    [235.5, 1.0993, 163.3111, 0.03964],
+    [236.5, 1.1013, 163.3175, 0.03964],
+    [237.5, 1.1033, 163.3237, 0.03964],
+    [238.5, 1.1052, 163.3297, 0.03964],
+    [239.5, 1.107, 163.3354, 0.03964],
+    [240, 1.1082, 163.3383, 0.03964],
+  ],
+};
+
+// BMI-for-age (kg/m²), from bmiagerev
+export const CDC_BMI_FOR_AGE: SexSpecificTable = {
+  male: [
+    [24, -2.0114, 16.575, 0.08059],
+    [24.5, -1.9822, 16.5478, 0.08013],
+    [25.5, -1.9244, 16.4944, 0.07923],
+    [26.5, -1.8655, 16.4426, 0.07839],
+    [27.5, -1.8077, 16.3922, 0.07759],
+    [28.5, -1.7504, 16.3433, 0.07685],
+    [29.5, -1.6952, 16.2958, 0.07615],
+    [30.5, -1.6424, 16.2497, 0.0755],
+    [31.5, -1.5921, 16.205, 0.0749],
+    [32.5, -1.5475, 16.1615, 0.07435],
+    [33.5, -1.5073, 16.1193, 0.07385],
+    [34.5, -1.4719, 16.0784, 0.07339],
+    [35.5, -1.4423, 16.0388, 0.07299],
+    [36.5, -1.42, 16.0003, 0.07263],
+    [37.5, -1.4046, 15.963, 0.07233],
+    [38.5, -1.3955, 15.927, 0.07207],
+    [39.5, -1.3951, 15.892, 0.07186],
+    [40.5, -1.4023, 15.8582, 0.07169],
+    [41.5, -1.416, 15.8256, 0.07157],
+    [42.5, -1.4378, 15.7941, 0.07149],
+    [43.5, -1.4681, 15.7636, 0.07146],
+    [44.5, -1.5047, 15.7343, 0.07147],
+    [45.5, -1.5484, 15.7061, 0.07152],
+    [46.5, -1.5984, 15.679, 0.07161],
+    [47.5, -1.6533, 15.6531, 0.07173],
+    [48.5, -1.7147, 15.6282, 0.07189],
+    [49.5, -1.7808, 15.6044, 0.07208],
+    [50.5, -1.8501, 15.5818, 0.07231],
+    [51.5, -1.923, 15.5603, 0.07256],
+    [52.5, -1.9989, 15.5399, 0.07284],
+    [53.5, -2.077, 15.5206, 0.07315],
+    [54.5, -2.1551, 15.5026, 0.07349],
+    [55.5, -2.2343, 15.4857, 0.07385],
+    [56.5, -2.3131, 15.47, 0.07424],
+    [57.5, -2.3911, 15.4555, 0.07464],
+    [58.5, -2.4685, 15.4421, 0.07507],
+    [59.5, -2.5431, 15.43, 0.07552],
+    [60.5, -2.6154, 15.4191, 0.07599],
+    [61.5, -2.6842, 15.4095, 0.07648],
+    [62.5, -2.7515, 15.401, 0.07699],
+    [63.5, -2.8144, 15.3938, 0.07752],
+    [64.5, -2.8743, 15.3878, 0.07807],
+    [65.5, -2.9298, 15.3831, 0.07863],
+    [66.5, -2.9822, 15.3795, 0.07921],
+    [67.5, -3.0296, 15.3772, 0.07981],
+    [68.5, -3.0739, 15.3761, 0.08043],
+    [69.5, -3.1138, 15.3762, 0.08106],
+    [70.5, -3.15, 15.3775, 0.08171],
+    [71.5, -3.183, 15.3799, 0.08237],
+    [72.5, -3.2119, 15.3835, 0.08305],
+    [73.5, -3.2369, 15.3883, 0.08374],
+    [74.5, -3.2589, 15.3942, 0.08445],
+    [75.5, -3.2769, 15.4013, 0.08517],
+    [76.5, -3.2929, 15.4094, 0.0859],
+    [77.5, -3.305, 15.4187, 0.08664],
+    [78.5, -3.315, 15.429, 0.0874],
+    [79.5, -3.3218, 15.4404, 0.08817],
+    [80.5, -3.3263, 15.4529, 0.08894],
+    [81.5, -3.3283, 15.4664, 0.08973],
+    [82.5, -3.3286, 15.4809, 0.09052],
+    [83.5, -3.3267, 15.4964, 0.09132],
+    [84.5, -3.323, 15.5129, 0.09213],
+    [85.5, -3.3179, 15.5303, 0.09295],
+    [86.5, -3.3106, 15.5488, 0.09377],
+    [87.5, -3.3026, 15.5681, 0.09459],
+    [88.5, -3.2931, 15.5884, 0.09542],
+    [89.5, -3.2823, 15.6096, 0.09625],
+    [90.5, -3.2705, 15.6317, 0.09708],
+    [91.5, -3.2576, 15.6547, 0.09792],
+    [92.5, -3.2443, 15.6785, 0.09875],
+    [93.5, -3.2299, 15.7032, 0.09959],
+    [94.5, -3.2146, 15.7288, 0.10042],
+    [95.5, -3.1992, 15.7551, 0.10126],
+    [96.5, -3.1829, 15.7823, 0.10209],
+    [97.5, -3.1665, 15.8103, 0.10292],
+    [98.5, -3.1498, 15.839, 0.10375],
+    [99.5, -3.1324, 15.8686, 0.10457],
+    [100.5, -3.1149, 15.8989, 0.10539],
+    [101.5, -3.0973, 15.9299, 0.1062],
+    [102.5, -3.0793, 15.9617, 0.10701],
+    [103.5, -3.0615, 15.9942, 0.10781],
+    [104.5, -3.0435, 16.0274, 0.10861],
+    [105.5, -3.0253, 16.0613, 0.1094],
+    [106.5, -3.0072, 16.0959, 0.11018],
+    [107.5, -2.9891, 16.1312, 0.11096],
+    [108.5, -2.9711, 16.1671, 0.11172],
+    [109.5, -2.9533, 16.2037, 0.11248],
+    [110.5, -2.9355, 16.2409, 0.11322],
+    [111.5, -2.9176, 16.2788, 0.11396],
+    [112.5, -2.9, 16.3173, 0.11469],
+    [113.5, -2.8825, 16.3564, 0.11541],
+    [114.5, -2.8653, 16.3961, 0.11611],
+    [115.5, -2.8484, 16.4363, 0.11681],
+    [116.5, -2.8313, 16.4772, 0.11749],
+    [117.5, -2.8146, 16.5186, 0.11817],
+    [118.5, -2.798, 16.5606, 0.11883],
+    [119.5, -2.7816, 16.6031, 0.11948],
+    [120.5, -2.7658, 16.6461, 0.12011],
+    [121.5, -2.7498, 16.6897, 0.12074],
+    [122.5, -2.7341, 16.7338, 0.12135],
+    [123.5, -2.7187, 16.7784, 0.12195],
+    [124.5, -2.7036, 16.8235, 0.12253],
+    [125.5, -2.6886, 16.8691, 0.12311],
+    [126.5, -2.674, 16.9151, 0.12366],
+    [127.5, -2.6596, 16.9616, 0.12421],
+    [128.5, -2.6453, 17.0086, 0.12474],
+    [129.5, -2.6312, 17.056, 0.12526],
+    [130.5, -2.6174, 17.1039, 0.12577],
+    [131.5, -2.6038, 17.1522, 0.12626],
+    [132.5, -2.5905, 17.2009, 0.12674],
+    [133.5, -2.5775, 17.25, 0.1272],
+    [134.5, -2.5647, 17.2995, 0.12765],
+    [135.5, -2.552, 17.3494, 0.12808],
+    [136.5, -2.5395, 17.3997, 0.12851],
+    [137.5, -2.5273, 17.4504, 0.12891],
+    [138.5, -2.5153, 17.5014, 0.12931],
+    [139.5, -2.5034, 17.5528, 0.12969],
+    [140.5, -2.4919, 17.6045, 0.13006],
+    [141.5, -2.4806, 17.6565, 0.13041],
+    [142.5, -2.4694, 17.7089, 0.13075],
+    [143.5, -2.4583, 17.7616, 0.13108],
+    [144.5, -2.4475, 17.8146, 0.13139],
+    [145.5, -2.4368, 17.8679, 0.13169],
+    [146.5, -2.4261, 17.9216, 0.13198],
+    [147.5, -2.416, 17.9754, 0.13225],
+    [148.5, -2.4057, 18.0296, 0.13251],
+    [149.5, -2.3957, 18.084, 0.13276],
+    [150.5, -2.3859, 18.1387, 0.13299],
+    [151.5, -2.376, 18.1937, 0.13321],
+    [152.5, -2.3666, 18.2488, 0.13342],
+    [153.5, -2.357, 18.3043, 0.13362],
+    [154.5, -2.3478, 18.3599, 0.13381],
+    [155.5, -2.3386, 18.4157, 0.13398],
+    [156.5, -2.3294, 18.4718, 0.13414],
+    [157.5, -2.3203, 18.5281, 0.13429],
+    [158.5, -2.3116, 18.5845, 0.13443],
+    [159.5, -2.3029, 18.6411, 0.13456],
+    [160.5, -2.2942, 18.6979, 0.13468],
+    [161.5, -2.2855, 18.7549, 0.13478],
+    [162.5, -2.277, 18.812, 0.13488],
+    [163.5, -2.2685, 18.8693, 0.13497],
+    [164.5, -2.2603, 18.9267, 0.13504],
+    [165.5, -2.252, 18.9842, 0.13511],
+    [166.5, -2.2437, 19.0419, 0.13516],
+    [167.5, -2.2355, 19.0997, 0.13521],
+    [168.5, -2.2274, 19.1576, 0.13525],
+    [169.5, -2.2193, 19.2156, 0.13528],
+    [170.5, -2.2111, 19.2737, 0.1353],
+    [171.5, -2.2033, 19.3318, 0.13532],
+    [172.5, -2.1952, 19.3901, 0.13532],
+    [173.5, -2.1873, 19.4484, 0.13532],
+    [174.5, -2.1795, 19.5067, 0.13531],
+    [175.5, -2.1716, 19.5651, 0.13529],
+    [176.5, -2.1637, 19.6236, 0.13527],
+    [177.5, -2.1558, 19.6821, 0.13524],
+    [178.5, -2.1479, 19.7406, 0.1352],
+    [179.5, -2.1402, 19.7991, 0.13516],
+    [180.5, -2.1322, 19.8577, 0.13511],
+    [181.5, -2.1245, 19.9162, 0.13506],
+    [182.5, -2.1168, 19.9747, 0.135],
+    [183.5, -2.109, 20.0332, 0.13493],
+    [184.5, -2.1012, 20.0917, 0.13487],
+    [185.5, -2.0933, 20.1502, 0.1348],
+    [186.5, -2.0855, 20.2086, 0.13472],
+    [187.5, -2.0779, 20.2669, 0.13464],
+    [188.5, -2.0701, 20.3252, 0.13455],
+    [189.5, -2.0621, 20.3835, 0.13447],
+    [190.5, -2.0545, 20.4416, 0.13438],
+    [191.5, -2.0467, 20.4997, 0.13429],
+    [192.5, -2.0391, 20.5576, 0.1342],
+    [193.5, -2.0313, 20.6155, 0.1341],
+    [194.5, -2.0236, 20.6733, 0.13401],
+    [195.5, -2.0159, 20.7309, 0.13391],
+    [196.5, -2.0083, 20.7884, 0.13382],
+    [197.5, -2.0008, 20.8457, 0.13372],
+    [198.5, -1.9933, 20.9029, 0.13362],
+    [199.5, -1.9856, 20.96, 0.13352],
+    [200.5, -1.9782, 21.0169, 0.13343],
+    [201.5, -1.9707, 21.0736, 0.13333],
+    [202.5, -1.9634, 21.1301, 0.13324],
+    [203.5, -1.9562, 21.1864, 0.13315],
+    [204.5, -1.9491, 21.2425, 0.13306],
+    [205.5, -1.942, 21.2984, 0.13297],
+    [206.5, -1.9352, 21.354, 0.13289],
+    [207.5, -1.9284, 21.4094, 0.1328],
+    [208.5, -1.9217, 21.4646, 0.13273],
+    [209.5, -1.9152, 21.5195, 0.13265],
+    [210.5, -1.9088, 21.5742, 0.13259],
+    [211.5, -1.9027, 21.6285, 0.13252],
+    [212.5, -1.8967, 21.6826, 0.13246],
+    [213.5, -1.8908, 21.7364, 0.13241],
+    [214.5, -1.8852, 21.7899, 0.13236],
+    [215.5, -1.8799, 21.843, 0.13232],
+    [216.5, -1.8746, 21.8959, 0.13229],
+    [217.5, -1.8697, 21.9484, 0.13226],
+    [218.5, -1.8651, 22.0005, 0.13224],
+    [219.5, -1.8607, 22.0523, 0.13223],
+    [220.5, -1.8566, 22.1037, 0.13223],
+    [221.5, -1.8527, 22.1548, 0.13223],
+    [222.5, -1.8494, 22.2054, 0.13225],
+    [223.5, -1.8461, 22.2557, 0.13227],
+    [224.5, -1.8434, 22.3055, 0.13231],
+    [225.5, -1.8407, 22.355, 0.13236],
+    [226.5, -1.8385, 22.404, 0.13242],
+    [227.5, -1.8366, 22.4526, 0.13249],
+    [228.5, -1.8352, 22.5007, 0.13257],
+    [229.5, -1.834, 22.5484, 0.13266],
+    [230.5, -1.833, 22.5957, 0.13277],
+    [231.5, -1.8328, 22.6424, 0.13289],
+    [232.5, -1.8327, 22.6887, 0.13302],
+    [233.5, -1.8328, 22.7346, 0.13317],
+    [234.5, -1.8334, 22.7799, 0.13334],
+    [235.5, -1.8344, 22.8247, 0.13352],
+    [236.5, -1.8355, 22.8691, 0.13372],
+    [237.5, -1.8372, 22.9129, 0.13393],
+    [238.5, -1.8389, 22.9563, 0.13416],
+    [239.5, -1.8411, 22.9991, 0.13441],
+    [240, -1.8423, 23.0203, 0.13454],
+    [240.5, -1.8436, 23.0414, 0.13467],
+  ],
+  female: [
+    [24, -0.9865, 16.4234, 0.08545],
+    [24.5, -1.0248, 16.388, 0.08503],
+    [25.5, -1.1024, 16.319, 0.08421],
+    [26.5, -1.1839, 16.2521, 0.08345],
+    [27.5, -1.2685, 16.1873, 0.08275],
+    [28.5, -1.3545, 16.1248, 0.08209],
+    [29.5, -1.4434, 16.0643, 0.08149],
+    [30.5, -1.5348, 16.0059, 0.08093],
+    [31.5, -1.6265, 15.9497, 0.08043],
+    [32.5, -1.7204, 15.8955, 0.07997],
+    [33.5, -1.8143, 15.8434, 0.07956],
+    [34.5, -1.9093, 15.7933, 0.07919],
+    [35.5, -2.003, 15.7453, 0.07888],
+    [36.5, -2.0973, 15.6992, 0.0786],
+    [37.5, -2.1895, 15.6552, 0.07838],
+    [38.5, -2.2802, 15.6132, 0.0782],
+    [39.5, -2.3684, 15.5732, 0.07806],
+    [40.5, -2.4547, 15.5351, 0.07797],
+    [41.5, -2.5386, 15.4989, 0.07791],
+    [42.5, -2.6188, 15.4647, 0.0779],
+    [43.5, -2.6954, 15.4324, 0.07794],
+    [44.5, -2.7688, 15.4019, 0.07801],
+    [45.5, -2.8369, 15.3734, 0.07813],
+    [46.5, -2.9022, 15.3466, 0.07828],
+    [47.5, -2.9624, 15.3217, 0.07848],
+    [48.5, -3.019, 15.2985, 0.07871],
+    [49.5, -3.0698, 15.2772, 0.07899],
+    [50.5, -3.1165, 15.2576, 0.0793],
+    [51.5, -3.1588, 15.2397, 0.07965],
+    [52.5, -3.1968, 15.2235, 0.08003],
+    [53.5, -3.2307, 15.2089, 0.08045],
+    [54.5, -3.259, 15.1961, 0.0809],
+    [55.5, -3.2842, 15.1848, 0.08139],
+    [56.5, -3.305, 15.1751, 0.08191],
+    [57.5, -3.3217, 15.167, 0.08246],
+    [58.5, -3.3345, 15.1605, 0.08305],
+    [59.5, -3.3442, 15.1554, 0.08366],
+    [60.5, -3.35, 15.1519, 0.0843],
+    [61.5, -3.3527, 15.1498, 0.08497],
+    [62.5, -3.3525, 15.1492, 0.08566],
+    [63.5, -3.3501, 15.1499, 0.08638],
+    [64.5, -3.3441, 15.1521, 0.08713],
+    [65.5, -3.3356, 15.1557, 0.08789],
+    [66.5, -3.3255, 15.1606, 0.08868],
+    [67.5, -3.3131, 15.1668, 0.08949],
+    [68.5, -3.2986, 15.1743, 0.09032],
+    [69.5, -3.2827, 15.1831, 0.09116],
+    [70.5, -3.2652, 15.1931, 0.09203],
+    [71.5, -3.246, 15.2044, 0.09291],
+    [72.5, -3.2256, 15.2169, 0.0938],
+    [73.5, -3.204, 15.2306, 0.09471],
+    [74.5, -3.1817, 15.2454, 0.09563],
+    [75.5, -3.1584, 15.2614, 0.09657],
+    [76.5, -3.1345, 15.2785, 0.09751],
+    [77.5, -3.1094, 15.2968, 0.09846],
+    [78.5, -3.0841, 15.3161, 0.09943],
+    [79.5, -3.0587, 15.3364, 0.1004],
+    [80.5, -3.0322, 15.3579, 0.10137],
+    [81.5, -3.0061, 15.3803, 0.10236],
+    [82.5, -2.9797, 15.4037, 0.10334],
+    [83.5, -2.9528, 15.4282, 0.10433],
+    [84.5, -2.9261, 15.4536, 0.10532],
+    [85.5, -2.8995, 15.4799, 0.10632],
+    [86.5, -2.8727, 15.5072, 0.10732],
+    [87.5, -2.8461, 15.5354, 0.10831],
+    [88.5, -2.8198, 15.5644, 0.10931],
+    [89.5, -2.7934, 15.5944, 0.1103],
+    [90.5, -2.7673, 15.6252, 0.11129],
+    [91.5, -2.7417, 15.6568, 0.11228],
+    [92.5, -2.716, 15.6893, 0.11327],
+    [93.5, -2.6906, 15.7226, 0.11425],
+    [94.5, -2.6659, 15.7566, 0.11523],
+    [95.5, -2.6415, 15.7914, 0.11619],
+    [96.5, -2.6172, 15.827, 0.11716],
+    [97.5, -2.5934, 15.8633, 0.11812],
+    [98.5, -2.5702, 15.9003, 0.11906],
+    [99.5, -2.5472, 15.938, 0.12],
+    [100.5, -2.5247, 15.9764, 0.12093],
+    [101.5, -2.5024, 16.0155, 0.12186],
+    [102.5, -2.4809, 16.0552, 0.12277],
+    [103.5, -2.4598, 16.0955, 0.12367],
+    [104.5, -2.4389, 16.1365, 0.12457],
+    [105.5, -2.4188, 16.178, 0.12545],
+    [106.5, -2.3991, 16.2201, 0.12631],
+    [107.5, -2.3799, 16.2628, 0.12717],
+    [108.5, -2.3609, 16.3061, 0.12801],
+    [109.5, -2.3425, 16.3499, 0.12884],
+    [110.5, -2.3246, 16.3942, 0.12966],
+    [111.5, -2.3072, 16.439, 0.13047],
+    [112.5, -2.2903, 16.4843, 0.13126],
+    [113.5, -2.2739, 16.53, 0.13203],
+    [114.5, -2.2577, 16.5763, 0.1328],
+    [115.5, -2.2423, 16.6229, 0.13354],
+    [116.5, -2.2271, 16.67, 0.13428],
+    [117.5, -2.2125, 16.7175, 0.135],
+    [118.5, -2.1983, 16.7654, 0.1357],
+    [119.5, -2.1845, 16.8137, 0.13639],
+    [120.5, -2.1713, 16.8623, 0.13706],
+    [121.5, -2.1584, 16.9113, 0.13771],
+    [122.5, -2.1461, 16.9606, 0.13835],
+    [123.5, -2.134, 17.0103, 0.13898],
+    [124.5, -2.1225, 17.0602, 0.13959],
+    [125.5, -2.1114, 17.1105, 0.14018],
+    [126.5, -2.1007, 17.161, 0.14075],
+    [127.5, -2.0905, 17.2117, 0.14131],
+    [128.5, -2.0805, 17.2628, 0.14186],
+    [129.5, -2.0712, 17.314, 0.14238],
+    [130.5, -2.0621, 17.3655, 0.1429],
+    [131.5, -2.0535, 17.4172, 0.14339],
+    [132.5, -2.0452, 17.4691, 0.14387],
+    [133.5, -2.0374, 17.5211, 0.14433],
+    [134.5, -2.0299, 17.5733, 0.14478],
+    [135.5, -2.0228, 17.6257, 0.14521],
+    [136.5, -2.0161, 17.6782, 0.14562],
+    [137.5, -2.0098, 17.7308, 0.14602],
+    [138.5, -2.0037, 17.7836, 0.1464],
+    [139.5, -1.9981, 17.8364, 0.14677],
+    [140.5, -1.993, 17.8893, 0.14712],
+    [141.5, -1.988, 17.9423, 0.14745],
+    [142.5, -1.9836, 17.9953, 0.14777],
+    [143.5, -1.9793, 18.0484, 0.14807],
+    [144.5, -1.9755, 18.1015, 0.14836],
+    [145.5, -1.972, 18.1546, 0.14864],
+    [146.5, -1.9689, 18.2077, 0.14889],
+    [147.5, -1.9659, 18.2609, 0.14914],
+    [148.5, -1.9636, 18.3139, 0.14937],
+    [149.5, -1.9614, 18.367, 0.14958],
+    [150.5, -1.9595, 18.42, 0.14978],
+    [151.5, -1.958, 18.473, 0.14997],
+    [152.5, -1.9567, 18.5259, 0.15014],
+    [153.5, -1.9558, 18.5787, 0.1503],
+    [154.5, -1.9553, 18.6314, 0.15045],
+    [155.5, -1.9549, 18.684, 0.15058],
+    [156.5, -1.955, 18.7364, 0.15071],
+    [157.5, -1.9553, 18.7888, 0.15081],
+    [158.5, -1.9558, 18.841, 0.15091],
+    [159.5, -1.9568, 18.893, 0.15099],
+    [160.5, -1.9579, 18.9449, 0.15107],
+    [161.5, -1.9593, 18.9966, 0.15113],
+    [162.5, -1.9611, 19.0481, 0.15118],
+    [163.5, -1.9631, 19.0994, 0.15122],
+    [164.5, -1.9654, 19.1505, 0.15124],
+    [165.5, -1.9679, 19.2014, 0.15126],
+    [166.5, -1.9708, 19.252, 0.15127],
+    [167.5, -1.9738, 19.3024, 0.15127],
+    [168.5, -1.9771, 19.3526, 0.15126],
+    [169.5, -1.9807, 19.4024, 0.15124],
+    [170.5, -1.9845, 19.452, 0.15121],
+    [171.5, -1.9884, 19.5014, 0.15117],
+    [172.5, -1.9927, 19.5504, 0.15112],
+    [173.5, -1.9972, 19.5991, 0.15107],
+    [174.5, -2.002, 19.6475, 0.15101],
+    [175.5, -2.007, 19.6955, 0.15094],
+    [176.5, -2.0122, 19.7432, 0.15087],
+    [177.5, -2.0176, 19.7906, 0.15079],
+    [178.5, -2.0232, 19.8376, 0.1507],
+    [179.5, -2.0289, 19.8843, 0.15061],
+    [180.5, -2.0349, 19.9306, 0.15051],
+    [181.5, -2.041, 19.9765, 0.15041],
+    [182.5, -2.0473, 20.022, 0.1503],
+    [183.5, -2.054, 20.067, 0.15019],
+    [184.5, -2.0607, 20.1117, 0.15008],
+    [185.5, -2.0674, 20.156, 0.14996],
+    [186.5, -2.0745, 20.1998, 0.14984],
+    [187.5, -2.0816, 20.2432, 0.14972],
+    [188.5, -2.0889, 20.2861, 0.1496],
+    [189.5, -2.0963, 20.3286, 0.14947],
+    [190.5, -2.1039, 20.3706, 0.14934],
+    [191.5, -2.1114, 20.4122, 0.14922],
+    [192.5, -2.1191, 20.4533, 0.14909],
+    [193.5, -2.127, 20.4938, 0.14896],
+    [194.5, -2.1349, 20.5339, 0.14884],
+    [195.5, -2.1428, 20.5735, 0.14871],
+    [196.5, -2.1508, 20.6126, 0.14859],
+    [197.5, -2.1589, 20.6511, 0.14847],
+    [198.5, -2.1671, 20.6891, 0.14835],
+    [199.5, -2.1751, 20.7266, 0.14823],
+    [200.5, -2.1833, 20.7636, 0.14812],
+    [201.5, -2.1915, 20.7999, 0.14801],
+    [202.5, -2.1996, 20.8358, 0.14791],
+    [203.5, -2.2077, 20.8711, 0.14782],
+    [204.5, -2.2157, 20.9058, 0.14772],
+    [205.5, -2.2237, 20.9399, 0.14764],
+    [206.5, -2.2317, 20.9734, 0.14756],
+    [207.5, -2.2395, 21.0064, 0.14749],
+    [208.5, -2.2473, 21.0387, 0.14742],
+    [209.5, -2.2548, 21.0705, 0.14737],
+    [210.5, -2.2624, 21.1016, 0.14732],
+    [211.5, -2.2697, 21.1322, 0.14729],
+    [212.5, -2.2769, 21.1621, 0.14726],
+    [213.5, -2.284, 21.1913, 0.14725],
+    [214.5, -2.2907, 21.22, 0.14724],
+    [215.5, -2.2973, 21.248, 0.14725],
+    [216.5, -2.3037, 21.2753, 0.14727],
+    [217.5, -2.3098, 21.302, 0.1473],
+    [218.5, -2.3156, 21.3281, 0.14735],
+    [219.5, -2.3212, 21.3534, 0.14741],
+    [220.5, -2.3264, 21.3781, 0.14749],
+    [221.5, -2.3315, 21.4021, 0.14758],
+    [222.5, -2.336, 21.4255, 0.14769],
+    [223.5, -2.3403, 21.4481, 0.14782],
+    [224.5, -2.3442, 21.4701, 0.14796],
+    [225.5, -2.3477, 21.4913, 0.14812],
+    [226.5, -2.3508, 21.5119, 0.1483],
+    [227.5, -2.3535, 21.5317, 0.1485],
+    [228.5, -2.3557, 21.5508, 0.14872],
+    [229.5, -2.3575, 21.5692, 0.14897],
+    [230.5, -2.3588, 21.5869, 0.14923],
+    [231.5, -2.3596, 21.6038, 0.14952],
+    [232.5, -2.3599, 21.62, 0.14983],
+    [233.5, -2.3597, 21.6354, 0.15016],
+    [234.5, -2.3589, 21.6501, 0.15052],
+    [235.5, -2.3577, 21.664, 0.15091],
+    [236.5, -2.3559, 21.6771, 0.15132],
+    [237.5, -2.3535, 21.6895, 0.15175],
+    [238.5, -2.3505, 21.7011, 0.15222],
+    [239.5, -2.347, 21.7119, 0.15272],
+    [240, -2.345, 21.717, 0.15297],
+    [240.5, -2.3428, 21.7219, 0.15324],
+  ],
+};
@@ -0,0 +1,288 @@
+// Growth Assessment: LMS Z-Scores, Percentiles and Chart Curves
+import { LmsRow, SexSpecificTable, WHO_BMI_FOR_AGE, WHO_HEAD_CIRCUMFERENCE_FOR_AGE, WHO_LENGTH_FOR_AGE, WHO_WEIGHT_FOR_AGE, WHO_WEIGHT_FOR_LENGTH } from './growth-data';
+import { CDC_BMI_FOR_AGE, CDC_STATURE_FOR_AGE, CDC_WEIGHT_FOR_AGE } from './growth-data-cdc';
+
+export type Sex = 'male' | 'female';
+export type GrowthMeasure = 'weight-for-age' | 'length-for-age' | 'weight-for-length' | 'head-circumference-for-age' | 'bmi-for-age';
+export type GrowthSource = 'WHO' | 'CDC';
+
+export interface LmsParameters {
+  l: number;
+  m: number;
+  s: number;
+}
+
+export interface GrowthReference {
+  measure: GrowthMeasure;
+  source: GrowthSource;
+  // Age in months, or length in cm for weight-for-length
+  range: { min: number; max: number };
+  table: SexSpecificTable;
+}
+
+export const GROWTH_MEASURES: Record<GrowthMeasure, { label: string; unit: string; axis: 'age' | 'length' }> = {
+  'weight-for-age': { label: 'Weight-for-age', unit: 'kg', axis: 'age' },
+  'length-for-age': { label: 'Length/height-for-age', unit: 'cm', axis: 'age' },
+  'weight-for-length': { label: 'Weight-for-length', unit: 'kg', axis: 'length' },
+  'head-circumference-for-age': { label: 'Head circumference-for-age', unit: 'cm', axis: 'age' },
+  'bmi-for-age': { label: 'BMI-for-age', unit: 'kg/m²', axis: 'age' },
+};
+
+// WHO standards are used to 24 months and CDC 2000 references from 24 months to 20 years, as the CDC
+// recommends. The first matching entry wins, so 24 months is scored against WHO.
+export const GROWTH_REFERENCES: GrowthReference[] = [
+  { measure: 'weight-for-age', source: 'WHO', range: { min: 0, max: 24 }, table: WHO_WEIGHT_FOR_AGE },
+  { measure: 'length-for-age', source: 'WHO', range: { min: 0, max: 24 }, table: WHO_LENGTH_FOR_AGE },
+  { measure: 'weight-for-length', source: 'WHO', range: { min: 45, max: 110 }, table: WHO_WEIGHT_FOR_LENGTH },
+  { measure: 'head-circumference-for-age', source: 'WHO', range: { min: 0, max: 24 }, table: WHO_HEAD_CIRCUMFERENCE_FOR_AGE },
+  { measure: 'bmi-for-age', source: 'WHO', range: { min: 0, max: 24 }, table: WHO_BMI_FOR_AGE },
+  { measure: 'weight-for-age', source: 'CDC', range: { min: 24, max: 240 }, table: CDC_WEIGHT_FOR_AGE },
+  { measure: 'length-for-age', source: 'CDC', range: { min: 24, max: 240 }, table: CDC_STATURE_FOR_AGE },
+  { measure: 'bmi-for-age', source: 'CDC', range: { min: 24, max: 240 }, table: CDC_BMI_FOR_AGE },
+];
+
+// Percentile lines drawn on each source's published charts
+export const CHART_PERCENTILES: Record<GrowthSource, number[]> = {
+  WHO: [3, 15, 50, 85, 97],
+  CDC: [5, 10, 25, 50, 75, 90, 95],
+};
+
+// The WHO weight-for-length standard is for recumbent length under 2 years; no weight-for-height table is bundled
+const WEIGHT_FOR_LENGTH_MAX_AGE_MONTHS = 24;
+
+// WHO restricts the LMS skew beyond ±3 SD for these measures so extreme values are not compressed; CDC does not
+const RESTRICTED_MEASURES: GrowthMeasure[] = ['weight-for-age', 'weight-for-length', 'bmi-for-age'];
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export interface GrowthMeasurement {
+  ageMonths: number;
+  weightKg?: number;
+  // Recumbent length under 2 years, standing height after
+  lengthCm?: number;
+  headCircumferenceCm?: number;
+}
+
+export interface GrowthScore {
+  measure: GrowthMeasure;
+  source: GrowthSource;
+  // Age in months or length in cm, matching the measure's axis
+  x: number;
+  value: number;
+  zScore: number;
+  percentile: number;
+}
+
+export interface GrowthAssessment {
+  ageMonths: number;
+  bmi?: number;
+  scores: GrowthScore[];
+  // Measures that were supplied but could not be scored, with the reason
+  unavailable: Array<{ measure: GrowthMeasure; reason: string }>;
+}
+
+export class GrowthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GrowthError';
+  }
+}
+
+/**
+ * Age in months (fractional) between a birth date and a measurement date
+ */
+export function ageInMonths(birthDate: Date, measuredOn: Date): number {
+  const days = (measuredOn.getTime() - birthDate.getTime()) / 86_400_000;
+  if (!Number.isFinite(days) || days < 0) {
+    throw new GrowthError('Measurement date must be on or after the birth date');
+  }
+  return Math.round((days / DAYS_PER_MONTH) * 100) / 100;
+}
+
+/**
+ * Body mass index in kg/m²
+ */
+export function bodyMassIndex(weightKg: number, lengthCm: number): number {
+  return Math.round((weightKg / (lengthCm / 100) ** 2) * 100) / 100;
+}
+
+/**
+ * Z-score of a measurement from LMS parameters, with the WHO restricted adjustment beyond ±3 SD when requested
+ */
+export function lmsZScore(value: number, { l, m, s }: LmsParameters, restricted = false): number {
+  const z = l === 0 ? Math.log(value / m) / s : ((value / m) ** l - 1) / (l * s);
+  if (!restricted || Math.abs(z) <= 3) {
+    return z;
+  }
+
+  const sd = (k: number) => lmsValueAtZ(k, { l, m, s });
+  return z > 3
+    ? 3 + (value - sd(3)) / (sd(3) - sd(2))
+    : -3 + (value - sd(-3)) / (sd(-2) - sd(-3));
+}
+
+/**
+ * Measurement value at a z-score, the inverse of lmsZScore
+ */
+export function lmsValueAtZ(z: number, { l, m, s }: LmsParameters): number {
+  return l === 0 ? m * Math.exp(s * z) : m * (1 + l * s * z) ** (1 / l);
+}
+
+/**
+ * Percentile (0-100) of a z-score under the standard normal distribution
+ */
+export function zScoreToPercentile(z: number): number {
+  return 50 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Z-score of a percentile (0-100, exclusive)
+ */
+export function percentileToZScore(percentile: number): number {
+  if (!(percentile > 0 && percentile < 100)) {
+    throw new GrowthError('Percentile must be between 0 and 100');
+  }
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (zScoreToPercentile(mid) < percentile) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Find the bundled reference covering a measure at an age in months (or length in cm for weight-for-length)
+ */
+export function findGrowthReference(measure: GrowthMeasure, x: number): GrowthReference | undefined {
+  return GROWTH_REFERENCES.find(reference => reference.measure === measure && x >= reference.range.min && x <= reference.range.max);
+}
+
+/**
+ * Score one measurement against the bundled reference; throws GrowthError when no reference covers it
+ */
+export function scoreMeasurement(measure: GrowthMeasure, sex: Sex, x: number, value: number): GrowthScore {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new GrowthError(`${GROWTH_MEASURES[measure].label} value must be a positive number`);
+  }
+
+  const reference = findGrowthReference(measure, x);
+  if (!reference) {
+    const covered = GROWTH_REFERENCES.filter(candidate => candidate.measure === measure);
+    const axis = GROWTH_MEASURES[measure].axis === 'age' ? `age ${roundTo(x, 1)} months` : `length ${roundTo(x, 1)} cm`;
+    throw new GrowthError(covered.length === 0
+      ? `No ${GROWTH_MEASURES[measure].label.toLowerCase()} reference table is bundled`
+      : `${GROWTH_MEASURES[measure].label} reference covers ${covered.map(candidate => `${candidate.range.min}-${candidate.range.max} (${candidate.source})`).join(', ')}; ${axis} is outside it`);
+  }
+
+  const restricted = reference.source === 'WHO' && RESTRICTED_MEASURES.includes(measure);
+  const zScore = lmsZScore(value, interpolateLms(reference.table[sex], x), restricted);
+  return {
+    measure,
+    source: reference.source,
+    x,
+    value,
+    zScore: roundTo(zScore, 2),
+    percentile: roundTo(zScoreToPercentile(zScore), 1),
+  };
+}
+
+/**
+ * Score every measure that can be derived from a measurement. BMI is derived from weight and length.
+ */
+export function assessGrowth(measurement: GrowthMeasurement, sex: Sex): GrowthAssessment {
+  const { ageMonths, weightKg, lengthCm, headCircumferenceCm } = measurement;
+  if (!Number.isFinite(ageMonths) || ageMonths < 0) {
+    throw new GrowthError('Age must be a non-negative number of months');
+  }
+
+  const bmi = weightKg && lengthCm ? bodyMassIndex(weightKg, lengthCm) : undefined;
+  const candidates: Array<[GrowthMeasure, number, number | undefined]> = [
+    ['weight-for-age', ageMonths, weightKg],
+    ['length-for-age', ageMonths, lengthCm],
+    ['weight-for-length', lengthCm ?? NaN, lengthCm ? weightKg : undefined],
+    ['head-circumference-for-age', ageMonths, headCircumferenceCm],
+    ['bmi-for-age', ageMonths, bmi],
+  ];
+
+  const assessment: GrowthAssessment = { ageMonths, bmi, scores: [], unavailable: [] };
+  for (const [measure, x, value] of candidates) {
+    if (value === undefined) continue;
+    if (measure === 'weight-for-length' && ageMonths >= WEIGHT_FOR_LENGTH_MAX_AGE_MONTHS) {
+      assessment.unavailable.push({ measure, reason: `${GROWTH_MEASURES[measure].label} reference covers children under ${WEIGHT_FOR_LENGTH_MAX_AGE_MONTHS} months; age ${roundTo(ageMonths, 1)} months is outside it` });
+      continue;
+    }
+    try {
+      assessment.scores.push(scoreMeasurement(measure, sex, x, value));
+    } catch (error) {
+      if (!(error instanceof GrowthError)) throw error;
+      assessment.unavailable.push({ measure, reason: error.message });
+    }
+  }
+  return assessment;
+}
+
+/**
+ * Reference percentile curves for charting, one point per table row within each reference's range.
+ * Each point carries its source's chart percentiles unless a percentile list is given.
+ */
+export function growthCurves(measure: GrowthMeasure, sex: Sex, percentiles?: number[]): Array<{ x: number; source: GrowthSource; values: Record<number, number> }> {
+  return GROWTH_REFERENCES
+    .filter(reference => reference.measure === measure)
+    .flatMap(reference => {
+      const zScores = (percentiles ?? CHART_PERCENTILES[reference.source]).map(percentile => [percentile, percentileToZScore(percentile)] as const);
+      return reference.table[sex]
+        .filter(([x]) => x >= reference.range.min && x <= reference.range.max)
+        .map(([x, l, m, s]) => ({
+          x,
+          source: reference.source,
+          values: Object.fromEntries(zScores.map(([percentile, z]) => [percentile, roundTo(lmsValueAtZ(z, { l, m, s }), 2)])),
+        }));
+    });
+}
+
+/**
+ * A patient's series of measurements as chart points for one measure, ordered along the x axis
+ */
+export function growthSeries(measurements: GrowthMeasurement[], measure: GrowthMeasure): Array<{ x: number; value: number }> {
+  return measurements
+    .map(measurement => {
+      const { ageMonths, weightKg, lengthCm, headCircumferenceCm } = measurement;
+      switch (measure) {
+        case 'weight-for-age': return { x: ageMonths, value: weightKg };
+        case 'length-for-age': return { x: ageMonths, value: lengthCm };
+        case 'weight-for-length': return { x: lengthCm ?? NaN, value: ageMonths < WEIGHT_FOR_LENGTH_MAX_AGE_MONTHS ? weightKg : undefined };
+        case 'head-circumference-for-age': return { x: ageMonths, value: headCircumferenceCm };
+        case 'bmi-for-age': return { x: ageMonths, value: weightKg && lengthCm ? bodyMassIndex(weightKg, lengthCm) : undefined };
+      }
+    })
+    .filter((point): point is { x: number; value: number } => point.value !== undefined && Number.isFinite(point.x))
+    .sort((a, b) => a.x - b.x);
+}
+
+function interpolateLms(rows: LmsRow[], x: number): LmsParameters {
+  // Tables are monthly, half-monthly (CDC) or every 0.5 cm; values between rows are interpolated linearly
+  const upper = rows.findIndex(([rowX]) => rowX >= x);
+  const [x1, l1, m1, s1] = rows[upper === -1 ? rows.length - 1 : upper];
+  if (upper <= 0 || x1 === x) {
+    return { l: l1, m: m1, s: s1 };
+  }
+  const [x0, l0, m0, s0] = rows[upper - 1];
+  const t = (x - x0) / (x1 - x0);
+  return { l: l0 + (l1 - l0) * t, m: m0 + (m1 - m0) * t, s: s0 + (s1 - s0) * t };
+}
+
+function erf(x: number): number {
+  // Abramowitz and Stegun 7.1.26, absolute error below 1.5e-7
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  const rounded = Math.round(value * factor) / factor;
+  // Normalizes -0 so a z-score just below zero reads as 0
+  return rounded === 0 ? 0 : rounded;
+}
@@ -0,0 +1,480 @@
+// Catch-Up Immunization Schedule: Dose Validity, Due and Overdue Series and Earliest Next Dates (CDC Catch-Up Rules)
+export type VaccineId = 'hepb' | 'rv' | 'dtap' | 'hib' | 'pcv' | 'ipv' | 'mmr' | 'var' | 'hepa' | 'tdap' | 'hpv' | 'menacwy';
+export type SeriesStatus = 'complete' | 'due' | 'overdue' | 'upcoming' | 'not-recommended';
+export type DoseValidity = 'valid' | 'invalid' | 'extra';
+
+// Calendar arithmetic: months and years are calendar months and years, not 30 or 365 days
+export interface Duration {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+}
+
+export interface DoseGiven {
+  vaccine: VaccineId;
+  // YYYY-MM-DD
+  date: string;
+  // Brand or product code where it changes the series, e.g. 'RV1' (Rotarix)
+  product?: string;
+}
+
+export interface ImmunizationInput {
+  dateOfBirth: string;
+  doses: DoseGiven[];
+  // Date to assess against; defaults to today
+  asOf?: string;
+}
+
+export interface DoseRule {
+  minAge: Duration;
+  // From the previous valid dose
+  minInterval?: Duration;
+  minIntervalFromFirst?: Duration;
+  // Do not give this dose after this age
+  maxAge?: Duration;
+  // Start and end of the routine schedule window
+  recommendedAge: Duration;
+  overdueAge?: Duration;
+}
+
+export interface SeriesContext {
+  dob: Date;
+  // Date the plan is made for: the dose being checked, or the assessment date
+  at: Date;
+  validDoses: Array<{ date: Date; product?: string }>;
+}
+
+export interface VaccineSeries {
+  id: VaccineId;
+  name: string;
+  live?: boolean;
+  // Not recommended for healthy children from this age
+  maxAge?: Duration;
+  maxAgeNote?: string;
+  // Doses still make up the series given what has been validly given so far
+  plan: (context: SeriesContext) => DoseRule[];
+  notes: string[];
+}
+
+export interface DoseEvaluation {
+  vaccine: VaccineId;
+  date: string;
+  product?: string;
+  // Position in the series, for valid doses
+  doseNumber?: number;
+  validity: DoseValidity;
+  reason?: string;
+}
+
+export interface NextDose {
+  doseNumber: number;
+  // Earliest valid date, never before the assessment date
+  earliestDate: string;
+  // Earliest date that is also within the routine schedule
+  dueDate: string;
+  overdueDate?: string;
+}
+
+export interface SeriesResult {
+  vaccine: VaccineId;
+  name: string;
+  status: SeriesStatus;
+  validDoses: number;
+  dosesNeeded: number;
+  nextDose?: NextDose;
+  notes: string[];
+}
+
+export interface ImmunizationSchedule {
+  dateOfBirth: string;
+  asOf: string;
+  ageMonths: number;
+  doses: DoseEvaluation[];
+  series: SeriesResult[];
+}
+
+export class ImmunizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImmunizationError';
+  }
+}
+
+export const IMMUNIZATION_CONFIG = {
+  // Doses up to 4 days before the minimum age or interval count as valid
+  GRACE_DAYS: 4,
+  // Live vaccines not given the same day must be 28 days apart; the grace period does not apply
+  LIVE_INTERVAL_DAYS: 28,
+  MAX_AGE_YEARS: 19,
+} as const;
+
+const fixed = (doses: DoseRule[]) => () => doses;
+
+const DTAP_DOSES: DoseRule[] = [
+  { minAge: { weeks: 6 }, recommendedAge: { months: 2 }, overdueAge: { months: 3 } },
+  { minAge: { weeks: 10 }, minInterval: { weeks: 4 }, recommendedAge: { months: 4 }, overdueAge: { months: 5 } },
+  { minAge: { weeks: 14 }, minInterval: { weeks: 4 }, recommendedAge: { months: 6 }, overdueAge: { months: 7 } },
+  { minAge: { months: 12 }, minInterval: { months: 6 }, recommendedAge: { months: 15 }, overdueAge: { months: 19 } },
+  { minAge: { years: 4 }, minInterval: { months: 6 }, recommendedAge: { years: 4 }, overdueAge: { years: 7 } },
+];
+
+const IPV_DOSES: DoseRule[] = [
+  { minAge: { weeks: 6 }, recommendedAge: { months: 2 }, overdueAge: { months: 3 } },
+  { minAge: { weeks: 10 }, minInterval: { weeks: 4 }, recommendedAge: { months: 4 }, overdueAge: { months: 5 } },
+  { minAge: { weeks: 14 }, minInterval: { weeks: 4 }, recommendedAge: { months: 6 }, overdueAge: { months: 19 } },
+  { minAge: { years: 4 }, minInterval: { months: 6 }, recommendedAge: { years: 4 }, overdueAge: { years: 7 } },
+];
+
+const RV_DOSES: DoseRule[] = [
+  { minAge: { weeks: 6 }, maxAge: { weeks: 14, days: 6 }, recommendedAge: { months: 2 }, overdueAge: { months: 3 } },
+  { minAge: { weeks: 10 }, minInterval: { weeks: 4 }, maxAge: { months: 8 }, recommendedAge: { months: 4 }, overdueAge: { months: 5 } },
+  { minAge: { weeks: 14 }, minInterval: { weeks: 4 }, maxAge: { months: 8 }, recommendedAge: { months: 6 }, overdueAge: { months: 7 } },
+];
+
+// Routine infant slots for Hib and PCV: 2, 4 and 6 months, then a booster at 12-15 months
+const CONJUGATE_SLOTS: Array<[number, number]> = [[2, 3], [4, 5], [6, 7], [12, 16]];
+
+export const VACCINE_SERIES: VaccineSeries[] = [
+  {
+    id: 'hepb',
+    name: 'Hepatitis B',
+    plan: fixed([
+      { minAge: {}, recommendedAge: {}, overdueAge: { months: 2 } },
+      { minAge: { weeks: 4 }, minInterval: { weeks: 4 }, recommendedAge: { months: 1 }, overdueAge: { months: 3 } },
+      { minAge: { weeks: 24 }, minInterval: { weeks: 8 }, minIntervalFromFirst: { weeks: 16 }, recommendedAge: { months: 6 }, overdueAge: { months: 19 } },
+    ]),
+    notes: [],
+  },
+  {
+    id: 'rv',
+    name: 'Rotavirus',
+    plan: ({ validDoses }) => {
+      const allRotarix = validDoses.length > 0 && validDoses.every(dose => /rv1|rotarix/i.test(dose.product ?? ''));
+      return RV_DOSES.slice(0, allRotarix ? 2 : 3);
+    },
+    notes: ['Two doses if every dose was Rotarix (RV1), otherwise three', 'Do not start at 15 weeks or older; no doses after 8 months'],
+  },
+  {
+    id: 'dtap',
+    name: 'DTaP',
+    maxAge: { years: 7 },
+    maxAgeNote: 'DTaP is not given from 7 years; catch up with Tdap/Td',
+    plan: ({ dob, validDoses }) => (
+      validDoses.length >= 4 && validDoses[3].date >= addDuration(dob, { years: 4 }) ? DTAP_DOSES.slice(0, 4) : DTAP_DOSES
+    ),
+    notes: ['Dose 5 is not needed if dose 4 was given at 4 years or older'],
+  },
+  {
+    id: 'hib',
+    name: 'Haemophilus influenzae type b (Hib)',
+    maxAge: { years: 5 },
+    maxAgeNote: 'Not routinely recommended for healthy children 5 years and older',
+    plan: context => conjugatePlan(context, 15, 'first'),
+    notes: ['Assumes a PRP-T product; PedvaxHIB (PRP-OMP) primary series is 2 doses'],
+  },
+  {
+    id: 'pcv',
+    name: 'Pneumococcal conjugate (PCV)',
+    maxAge: { years: 5 },
+    maxAgeNote: 'Not routinely recommended for healthy children 5 years and older',
+    plan: context => conjugatePlan(context, 24, 'previous'),
+    notes: ['Healthy children only; high-risk conditions need additional doses'],
+  },
+  {
+    id: 'ipv',
+    name: 'Inactivated poliovirus (IPV)',
+    plan: ({ dob, validDoses }) => {
+      const third = validDoses[2];
+      const thirdIsFinal = third !== undefined
+        && third.date >= addDuration(dob, { years: 4 })
+        && third.date >= addDuration(validDoses[1].date, { months: 6 });
+      return thirdIsFinal ? IPV_DOSES.slice(0, 3) : IPV_DOSES;
+    },
+    notes: ['Dose 4 is not needed if dose 3 was given at 4 years or older and at least 6 months after dose 2'],
+  },
+  {
+    id: 'mmr',
+    name: 'Measles, mumps, rubella (MMR)',
+    live: true,
+    plan: fixed([
+      { minAge: { months: 12 }, recommendedAge: { months: 12 }, overdueAge: { months: 16 } },
+      { minAge: { months: 13 }, minInterval: { weeks: 4 }, recommendedAge: { years: 4 }, overdueAge: { years: 7 } },
+    ]),
+    notes: ['Doses before 12 months (travel) do not count toward the series'],
+  },
+  {
+    id: 'var',
+    name: 'Varicella (VAR)',
+    live: true,
+    plan: ({ dob, at }) => [
+      { minAge: { months: 12 }, recommendedAge: { months: 12 }, overdueAge: { months: 16 } },
+      {
+        minAge: { months: 15 },
+        minInterval: at >= addDuration(dob, { years: 13 }) ? { weeks: 4 } : { months: 3 },
+        recommendedAge: { years: 4 },
+        overdueAge: { years: 7 },
+      },
+    ],
+    notes: ['Doses are 3 months apart under 13 years and 4 weeks apart from 13 years'],
+  },
+  {
+    id: 'hepa',
+    name: 'Hepatitis A',
+    plan: fixed([
+      { minAge: { months: 12 }, recommendedAge: { months: 12 }, overdueAge: { months: 24 } },
+      { minAge: { months: 18 }, minInterval: { months: 6 }, recommendedAge: { months: 18 }, overdueAge: { months: 24 } },
+    ]),
+    notes: [],
+  },
+  {
+    id: 'tdap',
+    name: 'Tdap (adolescent)',
+    plan: fixed([
+      { minAge: { years: 10 }, recommendedAge: { years: 11 }, overdueAge: { years: 13 } },
+    ]),
+    notes: ['Tdap given at 7-9 years does not replace the adolescent dose', 'Children 7 years and older with incomplete DTaP need a Tdap/Td catch-up series, not calculated here'],
+  },
+  {
+    id: 'hpv',
+    name: 'Human papillomavirus (HPV)',
+    plan: ({ dob, at, validDoses }) => {
+      const startedBefore15 = (validDoses[0]?.date ?? at) < addDuration(dob, { years: 15 });
+      const first: DoseRule = { minAge: { years: 9 }, recommendedAge: { years: 11 }, overdueAge: { years: 13 } };
+      return startedBefore15
+        ? [first, { minAge: {}, minInterval: { months: 5 }, recommendedAge: { years: 11 } }]
+        : [
+          first,
+          { minAge: {}, minInterval: { weeks: 4 }, recommendedAge: { years: 11 } },
+          { minAge: {}, minInterval: { weeks: 12 }, minIntervalFromFirst: { months: 5 }, recommendedAge: { years: 11 } },
+        ];
+    },
+    notes: ['Two doses if started before 15 years, otherwise three; immunocompromised patients need three'],
+  },
+  {
+    id: 'menacwy',
+    name: 'Meningococcal ACWY (MenACWY)',
+    plan: ({ dob, at, validDoses }) => {
+      const first: DoseRule = { minAge: { years: 10 }, recommendedAge: { years: 11 }, overdueAge: { years: 13 } };
+      const startedAt16 = (validDoses[0]?.date ?? at) >= addDuration(dob, { years: 16 });
+      return startedAt16
+        ? [first]
+        : [first, { minAge: { years: 16 }, minInterval: { weeks: 8 }, recommendedAge: { years: 16 }, overdueAge: { years: 17 } }];
+    },
+    notes: ['No booster needed if dose 1 was given at 16 years or older; high-risk schedules are not calculated here'],
+  },
+];
+
+/**
+ * Evaluate a vaccination history against the CDC catch-up rules: validity of each dose given,
+ * then the status and earliest next date of every series
+ */
+export function evaluateImmunizations(input: ImmunizationInput): ImmunizationSchedule {
+  const dob = parseDate(input.dateOfBirth, 'Date of birth');
+  const asOf = parseDate(input.asOf ?? new Date().toISOString().slice(0, 10), 'Assessment date');
+  if (asOf < dob) {
+    throw new ImmunizationError('Assessment date cannot be before the date of birth');
+  }
+  if (asOf >= addDuration(dob, { years: IMMUNIZATION_CONFIG.MAX_AGE_YEARS })) {
+    throw new ImmunizationError('The catch-up schedule covers children under 19 years');
+  }
+
+  const doses = input.doses
+    .map(dose => {
+      if (!VACCINE_SERIES.some(series => series.id === dose.vaccine)) {
+        throw new ImmunizationError(`Unknown vaccine: ${dose.vaccine}`);
+      }
+      const date = parseDate(dose.date, `${dose.vaccine} dose date`);
+      if (date < dob || date > asOf) {
+        throw new ImmunizationError(`${dose.vaccine} dose date ${dose.date} must be between the date of birth and the assessment date`);
+      }
+      return { ...dose, parsed: date };
+    })
+    .sort((a, b) => a.parsed.getTime() - b.parsed.getTime());
+
+  const evaluations: DoseEvaluation[] = [];
+  const series = VACCINE_SERIES.map(definition => {
+    const given = doses.filter(dose => dose.vaccine === definition.id);
+    const otherLive = definition.live
+      ? doses.filter(dose => dose.vaccine !== definition.id && VACCINE_SERIES.find(series => series.id === dose.vaccine)?.live)
+      : [];
+    const valid: SeriesContext['validDoses'] = [];
+
+    for (const dose of given) {
+      const evaluation: DoseEvaluation = { vaccine: dose.vaccine, date: dose.date, product: dose.product, validity: 'valid' };
+      const plan = definition.plan({ dob, at: dose.parsed, validDoses: valid });
+      if (valid.length >= plan.length) {
+        evaluations.push({ ...evaluation, validity: 'extra', reason: 'Series was already complete' });
+        continue;
+      }
+
+      const rule = plan[valid.length];
+      const minimum = minimumDate(rule, dob, valid);
+      const liveConflict = otherLive.find(other => {
+        const days = daysBetween(other.parsed, dose.parsed);
+        return days > 0 && days < IMMUNIZATION_CONFIG.LIVE_INTERVAL_DAYS;
+      });
+      if (dose.parsed < addDuration(minimum, { days: -IMMUNIZATION_CONFIG.GRACE_DAYS })) {
+        evaluations.push({ ...evaluation, validity: 'invalid', reason: `Given before the minimum age or interval; earliest valid date was ${formatDate(minimum)}` });
+      } else if (definition.maxAge && dose.parsed >= addDuration(dob, definition.maxAge)) {
+        evaluations.push({ ...evaluation, validity: 'invalid', reason: `Given past the age limit for this series: ${definition.maxAgeNote ?? 'does not count'}` });
+      } else if (rule.maxAge && dose.parsed > addDuration(dob, rule.maxAge)) {
+        evaluations.push({ ...evaluation, validity: 'invalid', reason: `Given after the maximum age for dose ${valid.length + 1} (${formatDate(addDuration(dob, rule.maxAge))})` });
+      } else if (liveConflict) {
+        evaluations.push({ ...evaluation, validity: 'invalid', reason: `Given ${daysBetween(liveConflict.parsed, dose.parsed)} days after ${liveConflict.vaccine.toUpperCase()}; live vaccines not given the same day must be 28 days apart` });
+      } else {
+        valid.push({ date: dose.parsed, product: dose.product });
+        evaluations.push({ ...evaluation, doseNumber: valid.length });
+      }
+    }
+
+    return assessSeries(definition, dob, asOf, valid, otherLive.map(dose => dose.parsed));
+  });
+
+  return {
+    dateOfBirth: input.dateOfBirth,
+    asOf: formatDate(asOf),
+    ageMonths: ageInMonths(dob, asOf),
+    doses: evaluations.sort((a, b) => a.date.localeCompare(b.date) || a.vaccine.localeCompare(b.vaccine)),
+    series,
+  };
+}
+
+function assessSeries(
+  definition: VaccineSeries,
+  dob: Date,
+  asOf: Date,
+  valid: SeriesContext['validDoses'],
+  otherLiveDates: Date[]
+): SeriesResult {
+  const plan = definition.plan({ dob, at: asOf, validDoses: valid });
+  const result: SeriesResult = {
+    vaccine: definition.id,
+    name: definition.name,
+    status: 'complete',
+    validDoses: valid.length,
+    dosesNeeded: plan.length,
+    notes: [...definition.notes],
+  };
+  if (valid.length >= plan.length) {
+    return result;
+  }
+
+  const rule = plan[valid.length];
+  let earliest = minimumDate(rule, dob, valid);
+  if (earliest < asOf) earliest = asOf;
+  for (const other of otherLiveDates) {
+    const blockedUntil = addDuration(other, { days: IMMUNIZATION_CONFIG.LIVE_INTERVAL_DAYS });
+    if (earliest > other && earliest < blockedUntil) earliest = blockedUntil;
+  }
+
+  if (definition.maxAge && earliest >= addDuration(dob, definition.maxAge)) {
+    return { ...result, status: 'not-recommended', notes: [definition.maxAgeNote ?? 'Past the age limit for this series', ...result.notes] };
+  }
+  if (rule.maxAge && earliest > addDuration(dob, rule.maxAge)) {
+    return { ...result, status: 'not-recommended', notes: [`Dose ${valid.length + 1} cannot be given after the maximum age`, ...result.notes] };
+  }
+
+  const recommended = addDuration(dob, rule.recommendedAge);
+  const due = earliest > recommended ? earliest : recommended;
+  const overdue = rule.overdueAge ? addDuration(dob, rule.overdueAge) : undefined;
+  const status: SeriesStatus = overdue && asOf > overdue ? 'overdue' : asOf >= due ? 'due' : 'upcoming';
+
+  return {
+    ...result,
+    status,
+    nextDose: {
+      doseNumber: valid.length + 1,
+      earliestDate: formatDate(earliest),
+      dueDate: formatDate(due),
+      overdueDate: overdue ? formatDate(overdue) : undefined,
+    },
+  };
+}
+
+// Hib and PCV: the number of doses depends on the age at the first dose and the current age; no further doses
+// once a dose is given at or after `completeAtMonths` (15 for Hib, 24 for PCV), and the final dose after a
+// primary series started in infancy is a booster at 12 months or older, 8 weeks after the previous dose
+function conjugatePlan(context: SeriesContext, completeAtMonths: number, lateInfantDose: 'first' | 'previous'): DoseRule[] {
+  const { dob, at, validDoses } = context;
+  const ages = validDoses.map(dose => ageInMonths(dob, dose.date));
+  const currentAge = ageInMonths(dob, at);
+  const needed = conjugateDosesNeeded(ages, currentAge, completeAtMonths, lateInfantDose);
+  const firstAfterInfancy = (ages[0] ?? currentAge) >= 12;
+
+  return Array.from({ length: needed }, (_, index) => {
+    const final = index === needed - 1;
+    const [recommended, overdue] = CONJUGATE_SLOTS[final && index > 0 ? 3 : index];
+    if (index === 0) {
+      return { minAge: { weeks: 6 }, recommendedAge: { months: recommended }, overdueAge: { months: overdue } };
+    }
+    const booster = final && (firstAfterInfancy || index >= 2);
+    return {
+      minAge: booster && index >= 2 ? { months: 12 } : { weeks: 6 },
+      minInterval: booster ? { weeks: 8 } : { weeks: 4 },
+      recommendedAge: { months: recommended },
+      overdueAge: { months: overdue },
+    };
+  });
+}
+
+function conjugateDosesNeeded(ages: number[], currentAge: number, completeAtMonths: number, lateInfantDose: 'first' | 'previous'): number {
+  if (ages.length === 0) {
+    return currentAge >= completeAtMonths ? 1 : currentAge >= 12 ? 2 : 4;
+  }
+  const [first] = ages;
+  if (first >= completeAtMonths) return 1;
+  if (first >= 12) return 2;
+
+  const completing = ages.findIndex((age, index) => index > 0 && (age >= completeAtMonths || (index >= 2 && age >= 12)));
+  if (completing !== -1) return completing + 1;
+  if (currentAge >= completeAtMonths) return ages.length + 1;
+
+  // Doses started late in infancy finish with a booster at 12 months instead of a third infant dose
+  const lateInfant = (lateInfantDose === 'first' ? first : ages[ages.length - 1]) >= 7;
+  return currentAge >= 12 || lateInfant ? Math.max(ages.length + 1, 3) : 4;
+}
+
+function minimumDate(rule: DoseRule, dob: Date, valid: SeriesContext['validDoses']): Date {
+  const candidates = [addDuration(dob, rule.minAge)];
+  const previous = valid[valid.length - 1];
+  if (rule.minInterval && previous) candidates.push(addDuration(previous.date, rule.minInterval));
+  if (rule.minIntervalFromFirst && valid[0]) candidates.push(addDuration(valid[0].date, rule.minIntervalFromFirst));
+  return new Date(Math.max(...candidates.map(date => date.getTime())));
+}
+
+function addDuration(date: Date, { years = 0, months = 0, weeks = 0, days = 0 }: Duration): Date {
+  const totalMonths = date.getUTCMonth() + years * 12 + months;
+  const year = date.getUTCFullYear() + Math.floor(totalMonths / 12);
+  const month = ((totalMonths % 12) + 12) % 12;
+  // Clamp to the end of a shorter month (Jan 31 + 1 month = Feb 28/29)
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const result = new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+  result.setUTCDate(result.getUTCDate() + weeks * 7 + days);
+  return result;
+}
+
+function ageInMonths(dob: Date, date: Date): number {
+  const months = (date.getUTCFullYear() - dob.getUTCFullYear()) * 12 + date.getUTCMonth() - dob.getUTCMonth();
+  return date.getUTCDate() < dob.getUTCDate() ? months - 1 : months;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 86_400_000);
+}
+
+function parseDate(value: string, label: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? '');
+  if (match) {
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+      return date;
+    }
+  }
+  throw new ImmunizationError(`${label} must be a valid date in YYYY-MM-DD format`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
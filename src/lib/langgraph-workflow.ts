@@ -2,7 +2,9 @@
 import { enhancedRAGPipeline, EnhancedRAGResult, MedicalContext } from './rag-pipeline';
 import { vectorDatabaseService } from './vector-database';
 import { embeddingService } from './embeddings';
-import { mistralService } from './mistral-service';
+import { llmProviderChain } from './llm-provider';
+import { buildMedicalMessages } from './medical-prompts';
+import { formatDecisionRules } from './decision-rules';
 import { geminiService } from './gemini-service';
 import { supabaseServiceBackend } from './supabase';
 import { securityService } from './security';
@@ -36,6 +38,7 @@ export interface EnhancedWorkflowState {
     confidence: number;
     reasoning: string;
     usage: any;
+    provider: string;
   };
   enhancedResponse?: {
     content: string;
@@ -88,6 +91,11 @@ export interface EnhancedWorkflowState {
   processingTime?: number;
 }
 
+type MedicalAnalysis = NonNullable<EnhancedWorkflowState['medicalAnalysis']>;
+type ClinicalAssessment = NonNullable<EnhancedWorkflowState['clinicalAssessment']>;
+type MedicalValidation = NonNullable<EnhancedWorkflowState['medicalValidation']>;
+type QualityCheck = NonNullable<EnhancedWorkflowState['qualityCheck']>;
+
 export interface EnhancedWorkflowNode {
   id: string;
   name: string;
@@ -104,6 +112,11 @@ export interface EnhancedWorkflowEdge {
   weight?: number;
 }
 
+export interface WorkflowExecutionOptions {
+  // Called after each node finishes, e.g. to stream progress to the client
+  onNodeComplete?: (node: EnhancedWorkflowNode, state: EnhancedWorkflowState, duration: number) => void;
+}
+
 export class EnhancedLangGraphWorkflow {
   private nodes: Map<string, EnhancedWorkflowNode> = new Map();
   private edges: EnhancedWorkflowEdge[] = [];
@@ -276,7 +289,7 @@ export class EnhancedLangGraphWorkflow {
     this.nodes.set('primary_response', {
       id: 'primary_response',
       name: 'Primary Medical Response',
-      description: 'Generate primary medical response using Mistral AI',
+      description: 'Generate primary medical response using the LLM provider chain',
       execute: async (state: EnhancedWorkflowState) => {
         try {
           const startTime = Date.now();
@@ -293,12 +306,17 @@ export class EnhancedLangGraphWorkflow {
           );
           
           // Generate primary response with reasoning context
-          const response = await mistralService.generateMedicalResponse({
-            query: state.query,
-            context: state.ragResult.enrichedContext,
-            clinicalAssessment: state.ragResult.clinicalAssessment,
-            sources: state.ragResult.sources.map(s => `${s.chapter}${s.section ? ` - ${s.section}` : ''}`),
+          const result = await llmProviderChain.chat({
+            messages: buildMedicalMessages({
+              query: state.query,
+              context: state.ragResult.enrichedContext,
+              clinicalAssessment: state.ragResult.clinicalAssessment,
+              decisionRules: formatDecisionRules(state.ragResult.decisionRules),
+              sources: state.ragResult.sources.map(s => `${s.chapter}${s.section ? ` - ${s.section}` : ''}`),
+            }),
+            temperature: 0.3,
           });
+          const response = { response: result.content, usage: result.usage };
           
           // Calculate confidence based on multiple factors
           const confidence = this.calculateResponseConfidence(
@@ -313,6 +331,7 @@ export class EnhancedLangGraphWorkflow {
               confidence,
               reasoning,
               usage: response.usage,
+              provider: result.provider,
             },
             processingSteps: [
               ...(state.processingSteps || []),
@@ -323,7 +342,8 @@ export class EnhancedLangGraphWorkflow {
                 details: {
                   responseLength: response.response.length,
                   confidence,
-                  tokensUsed: response.usage?.total_tokens || 0
+                  tokensUsed: response.usage?.total_tokens || 0,
+                  provider: result.provider
                 }
               }
             ]
@@ -532,16 +552,21 @@ export class EnhancedLangGraphWorkflow {
 
   private initializeEdges() {
     this.edges = [
-      { from: 'security_validation', to: 'query_analysis' },
-      { from: 'query_analysis', to: 'document_retrieval' },
-      { from: 'document_retrieval', to: 'clinical_assessment' },
-      { from: 'clinical_assessment', to: 'response_generation' },
-      { from: 'response_generation', to: 'quality_finalization' },
-      { from: 'quality_finalization', to: 'validation_completion' }
+      { from: 'security_validation', to: 'medical_analysis' },
+      { from: 'medical_analysis', to: 'document_retrieval' },
+      { from: 'document_retrieval', to: 'primary_response' },
+      { from: 'primary_response', to: 'enhanced_response' },
+      { from: 'enhanced_response', to: 'clinical_validation' },
+      { from: 'clinical_validation', to: 'quality_finalization' }
     ];
   }
 
-  async execute(query: string, medicalContext?: Partial<MedicalContext>, sessionId?: string): Promise<EnhancedWorkflowState> {
+  async execute(
+    query: string,
+    medicalContext?: Partial<MedicalContext>,
+    sessionId?: string,
+    options: WorkflowExecutionOptions = {}
+  ): Promise<EnhancedWorkflowState> {
     const state: EnhancedWorkflowState = { 
       query,
       medicalContext,
@@ -565,6 +590,7 @@ export class EnhancedLangGraphWorkflow {
         }
         
         console.log(`Executing node: ${node.name}`);
+        const nodeStart = Date.now();
         const result = await node.execute(state);
         
         // Update state with node results
@@ -574,6 +600,8 @@ export class EnhancedLangGraphWorkflow {
         if (state.error) {
           throw new Error(state.error);
         }
+
+        options.onNodeComplete?.(node, state, Date.now() - nodeStart);
         
         // Find next node
         const nextEdge = this.edges.find(edge => edge.from === currentNodeId);
@@ -769,7 +797,186 @@ Recommendation: ${confidence > 0.7 ? 'Sufficient information available for relia
     };
   }
 
-  async testWorkflow(): Promise<{ success: boolean; message: string; result?: WorkflowState }> {
+  private async performAdvancedMedicalAnalysis(
+    query: string,
+    medicalContext?: Partial<MedicalContext>
+  ): Promise<MedicalAnalysis> {
+    const lowerQuery = query.toLowerCase();
+    const urgencyLevel = medicalContext?.urgencyLevel || this.assessUrgency(query);
+    const ageGroup = medicalContext?.patientAge
+      || ['neonate', 'newborn', 'infant', 'toddler', 'child', 'adolescent'].find(group => lowerQuery.includes(group));
+    const riskFactors = ['immunocompromised', 'premature', 'preterm', 'chronic', 'congenital']
+      .filter(factor => lowerQuery.includes(factor));
+
+    return {
+      queryType: medicalContext?.queryType || this.classifyQueryType(query),
+      urgencyLevel,
+      specialties: medicalContext?.medicalSpecialties || [],
+      ageGroup,
+      clinicalSetting: medicalContext?.clinicalSetting || (urgencyLevel === 'critical' ? 'emergency' : 'primary_care'),
+      riskFactors,
+    };
+  }
+
+  private async enhanceQueryForRetrieval(query: string, analysis: MedicalAnalysis): Promise<string> {
+    return this.enhanceQuery(query, {
+      keywords: this.extractMedicalKeywords(query),
+      type: analysis.queryType,
+      urgency: analysis.urgencyLevel,
+    });
+  }
+
+  private async generateClinicalReasoning(
+    query: string,
+    ragResult: EnhancedRAGResult,
+    _analysis: MedicalAnalysis
+  ): Promise<string> {
+    const { assessment } = await this.performClinicalAssessment(query, ragResult.enrichedContext, ragResult.relevantDocuments);
+    return ragResult.clinicalAssessment ? `${assessment}\n\n${ragResult.clinicalAssessment}` : assessment;
+  }
+
+  private calculateResponseConfidence(ragResult: EnhancedRAGResult, response: string, analysis: MedicalAnalysis): number {
+    let confidence = ragResult.confidence;
+
+    if (response.length < 100) confidence -= 0.2;
+    if (!ragResult.metadata.medicalValidation.passed) confidence -= 0.1;
+    if (analysis.urgencyLevel === 'critical') confidence -= 0.05;
+
+    return Math.max(0, Math.min(confidence, 0.95));
+  }
+
+  private determineEnhancementType(analysis: MedicalAnalysis): 'summarization' | 'simplification' | 'expansion' | 'clinical_reasoning' {
+    if (analysis.urgencyLevel === 'critical' || analysis.queryType === 'emergency') return 'summarization';
+    if (analysis.queryType === 'diagnosis' || analysis.queryType === 'treatment') return 'clinical_reasoning';
+    return 'expansion';
+  }
+
+  private determineTargetAudience(analysis: MedicalAnalysis): 'clinicians' | 'students' | 'patients' {
+    return analysis.queryType === 'education' ? 'students' : 'clinicians';
+  }
+
+  private analyzeEnhancements(original: string, enhanced: string): string[] {
+    const improvements: string[] = [];
+    if (enhanced === original) return improvements;
+
+    if (enhanced.length > original.length * 1.2) improvements.push('Expanded detail');
+    if (enhanced.length < original.length * 0.8) improvements.push('Condensed for clarity');
+    if ((enhanced.match(/^\s*[-*\d]/gm) || []).length > (original.match(/^\s*[-*\d]/gm) || []).length) {
+      improvements.push('Added structure');
+    }
+    return improvements.length > 0 ? improvements : ['Reworded'];
+  }
+
+  private async performComprehensiveClinicalAssessment(
+    query: string,
+    response: string,
+    ragResult: EnhancedRAGResult,
+    analysis: MedicalAnalysis
+  ): Promise<ClinicalAssessment> {
+    const validation = ragResult.metadata.medicalValidation;
+    const warnings = [...validation.warnings];
+    const followUp: string[] = [];
+
+    if (analysis.urgencyLevel === 'critical' || analysis.urgencyLevel === 'high') {
+      followUp.push('Arrange urgent clinical review');
+    }
+    if (ragResult.relevantDocuments.length === 0) {
+      warnings.push('No supporting Nelson Textbook passages were retrieved');
+    }
+    for (const rule of ragResult.decisionRules.filter(result => result.applicable)) {
+      followUp.push(`${rule.name}: ${rule.recommendation}`);
+    }
+
+    const evidenceLevels = ragResult.sources.map(source => source.evidenceLevel).filter(Boolean);
+    return {
+      diagnosis: analysis.queryType === 'diagnosis' ? this.extractMedicalKeywords(query) : undefined,
+      recommendations: [...validation.recommendations],
+      warnings,
+      followUp,
+      evidenceLevel: evidenceLevels.includes('high') ? 'high' : evidenceLevels[0] || (response.length > 0 ? 'medium' : 'low'),
+    };
+  }
+
+  private async performMedicalSafetyValidation(
+    response: string,
+    analysis: MedicalAnalysis,
+    clinicalAssessment: ClinicalAssessment
+  ): Promise<MedicalValidation> {
+    const lowerResponse = response.toLowerCase();
+    const warnings = [...clinicalAssessment.warnings];
+
+    const safetyCheck = !/\b(guaranteed|always safe|no need to see a doctor)\b/.test(lowerResponse);
+    if (!safetyCheck) warnings.push('Response contains overconfident safety language');
+
+    const appropriateness = analysis.urgencyLevel !== 'critical' || /emergency|urgent|immediate/.test(lowerResponse);
+    if (!appropriateness) warnings.push('Critical query answered without urgent-care guidance');
+
+    const completeness = response.length > 100;
+    if (!completeness) warnings.push('Response may be incomplete');
+
+    return { safetyCheck, appropriateness, completeness, accuracy: clinicalAssessment.evidenceLevel !== 'low', warnings };
+  }
+
+  private async performComprehensiveQualityCheck(
+    query: string,
+    response: string,
+    ragResult: EnhancedRAGResult,
+    medicalValidation: MedicalValidation,
+    clinicalAssessment: ClinicalAssessment
+  ): Promise<QualityCheck> {
+    const basic = await this.performQualityCheck({
+      query,
+      answer: response,
+      context: ragResult.enrichedContext,
+      confidence: ragResult.confidence,
+    });
+    const issues = basic.reason ? basic.reason.split(', ') : [];
+    if (!medicalValidation.safetyCheck) issues.push('Failed safety check');
+    if (!medicalValidation.appropriateness) issues.push('Not appropriate for the urgency level');
+
+    const validationScore = [medicalValidation.safetyCheck, medicalValidation.appropriateness, medicalValidation.completeness, medicalValidation.accuracy]
+      .filter(Boolean).length / 4;
+
+    return {
+      passed: issues.length === 0,
+      score: Math.round(((basic.confidence + validationScore) / 2) * 100) / 100,
+      issues,
+      recommendations: clinicalAssessment.recommendations,
+    };
+  }
+
+  private calculateFinalConfidence(
+    responseConfidence: number,
+    qualityScore: number,
+    medicalValidation: MedicalValidation,
+    retrievalConfidence: number
+  ): number {
+    let confidence = responseConfidence * 0.4 + qualityScore * 0.3 + retrievalConfidence * 0.3;
+    if (!medicalValidation.safetyCheck) confidence *= 0.5;
+    return Math.round(Math.max(0, Math.min(confidence, 0.95)) * 100) / 100;
+  }
+
+  private prepareFinalAnswer(
+    response: string,
+    clinicalAssessment: ClinicalAssessment,
+    sources: EnhancedRAGResult['sources'],
+    warnings: string[]
+  ): string {
+    let answer = response.trim();
+
+    if (clinicalAssessment.followUp.length > 0) {
+      answer += `\n\nFollow-up:\n${clinicalAssessment.followUp.map(item => `- ${item}`).join('\n')}`;
+    }
+    if (warnings.length > 0) {
+      answer += `\n\nCautions:\n${warnings.map(warning => `- ${warning}`).join('\n')}`;
+    }
+    if (sources.length > 0) {
+      answer += `\n\nSources (Nelson Textbook of Pediatrics): ${sources.map(s => `${s.chapter}${s.section ? ` - ${s.section}` : ''}`).join('; ')}`;
+    }
+    return answer;
+  }
+
+  async testWorkflow(): Promise<{ success: boolean; message: string; result?: EnhancedWorkflowState }> {
     try {
       const testQuery = "What are the treatment options for pediatric asthma?";
       const result = await this.execute(testQuery);
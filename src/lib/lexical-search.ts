@@ -0,0 +1,107 @@
+// Lexical (BM25) Scoring Utilities for Hybrid Retrieval
+
+export interface LexicalDocument {
+  id: string;
+  content: string;
+}
+
+export interface LexicalScore {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export const BM25_CONFIG = {
+  K1: 1.2,
+  B: 0.75,
+} as const;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'in',
+  'is', 'it', 'of', 'on', 'or', 'should', 'that', 'the', 'to', 'what', 'when', 'which', 'who', 'why',
+  'with', 'child', 'children', 'pediatric', 'patient', 'patients',
+]);
+
+/**
+ * Split text into lowercase search terms, keeping abbreviations and dose numbers intact
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.\-/][a-z0-9]+)*/g) || [])
+    .filter(token => (token.length > 1 || /\d/.test(token)) && !STOP_WORDS.has(token));
+}
+
+/**
+ * Build a websearch-style OR query for Postgres full-text search
+ */
+export function buildFullTextQuery(text: string): string {
+  const terms = Array.from(new Set(tokenize(text))).filter(term => /^[a-z0-9]+$/.test(term));
+  return terms.join(' or ');
+}
+
+/**
+ * Detect tokens where embeddings tend to fail: abbreviations (SCFE, HSP) and eponyms
+ */
+export function hasLexicalSignals(query: string): boolean {
+  const acronyms = query.match(/\b[A-Z][A-Z0-9]{1,6}s?\b/g) || [];
+  const eponyms = /\b[A-Z][a-z]+(?:-[A-Z][a-z]+)*(?:'s)?\s+(syndrome|disease|sign|purpura|criteria|score|reflex|test|maneuver)\b/;
+  return acronyms.length > 0 || eponyms.test(query);
+}
+
+/**
+ * Score documents against a query with Okapi BM25 over the given corpus
+ */
+export function scoreBM25(query: string, documents: LexicalDocument[]): LexicalScore[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return [];
+  }
+
+  const tokenized = documents.map(doc => tokenize(doc.content));
+  const averageLength = tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / tokenized.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const scores: LexicalScore[] = [];
+  documents.forEach((doc, index) => {
+    const tokens = tokenized[index];
+    const termFrequency = new Map<string, number>();
+    tokens.forEach(token => termFrequency.set(token, (termFrequency.get(token) || 0) + 1));
+
+    let score = 0;
+    const matchedTerms: string[] = [];
+    for (const term of queryTerms) {
+      const tf = termFrequency.get(term) || 0;
+      if (tf === 0) continue;
+
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const norm = tf + BM25_CONFIG.K1 * (1 - BM25_CONFIG.B + BM25_CONFIG.B * (tokens.length / averageLength));
+      score += idf * ((tf * (BM25_CONFIG.K1 + 1)) / norm);
+      matchedTerms.push(term);
+    }
+
+    if (score > 0) {
+      scores.push({ id: doc.id, score, matchedTerms });
+    }
+  });
+
+  return scores.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Combine several ranked ID lists with reciprocal rank fusion
+ */
+export function reciprocalRankFusion(rankings: string[][], k = 60): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (k + rank + 1));
+    });
+  }
+  return fused;
+}
@@ -0,0 +1,424 @@
+// Provider-Agnostic LLM Interface with Ordered Fallback Chain and Circuit Breakers
+import { MistralService } from './mistral-service';
+import { GeminiService, GeminiMessage } from './gemini-service';
+import { isOfflineLLMMode } from './offline-llm';
+import type { PromptMessage } from './medical-prompts';
+
+export const LLM_CONFIG = {
+  // Order in which providers are tried; overridden by LLM_PROVIDERS (comma separated)
+  DEFAULT_ORDER: ['mistral', 'gemini', 'zai'],
+  // Order used when LLM_MODE=local
+  LOCAL_ORDER: ['local'],
+  CIRCUIT_BREAKER: {
+    // Consecutive failures before a provider is skipped
+    FAILURE_THRESHOLD: 3,
+    // How long an open circuit skips the provider before one trial request is let through
+    COOLDOWN_MS: 30000,
+  },
+  // Services inside the chain make a single attempt: retrying a failing provider only delays failover
+  SERVICE_RETRY_ATTEMPTS: 1,
+} as const;
+
+export type LLMMessage = PromptMessage;
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMChatResult {
+  content: string;
+  usage: LLMUsage;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  // False when credentials are missing; such providers are skipped without counting as failures
+  isConfigured(): boolean;
+  chat(request: LLMChatRequest): Promise<LLMChatResult>;
+  stream(request: LLMChatRequest, onToken: (delta: string) => void): Promise<LLMChatResult>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface LLMAttempt {
+  provider: string;
+  success: boolean;
+  duration: number;
+  error?: string;
+  skipped?: 'not_configured' | 'circuit_open';
+}
+
+export interface LLMChainResult extends LLMChatResult {
+  // Every provider tried or skipped for this request, in order
+  attempts: LLMAttempt[];
+}
+
+export interface LLMProviderStatus {
+  provider: string;
+  model: string;
+  configured: boolean;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  /**
+   * Rate limits and rejected credentials will not clear on the next request
+   */
+  get tripsImmediately(): boolean {
+    return this.status === 401 || this.status === 403 || this.status === 429;
+  }
+
+  static from(provider: string, error: unknown): LLMProviderError {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    // Service errors are formatted as "<Provider> API error: <status> - <reason>"
+    const status = message.match(/API error: (\d{3})/)?.[1];
+    return new LLMProviderError(provider, message, status ? parseInt(status, 10) : undefined);
+  }
+}
+
+export class AllProvidersFailedError extends Error {
+  constructor(public readonly attempts: LLMAttempt[]) {
+    super(`All LLM providers failed: ${attempts.map(a => `${a.provider} (${a.skipped || a.error})`).join(', ') || 'none configured'}`);
+    this.name = 'AllProvidersFailedError';
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private failureThreshold: number = LLM_CONFIG.CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+    private cooldownMs: number = LLM_CONFIG.CIRCUIT_BREAKER.COOLDOWN_MS,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether a request may be sent; moves an open circuit to half-open once the cooldown has passed.
+   * A half-open circuit lets a single trial request through until that request succeeds or fails.
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(tripImmediately = false): void {
+    this.failures++;
+    this.trialInFlight = false;
+    // A failed trial request re-opens the circuit straight away
+    if (tripImmediately || this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getFailures(): number {
+    return this.failures;
+  }
+}
+
+export class MistralProvider implements LLMProvider {
+  readonly name: string = 'mistral';
+
+  constructor(private service: MistralService = new MistralService({ retryAttempts: LLM_CONFIG.SERVICE_RETRY_ATTEMPTS })) {}
+
+  get model(): string {
+    return this.service.getDefaultModel();
+  }
+
+  isConfigured(): boolean {
+    return this.service.isConfigured();
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    const response = await this.service.chatCompletion({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      usage: response.usage,
+      provider: this.name,
+      model: response.model || this.model,
+    };
+  }
+
+  async stream(request: LLMChatRequest, onToken: (delta: string) => void): Promise<LLMChatResult> {
+    const response = await this.service.streamChatCompletion({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    }, onToken);
+
+    return { ...response, provider: this.name, model: this.model };
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+
+  constructor(private service: GeminiService = new GeminiService({ retryAttempts: LLM_CONFIG.SERVICE_RETRY_ATTEMPTS })) {}
+
+  get model(): string {
+    return this.service.getDefaultModel();
+  }
+
+  isConfigured(): boolean {
+    return this.service.isConfigured();
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    const response = await this.service.generateContent({
+      contents: this.toGeminiContents(request.messages),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    });
+    const usage = response.usageMetadata;
+
+    return {
+      content: response.candidates[0]?.content?.parts[0]?.text || '',
+      usage: {
+        prompt_tokens: usage?.promptTokenCount || 0,
+        completion_tokens: usage?.candidatesTokenCount || 0,
+        total_tokens: usage?.totalTokenCount || 0,
+      },
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  /**
+   * Gemini answers are delivered as a single delta
+   */
+  async stream(request: LLMChatRequest, onToken: (delta: string) => void): Promise<LLMChatResult> {
+    const result = await this.chat(request);
+    onToken(result.content);
+    return result;
+  }
+
+  private toGeminiContents(messages: LLMMessage[]): GeminiMessage[] {
+    // Gemini has no system role: fold system prompts into the first user turn
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const contents: GeminiMessage[] = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+    const firstUser = contents.find(c => c.role === 'user');
+    if (system && firstUser) {
+      firstUser.parts[0].text = `${system}\n\n${firstUser.parts[0].text}`;
+    }
+    return contents;
+  }
+}
+
+export class ZAIProvider implements LLMProvider {
+  readonly name = 'zai';
+  readonly model = 'default';
+
+  /**
+   * The SDK reads its own config file, so availability is only known on first use
+   */
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    const { default: ZAI } = await import('z-ai-web-dev-sdk');
+    const zai = await ZAI.create();
+    const completion = await zai.chat.completions.create({
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    return {
+      content: completion.choices?.[0]?.message?.content || '',
+      usage: completion.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      provider: this.name,
+      model: completion.model || this.model,
+    };
+  }
+
+  async stream(request: LLMChatRequest, onToken: (delta: string) => void): Promise<LLMChatResult> {
+    const result = await this.chat(request);
+    onToken(result.content);
+    return result;
+  }
+}
+
+/**
+ * Mistral-compatible provider answered by the deterministic local stand-in; needs no API key
+ */
+export class LocalLLMProvider extends MistralProvider {
+  readonly name: string = 'local';
+
+  constructor(service: MistralService = new MistralService({ mode: 'local' })) {
+    super(service);
+  }
+}
+
+export class LLMProviderChain {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private providers: LLMProvider[],
+    createBreaker: () => CircuitBreaker = () => new CircuitBreaker()
+  ) {
+    providers.forEach(provider => this.breakers.set(provider.name, createBreaker()));
+  }
+
+  /**
+   * Send a chat request to the first healthy provider, failing over in order
+   */
+  async chat(request: LLMChatRequest): Promise<LLMChainResult> {
+    return this.run(provider => provider.chat(request));
+  }
+
+  /**
+   * Stream a chat request. Fails over only while no tokens have been emitted;
+   * a provider that fails mid-answer surfaces the error rather than restarting the answer elsewhere.
+   */
+  async stream(request: LLMChatRequest, onToken: (delta: string) => void): Promise<LLMChainResult> {
+    let emitted = false;
+    return this.run(
+      provider => provider.stream(request, delta => {
+        emitted = true;
+        onToken(delta);
+      }),
+      () => !emitted
+    );
+  }
+
+  /**
+   * Current health of every provider in the chain
+   */
+  getStatus(): LLMProviderStatus[] {
+    return this.providers.map(provider => {
+      const breaker = this.breakers.get(provider.name)!;
+      return {
+        provider: provider.name,
+        model: provider.model,
+        configured: provider.isConfigured(),
+        circuit: breaker.getState(),
+        consecutiveFailures: breaker.getFailures(),
+      };
+    });
+  }
+
+  private async run(
+    call: (provider: LLMProvider) => Promise<LLMChatResult>,
+    canFailOver: () => boolean = () => true
+  ): Promise<LLMChainResult> {
+    const attempts: LLMAttempt[] = [];
+
+    for (const provider of this.providers) {
+      const breaker = this.breakers.get(provider.name)!;
+      if (!provider.isConfigured()) {
+        attempts.push({ provider: provider.name, success: false, duration: 0, skipped: 'not_configured' });
+        continue;
+      }
+      if (!breaker.canRequest()) {
+        attempts.push({ provider: provider.name, success: false, duration: 0, skipped: 'circuit_open' });
+        continue;
+      }
+
+      const startTime = Date.now();
+      try {
+        const result = await call(provider);
+        breaker.recordSuccess();
+        attempts.push({ provider: provider.name, success: true, duration: Date.now() - startTime });
+        return { ...result, attempts };
+      } catch (error) {
+        const providerError = LLMProviderError.from(provider.name, error);
+        breaker.recordFailure(providerError.tripsImmediately);
+        attempts.push({ provider: provider.name, success: false, duration: Date.now() - startTime, error: providerError.message });
+        console.warn(`LLM provider ${provider.name} failed:`, providerError.message);
+
+        if (!canFailOver()) {
+          throw providerError;
+        }
+      }
+    }
+
+    throw new AllProvidersFailedError(attempts);
+  }
+}
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+  mistral: () => new MistralProvider(),
+  gemini: () => new GeminiProvider(),
+  zai: () => new ZAIProvider(),
+  local: () => new LocalLLMProvider(),
+};
+
+/**
+ * Build the fallback chain from LLM_PROVIDERS (e.g. "mistral,gemini,local") or the default order
+ */
+export function createLLMProviderChain(order: string[] = parseProviderOrder(process.env.LLM_PROVIDERS)): LLMProviderChain {
+  const unknown = order.filter(name => !PROVIDER_FACTORIES[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown LLM provider(s): ${unknown.join(', ')}. Expected: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+  }
+  return new LLMProviderChain(order.map(name => PROVIDER_FACTORIES[name]()));
+}
+
+function parseProviderOrder(value?: string): string[] {
+  const order = value?.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  if (order && order.length > 0) {
+    return order;
+  }
+  return [...(isOfflineLLMMode() ? LLM_CONFIG.LOCAL_ORDER : LLM_CONFIG.DEFAULT_ORDER)];
+}
+
+// Export singleton instance
+export const llmProviderChain = createLLMProviderChain();
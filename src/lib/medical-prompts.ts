@@ -0,0 +1,86 @@
+// Shared Prompts for Nelson-Grounded Medical Answers (used by every LLM provider)
+
+export interface PromptMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface MedicalPromptParams {
+  query: string;
+  context: string;
+  clinicalAssessment?: string;
+  // Deterministic decision rule results the answer should state and not contradict
+  decisionRules?: string;
+  sources: string[];
+  chatHistory?: PromptMessage[];
+}
+
+export const MEDICAL_SYSTEM_PROMPT = `You are NelsonGPT, an AI-powered pediatric medical assistant based on the Nelson Textbook of Pediatrics. Your role is to provide evidence-based medical information to pediatric clinicians, residents, and medical students.
+
+Guidelines:
+1. Always base your responses on the provided context from the Nelson Textbook of Pediatrics
+2. Be accurate, evidence-based, and cite specific chapters and sections when possible
+3. Use professional medical terminology but explain complex concepts clearly
+4. Include important clinical considerations, contraindications, and precautions
+5. For medication information, include dosing guidelines, side effects, and monitoring requirements
+6. Acknowledge limitations in the provided information and suggest additional resources when appropriate
+7. Never provide definitive diagnoses or replace professional medical judgment
+8. Include appropriate disclaimers about consulting healthcare professionals
+9. Use structured formatting with clear headings and bullet points for complex information
+10. Prioritize patient safety and evidence-based practices
+
+Your tone should be professional, authoritative yet approachable, and focused on providing practical clinical information.`;
+
+/**
+ * Build the user prompt with retrieved context and query
+ */
+export function buildMedicalUserPrompt(params: Omit<MedicalPromptParams, 'chatHistory'>): string {
+  const { query, context, clinicalAssessment, decisionRules, sources } = params;
+
+  let prompt = `Medical Query: ${query}
+
+Context from Nelson Textbook of Pediatrics:
+${context}
+
+Sources: ${sources.join(', ')}`;
+
+  if (clinicalAssessment) {
+    prompt += `
+
+Clinical Assessment:
+${clinicalAssessment}`;
+  }
+
+  if (decisionRules) {
+    prompt += `
+
+Clinical Decision Rules (computed from the query; state these results and do not contradict them):
+${decisionRules}`;
+  }
+
+  prompt += `
+
+Please provide a comprehensive, evidence-based response that:
+1. Directly addresses the medical query
+2. Cites specific information from the Nelson Textbook sources
+3. Includes relevant clinical considerations and precautions
+4. Provides practical guidance for pediatric clinicians
+5. Acknowledges any limitations in the available information
+
+Response:`;
+
+  return prompt;
+}
+
+/**
+ * Build the message list for a medical response: system prompt, recent history and the context-rich query
+ */
+export function buildMedicalMessages(params: MedicalPromptParams): PromptMessage[] {
+  const { chatHistory = [], ...prompt } = params;
+
+  return [
+    { role: 'system', content: MEDICAL_SYSTEM_PROMPT },
+    ...chatHistory.slice(-6), // Include last 6 messages for context
+    { role: 'user', content: buildMedicalUserPrompt(prompt) },
+  ];
+}
@@ -1,4 +1,7 @@
 // Mistral API Service for NelsonGPT
+import { parseServerSentEvents } from './sse';
+import { MedicalPromptParams, buildMedicalMessages } from './medical-prompts';
+import { OFFLINE_LLM_MODEL, isOfflineLLMMode, offlineLLMService } from './offline-llm';
 
 export interface MistralMessage {
   role: 'system' | 'user' | 'assistant';
@@ -41,11 +44,14 @@ export interface MistralConfig {
   defaultModel: string;
   maxTokens: number;
   temperature: number;
+  // 'local' answers with the deterministic local stand-in instead of calling the API (LLM_MODE=local)
+  mode: 'remote' | 'local';
+  // Attempts per request, with linear backoff between them; 1 leaves failover to the caller
+  retryAttempts: number;
 }
 
 export class MistralService {
   private config: MistralConfig;
-  private retryAttempts: number = 3;
   private retryDelay: number = 1000;
 
   constructor(config?: Partial<MistralConfig>) {
@@ -55,13 +61,29 @@ export class MistralService {
       defaultModel: config?.defaultModel || 'mistral-medium',
       maxTokens: config?.maxTokens || 4000,
       temperature: config?.temperature || 0.7,
+      mode: config?.mode || (isOfflineLLMMode() ? 'local' : 'remote'),
+      retryAttempts: config?.retryAttempts ?? 3,
     };
 
-    if (!this.config.apiKey) {
-      throw new Error('Mistral API key is required');
+    if (!this.config.apiKey && this.config.mode === 'remote') {
+      console.warn('Mistral API key not provided. Mistral service will be disabled.');
     }
   }
 
+  /**
+   * Whether requests can be served (API key configured, or running locally)
+   */
+  isConfigured(): boolean {
+    return this.config.mode === 'local' || !!this.config.apiKey;
+  }
+
+  /**
+   * Model used when a request does not name one
+   */
+  getDefaultModel(): string {
+    return this.config.mode === 'local' ? OFFLINE_LLM_MODEL : this.config.defaultModel;
+  }
+
   /**
    * Make a request to the Mistral API
    */
@@ -83,7 +105,7 @@ export class MistralService {
 
     let lastError: Error | null = null;
 
-    for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+    for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
       try {
         const response = await fetch(url, config);
         
@@ -96,7 +118,7 @@ export class MistralService {
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
-        if (attempt < this.retryAttempts) {
+        if (attempt < this.config.retryAttempts) {
           console.log(`Retry attempt ${attempt + 1} after ${this.retryDelay}ms...`);
           await this.sleep(this.retryDelay * attempt);
         }
@@ -110,6 +132,10 @@ export class MistralService {
    * Generate a chat completion
    */
   async chatCompletion(request: MistralChatRequest): Promise<MistralChatResponse> {
+    if (!this.isConfigured()) {
+      throw new Error('Mistral API key is required');
+    }
+
     try {
       const enhancedRequest: MistralChatRequest = {
         model: request.model || this.config.defaultModel,
@@ -121,10 +147,12 @@ export class MistralService {
         stop: request.stop,
       };
 
-      const response = await this.makeRequest('/chat/completions', {
-        method: 'POST',
-        body: JSON.stringify(enhancedRequest),
-      });
+      const response = this.config.mode === 'local'
+        ? await offlineLLMService.chatCompletion(enhancedRequest)
+        : await this.makeRequest('/chat/completions', {
+          method: 'POST',
+          body: JSON.stringify(enhancedRequest),
+        });
 
       return response;
     } catch (error) {
@@ -136,33 +164,9 @@ export class MistralService {
   /**
    * Generate a medical response using Nelson Textbook context
    */
-  async generateMedicalResponse(params: {
-    query: string;
-    context: string;
-    clinicalAssessment?: string;
-    sources: string[];
-    chatHistory?: MistralMessage[];
-  }): Promise<{ response: string; usage: any }> {
+  async generateMedicalResponse(params: MedicalPromptParams): Promise<{ response: string; usage: any }> {
     try {
-      const { query, context, clinicalAssessment, sources, chatHistory = [] } = params;
-
-      // Build system prompt for pediatric medical assistant
-      const systemPrompt = this.buildSystemPrompt();
-
-      // Build user prompt with context
-      const userPrompt = this.buildUserPrompt({
-        query,
-        context,
-        clinicalAssessment,
-        sources,
-      });
-
-      // Prepare messages
-      const messages: MistralMessage[] = [
-        { role: 'system', content: systemPrompt },
-        ...chatHistory.slice(-6), // Include last 6 messages for context
-        { role: 'user', content: userPrompt },
-      ];
+      const messages = buildMedicalMessages(params);
 
       // Make API request
       const response = await this.chatCompletion({
@@ -183,165 +187,114 @@ export class MistralService {
   }
 
   /**
-   * Build system prompt for pediatric medical assistant
-   */
-  private buildSystemPrompt(): string {
-    return `You are NelsonGPT, an AI-powered pediatric medical assistant based on the Nelson Textbook of Pediatrics. Your role is to provide evidence-based medical information to pediatric clinicians, residents, and medical students.
-
-Guidelines:
-1. Always base your responses on the provided context from the Nelson Textbook of Pediatrics
-2. Be accurate, evidence-based, and cite specific chapters and sections when possible
-3. Use professional medical terminology but explain complex concepts clearly
-4. Include important clinical considerations, contraindications, and precautions
-5. For medication information, include dosing guidelines, side effects, and monitoring requirements
-6. Acknowledge limitations in the provided information and suggest additional resources when appropriate
-7. Never provide definitive diagnoses or replace professional medical judgment
-8. Include appropriate disclaimers about consulting healthcare professionals
-9. Use structured formatting with clear headings and bullet points for complex information
-10. Prioritize patient safety and evidence-based practices
-
-Your tone should be professional, authoritative yet approachable, and focused on providing practical clinical information.`;
-  }
-
-  /**
-   * Build user prompt with context and query
+   * Stream a medical response, calling onToken with each content delta as it arrives
    */
-  private buildUserPrompt(params: {
-    query: string;
-    context: string;
-    clinicalAssessment?: string;
-    sources: string[];
-  }): string {
-    const { query, context, clinicalAssessment, sources } = params;
-
-    let prompt = `Medical Query: ${query}
-
-Context from Nelson Textbook of Pediatrics:
-${context}
-
-Sources: ${sources.join(', ')}`;
-
-    if (clinicalAssessment) {
-      prompt += `
-
-Clinical Assessment:
-${clinicalAssessment}`;
-    }
-
-    prompt += `
-
-Please provide a comprehensive, evidence-based response that:
-1. Directly addresses the medical query
-2. Cites specific information from the Nelson Textbook sources
-3. Includes relevant clinical considerations and precautions
-4. Provides practical guidance for pediatric clinicians
-5. Acknowledges any limitations in the available information
-
-Response:`;
-
-    return prompt;
-  }
-
-  /**
-   * Generate a differential diagnosis suggestion
-   */
-  async generateDifferentialDiagnosis(params: {
-    symptoms: string[];
-    patientAge: string;
-    patientGender?: string;
-    additionalContext?: string;
-  }): Promise<{ response: string; usage: any }> {
+  async streamMedicalResponse(
+    params: MedicalPromptParams,
+    onToken: (delta: string) => void
+  ): Promise<{ response: string; usage: any }> {
     try {
-      const { symptoms, patientAge, patientGender, additionalContext } = params;
-
-      const systemPrompt = `You are a pediatric medical specialist. Generate a differential diagnosis based on the provided symptoms and patient information. Prioritize common conditions in pediatrics and consider age-appropriate diagnoses.`;
-
-      const userPrompt = `Patient Information:
-- Age: ${patientAge}
-- Gender: ${patientGender || 'Not specified'}
-- Symptoms: ${symptoms.join(', ')}
-${additionalContext ? `Additional Context: ${additionalContext}` : ''}
-
-Please provide a structured differential diagnosis with:
-1. Most likely diagnoses (with brief reasoning)
-2. Important conditions to rule out
-3. Recommended initial diagnostic workup
-4. Red flag symptoms that require urgent attention
-
-Differential Diagnosis:`;
-
-      const response = await this.chatCompletion({
+      const result = await this.streamChatCompletion({
         model: this.config.defaultModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.4,
-        max_tokens: 2000,
-      });
+        messages: buildMedicalMessages(params),
+        temperature: 0.3,
+        max_tokens: this.config.maxTokens,
+      }, onToken);
 
       return {
-        response: response.choices[0]?.message?.content || 'No differential diagnosis generated',
-        usage: response.usage,
+        response: result.content || 'No response generated',
+        usage: result.usage,
       };
     } catch (error) {
-      console.error('Error generating differential diagnosis:', error);
-      throw new Error(`Failed to generate differential diagnosis: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error streaming medical response:', error);
+      throw new Error(`Failed to stream medical response: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Generate treatment recommendations
+   * Stream a chat completion, calling onToken with each content delta as it arrives
    */
-  async generateTreatmentRecommendations(params: {
-    condition: string;
-    patientAge: string;
-    patientWeight?: string;
-    allergies?: string[];
-    currentMedications?: string[];
-    severity?: 'mild' | 'moderate' | 'severe';
-  }): Promise<{ response: string; usage: any }> {
-    try {
-      const { condition, patientAge, patientWeight, allergies, currentMedications, severity } = params;
+  async streamChatCompletion(
+    request: MistralChatRequest,
+    onToken: (delta: string) => void
+  ): Promise<{ content: string; usage: MistralChatResponse['usage'] }> {
+    if (!this.isConfigured()) {
+      throw new Error('Mistral API key is required');
+    }
 
-      const systemPrompt = `You are a pediatric pharmacology and treatment specialist. Provide evidence-based treatment recommendations following pediatric guidelines and considering safety factors.`;
+    const body = await this.makeStreamRequest({
+      model: request.model || this.config.defaultModel,
+      messages: request.messages,
+      temperature: request.temperature ?? this.config.temperature,
+      max_tokens: request.max_tokens ?? this.config.maxTokens,
+      top_p: request.top_p ?? 1,
+      stream: true,
+      stop: request.stop,
+    });
+
+    let content = '';
+    let usage: MistralChatResponse['usage'] | null = null;
+    for await (const { data } of parseServerSentEvents(body)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      const delta: string = chunk.choices?.[0]?.delta?.content || '';
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      // Usage is only reported on the final chunk
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
 
-      const userPrompt = `Clinical Scenario:
-- Condition: ${condition}
-- Patient Age: ${patientAge}
-- Patient Weight: ${patientWeight || 'Not specified'}
-- Allergies: ${allergies?.join(', ') || 'None reported'}
-- Current Medications: ${currentMedications?.join(', ') || 'None'}
-- Severity: ${severity || 'Not specified'}
+    return {
+      content,
+      usage: usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+  }
 
-Please provide comprehensive treatment recommendations including:
-1. First-line treatment options with dosing
-2. Alternative treatments if first-line contraindicated
-3. Monitoring requirements and follow-up
-4. Potential side effects and management
-5. Patient education points
-6. When to seek urgent care
+  /**
+   * Open a streaming chat completion. Retries only cover establishing the stream,
+   * never a stream that has already delivered tokens.
+   */
+  private async makeStreamRequest(request: MistralChatRequest): Promise<ReadableStream<Uint8Array>> {
+    if (this.config.mode === 'local') {
+      return offlineLLMService.streamChatCompletion(request);
+    }
 
-Treatment Recommendations:`;
+    let lastError: Error | null = null;
 
-      const response = await this.chatCompletion({
-        model: this.config.defaultModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.3,
-        max_tokens: 2500,
-      });
+    for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
+      try {
+        const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'text/event-stream',
+            'Authorization': `Bearer ${this.config.apiKey}`,
+          },
+          body: JSON.stringify(request),
+        });
+
+        if (!response.ok || !response.body) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(`Mistral API error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+        }
 
-      return {
-        response: response.choices[0]?.message?.content || 'No treatment recommendations generated',
-        usage: response.usage,
-      };
-    } catch (error) {
-      console.error('Error generating treatment recommendations:', error);
-      throw new Error(`Failed to generate treatment recommendations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return response.body;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (attempt < this.config.retryAttempts) {
+          console.log(`Retry attempt ${attempt + 1} after ${this.retryDelay}ms...`);
+          await this.sleep(this.retryDelay * attempt);
+        }
+      }
     }
+
+    throw lastError || new Error('Unknown error occurred');
   }
 
   /**
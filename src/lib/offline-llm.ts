@@ -0,0 +1,337 @@
+// Deterministic Offline LLM Stand-in for Offline Development and Tests
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tokenize } from './lexical-search';
+import type { MistralChatRequest, MistralChatResponse, MistralMessage } from './mistral-service';
+import type { GeminiGenerateContentRequest, GeminiGenerateContentResponse } from './gemini-service';
+
+export const OFFLINE_LLM_MODEL = 'nelson-offline-1';
+
+export interface OfflineLLMScript {
+  // Substring (case-insensitive) or pattern matched against the last user message
+  match: string | RegExp;
+  response: string | ((prompt: string) => string);
+}
+
+export interface OfflineLLMFixture {
+  // Exact replay: fixtureKey() of the recorded messages
+  key?: string;
+  // Looser replay: substring of the last user message
+  match?: string;
+  response: string;
+}
+
+export interface OfflineLLMConfig {
+  // Delay before a response (and before the first streamed token)
+  latencyMs: number;
+  // Delay between streamed tokens
+  tokenDelayMs: number;
+  // Share of requests that fail with errorStatus, drawn from a seeded sequence so runs repeat exactly
+  errorRate: number;
+  errorStatus: number;
+  seed: number;
+  scripts: OfflineLLMScript[];
+  fixtures: OfflineLLMFixture[];
+  // JSON file of recorded fixtures ({ "fixtures": [...] }) loaded on first use
+  fixturesPath?: string;
+}
+
+interface SimulatedFailure {
+  status: number;
+  message: string;
+}
+
+/**
+ * Stable key for a message list, used to record and replay fixtures exactly
+ */
+export function fixtureKey(messages: Array<{ role: string; content: string }>): string {
+  const normalized = messages.map(m => `${m.role}:${m.content.replace(/\s+/g, ' ').trim()}`).join('\n');
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+export class OfflineLLMService {
+  private config: OfflineLLMConfig;
+  private fixturesLoaded = false;
+  private queuedFailures: SimulatedFailure[] = [];
+  private random: () => number;
+  private requestCount = 0;
+
+  constructor(config: Partial<OfflineLLMConfig> = {}) {
+    this.config = {
+      latencyMs: config.latencyMs ?? parseInt(process.env.LOCAL_LLM_LATENCY_MS || '0', 10),
+      tokenDelayMs: config.tokenDelayMs ?? parseInt(process.env.LOCAL_LLM_TOKEN_DELAY_MS || '0', 10),
+      errorRate: config.errorRate ?? parseFloat(process.env.LOCAL_LLM_ERROR_RATE || '0'),
+      errorStatus: config.errorStatus ?? 503,
+      seed: config.seed ?? 42,
+      scripts: config.scripts || [],
+      fixtures: config.fixtures || [],
+      fixturesPath: config.fixturesPath ?? process.env.LOCAL_LLM_FIXTURES,
+    };
+    this.random = this.seededRandom(this.config.seed);
+  }
+
+  /**
+   * Same contract as MistralService.chatCompletion
+   */
+  async chatCompletion(request: MistralChatRequest): Promise<MistralChatResponse> {
+    const content = await this.respond(request.messages);
+    const usage = this.estimateUsage(request.messages, content);
+
+    return {
+      id: `local-${this.requestCount}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: OFFLINE_LLM_MODEL,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage,
+    };
+  }
+
+  /**
+   * Same wire format as the Mistral streaming API: `data: {chunk}` events ending with `data: [DONE]`
+   */
+  async streamChatCompletion(request: MistralChatRequest): Promise<ReadableStream<Uint8Array>> {
+    const content = await this.respond(request.messages);
+    const usage = this.estimateUsage(request.messages, content);
+    const tokens = content.match(/\S+\s*|\s+/g) || [];
+    const { tokenDelayMs } = this.config;
+    const encoder = new TextEncoder();
+    const chunk = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+
+    return new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const token of tokens) {
+          if (tokenDelayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, tokenDelayMs));
+          }
+          controller.enqueue(chunk({ model: OFFLINE_LLM_MODEL, choices: [{ index: 0, delta: { content: token }, finish_reason: null }] }));
+        }
+        controller.enqueue(chunk({ model: OFFLINE_LLM_MODEL, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage }));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+  }
+
+  /**
+   * Same contract as GeminiService.generateContent
+   */
+  async generateContent(request: GeminiGenerateContentRequest): Promise<GeminiGenerateContentResponse> {
+    const messages: MistralMessage[] = request.contents.map(content => ({
+      role: content.role === 'model' ? 'assistant' : 'user',
+      content: content.parts.map(part => part.text || '').join('\n'),
+    }));
+    const content = await this.respond(messages);
+    const usage = this.estimateUsage(messages, content);
+
+    return {
+      candidates: [{ content: { role: 'model', parts: [{ text: content }] }, finishReason: 'STOP' }],
+      usageMetadata: {
+        promptTokenCount: usage.prompt_tokens,
+        candidatesTokenCount: usage.completion_tokens,
+        totalTokenCount: usage.total_tokens,
+      },
+    };
+  }
+
+  /**
+   * Fail the next `count` requests, e.g. to exercise provider fallback
+   */
+  failNext(count = 1, status = this.config.errorStatus, message = 'Simulated outage'): void {
+    for (let i = 0; i < count; i++) {
+      this.queuedFailures.push({ status, message });
+    }
+  }
+
+  /**
+   * Add a scripted response, checked before fixtures and templates
+   */
+  addScript(script: OfflineLLMScript): void {
+    this.config.scripts.push(script);
+  }
+
+  /**
+   * Record a response so the same messages replay it exactly
+   */
+  recordFixture(messages: Array<{ role: string; content: string }>, response: string): OfflineLLMFixture {
+    const fixture = { key: fixtureKey(messages), response };
+    this.config.fixtures.push(fixture);
+    return fixture;
+  }
+
+  /**
+   * Write all recorded fixtures to a JSON file that fixturesPath can replay
+   */
+  async saveFixtures(filePath: string): Promise<void> {
+    await fs.writeFile(filePath, JSON.stringify({ fixtures: this.config.fixtures }, null, 2));
+  }
+
+  private async respond(messages: MistralMessage[]): Promise<string> {
+    this.requestCount++;
+    await this.loadFixtures();
+
+    if (this.config.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.config.latencyMs));
+    }
+
+    const failure = this.queuedFailures.shift()
+      || (this.config.errorRate > 0 && this.random() < this.config.errorRate
+        ? { status: this.config.errorStatus, message: 'Simulated failure' }
+        : undefined);
+    if (failure) {
+      // Same shape as the remote services so callers parse the status the same way
+      throw new Error(`Local LLM API error: ${failure.status} - ${failure.message}`);
+    }
+
+    const prompt = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+    return this.replay(messages, prompt) ?? this.template(prompt);
+  }
+
+  private replay(messages: MistralMessage[], prompt: string): string | undefined {
+    const key = fixtureKey(messages);
+    const exact = this.config.fixtures.find(fixture => fixture.key === key);
+    if (exact) {
+      return exact.response;
+    }
+
+    const lowerPrompt = prompt.toLowerCase();
+    const script = this.config.scripts.find(({ match }) =>
+      typeof match === 'string' ? lowerPrompt.includes(match.toLowerCase()) : match.test(prompt)
+    );
+    if (script) {
+      return typeof script.response === 'function' ? script.response(prompt) : script.response;
+    }
+
+    return this.config.fixtures.find(fixture => fixture.match && lowerPrompt.includes(fixture.match.toLowerCase()))?.response;
+  }
+
+  /**
+   * Templated answers for the prompts the app sends
+   */
+  private template(prompt: string): string {
+    // Content enhancement: return the original unchanged so citations and groundedness still line up
+    const enhancement = prompt.match(/Original Content:\n([\s\S]*?)\n\nEnhancement Type:/);
+    if (enhancement) {
+      return enhancement[1];
+    }
+
+    // Grounded medical answer: quote the context sentences that best match the query
+    const query = prompt.match(/Medical Query: (.*)/)?.[1]?.trim();
+    const context = prompt.match(/Context from Nelson Textbook of Pediatrics:\n([\s\S]*?)\n\nSources:/)?.[1];
+    if (query && context !== undefined) {
+      const sentences = this.selectSentences(query, context);
+      if (sentences.length === 0) {
+        return `The retrieved Nelson Textbook context does not address "${query}". Please consult the full chapter or a pediatric specialist.`;
+      }
+      return [
+        `Based on the retrieved Nelson Textbook of Pediatrics context:`,
+        '',
+        ...sentences.map(sentence => `- ${sentence}`),
+      ].join('\n');
+    }
+
+    // Differential diagnosis: schema-valid placeholder JSON so the structured flow can run offline
+    if (/Return the differential diagnosis JSON/.test(prompt)) {
+      const symptoms = (prompt.match(/- Symptoms: (.*)/)?.[1] || 'unspecified symptoms').split(',').map(s => s.trim()).filter(Boolean);
+      const tiers = ['high', 'moderate', 'low'];
+      return JSON.stringify({
+        diagnoses: symptoms.slice(0, 3).map((symptom, index) => ({
+          name: `Offline placeholder diagnosis for ${symptom}`,
+          likelihood: tiers[index],
+          rationale: 'Deterministic offline response, not clinical output.',
+          supportingFindings: [symptom],
+          opposingFindings: [],
+          mustNotMiss: index === 0,
+        })),
+        recommendedWorkup: ['Offline mode: no workup generated'],
+        redFlags: [],
+      });
+    }
+
+    // Treatment plan: schema-valid placeholder regimen; it is not in the dosage reference, so it stays unverified
+    if (/Return the treatment plan JSON/.test(prompt)) {
+      return JSON.stringify({
+        regimens: [{
+          drug: 'Offline placeholder',
+          route: 'PO',
+          mgPerKg: 1,
+          doseBasis: 'dose',
+          frequency: 'once daily',
+          duration: '1 day',
+          maxDose: null,
+          line: 'first-line',
+          notes: 'Deterministic offline response, not clinical output.',
+        }],
+        monitoring: ['Offline mode: no monitoring plan generated'],
+        patientEducation: [],
+        whenToSeekCare: [],
+      });
+    }
+
+    const firstLine = prompt.split('\n').find(line => line.trim().length > 0)?.trim() || '';
+    return `Local model response for: ${firstLine.slice(0, 200)}`;
+  }
+
+  private selectSentences(query: string, context: string): string[] {
+    const queryTerms = new Set(tokenize(query));
+    const sentences = context
+      .split('\n')
+      // Drop source headers and metadata lines added when the context was assembled
+      .filter(line => !/^\s*(\[.*\]|-|---|Source:|Title:|Evidence Level:|Relevance|Clinical Context:|Medical Information from)/.test(line))
+      .filter(line => !line.trim().endsWith(':'))
+      .join(' ')
+      .split(/(?<=[.!?])\s+(?=[A-Z(])/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 20);
+
+    return sentences
+      .map((sentence, index) => ({
+        sentence,
+        index,
+        score: tokenize(sentence).filter(term => queryTerms.has(term)).length,
+      }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, 3)
+      .sort((a, b) => a.index - b.index)
+      .map(candidate => candidate.sentence);
+  }
+
+  private async loadFixtures(): Promise<void> {
+    if (this.fixturesLoaded || !this.config.fixturesPath) {
+      return;
+    }
+    this.fixturesLoaded = true;
+
+    const raw = JSON.parse(await fs.readFile(this.config.fixturesPath, 'utf-8'));
+    this.config.fixtures.push(...(raw.fixtures || []));
+  }
+
+  private estimateUsage(messages: Array<{ content: string }>, content: string): MistralChatResponse['usage'] {
+    const prompt_tokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completion_tokens = Math.ceil(content.length / 4);
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+  }
+
+  // mulberry32
+  private seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
+
+/**
+ * Whether LLM_MODE routes the Mistral and Gemini services to the local stand-in
+ */
+export function isOfflineLLMMode(): boolean {
+  return process.env.LLM_MODE === 'local';
+}
+
+// Export singleton instance
+export const offlineLLMService = new OfflineLLMService();
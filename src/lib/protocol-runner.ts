@@ -0,0 +1,289 @@
+// Emergency Protocol Runner: Step Check-Off, Repeat-Dose Reminders and Time-Stamped Event Log
+export type ReminderStatus = 'inactive' | 'waiting' | 'due' | 'overdue' | 'complete';
+export type ProtocolEventType = 'start' | 'step' | 'dose' | 'note' | 'end';
+export type EventLogFormat = 'text' | 'csv';
+
+export interface ProtocolStep {
+  id: string;
+  text: string;
+}
+
+export interface ProtocolReminder {
+  id: string;
+  label: string;
+  // Checking this step off records the first dose and starts the repeat timer
+  stepId: string;
+  intervalMinutes: { min: number; max: number };
+  // Time the first interval from the start of the run instead of from the step
+  fromStart?: boolean;
+  // Stop reminding once this many doses are recorded
+  maxDoses?: number;
+}
+
+export interface EmergencyProtocol {
+  id: string;
+  title: string;
+  category: string;
+  ageGroup: string;
+  description: string;
+  steps: ProtocolStep[];
+  reminders: ProtocolReminder[];
+  // Patient-specific companion page
+  sheetHref?: string;
+}
+
+export const EMERGENCY_PROTOCOLS: EmergencyProtocol[] = [
+  {
+    id: 'pals',
+    title: 'Pediatric Advanced Life Support (PALS)',
+    category: 'Cardiac',
+    ageGroup: 'All Ages',
+    description: 'Cardiopulmonary resuscitation for pediatric patients',
+    sheetHref: '/clinical/resuscitation',
+    steps: [
+      { id: 'responsiveness', text: 'Check responsiveness and breathing' },
+      { id: 'call-for-help', text: 'Call for help and activate emergency response' },
+      { id: 'pulse', text: 'Check pulse (brachial/femoral)' },
+      { id: 'compressions', text: 'Start chest compressions if no pulse' },
+      { id: 'rescue-breaths', text: 'Provide rescue breaths' },
+      { id: 'aed', text: 'Use AED as soon as available' },
+      { id: 'epinephrine', text: 'Administer epinephrine if indicated' },
+    ],
+    reminders: [
+      { id: 'rhythm-check', label: 'Rhythm check and compressor swap', stepId: 'compressions', intervalMinutes: { min: 2, max: 2 } },
+      { id: 'epinephrine', label: 'Epinephrine 0.01 mg/kg IV/IO (max 1 mg)', stepId: 'epinephrine', intervalMinutes: { min: 3, max: 5 } },
+    ],
+  },
+  {
+    id: 'anaphylaxis',
+    title: 'Anaphylaxis Management',
+    category: 'Allergic',
+    ageGroup: 'All Ages',
+    description: 'Emergency management of severe allergic reactions',
+    steps: [
+      { id: 'epinephrine', text: 'Administer epinephrine IM (0.01 mg/kg, max 0.5 mg)' },
+      { id: 'position', text: 'Position patient supine with legs elevated' },
+      { id: 'oxygen', text: 'Administer oxygen' },
+      { id: 'iv-access', text: 'Establish IV access' },
+      { id: 'adjuncts', text: 'Give antihistamines and corticosteroids' },
+      { id: 'monitor', text: 'Monitor vital signs closely' },
+      { id: 'airway', text: 'Prepare for advanced airway management' },
+    ],
+    reminders: [
+      { id: 'epinephrine', label: 'Epinephrine IM 0.01 mg/kg (max 0.5 mg) if not improving', stepId: 'epinephrine', intervalMinutes: { min: 5, max: 15 } },
+    ],
+  },
+  {
+    id: 'febrile-seizure',
+    title: 'Febrile Seizure Management',
+    category: 'Neurological',
+    ageGroup: '6 months - 6 years',
+    description: 'Management of febrile seizures in children',
+    steps: [
+      { id: 'airway', text: 'Ensure airway patency and safety' },
+      { id: 'position', text: 'Position on side to prevent aspiration' },
+      { id: 'no-restraint', text: 'Do not restrain or put objects in mouth' },
+      { id: 'monitor', text: 'Monitor duration and characteristics' },
+      { id: 'benzodiazepine', text: 'Seizure lasting 5 minutes or more: give a benzodiazepine (midazolam 0.2 mg/kg intranasal/buccal, max 10 mg)' },
+      { id: 'antipyretic', text: 'Treat fever if present (acetaminophen/ibuprofen)' },
+      { id: 'workup', text: 'Consider diagnostic workup for first seizure' },
+      { id: 'education', text: 'Parent education and reassurance' },
+    ],
+    reminders: [
+      { id: 'benzodiazepine', label: 'Benzodiazepine if still seizing', stepId: 'benzodiazepine', intervalMinutes: { min: 5, max: 5 }, fromStart: true, maxDoses: 2 },
+    ],
+  },
+];
+
+export interface ProtocolEvent {
+  // Epoch milliseconds
+  at: number;
+  type: ProtocolEventType;
+  text: string;
+}
+
+export interface ProtocolRun {
+  protocolId: string;
+  startedAt: number;
+  endedAt?: number;
+  // Step id to the time it was checked off
+  completedSteps: Record<string, number>;
+  // Reminder id to the times each dose was given
+  doses: Record<string, number[]>;
+  events: ProtocolEvent[];
+}
+
+export interface ReminderState {
+  reminder: ProtocolReminder;
+  status: ReminderStatus;
+  doseCount: number;
+  lastDoseAt?: number;
+  // Milliseconds until the earliest repeat; negative once it has passed
+  dueInMs?: number;
+}
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Find a bundled protocol by id
+ */
+export function getEmergencyProtocol(id: string): EmergencyProtocol {
+  const protocol = EMERGENCY_PROTOCOLS.find(candidate => candidate.id === id);
+  if (!protocol) {
+    throw new ProtocolError(`Unknown emergency protocol: ${id}`);
+  }
+  return protocol;
+}
+
+/**
+ * Start a run of a protocol
+ */
+export function startProtocolRun(protocol: EmergencyProtocol, now: number): ProtocolRun {
+  return {
+    protocolId: protocol.id,
+    startedAt: now,
+    completedSteps: {},
+    doses: {},
+    events: [{ at: now, type: 'start', text: `${protocol.title} started` }],
+  };
+}
+
+/**
+ * Check a step off. A step that starts a reminder also records its first dose.
+ */
+export function completeStep(run: ProtocolRun, protocol: EmergencyProtocol, stepId: string, now: number): ProtocolRun {
+  assertActive(run);
+  const step = protocol.steps.find(candidate => candidate.id === stepId);
+  if (!step) {
+    throw new ProtocolError(`Unknown step: ${stepId}`);
+  }
+  if (stepId in run.completedSteps) {
+    return run;
+  }
+
+  let next: ProtocolRun = {
+    ...run,
+    completedSteps: { ...run.completedSteps, [stepId]: now },
+    events: [...run.events, { at: now, type: 'step', text: step.text }],
+  };
+  for (const reminder of protocol.reminders.filter(candidate => candidate.stepId === stepId)) {
+    next = addDose(next, reminder, now);
+  }
+  return next;
+}
+
+/**
+ * Record a repeat dose (or repeat action) for a reminder
+ */
+export function recordDose(run: ProtocolRun, protocol: EmergencyProtocol, reminderId: string, now: number): ProtocolRun {
+  assertActive(run);
+  const reminder = protocol.reminders.find(candidate => candidate.id === reminderId);
+  if (!reminder) {
+    throw new ProtocolError(`Unknown reminder: ${reminderId}`);
+  }
+  return addDose(run, reminder, now);
+}
+
+/**
+ * Add a free-text note to the event log
+ */
+export function addNote(run: ProtocolRun, text: string, now: number): ProtocolRun {
+  assertActive(run);
+  const note = text.trim();
+  if (!note) {
+    throw new ProtocolError('Note cannot be empty');
+  }
+  return { ...run, events: [...run.events, { at: now, type: 'note', text: note }] };
+}
+
+/**
+ * End the run; no further events can be recorded
+ */
+export function endProtocolRun(run: ProtocolRun, now: number, outcome = 'Protocol ended'): ProtocolRun {
+  assertActive(run);
+  return { ...run, endedAt: now, events: [...run.events, { at: now, type: 'end', text: outcome }] };
+}
+
+/**
+ * Status of every reminder at a point in time: waiting before the interval, due within it, overdue after it
+ */
+export function reminderStates(run: ProtocolRun, protocol: EmergencyProtocol, now: number): ReminderState[] {
+  return protocol.reminders.map(reminder => {
+    const doses = run.doses[reminder.id] ?? [];
+    const lastDoseAt = doses[doses.length - 1];
+    const doseCount = doses.length;
+    if (reminder.maxDoses !== undefined && doseCount >= reminder.maxDoses) {
+      return { reminder, status: 'complete', doseCount, lastDoseAt };
+    }
+
+    const from = lastDoseAt ?? (reminder.fromStart ? run.startedAt : undefined);
+    if (from === undefined || run.endedAt !== undefined) {
+      return { reminder, status: 'inactive', doseCount, lastDoseAt };
+    }
+
+    const elapsed = now - from;
+    const dueInMs = reminder.intervalMinutes.min * MS_PER_MINUTE - elapsed;
+    const status: ReminderStatus = dueInMs > 0
+      ? 'waiting'
+      : elapsed <= reminder.intervalMinutes.max * MS_PER_MINUTE ? 'due' : 'overdue';
+    return { reminder, status, doseCount, lastDoseAt, dueInMs };
+  });
+}
+
+/**
+ * Elapsed time as m:ss, or h:mm:ss from an hour
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Export the event log for documentation, with clock time (ISO 8601) and time since the start of the run
+ */
+export function formatEventLog(run: ProtocolRun, protocol: EmergencyProtocol, format: EventLogFormat = 'text'): string {
+  if (format === 'csv') {
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    return [
+      'time,elapsed,event,description',
+      ...run.events.map(event => [new Date(event.at).toISOString(), formatElapsed(event.at - run.startedAt), event.type, quote(event.text)].join(',')),
+    ].join('\n');
+  }
+
+  const end = run.endedAt ?? run.events[run.events.length - 1].at;
+  const skipped = protocol.steps.filter(step => !(step.id in run.completedSteps));
+  return [
+    protocol.title,
+    `Started: ${new Date(run.startedAt).toISOString()}`,
+    run.endedAt !== undefined ? `Ended: ${new Date(run.endedAt).toISOString()}` : 'In progress',
+    `Duration: ${formatElapsed(end - run.startedAt)}`,
+    '',
+    ...run.events.map(event => `[${new Date(event.at).toISOString()}] +${formatElapsed(event.at - run.startedAt)} ${event.type.toUpperCase()}: ${event.text}`),
+    ...(skipped.length > 0 ? ['', 'Steps not checked off:', ...skipped.map(step => `- ${step.text}`)] : []),
+  ].join('\n');
+}
+
+function addDose(run: ProtocolRun, reminder: ProtocolReminder, now: number): ProtocolRun {
+  const doses = [...(run.doses[reminder.id] ?? []), now];
+  return {
+    ...run,
+    doses: { ...run.doses, [reminder.id]: doses },
+    events: [...run.events, { at: now, type: 'dose', text: `${reminder.label} (#${doses.length})` }],
+  };
+}
+
+function assertActive(run: ProtocolRun): void {
+  if (run.endedAt !== undefined) {
+    throw new ProtocolError('Protocol run has already ended');
+  }
+}
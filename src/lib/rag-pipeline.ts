@@ -1,10 +1,15 @@
 // Enhanced RAG Pipeline for NelsonGPT with Advanced Medical Context
 import { embeddingService } from './embeddings';
 import { supabaseServiceBackend } from './supabase';
-import { vectorDatabaseService, VectorSearchOptions } from './vector-database';
-import { mistralService } from './mistral-service';
+import { VectorDatabaseService, vectorDatabaseService, VectorSearchOptions } from './vector-database';
 import { geminiService } from './gemini-service';
+import { LLMAttempt, LLMProviderChain, llmProviderChain } from './llm-provider';
+import { buildMedicalMessages } from './medical-prompts';
+import { DecisionRuleResult, evaluateQueryDecisionRules, formatDecisionRules } from './decision-rules';
 import { securityService } from './security';
+import { groundednessChecker, GroundednessReport } from './groundedness';
+import { Citation, citationService } from './citations';
+import { DocumentIngestionService, IngestionSource, IngestionOptions, IngestionResult } from './document-ingestion';
 import { RunnableSequence } from '@langchain/core/runnables';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 
@@ -27,6 +32,8 @@ export interface MedicalContext {
   clinicalSetting?: 'primary_care' | 'emergency' | 'specialty' | 'inpatient';
   evidenceLevel?: 'high' | 'medium' | 'low';
   queryType?: 'diagnosis' | 'treatment' | 'information' | 'emergency' | 'education';
+  // Febrile infant and head trauma rules applied to the query text
+  decisionRules?: DecisionRuleResult[];
 }
 
 export interface EnhancedDocumentChunk {
@@ -60,6 +67,8 @@ export interface EnhancedRAGResult {
   primaryResponse: string;
   enhancedResponse?: string;
   clinicalAssessment?: string;
+  // Shown alongside the generated answer
+  decisionRules: DecisionRuleResult[];
   sources: Array<{
     chapter: string;
     section?: string;
@@ -67,6 +76,8 @@ export interface EnhancedRAGResult {
     relevanceScore: number;
     evidenceLevel?: string;
   }>;
+  // Numbered inline markers in the answer, each tied to the chunk that supports it
+  citations: Citation[];
   confidence: number;
   processingTime: number;
   metadata: {
@@ -78,9 +89,17 @@ export interface EnhancedRAGResult {
       passed: boolean;
       warnings: string[];
       recommendations: string[];
+      // Per-claim support of the answer by the retrieved chunks
+      groundedness: GroundednessReport;
+    };
+    // Which LLM provider answered, and any providers that failed or were skipped first
+    llm: {
+      provider: string;
+      model: string;
+      attempts: LLMAttempt[];
     };
     aiUsage: {
-      mistral?: any;
+      llm?: any;
       gemini?: any;
       embeddings: any;
     };
@@ -91,19 +110,29 @@ export class EnhancedRAGPipeline {
   private config: EnhancedRAGConfig;
   private responseCache = new Map<string, { result: EnhancedRAGResult; timestamp: number }>();
   private cacheTimeout = 10 * 60 * 1000; // 10 minutes
-
-  constructor(config: Partial<EnhancedRAGConfig> = {}) {
+  private vectorDatabase: VectorDatabaseService;
+  private ingestion: DocumentIngestionService;
+  private llm: LLMProviderChain;
+
+  constructor(
+    config: Partial<EnhancedRAGConfig> = {},
+    vectorDatabase: VectorDatabaseService = vectorDatabaseService,
+    llm: LLMProviderChain = llmProviderChain
+  ) {
     this.config = {
       chunkSize: config.chunkSize || 1000,
       chunkOverlap: config.chunkOverlap || 200,
       topK: config.topK || 8,
-      similarityThreshold: config.similarityThreshold || 0.75,
+      similarityThreshold: config.similarityThreshold || Number(process.env.RAG_SIMILARITY_THRESHOLD) || 0.75,
       maxTokens: config.maxTokens || 4000,
       enableReranking: config.enableReranking ?? true,
       enableMedicalFiltering: config.enableMedicalFiltering ?? true,
       enableContextEnrichment: config.enableContextEnrichment ?? true,
       cacheResults: config.cacheResults ?? true,
     };
+    this.vectorDatabase = vectorDatabase;
+    this.llm = llm;
+    this.ingestion = new DocumentIngestionService(this.config, vectorDatabase);
   }
 
   /**
@@ -147,7 +176,7 @@ export class EnhancedRAGPipeline {
         ? await this.enrichMedicalContext(retrievalResult.documents, enhancedMedicalContext)
         : this.buildBasicContext(retrievalResult.documents);
 
-      // Step 4: Generate primary response using Mistral
+      // Step 4: Generate primary response with the first healthy LLM provider
       const primaryResponse = await this.generatePrimaryResponse(
         query,
         enrichedContext,
@@ -198,15 +227,20 @@ export class EnhancedRAGPipeline {
       // Step 9: Prepare sources with relevance scores
       const sources = this.prepareSources(retrievalResult.documents);
 
+      // Step 10: Link answer sentences to their supporting chunks with inline markers
+      const cited = citationService.annotate(enhancedResponse || primaryResponse.response, retrievalResult.documents);
+
       const result: EnhancedRAGResult = {
         query,
         medicalContext: enhancedMedicalContext,
         relevantDocuments: retrievalResult.documents,
         enrichedContext,
-        primaryResponse: primaryResponse.response,
-        enhancedResponse,
+        primaryResponse: enhancedResponse ? primaryResponse.response : cited.content,
+        enhancedResponse: enhancedResponse ? cited.content : undefined,
         clinicalAssessment,
+        decisionRules: enhancedMedicalContext.decisionRules ?? [],
         sources,
+        citations: cited.citations,
         confidence,
         processingTime: Date.now() - startTime,
         metadata: {
@@ -215,8 +249,13 @@ export class EnhancedRAGPipeline {
           similarityScores: retrievalResult.documents.map(doc => doc.similarity || 0),
           searchStrategy: retrievalResult.searchStrategy,
           medicalValidation,
+          llm: {
+            provider: primaryResponse.provider,
+            model: primaryResponse.model,
+            attempts: primaryResponse.attempts,
+          },
           aiUsage: {
-            mistral: primaryResponse.usage,
+            llm: primaryResponse.usage,
             gemini: geminiUsage,
             embeddings: retrievalResult.embeddingUsage,
           },
@@ -309,6 +348,9 @@ export class EnhancedRAGPipeline {
       clinicalSetting = 'specialty';
     }
 
+    // Apply deterministic decision rules to febrile infant and head trauma scenarios
+    const decisionRules = evaluateQueryDecisionRules(query);
+
     return {
       patientAge,
       urgencyLevel: urgencyLevel as MedicalContext['urgencyLevel'],
@@ -316,6 +358,7 @@ export class EnhancedRAGPipeline {
       clinicalSetting,
       evidenceLevel: providedContext?.evidenceLevel || 'high',
       queryType,
+      decisionRules,
     };
   }
 
@@ -334,13 +377,14 @@ export class EnhancedRAGPipeline {
       threshold: this.config.similarityThreshold,
       limit: this.config.topK,
       rerank: this.config.enableReranking,
+      // Urgency is inferred for every query, so it only weights clinical relevance below
+      // instead of filtering out chunks labelled with a different urgency
       filters: {
         medical_specialties: medicalContext.medicalSpecialties,
-        urgency_level: medicalContext.urgencyLevel,
       },
     };
 
-    const searchResult = await vectorDatabaseService.vectorSearch(query, searchOptions);
+    const searchResult = await this.vectorDatabase.vectorSearch(query, searchOptions);
     
     // Convert to enhanced document chunks
     const enhancedDocuments: EnhancedDocumentChunk[] = searchResult.documents.map(doc => ({
@@ -379,9 +423,10 @@ export class EnhancedRAGPipeline {
       return `No relevant medical information found in the Nelson Textbook of Pediatrics for this ${medicalContext.queryType} query.`;
     }
 
-    // Group documents by medical relevance
+    // Group documents by medical relevance. Every document already passed the retrieval
+    // threshold, so lower-scoring ones are kept as supporting information rather than dropped.
     const highRelevanceDocs = documents.filter(doc => (doc.relevanceScore || 0) > 0.8);
-    const mediumRelevanceDocs = documents.filter(doc => (doc.relevanceScore || 0) > 0.6 && (doc.relevanceScore || 0) <= 0.8);
+    const supportingDocs = documents.filter(doc => (doc.relevanceScore || 0) <= 0.8);
     
     let context = `Medical Information from Nelson Textbook of Pediatrics\n\n`;
     
@@ -416,10 +461,10 @@ export class EnhancedRAGPipeline {
       });
     }
 
-    // Add medium relevance documents
-    if (mediumRelevanceDocs.length > 0) {
-      context += `\nSupporting Medical Information (Medium Relevance):\n`;
-      mediumRelevanceDocs.forEach((doc, index) => {
+    // Add supporting documents
+    if (supportingDocs.length > 0) {
+      context += `\nSupporting Medical Information:\n`;
+      supportingDocs.forEach((doc, index) => {
         const source = `${doc.metadata.chapter}${doc.metadata.section ? ` - ${doc.metadata.section}` : ''}`;
         const title = doc.metadata.title ? `${doc.metadata.title}` : '';
         
@@ -435,22 +480,26 @@ export class EnhancedRAGPipeline {
   }
 
   /**
-   * Generate primary medical response using Mistral
+   * Generate primary medical response, failing over across LLM providers
    */
   private async generatePrimaryResponse(
     query: string,
     context: string,
     medicalContext: MedicalContext,
     documents: EnhancedDocumentChunk[]
-  ): Promise<{ response: string; usage: any; confidence: number }> {
+  ): Promise<{ response: string; usage: any; confidence: number; provider: string; model: string; attempts: LLMAttempt[] }> {
     try {
       const sources = documents.map(doc => `${doc.metadata.chapter}${doc.metadata.section ? ` - ${doc.metadata.section}` : ''}`);
       
-      const response = await mistralService.generateMedicalResponse({
-        query,
-        context,
-        clinicalAssessment: this.buildClinicalAssessment(medicalContext, documents),
-        sources,
+      const response = await this.llm.chat({
+        messages: buildMedicalMessages({
+          query,
+          context,
+          clinicalAssessment: this.buildClinicalAssessment(medicalContext, documents),
+          decisionRules: formatDecisionRules(medicalContext.decisionRules ?? []),
+          sources,
+        }),
+        temperature: 0.3, // Lower temperature for more factual responses
       });
 
       // Calculate confidence based on document relevance and AI response
@@ -458,9 +507,12 @@ export class EnhancedRAGPipeline {
       const confidence = Math.min(0.95, avgRelevance * 0.7 + 0.3);
 
       return {
-        response: response.response,
+        response: response.content || 'No response generated',
         usage: response.usage,
         confidence,
+        provider: response.provider,
+        model: response.model,
+        attempts: response.attempts,
       };
     } catch (error) {
       console.error('Primary response generation failed:', error);
@@ -516,11 +568,27 @@ export class EnhancedRAGPipeline {
     passed: boolean;
     warnings: string[];
     recommendations: string[];
+    groundedness: GroundednessReport;
   }> {
     const warnings: string[] = [];
     const recommendations: string[] = [];
     let passed = true;
 
+    // Check that the answer's claims are supported by the retrieved chunks
+    const groundedness = groundednessChecker.check(response, documents);
+    if (groundedness.unsupportedCount > 0) {
+      warnings.push(`${groundedness.unsupportedCount} of ${groundedness.claims.length} statements are not supported by the retrieved Nelson sources`);
+      recommendations.push('Verify unsupported statements against the cited chapters before clinical use');
+    }
+
+    // Numbers and doses not found in the sources are a safety issue, not a style issue
+    const unsupportedQuantities = groundedness.claims.flatMap(claim => claim.unsupportedQuantities);
+    if (unsupportedQuantities.length > 0) {
+      passed = false;
+      warnings.push(`Doses or values not found in the retrieved sources: ${Array.from(new Set(unsupportedQuantities)).join(', ')}`);
+      recommendations.push('Confirm every dose and numeric value against the source chapter or a dosing reference');
+    }
+
     // Check for emergency indicators
     if (medicalContext.urgencyLevel === 'critical' && !response.toLowerCase().includes('emergency')) {
       warnings.push('High urgency query may require emergency care disclaimer');
@@ -572,7 +640,7 @@ export class EnhancedRAGPipeline {
       passed = false;
     }
 
-    return { passed, warnings, recommendations };
+    return { passed, warnings, recommendations, groundedness };
   }
 
   /**
@@ -707,7 +775,7 @@ export class EnhancedRAGPipeline {
 
   private calculateConfidenceScore(
     documents: EnhancedDocumentChunk[],
-    validation: { passed: boolean; warnings: string[] },
+    validation: { passed: boolean; warnings: string[]; groundedness: GroundednessReport },
     baseConfidence: number
   ): number {
     let confidence = baseConfidence;
@@ -715,6 +783,10 @@ export class EnhancedRAGPipeline {
     // Document quality factor
     const avgRelevance = documents.reduce((sum, doc) => sum + (doc.relevanceScore || 0), 0) / documents.length;
     confidence = confidence * 0.6 + avgRelevance * 0.4;
+
+    // Groundedness factor: unsupported claims, and unsupported doses in particular, cut confidence
+    confidence *= 0.5 + 0.5 * validation.groundedness.score;
+    confidence *= Math.pow(0.85, Math.min(validation.groundedness.unsupportedNumericCount, 3));
     
     // Validation factor
     if (!validation.passed) {
@@ -879,6 +951,20 @@ export class EnhancedRAGPipeline {
     };
   }
 
+  /**
+   * Ingest raw chapter content using this pipeline's chunking configuration
+   */
+  async ingestChapter(source: IngestionSource, options: IngestionOptions = {}): Promise<IngestionResult> {
+    const result = await this.ingestion.ingest(source, options);
+
+    // Cached answers may reference chunks that were just replaced
+    if (result.stored > 0 || result.removed > 0) {
+      this.clearCache();
+    }
+
+    return result;
+  }
+
   /**
    * Clear cache and reset metrics
    */
@@ -0,0 +1,256 @@
+// Patient-Specific Pediatric Resuscitation Sheet (PALS doses, equipment and Broselow-equivalent zone)
+import { DoseRule, Formulation, calculateDose, calculateVolume } from './dosing';
+
+export type WeightSource = 'measured' | 'length' | 'age';
+
+export interface ColorZone {
+  color: string;
+  // Display colour for the sheet header
+  hex: string;
+  weightKg: { min: number; max: number };
+  lengthCm: { min: number; max: number };
+  // Dosing weight used when weight is estimated from length
+  dosingWeightKg: number;
+  ettCuffed: number;
+}
+
+// Broselow-equivalent length/weight zones
+export const COLOR_ZONES: ColorZone[] = [
+  { color: 'Grey', hex: '#9ca3af', weightKg: { min: 3, max: 5 }, lengthCm: { min: 46, max: 59.5 }, dosingWeightKg: 4, ettCuffed: 3.0 },
+  { color: 'Pink', hex: '#f472b6', weightKg: { min: 6, max: 7 }, lengthCm: { min: 59.5, max: 66.5 }, dosingWeightKg: 6.5, ettCuffed: 3.0 },
+  { color: 'Red', hex: '#dc2626', weightKg: { min: 8, max: 9 }, lengthCm: { min: 66.5, max: 74 }, dosingWeightKg: 8.5, ettCuffed: 3.0 },
+  { color: 'Purple', hex: '#7c3aed', weightKg: { min: 10, max: 11 }, lengthCm: { min: 74, max: 84.5 }, dosingWeightKg: 10.5, ettCuffed: 3.5 },
+  { color: 'Yellow', hex: '#facc15', weightKg: { min: 12, max: 14 }, lengthCm: { min: 84.5, max: 97.5 }, dosingWeightKg: 13, ettCuffed: 4.0 },
+  { color: 'White', hex: '#ffffff', weightKg: { min: 15, max: 18 }, lengthCm: { min: 97.5, max: 110 }, dosingWeightKg: 16.5, ettCuffed: 4.5 },
+  { color: 'Blue', hex: '#2563eb', weightKg: { min: 19, max: 23 }, lengthCm: { min: 110, max: 122 }, dosingWeightKg: 21, ettCuffed: 5.0 },
+  { color: 'Orange', hex: '#f97316', weightKg: { min: 24, max: 29 }, lengthCm: { min: 122, max: 137 }, dosingWeightKg: 26.5, ettCuffed: 5.5 },
+  { color: 'Green', hex: '#16a34a', weightKg: { min: 30, max: 36 }, lengthCm: { min: 137, max: 150 }, dosingWeightKg: 33, ettCuffed: 6.0 },
+];
+
+export const RESUSCITATION_CONFIG = {
+  FLUID_BOLUS_ML_PER_KG: 20,
+  MAX_FLUID_BOLUS_ML: 1000,
+  DEFIBRILLATION_J_PER_KG: [2, 4] as const,
+  MAX_DEFIBRILLATION_J_PER_KG: 10,
+  // Adult biphasic dose
+  MAX_DEFIBRILLATION_J: 200,
+  CARDIOVERSION_J_PER_KG: [0.5, 1, 2] as const,
+  MAX_CARDIOVERSION_J: 200,
+  // Largest weight the sheet is built for; above this use adult dosing
+  MAX_WEIGHT_KG: 80,
+} as const;
+
+interface ResuscitationDrugDefinition {
+  name: string;
+  indication: string;
+  rule: DoseRule;
+  formulation: Formulation;
+  note?: string;
+}
+
+export const RESUSCITATION_DRUGS: ResuscitationDrugDefinition[] = [
+  {
+    name: 'Epinephrine',
+    indication: 'Cardiac arrest',
+    rule: { route: 'IV/IO', amount: { min: 0.01, max: 0.01 }, unit: 'mg', scale: 'kg', per: 'dose', frequency: 'Every 3-5 minutes', maxPerDose: 1 },
+    formulation: { label: '0.1 mg/mL', form: 'injection', amount: 0.1, unit: 'mg', volumeMl: 1 },
+  },
+  {
+    name: 'Epinephrine',
+    indication: 'Cardiac arrest, no IV/IO access',
+    rule: { route: 'ETT', amount: { min: 0.1, max: 0.1 }, unit: 'mg', scale: 'kg', per: 'dose', frequency: 'Every 3-5 minutes', maxPerDose: 2.5 },
+    formulation: { label: '1 mg/mL', form: 'injection', amount: 1, unit: 'mg', volumeMl: 1 },
+    note: 'Follow with 5 mL saline flush and 5 ventilations',
+  },
+  {
+    name: 'Amiodarone',
+    indication: 'Shock-refractory VF/pulseless VT',
+    rule: { route: 'IV/IO', amount: { min: 5, max: 5 }, unit: 'mg', scale: 'kg', per: 'dose', frequency: 'Bolus; may repeat twice to 15 mg/kg', maxPerDose: 300 },
+    formulation: { label: '50 mg/mL', form: 'injection', amount: 50, unit: 'mg', volumeMl: 1 },
+  },
+  {
+    name: 'Adenosine',
+    indication: 'SVT (first dose)',
+    rule: { route: 'IV/IO', amount: { min: 0.1, max: 0.1 }, unit: 'mg', scale: 'kg', per: 'dose', frequency: 'Rapid push with saline flush', maxPerDose: 6 },
+    formulation: { label: '3 mg/mL', form: 'injection', amount: 3, unit: 'mg', volumeMl: 1 },
+  },
+  {
+    name: 'Adenosine',
+    indication: 'SVT (second dose)',
+    rule: { route: 'IV/IO', amount: { min: 0.2, max: 0.2 }, unit: 'mg', scale: 'kg', per: 'dose', frequency: 'Rapid push with saline flush', maxPerDose: 12 },
+    formulation: { label: '3 mg/mL', form: 'injection', amount: 3, unit: 'mg', volumeMl: 1 },
+  },
+  {
+    name: 'Atropine',
+    indication: 'Vagal bradycardia, primary AV block',
+    rule: { route: 'IV/IO', amount: { min: 0.02, max: 0.02 }, unit: 'mg', scale: 'kg', per: 'dose', frequency: 'May repeat once', maxPerDose: 0.5 },
+    formulation: { label: '0.1 mg/mL', form: 'injection', amount: 0.1, unit: 'mg', volumeMl: 1 },
+  },
+  {
+    name: 'Dextrose 10%',
+    indication: 'Hypoglycemia',
+    rule: { route: 'IV/IO', amount: { min: 0.5, max: 0.5 }, unit: 'g', scale: 'kg', per: 'dose', frequency: 'Recheck glucose in 15 minutes', maxPerDose: 25 },
+    formulation: { label: 'D10W 0.1 g/mL', form: 'injection', amount: 10, unit: 'g', volumeMl: 100 },
+  },
+];
+
+export interface ResuscitationInput {
+  weightKg?: number;
+  ageYears?: number;
+  lengthCm?: number;
+}
+
+export interface ResuscitationDrug {
+  name: string;
+  indication: string;
+  route: string;
+  dose: string;
+  amount: number;
+  unit: string;
+  concentration: string;
+  volumeMl: number;
+  capped: boolean;
+  frequency: string;
+  note?: string;
+  volumeWarning?: string;
+}
+
+export interface ResuscitationSheet {
+  weightKg: number;
+  weightSource: WeightSource;
+  zone?: ColorZone;
+  medications: ResuscitationDrug[];
+  fluidBolusMl: number;
+  defibrillationJ: { first: number; second: number; max: number };
+  cardioversionJ: number[];
+  airway: { ettCuffed: number; ettUncuffed: number; depthCm: number; basis: 'age' | 'zone' };
+  warnings: string[];
+}
+
+export class ResuscitationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResuscitationError';
+  }
+}
+
+/**
+ * Estimate weight from age with the APLS formulas
+ */
+export function estimateWeightFromAge(ageYears: number): number {
+  if (!Number.isFinite(ageYears) || ageYears < 0 || ageYears > 14) {
+    throw new ResuscitationError('Age must be between 0 and 14 years to estimate weight');
+  }
+  if (ageYears < 1) return roundTo((ageYears * 12) * 0.5 + 4, 1);
+  if (ageYears <= 5) return roundTo(2 * ageYears + 8, 1);
+  return roundTo(3 * ageYears + 7, 1);
+}
+
+/**
+ * Broselow-equivalent zone for a length in cm
+ */
+export function zoneForLength(lengthCm: number): ColorZone | undefined {
+  return COLOR_ZONES.find(zone => lengthCm >= zone.lengthCm.min && lengthCm < zone.lengthCm.max);
+}
+
+/**
+ * Broselow-equivalent zone for a weight in kg; weights between zones take the heavier zone
+ */
+export function zoneForWeight(weightKg: number): ColorZone | undefined {
+  return COLOR_ZONES.find(zone => weightKg <= zone.weightKg.max && weightKg >= zone.weightKg.min - 1);
+}
+
+/**
+ * Build a resuscitation sheet from measured weight, or from length or age when weight is unknown
+ */
+export function generateResuscitationSheet(input: ResuscitationInput): ResuscitationSheet {
+  const { weightKg, ageYears, lengthCm } = input;
+  const warnings: string[] = [];
+  let weight: number;
+  let weightSource: WeightSource;
+  let zone: ColorZone | undefined;
+
+  if (ageYears !== undefined && (!Number.isFinite(ageYears) || ageYears < 0 || ageYears > 18)) {
+    throw new ResuscitationError('Age must be between 0 and 18 years');
+  }
+  if (weightKg !== undefined) {
+    if (!Number.isFinite(weightKg) || weightKg <= 0) {
+      throw new ResuscitationError('Weight must be a positive number of kilograms');
+    }
+    weight = weightKg;
+    weightSource = 'measured';
+    zone = zoneForWeight(weightKg);
+  } else if (lengthCm !== undefined) {
+    zone = Number.isFinite(lengthCm) ? zoneForLength(lengthCm) : undefined;
+    if (!zone) {
+      throw new ResuscitationError(`Length must be between ${COLOR_ZONES[0].lengthCm.min} and ${COLOR_ZONES[COLOR_ZONES.length - 1].lengthCm.max} cm to estimate weight`);
+    }
+    weight = zone.dosingWeightKg;
+    weightSource = 'length';
+  } else if (ageYears !== undefined) {
+    weight = estimateWeightFromAge(ageYears);
+    weightSource = 'age';
+    zone = zoneForWeight(weight);
+    warnings.push('Weight estimated from age; use a measured weight or length-based tape as soon as possible');
+  } else {
+    throw new ResuscitationError('Weight, length or age is required');
+  }
+
+  if (weight > RESUSCITATION_CONFIG.MAX_WEIGHT_KG) {
+    warnings.push(`Weight above ${RESUSCITATION_CONFIG.MAX_WEIGHT_KG} kg: use adult resuscitation doses`);
+  }
+
+  const medications = RESUSCITATION_DRUGS.map(({ name, indication, rule, formulation, note }): ResuscitationDrug => {
+    const calculation = calculateDose(name, rule, { weightKg: weight });
+    const volume = calculateVolume(calculation, formulation);
+    return {
+      name,
+      indication,
+      route: rule.route,
+      dose: `${rule.amount.max} ${rule.unit}/kg (max ${rule.maxPerDose} ${rule.unit})`,
+      amount: calculation.perDose!.max,
+      unit: rule.unit,
+      concentration: formulation.label,
+      volumeMl: volume!.perDoseMl.max,
+      capped: calculation.perDose!.capped,
+      frequency: rule.frequency,
+      note,
+      volumeWarning: volume!.warning,
+    };
+  });
+
+  const [firstJPerKg, secondJPerKg] = RESUSCITATION_CONFIG.DEFIBRILLATION_J_PER_KG;
+  const joules = (perKg: number) => Math.min(Math.round(weight * perKg), RESUSCITATION_CONFIG.MAX_DEFIBRILLATION_J);
+
+  // Cuffed tube by age (age/4 + 3.5, rounded down to a half size) from 1 year; otherwise the zone's tube
+  const basis: ResuscitationSheet['airway']['basis'] = ageYears !== undefined && ageYears >= 1 ? 'age' : 'zone';
+  const ettCuffed = basis === 'age'
+    ? Math.floor((ageYears! / 4 + 3.5) * 2) / 2
+    : zone?.ettCuffed ?? (weight < COLOR_ZONES[0].weightKg.min ? 3.0 : 6.0);
+  const airway = { ettCuffed, ettUncuffed: ettCuffed + 0.5, depthCm: roundTo(ettCuffed * 3, 1), basis };
+
+  if (!zone) {
+    warnings.push('Weight is outside the length-based tape zones; check equipment sizes against local charts');
+  }
+
+  return {
+    weightKg: weight,
+    weightSource,
+    zone,
+    medications,
+    fluidBolusMl: Math.round(Math.min(weight * RESUSCITATION_CONFIG.FLUID_BOLUS_ML_PER_KG, RESUSCITATION_CONFIG.MAX_FLUID_BOLUS_ML)),
+    defibrillationJ: {
+      first: joules(firstJPerKg),
+      second: joules(secondJPerKg),
+      max: joules(RESUSCITATION_CONFIG.MAX_DEFIBRILLATION_J_PER_KG),
+    },
+    cardioversionJ: RESUSCITATION_CONFIG.CARDIOVERSION_J_PER_KG.map(perKg => Math.min(roundTo(weight * perKg, 1), RESUSCITATION_CONFIG.MAX_CARDIOVERSION_J)),
+    airway,
+    warnings,
+  };
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
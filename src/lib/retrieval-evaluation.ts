@@ -0,0 +1,288 @@
+// Retrieval Evaluation Harness for NelsonGPT
+import { promises as fs } from 'fs';
+import { EmbeddingProvider, EmbeddingService, HashingEmbeddingProvider } from './embeddings';
+import { InMemoryVectorStore, StoredDocument } from './vector-store';
+import { VectorDatabaseService, VectorDocument, VectorSearchOptions } from './vector-database';
+import type { EnhancedRAGPipeline, MedicalContext } from './rag-pipeline';
+
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  // Relevant targets as "Chapter" or "Chapter/Section"
+  expected: string[];
+  medicalContext?: Partial<MedicalContext>;
+}
+
+export interface GoldenSet {
+  name: string;
+  description?: string;
+  queries: GoldenQuery[];
+}
+
+export interface EvaluationFixture extends GoldenSet {
+  documents: StoredDocument[];
+}
+
+export type RetrievalTarget =
+  | { kind: 'vector'; database: VectorDatabaseService; searchOptions?: VectorSearchOptions }
+  | { kind: 'pipeline'; pipeline: Pick<EnhancedRAGPipeline, 'execute'> };
+
+export interface EvaluationConfig {
+  name: string;
+  target: RetrievalTarget;
+  k?: number;
+}
+
+export interface QueryMetrics {
+  recallAtK: number;
+  reciprocalRank: number;
+  ndcgAtK: number;
+}
+
+export interface QueryEvaluation extends QueryMetrics {
+  id: string;
+  query: string;
+  expected: string[];
+  found: string[];
+  missed: string[];
+  // Chapter/section of each retrieved document, in rank order
+  retrieved: string[];
+  error?: string;
+}
+
+export interface EvaluationReport {
+  config: string;
+  goldenSet: string;
+  k: number;
+  summary: QueryMetrics & { queries: number; failures: number };
+  queries: QueryEvaluation[];
+  processingTime: number;
+}
+
+export interface QueryComparison {
+  id: string;
+  query: string;
+  baseline: QueryMetrics;
+  candidate: QueryMetrics;
+  delta: QueryMetrics;
+  gained: string[];
+  lost: string[];
+  status: 'improved' | 'regressed' | 'unchanged';
+}
+
+export interface EvaluationComparison {
+  baseline: string;
+  candidate: string;
+  k: number;
+  delta: QueryMetrics;
+  improved: number;
+  regressed: number;
+  unchanged: number;
+  queries: QueryComparison[];
+}
+
+const DEFAULT_K = 5;
+
+/**
+ * Label a retrieved document as "Chapter/Section" (or just "Chapter")
+ */
+export function documentTarget(doc: Pick<VectorDocument, 'metadata'>): string {
+  return doc.metadata.section ? `${doc.metadata.chapter}/${doc.metadata.section}` : doc.metadata.chapter;
+}
+
+function matchesTarget(retrieved: string, expected: string): boolean {
+  const [chapter, section] = retrieved.toLowerCase().split('/');
+  const [expectedChapter, expectedSection] = expected.toLowerCase().split('/');
+  return chapter === expectedChapter && (!expectedSection || section === expectedSection);
+}
+
+/**
+ * Score a ranked list of retrieved targets against the expected ones.
+ * Each expected target counts once, at the first rank that satisfies it, so several
+ * chunks of the same section cannot inflate recall or nDCG.
+ */
+export function scoreRanking(retrieved: string[], expected: string[], k: number): QueryMetrics & { found: string[] } {
+  const topK = retrieved.slice(0, k);
+  const found = new Set<string>();
+  let dcg = 0;
+  let firstRelevantRank = 0;
+
+  topK.forEach((target, rank) => {
+    const matched = expected.filter(e => matchesTarget(target, e));
+    if (matched.length > 0 && firstRelevantRank === 0) {
+      firstRelevantRank = rank + 1;
+    }
+    const newlyFound = matched.filter(e => !found.has(e));
+    if (newlyFound.length > 0) {
+      newlyFound.forEach(e => found.add(e));
+      dcg += 1 / Math.log2(rank + 2);
+    }
+  });
+
+  let idcg = 0;
+  for (let rank = 0; rank < Math.min(k, expected.length); rank++) {
+    idcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    recallAtK: expected.length > 0 ? found.size / expected.length : 0,
+    reciprocalRank: firstRelevantRank > 0 ? 1 / firstRelevantRank : 0,
+    ndcgAtK: idcg > 0 ? dcg / idcg : 0,
+    found: expected.filter(e => found.has(e)),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function metricsDelta(baseline: QueryMetrics, candidate: QueryMetrics): QueryMetrics {
+  return {
+    recallAtK: candidate.recallAtK - baseline.recallAtK,
+    reciprocalRank: candidate.reciprocalRank - baseline.reciprocalRank,
+    ndcgAtK: candidate.ndcgAtK - baseline.ndcgAtK,
+  };
+}
+
+export class RetrievalEvaluationService {
+  /**
+   * Load a golden set or fixture from a JSON file
+   */
+  async loadFixture(filePath: string): Promise<EvaluationFixture> {
+    const fixture = JSON.parse(await fs.readFile(filePath, 'utf8')) as EvaluationFixture;
+    if (!Array.isArray(fixture.queries)) {
+      throw new Error(`Golden set ${filePath} has no queries`);
+    }
+    return { ...fixture, documents: fixture.documents || [] };
+  }
+
+  /**
+   * Build an in-process vector database from a fixture corpus. The default hashing
+   * provider keeps evaluation fully offline; pass the local model for semantic runs.
+   */
+  async buildFixtureDatabase(
+    fixture: Pick<EvaluationFixture, 'documents'>,
+    provider: EmbeddingProvider = new HashingEmbeddingProvider()
+  ): Promise<VectorDatabaseService> {
+    const database = new VectorDatabaseService(new InMemoryVectorStore(), new EmbeddingService(provider));
+
+    await database.upsertDocuments(fixture.documents);
+    const stored = await database.batchStoreEmbeddings(
+      fixture.documents.map(doc => ({ id: doc.id, content: doc.content, metadata: { chunk_index: 0 } }))
+    );
+    if (stored.failed > 0) {
+      throw new Error(`Failed to embed fixture documents: ${stored.errors.join('; ')}`);
+    }
+
+    return database;
+  }
+
+  /**
+   * Run every golden query through the configured retrieval target and score it
+   */
+  async evaluate(goldenSet: GoldenSet, config: EvaluationConfig): Promise<EvaluationReport> {
+    const startTime = Date.now();
+    const k = config.k || DEFAULT_K;
+    const queries: QueryEvaluation[] = [];
+
+    for (const golden of goldenSet.queries) {
+      try {
+        const retrieved = (await this.retrieve(golden, config.target, k)).map(documentTarget);
+        const { found, ...metrics } = scoreRanking(retrieved, golden.expected, k);
+        queries.push({
+          id: golden.id,
+          query: golden.query,
+          expected: golden.expected,
+          found,
+          missed: golden.expected.filter(e => !found.includes(e)),
+          retrieved: retrieved.slice(0, k),
+          ...metrics,
+        });
+      } catch (error) {
+        // A failing query scores zero rather than aborting the whole run
+        queries.push({
+          id: golden.id,
+          query: golden.query,
+          expected: golden.expected,
+          found: [],
+          missed: golden.expected,
+          retrieved: [],
+          recallAtK: 0,
+          reciprocalRank: 0,
+          ndcgAtK: 0,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return {
+      config: config.name,
+      goldenSet: goldenSet.name,
+      k,
+      summary: {
+        recallAtK: mean(queries.map(q => q.recallAtK)),
+        reciprocalRank: mean(queries.map(q => q.reciprocalRank)),
+        ndcgAtK: mean(queries.map(q => q.ndcgAtK)),
+        queries: queries.length,
+        failures: queries.filter(q => q.error).length,
+      },
+      queries,
+      processingTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Per-query differences between two runs over the same golden set
+   */
+  compare(baseline: EvaluationReport, candidate: EvaluationReport): EvaluationComparison {
+    if (baseline.goldenSet !== candidate.goldenSet || baseline.k !== candidate.k) {
+      throw new Error('Evaluation reports must use the same golden set and k to be compared');
+    }
+
+    const candidateById = new Map(candidate.queries.map(q => [q.id, q]));
+    const queries: QueryComparison[] = baseline.queries
+      .filter(q => candidateById.has(q.id))
+      .map(before => {
+        const after = candidateById.get(before.id)!;
+        const delta = metricsDelta(before, after);
+        const score = delta.ndcgAtK || delta.reciprocalRank || delta.recallAtK;
+        return {
+          id: before.id,
+          query: before.query,
+          baseline: { recallAtK: before.recallAtK, reciprocalRank: before.reciprocalRank, ndcgAtK: before.ndcgAtK },
+          candidate: { recallAtK: after.recallAtK, reciprocalRank: after.reciprocalRank, ndcgAtK: after.ndcgAtK },
+          delta,
+          gained: after.found.filter(target => !before.found.includes(target)),
+          lost: before.found.filter(target => !after.found.includes(target)),
+          status: Math.abs(score) < 1e-9 ? 'unchanged' : score > 0 ? 'improved' : 'regressed',
+        };
+      });
+
+    return {
+      baseline: baseline.config,
+      candidate: candidate.config,
+      k: baseline.k,
+      delta: metricsDelta(baseline.summary, candidate.summary),
+      improved: queries.filter(q => q.status === 'improved').length,
+      regressed: queries.filter(q => q.status === 'regressed').length,
+      unchanged: queries.filter(q => q.status === 'unchanged').length,
+      queries,
+    };
+  }
+
+  private async retrieve(golden: GoldenQuery, target: RetrievalTarget, k: number): Promise<Array<Pick<VectorDocument, 'metadata'>>> {
+    if (target.kind === 'vector') {
+      const result = await target.database.vectorSearch(golden.query, { limit: k, ...target.searchOptions });
+      return result.documents;
+    }
+
+    const result = await target.pipeline.execute(golden.query, golden.medicalContext, {
+      bypassCache: true,
+      includeEnhancement: false,
+    });
+    return result.relevantDocuments;
+  }
+}
+
+// Export singleton instance
+export const retrievalEvaluationService = new RetrievalEvaluationService();
@@ -1,4 +1,6 @@
 import { supabaseServiceBackend, TABLES } from '@/lib/supabase'
+import { calculateDose, parseDoseRule } from '@/lib/dosing'
+import { calculateCatalogDose, calculateFormulationVolumes, canonicalDrugName, findDrug } from '@/lib/drug-catalog'
 
 // Chat session operations
 export const chatService = {
@@ -264,35 +266,49 @@ export const drugService = {
     }
   },
 
-  // Calculate dosage based on weight
-  async calculateDosage(drugName: string, weight: number, ageGroup: string) {
+  // Calculate per-dose and per-day amounts (with caps applied) and formulation volumes from the
+  // drug_dosages table, falling back to the shared drug catalog when the table has no usable entry.
+  // An eGFR (mL/min/1.73 m²) applies the catalog's renal adjustments and explains them in `renal`
+  async calculateDosage(drugName: string, weight: number, ageGroup: string, heightCm?: number, egfr?: number) {
     try {
+      const name = canonicalDrugName(drugName)
       const { data, error } = await supabaseServiceBackend.client
         .from('drug_dosages')
         .select('*')
-        .ilike('drug_name', `%${drugName}%`)
+        .ilike('drug_name', `%${name}%`)
         .eq('age_group', ageGroup)
-        .single()
 
       if (error) throw error
-      if (!data) return null
-
-      // Parse dosage string (e.g., "10-15 mg/kg/day")
-      const dosageMatch = data.dosage.match(/(\d+)-?(\d*)\s*mg\/kg\/?(\w*)/)
-      if (!dosageMatch) return null
-
-      const minDose = parseFloat(dosageMatch[1])
-      const maxDose = dosageMatch[2] ? parseFloat(dosageMatch[2]) : minDose
-      const unit = dosageMatch[3] || 'day'
-
-      return {
-        minDose: minDose * weight,
-        maxDose: maxDose * weight,
-        unit,
-        frequency: data.frequency,
-        maxDosage: data.max_dosage,
-        notes: data.notes,
-        citations: data.citations,
+
+      // Only exact generic-name matches count, so "amoxicillin" is never dosed from an amoxicillin-clavulanate row.
+      // Rows that differ only in indication share a dose; rows with different doses are ambiguous and refused
+      const matches = (data || []).filter(candidate => canonicalDrugName(candidate.drug_name) === name)
+      const doses = new Set(matches.map(candidate => [candidate.dosage, candidate.frequency, candidate.max_dosage].join('|')))
+      if (doses.size > 1) {
+        throw new Error(`Ambiguous drug_dosages entries for ${name} (${ageGroup}): ${doses.size} different doses`)
+      }
+
+      const row = matches[0]
+      const rule = row ? parseDoseRule(row) : null
+      if (row && rule) {
+        const monograph = findDrug(row.drug_name)
+        const calculation = calculateDose(monograph?.name ?? row.drug_name, rule, { weightKg: weight, heightCm, egfr }, monograph?.renalAdjustments)
+        return {
+          ...calculation,
+          volumes: calculateFormulationVolumes(calculation),
+          source: 'drug_dosages' as const,
+          notes: row.notes,
+          citations: row.citations,
+        }
+      }
+
+      const calculation = calculateCatalogDose(drugName, { weightKg: weight, heightCm, egfr })
+      return calculation && {
+        ...calculation,
+        volumes: calculateFormulationVolumes(calculation),
+        source: 'catalog' as const,
+        notes: findDrug(drugName)?.notes,
+        citations: [],
       }
     } catch (error) {
       console.error('Error calculating dosage:', error)
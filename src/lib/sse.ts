@@ -0,0 +1,129 @@
+// Server-Sent Events Encoding and Parsing for Streaming Chat Responses
+import type { Citation } from './citations';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stop reverse proxies (nginx) from buffering the stream
+  'X-Accel-Buffering': 'no',
+} as const;
+
+export type ChatStreamStage = 'analysis' | 'retrieval' | 'generation' | 'enhancement' | 'validation';
+
+export interface ChatStreamSource {
+  id: string;
+  chapter: string;
+  section?: string;
+  page?: number;
+  similarity?: number;
+}
+
+/**
+ * Events emitted by /api/rag/chat in streaming mode, in order:
+ * stage* → sources → token* → warnings? → done | error
+ */
+export type ChatStreamEvent =
+  | { type: 'stage'; stage: ChatStreamStage; status: 'started' | 'completed'; step?: string; duration?: number }
+  | { type: 'sources'; sources: string[]; documents: ChatStreamSource[] }
+  | { type: 'token'; delta: string }
+  | { type: 'warnings'; warnings: string[] }
+  | { type: 'done'; response: string; citations: Citation[]; [key: string]: unknown }
+  | { type: 'error'; error: string };
+
+/**
+ * Encode one event in the text/event-stream wire format
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const lines = payload.split('\n').map(line => `data: ${line}`).join('\n');
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+/**
+ * Build a response body that streams chat events produced by the handler.
+ * Errors thrown by the handler are sent as a final error event instead of aborting the stream.
+ */
+export function createChatEventStream(
+  handler: (send: (event: ChatStreamEvent) => void) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: ChatStreamEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event.type, event)));
+        }
+      };
+
+      try {
+        await handler(send);
+      } catch (error) {
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        closed = true;
+        controller.close();
+      }
+    },
+  });
+}
+
+/**
+ * Parse a text/event-stream body into events. Used for both the Mistral streaming API
+ * and the chat page reading /api/rag/chat.
+ */
+export async function* parseServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        const parsed = parseBlock(block);
+        if (parsed) yield parsed;
+      }
+    }
+
+    const parsed = parseBlock(buffer + decoder.decode());
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse a chat event stream from /api/rag/chat
+ */
+export async function* readChatEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  for await (const { data } of parseServerSentEvents(body)) {
+    yield JSON.parse(data) as ChatStreamEvent;
+  }
+}
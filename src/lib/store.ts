@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import type { Citation } from './citations'
+import type { DecisionRuleResult } from './decision-rules'
 
 interface Settings {
   theme: 'dark' | 'light'
@@ -23,6 +25,8 @@ interface ChatSession {
     role: 'user' | 'assistant'
     timestamp: Date
     citations?: string[]
+    inlineCitations?: Citation[]
+    decisionRules?: DecisionRuleResult[]
   }>
   createdAt: Date
   updatedAt: Date
@@ -0,0 +1,135 @@
+// Structured (JSON) Model Output: Extraction, Repair and Validation Retries
+import { ZodError } from 'zod';
+import { LLMAttempt, LLMMessage, LLMProviderChain, LLMUsage } from './llm-provider';
+
+export type StructuredParseResult<T> =
+  | { success: true; value: T; repaired: boolean }
+  | { success: false; errors: string[] };
+
+export type StructuredGenerationResult<T> =
+  | {
+      success: true;
+      value: T;
+      provider: string;
+      model: string;
+      usage: LLMUsage;
+      llmAttempts: LLMAttempt[];
+      // Generation attempts needed to get schema-valid output
+      parseAttempts: number;
+      // Output needed syntactic or key repairs before it validated
+      repaired: boolean;
+    }
+  | { success: false; errors: string[]; parseAttempts: number; llmAttempts: LLMAttempt[] };
+
+export interface StructuredGenerationOptions {
+  maxAttempts: number;
+  temperature: number;
+  maxTokens: number;
+  // Used in log messages
+  label: string;
+}
+
+/**
+ * Pull the JSON object or array out of model output, repairing common syntax slips
+ */
+export function extractJson(raw: string): { value: unknown; repaired: boolean } | null {
+  const text = raw.replace(/```(?:json)?/gi, '').trim();
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  const candidate = text.slice(start, end + 1);
+  try {
+    return { value: JSON.parse(candidate), repaired: start > 0 || end < text.length - 1 };
+  } catch {
+    // Common slips: smart quotes, trailing commas, single-quoted strings
+    const fixed = candidate
+      .replace(/[“”]/g, '"')
+      .replace(/[‘’]/g, "'")
+      .replace(/,\s*([}\]])/g, '$1')
+      .replace(/'([^'\n]*)'(?=\s*[:,}\]])/g, '"$1"');
+    try {
+      return { value: JSON.parse(fixed), repaired: true };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Convert snake_case keys to camelCase and map known aliases onto schema key names
+ */
+export function normalizeKeys(value: unknown, aliases: Record<string, string>): { value: unknown; renamed: boolean } {
+  let renamed = false;
+  const visit = (node: unknown): unknown => {
+    if (Array.isArray(node)) {
+      return node.map(visit);
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => {
+        const camel = key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+        const target = aliases[camel] || camel;
+        if (target !== key) renamed = true;
+        return [target, visit(child)];
+      }));
+    }
+    return node;
+  };
+  return { value: visit(value), renamed };
+}
+
+/**
+ * Format schema validation issues as "path: message" lines the model can act on
+ */
+export function formatSchemaErrors(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+}
+
+/**
+ * Request structured output, sending validation errors back to the model for correction
+ * until the output parses or the attempts run out
+ */
+export async function generateStructuredOutput<T>(
+  llm: LLMProviderChain,
+  initialMessages: LLMMessage[],
+  parse: (raw: string) => StructuredParseResult<T>,
+  options: StructuredGenerationOptions
+): Promise<StructuredGenerationResult<T>> {
+  const messages = [...initialMessages];
+  const llmAttempts: LLMAttempt[] = [];
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    const response = await llm.chat({
+      messages,
+      temperature: attempt === 1 ? options.temperature : Math.min(options.temperature, 0.2),
+      maxTokens: options.maxTokens,
+    });
+    llmAttempts.push(...response.attempts);
+
+    const parsed = parse(response.content);
+    if (parsed.success) {
+      return {
+        success: true,
+        value: parsed.value,
+        provider: response.provider,
+        model: response.model,
+        usage: response.usage,
+        llmAttempts,
+        parseAttempts: attempt,
+        repaired: parsed.repaired || attempt > 1,
+      };
+    }
+
+    errors = parsed.errors;
+    console.warn(`${options.label} output invalid (attempt ${attempt}):`, errors);
+    messages.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: `That output is invalid:\n${errors.map(e => `- ${e}`).join('\n')}\n\nReturn ONLY the corrected JSON object.` }
+    );
+  }
+
+  return { success: false, errors, parseAttempts: options.maxAttempts, llmAttempts };
+}
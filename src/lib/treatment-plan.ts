@@ -0,0 +1,527 @@
+// Structured Treatment Plans with Dose Verification Against the drug_dosages Table
+import { z } from 'zod';
+import { LLMAttempt, LLMProviderChain, LLMUsage, llmProviderChain } from './llm-provider';
+import { DoseInterval, DoseRule, calculateDose, convertDoseUnit, parseDoseRule, parseDosesPerDay } from './dosing';
+import { AllergyCheckResult, checkAllergies } from './drug-allergies';
+import { InteractionCheckResult, checkInteractions, mergeInteractionResults } from './drug-interactions';
+import { extractJson, formatSchemaErrors, generateStructuredOutput, normalizeKeys } from './structured-output';
+
+export const TREATMENT_CONFIG = {
+  // Initial request plus repair retries when the model output fails validation
+  MAX_ATTEMPTS: 3,
+  MAX_REGIMENS: 8,
+  // Relative slack when comparing doses, so rounding (e.g. 13.33 mg/kg/dose) is not flagged
+  DOSE_TOLERANCE: 0.02,
+} as const;
+
+// Keys models commonly use instead of the schema's names
+const KEY_ALIASES: Record<string, string> = {
+  medication: 'drug',
+  drugName: 'drug',
+  name: 'drug',
+  dose: 'mgPerKg',
+  dosePerKg: 'mgPerKg',
+  mgKg: 'mgPerKg',
+  doseMgPerKg: 'mgPerKg',
+  basis: 'doseBasis',
+  maxDosage: 'maxDose',
+  maximumDose: 'maxDose',
+  treatments: 'regimens',
+  medications: 'regimens',
+  education: 'patientEducation',
+  seekCare: 'whenToSeekCare',
+  returnPrecautions: 'whenToSeekCare',
+};
+
+const textList = z.preprocess(
+  value => typeof value === 'string' ? value.split(/[;\n]/).map(item => item.trim()).filter(Boolean) : value ?? [],
+  z.array(z.string().trim().min(1))
+);
+
+// Models often answer "50 mg/kg" where a number is expected
+const milligrams = z.preprocess(
+  value => typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : value,
+  z.number().positive()
+);
+
+const doseBasis = z.preprocess(
+  value => typeof value === 'string' ? (/day|daily|24/i.test(value) ? 'day' : /dose/i.test(value) ? 'dose' : value) : value,
+  z.enum(['dose', 'day'])
+);
+
+const regimenSchema = z.object({
+  drug: z.string().trim().min(1),
+  route: z.string().trim().min(1),
+  mgPerKg: milligrams,
+  doseBasis,
+  frequency: z.string().trim().min(1),
+  duration: z.string().trim().min(1),
+  maxDose: z.object({ mg: milligrams, per: doseBasis }).nullish(),
+  line: z.preprocess(
+    value => typeof value === 'string' ? (/alt|second/i.test(value) ? 'alternative' : /first/i.test(value) ? 'first-line' : value) : value ?? 'first-line',
+    z.enum(['first-line', 'alternative'])
+  ),
+  notes: z.string().trim().optional(),
+});
+
+export const treatmentPlanSchema = z.object({
+  regimens: z.array(regimenSchema).max(TREATMENT_CONFIG.MAX_REGIMENS),
+  monitoring: textList,
+  patientEducation: textList,
+  whenToSeekCare: textList,
+});
+
+export type TreatmentRegimen = z.infer<typeof regimenSchema>;
+export type TreatmentPlanOutput = z.infer<typeof treatmentPlanSchema>;
+
+// Row shape of the drug_dosages table, as returned by drugService
+export interface DrugDosageRow {
+  drug_name: string;
+  age_group?: string | null;
+  indication?: string | null;
+  dosage: string;
+  frequency?: string | null;
+  max_dosage?: string | null;
+  notes?: string | null;
+}
+
+export type DoseAlertCode =
+  | 'OUT_OF_RANGE'
+  | 'EXCEEDS_MAX_DOSE'
+  | 'MAX_DOSE_ABOVE_REFERENCE'
+  | 'NOT_IN_REFERENCE'
+  | 'UNVERIFIABLE_DOSE'
+  | 'NO_WEIGHT';
+
+export interface DoseAlert {
+  drug: string;
+  code: DoseAlertCode;
+  // Errors mean the generated dose contradicts the reference table; warnings mean it could not be checked
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type DoseCheckStatus = 'verified' | 'flagged' | 'unverified';
+
+export interface VerifiedRegimen extends TreatmentRegimen {
+  doseCheck: {
+    status: DoseCheckStatus;
+    // Dose for the supplied weight, in mg per doseBasis
+    calculatedDoseMg?: number;
+    reference?: { dosage: string; maxDosage?: string; ageGroup?: string; indication?: string };
+    alerts: DoseAlert[];
+  };
+}
+
+export interface TreatmentPlan extends Omit<TreatmentPlanOutput, 'regimens'> {
+  regimens: VerifiedRegimen[];
+}
+
+export interface DoseCheckSummary {
+  status: DoseCheckStatus;
+  weightKg?: number;
+  alerts: DoseAlert[];
+}
+
+export interface TreatmentRequest {
+  condition: string;
+  patientAge: string;
+  patientWeightKg?: number;
+  allergies?: string[];
+  currentMedications?: string[];
+  severity?: string;
+}
+
+export interface TreatmentPlanResult {
+  plan: TreatmentPlan;
+  doseCheck: DoseCheckSummary;
+  interactions: InteractionCheckResult;
+  allergyCheck: AllergyCheckResult;
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  llmAttempts: LLMAttempt[];
+  parseAttempts: number;
+  repaired: boolean;
+}
+
+export type DosageLookup = (drugName: string) => Promise<DrugDosageRow[]>;
+
+export class TreatmentFormatError extends Error {
+  constructor(public readonly errors: string[], public readonly attempts: number) {
+    super(`Model did not return a valid treatment plan after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'TreatmentFormatError';
+  }
+}
+
+const SYSTEM_PROMPT = `You are a pediatric pharmacology and treatment specialist. Provide evidence-based treatment recommendations following pediatric guidelines and considering allergies, current medications and severity.
+
+Respond with ONLY a JSON object, no prose or code fences, matching:
+{
+  "regimens": [
+    {
+      "drug": "generic drug name",
+      "route": "PO" | "IV" | "IM" | "inhaled" | ...,
+      "mgPerKg": number,
+      "doseBasis": "dose" | "day",
+      "frequency": "e.g. every 8 hours",
+      "duration": "e.g. 7 days",
+      "maxDose": { "mg": number, "per": "dose" | "day" } | null,
+      "line": "first-line" | "alternative",
+      "notes": "optional short note"
+    }
+  ],
+  "monitoring": ["monitoring and follow-up requirements"],
+  "patientEducation": ["education points for the family"],
+  "whenToSeekCare": ["reasons to seek urgent care"]
+}
+"mgPerKg" is a single number in mg/kg per "doseBasis". Use an empty regimens array when no drug treatment is indicated.`;
+
+/**
+ * Validate (and where possible repair) raw model output against the treatment plan schema
+ */
+export function parseTreatmentPlan(raw: string): { success: true; plan: TreatmentPlanOutput; repaired: boolean } | { success: false; errors: string[] } {
+  const extracted = extractJson(raw);
+  if (!extracted) {
+    return { success: false, errors: ['Output does not contain a JSON object'] };
+  }
+
+  const normalized = normalizeKeys(Array.isArray(extracted.value) ? { regimens: extracted.value } : extracted.value, KEY_ALIASES);
+  const parsed = treatmentPlanSchema.safeParse(normalized.value);
+  if (!parsed.success) {
+    return { success: false, errors: formatSchemaErrors(parsed.error) };
+  }
+
+  return { success: true, plan: parsed.data, repaired: extracted.repaired || normalized.renamed };
+}
+
+/**
+ * Parse a patient weight given as kilograms ("20", "20 kg") or pounds ("44 lb"); NaN when unreadable
+ */
+export function parseWeightKg(weight: string | number): number {
+  if (typeof weight === 'number') {
+    return weight > 0 ? weight : NaN;
+  }
+  const match = weight.trim().match(/^(\d+(?:\.\d+)?)\s*(kg|kgs|kilograms?|lb|lbs|pounds?)?$/i);
+  if (!match || parseFloat(match[1]) <= 0) {
+    return NaN;
+  }
+  const value = parseFloat(match[1]);
+  return match[2] && /^(lb|pound)/i.test(match[2]) ? roundDose(value * 0.45359237) : value;
+}
+
+// Age bands for named drug_dosages age groups, in years [from, to)
+const AGE_GROUP_YEARS: Record<string, [number, number]> = {
+  neonate: [0, 28 / 365.25],
+  newborn: [0, 28 / 365.25],
+  infant: [0, 1],
+  toddler: [1, 3],
+  preschool: [3, 6],
+  child: [1, 12],
+  children: [1, 12],
+  'school age': [6, 12],
+  adolescent: [12, 18],
+  teen: [12, 18],
+  adult: [18, Infinity],
+};
+
+const AGE_UNIT_YEARS: Array<[RegExp, number]> = [
+  [/^d/, 1 / 365.25],
+  [/^w/, 7 / 365.25],
+  [/^m/, 1 / 12],
+  [/^y/, 1],
+];
+
+/**
+ * Read a patient age such as "5", "6 months" or "3 weeks" in years; undefined when unreadable
+ */
+export function parseAgeYears(age: string): number | undefined {
+  const match = age.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(days?|d|weeks?|wks?|w|months?|mos?|m|years?|yrs?|y)?\b/);
+  if (!match) {
+    return undefined;
+  }
+  const unit = match[2] ? AGE_UNIT_YEARS.find(([pattern]) => pattern.test(match[2]))![1] : 1;
+  return parseFloat(match[1]) * unit;
+}
+
+/**
+ * Whether a reference age group ("infant", "2-12 years", ">6 months") covers the patient; unknown labels match
+ */
+function matchesAgeGroup(ageGroup: string | null | undefined, ageYears: number | undefined): boolean {
+  if (!ageGroup || ageYears === undefined) {
+    return true;
+  }
+  const label = ageGroup.trim().toLowerCase();
+  const unitOf = (unit?: string) => unit ? AGE_UNIT_YEARS.find(([pattern]) => pattern.test(unit))![1] : 1;
+
+  const range = label.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)\s*(days?|weeks?|months?|years?|y)?/);
+  if (range) {
+    const unit = unitOf(range[3]);
+    return ageYears >= parseFloat(range[1]) * unit && ageYears <= parseFloat(range[2]) * unit;
+  }
+  const bound = label.match(/(>=?|<=?|≥|≤|over|under)\s*(\d+(?:\.\d+)?)\s*(days?|weeks?|months?|years?|y)?/);
+  if (bound) {
+    const limit = parseFloat(bound[2]) * unitOf(bound[3]);
+    return /^(>|≥|over)/.test(bound[1]) ? ageYears >= limit : ageYears < limit;
+  }
+  const named = Object.entries(AGE_GROUP_YEARS).find(([name]) => label.includes(name));
+  return named ? ageYears >= named[1][0] && ageYears < named[1][1] : true;
+}
+
+/**
+ * Read a reference row as a weight-based dose rule in mg; null unless the dosage is a mass per kilogram.
+ * Unlabelled ranges ("10-15 mg/kg") are daily totals, as parseDoseRule reads them.
+ */
+function referenceRule(row: DrugDosageRow): DoseRule | null {
+  const rule = parseDoseRule(row);
+  if (!rule || rule.scale !== 'kg') {
+    return null;
+  }
+  const toMg = (value: number | undefined) => value === undefined ? undefined : convertDoseUnit(value, rule.unit, 'mg') ?? undefined;
+  const min = toMg(rule.amount.min);
+  const max = toMg(rule.amount.max);
+  if (min === undefined || max === undefined) {
+    return null;
+  }
+  return {
+    ...rule,
+    unit: 'mg',
+    amount: { min, max },
+    maxPerDose: toMg(rule.maxPerDose),
+    maxPerDay: toMg(rule.maxPerDay),
+    maxPerKgPerDay: toMg(rule.maxPerKgPerDay),
+  };
+}
+
+/**
+ * Cross-check a generated regimen against reference rows for the drug and the patient's weight and age
+ */
+export function verifyRegimen(
+  regimen: TreatmentRegimen,
+  rows: DrugDosageRow[],
+  options: { weightKg?: number; condition?: string; patientAge?: string } = {}
+): VerifiedRegimen {
+  const alerts: DoseAlert[] = [];
+  const alert = (code: DoseAlertCode, severity: DoseAlert['severity'], message: string) =>
+    alerts.push({ drug: regimen.drug, code, severity, message });
+  // The most frequent schedule, so daily totals are never underestimated
+  const perDay = parseDosesPerDay(regimen.frequency)?.max ?? null;
+  const convert = (value: number, from: DoseInterval, to: DoseInterval): number | null =>
+    from === to ? value : perDay === null ? null : from === 'dose' ? value * perDay : value / perDay;
+  const within = (value: number, limit: number) => value <= limit * (1 + TREATMENT_CONFIG.DOSE_TOLERANCE);
+  const label = `${regimen.drug} ${formatNumber(regimen.mgPerKg)} mg/kg/${regimen.doseBasis}`;
+
+  const ageYears = options.patientAge ? parseAgeYears(options.patientAge) : undefined;
+  const forAge = rows.filter(row => matchesAgeGroup(row.age_group, ageYears));
+  const candidates = forAge
+    .map(row => ({ row, rule: referenceRule(row) }))
+    .filter((candidate): candidate is { row: DrugDosageRow; rule: DoseRule } => candidate.rule !== null);
+  const condition = options.condition?.toLowerCase();
+  const forIndication = condition
+    ? candidates.filter(({ row }) => row.indication && (condition.includes(row.indication.toLowerCase()) || row.indication.toLowerCase().includes(condition)))
+    : [];
+  const references = forIndication.length > 0 ? forIndication : candidates;
+
+  let reference: typeof references[number] | undefined;
+  if (references.length === 0) {
+    alert('NOT_IN_REFERENCE', 'warning', rows.length > 0 && forAge.length === 0
+      ? `${regimen.drug} has no entry in the drug dosage reference for age ${options.patientAge}; dose not verified`
+      : `${regimen.drug} has no parsable entry in the drug dosage reference; dose not verified`);
+  } else {
+    const comparable = references
+      .map(candidate => ({ ...candidate, dose: convert(regimen.mgPerKg, regimen.doseBasis, candidate.rule.per) }))
+      .filter(candidate => candidate.dose !== null);
+    const match = comparable.find(({ rule, dose }) =>
+      dose! >= rule.amount.min * (1 - TREATMENT_CONFIG.DOSE_TOLERANCE) && within(dose!, rule.amount.max)
+    );
+    reference = match ?? comparable[0] ?? references[0];
+
+    if (comparable.length === 0) {
+      alert('UNVERIFIABLE_DOSE', 'warning', `${label} cannot be compared with the reference "${references[0].row.dosage}" because the frequency "${regimen.frequency}" is not recognised`);
+    } else if (!match) {
+      const ranges = comparable.map(({ row, rule }) => `"${row.dosage}" (read as mg/kg/${rule.per}${row.age_group ? `, ${row.age_group}` : ''})`).join(', ');
+      alert('OUT_OF_RANGE', 'error', `${label} is outside the reference range ${ranges}`);
+    }
+  }
+
+  // Weight-based daily caps need no weight
+  const maxPerKgPerDay = reference?.rule.maxPerKgPerDay;
+  const mgPerKgPerDay = convert(regimen.mgPerKg, regimen.doseBasis, 'day');
+  if (maxPerKgPerDay !== undefined && mgPerKgPerDay !== null && !within(mgPerKgPerDay, maxPerKgPerDay)) {
+    alert('EXCEEDS_MAX_DOSE', 'error', `${label} gives ${formatNumber(mgPerKgPerDay)} mg/kg/day, above the reference maximum of ${formatNumber(maxPerKgPerDay)} mg/kg/day`);
+  }
+
+  let calculatedDoseMg: number | undefined;
+  if (options.weightKg === undefined) {
+    alert('NO_WEIGHT', 'warning', `No patient weight supplied; the absolute dose of ${regimen.drug} was not checked against its maximum`);
+  } else {
+    calculatedDoseMg = regimen.mgPerKg * options.weightKg;
+    const limits: Array<{ source: string; maxPerDose?: number; maxPerDay?: number }> = [
+      { source: 'the reference maximum', maxPerDose: reference?.rule.maxPerDose, maxPerDay: reference?.rule.maxPerDay },
+      regimen.maxDose?.per === 'dose'
+        ? { source: 'the stated maximum', maxPerDose: regimen.maxDose.mg }
+        : { source: 'the stated maximum', maxPerDay: regimen.maxDose?.mg },
+    ];
+    for (const { source, maxPerDose, maxPerDay } of limits) {
+      if (maxPerDose === undefined && maxPerDay === undefined) continue;
+      const calculation = calculateDose(regimen.drug, {
+        route: regimen.route,
+        amount: { min: regimen.mgPerKg, max: regimen.mgPerKg },
+        unit: 'mg',
+        scale: 'kg',
+        per: regimen.doseBasis,
+        frequency: regimen.frequency,
+        dosesPerDay: perDay === null ? undefined : { min: perDay, max: perDay },
+        maxPerDose,
+        maxPerDay,
+      }, { weightKg: options.weightKg });
+      for (const cap of calculation.capsApplied.filter(cap => !within(cap.calculated, cap.value))) {
+        const per = cap.limit === 'perDose' ? 'dose' : 'day';
+        alert('EXCEEDS_MAX_DOSE', 'error', `${label} gives ${formatNumber(cap.calculated)} mg/${per} for ${formatNumber(options.weightKg)} kg, above ${source} of ${formatNumber(cap.value)} mg/${per}`);
+      }
+    }
+  }
+
+  if (regimen.maxDose && reference) {
+    const { maxPerDose, maxPerDay } = reference.rule;
+    const stated = regimen.maxDose.per === 'dose'
+      ? (maxPerDose !== undefined ? { value: regimen.maxDose.mg, max: maxPerDose } : maxPerDay !== undefined ? { value: convert(regimen.maxDose.mg, 'dose', 'day'), max: maxPerDay } : null)
+      : (maxPerDay !== undefined ? { value: regimen.maxDose.mg, max: maxPerDay } : maxPerDose !== undefined ? { value: convert(regimen.maxDose.mg, 'day', 'dose'), max: maxPerDose } : null);
+    if (stated && stated.value !== null && !within(stated.value, stated.max)) {
+      alert('MAX_DOSE_ABOVE_REFERENCE', 'error', `${regimen.drug} stated maximum of ${formatNumber(regimen.maxDose.mg)} mg/${regimen.maxDose.per} is above the reference maximum "${reference.row.max_dosage}"`);
+    }
+  }
+
+  return {
+    ...regimen,
+    doseCheck: {
+      status: summarizeStatus(alerts),
+      calculatedDoseMg: calculatedDoseMg === undefined ? undefined : roundDose(calculatedDoseMg),
+      reference: reference && {
+        dosage: reference.row.dosage,
+        maxDosage: reference.row.max_dosage ?? undefined,
+        ageGroup: reference.row.age_group ?? undefined,
+        indication: reference.row.indication ?? undefined,
+      },
+      alerts,
+    },
+  };
+}
+
+function summarizeStatus(alerts: DoseAlert[]): DoseCheckStatus {
+  if (alerts.some(a => a.severity === 'error')) return 'flagged';
+  if (alerts.some(a => a.severity === 'warning')) return 'unverified';
+  return 'verified';
+}
+
+function roundDose(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatNumber(value: number): string {
+  return String(roundDose(value));
+}
+
+async function lookupDrugDosages(drugName: string): Promise<DrugDosageRow[]> {
+  // Loaded lazily: the Supabase client throws at import time when credentials are missing
+  const { drugService } = await import('./services');
+  return drugService.getDrugDosages(drugName);
+}
+
+export class TreatmentPlanService {
+  constructor(
+    private llm: LLMProviderChain = llmProviderChain,
+    private lookupDosages: DosageLookup = lookupDrugDosages
+  ) {}
+
+  /**
+   * Generate structured regimens and verify every dose against the drug dosage reference
+   */
+  async generate(request: TreatmentRequest): Promise<TreatmentPlanResult> {
+    const result = await generateStructuredOutput(
+      this.llm,
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: this.buildUserPrompt(request) },
+      ],
+      raw => {
+        const parsed = parseTreatmentPlan(raw);
+        return parsed.success ? { success: true, value: parsed.plan, repaired: parsed.repaired } : parsed;
+      },
+      { maxAttempts: TREATMENT_CONFIG.MAX_ATTEMPTS, temperature: 0.3, maxTokens: 2500, label: 'Treatment plan' }
+    );
+
+    if (!result.success) {
+      throw new TreatmentFormatError(result.errors, result.parseAttempts);
+    }
+
+    const { plan, doseCheck } = await this.verify(result.value, request);
+    return {
+      plan,
+      doseCheck,
+      interactions: this.checkInteractions(result.value, request.currentMedications ?? []),
+      allergyCheck: checkAllergies(result.value.regimens.map(regimen => regimen.drug), request.allergies ?? []),
+      provider: result.provider,
+      model: result.model,
+      usage: result.usage,
+      llmAttempts: result.llmAttempts,
+      parseAttempts: result.parseAttempts,
+      repaired: result.repaired,
+    };
+  }
+
+  /**
+   * Cross-check every regimen in a plan against the reference table
+   */
+  async verify(output: TreatmentPlanOutput, request: Pick<TreatmentRequest, 'condition' | 'patientWeightKg'> & Partial<Pick<TreatmentRequest, 'patientAge'>>): Promise<{ plan: TreatmentPlan; doseCheck: DoseCheckSummary }> {
+    const regimens = await Promise.all(output.regimens.map(async regimen =>
+      verifyRegimen(regimen, await this.lookupDosages(regimen.drug), {
+        weightKg: request.patientWeightKg,
+        condition: request.condition,
+        patientAge: request.patientAge,
+      })
+    ));
+
+    const alerts = regimens.flatMap(regimen => regimen.doseCheck.alerts);
+    const doseCheck: DoseCheckSummary = {
+      status: summarizeStatus(alerts),
+      weightKg: request.patientWeightKg,
+      alerts,
+    };
+
+    if (doseCheck.status === 'flagged') {
+      console.warn(`Treatment plan for ${request.condition} has dose errors:`, alerts.filter(a => a.severity === 'error').map(a => a.message));
+    }
+
+    return { plan: { ...output, regimens }, doseCheck };
+  }
+
+  /**
+   * Check first-line regimens together with current medications. Alternatives replace first-line
+   * drugs, so each is only checked against the current medications.
+   */
+  checkInteractions(output: TreatmentPlanOutput, currentMedications: string[]): InteractionCheckResult {
+    const firstLine = output.regimens.filter(regimen => regimen.line === 'first-line').map(regimen => regimen.drug);
+    const alternatives = output.regimens.filter(regimen => regimen.line === 'alternative').map(regimen => regimen.drug);
+
+    return mergeInteractionResults([
+      checkInteractions([...firstLine, ...currentMedications]),
+      ...alternatives.map(drug => checkInteractions([drug, ...currentMedications])),
+    ]);
+  }
+
+  private buildUserPrompt({ condition, patientAge, patientWeightKg, allergies, currentMedications, severity }: TreatmentRequest): string {
+    return `Clinical Scenario:
+- Condition: ${condition}
+- Patient Age: ${patientAge}
+- Patient Weight: ${patientWeightKg !== undefined ? `${patientWeightKg} kg` : 'Not specified'}
+- Allergies: ${allergies?.join(', ') || 'None reported'}
+- Current Medications: ${currentMedications?.join(', ') || 'None'}
+- Severity: ${severity || 'Not specified'}
+
+Return the treatment plan JSON.`;
+  }
+}
+
+// Export singleton instance
+export const treatmentPlanService = new TreatmentPlanService();
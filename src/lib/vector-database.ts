@@ -1,7 +1,8 @@
 // Enhanced Vector Database Service for NelsonGPT
-import { supabaseService } from './supabase';
-import { embeddingService } from './embeddings';
+import { embeddingService, EmbeddingBatchOptions, EmbeddingModelMismatchError, EmbeddingResult, EmbeddingService } from './embeddings';
 import { securityService } from './security';
+import { hasLexicalSignals, reciprocalRankFusion } from './lexical-search';
+import { createVectorStore, StoredDocument, VectorStore } from './vector-store';
 
 export interface VectorDocument {
   id: string;
@@ -22,8 +23,32 @@ export interface VectorDocument {
     total_chunks?: number;
   };
   similarity?: number;
+  lexicalScore?: number;
+  hybridScore?: number;
 }
 
+export type SearchStrategy =
+  | 'emergency_prioritized'
+  | 'diagnostic_focused'
+  | 'treatment_focused'
+  | 'general_medical'
+  | 'hybrid';
+
+// Weights of the relevance factors combined when re-ranking
+export interface RerankWeights {
+  similarity: number;
+  medicalRelevance: number;
+  recency: number;
+  evidence: number;
+}
+
+export const DEFAULT_RERANK_WEIGHTS: RerankWeights = {
+  similarity: 0.4,
+  medicalRelevance: 0.3,
+  recency: 0.15,
+  evidence: 0.15,
+};
+
 export interface VectorSearchOptions {
   threshold?: number;
   limit?: number;
@@ -36,6 +61,10 @@ export interface VectorSearchOptions {
   };
   includeMetadata?: boolean;
   rerank?: boolean;
+  // Unset weights keep their default
+  rerankWeights?: Partial<RerankWeights>;
+  searchStrategy?: SearchStrategy;
+  rrfK?: number;
 }
 
 export interface VectorSearchResult {
@@ -46,16 +75,39 @@ export interface VectorSearchResult {
   averageSimilarity: number;
   maxSimilarity: number;
   metadata: {
-    searchStrategy: string;
+    searchStrategy: SearchStrategy;
     filtersApplied: boolean;
     rerankingApplied: boolean;
     cacheHit: boolean;
+    fusion?: {
+      method: 'reciprocal_rank_fusion';
+      k: number;
+      vectorCandidates: number;
+      lexicalCandidates: number;
+      overlap: number;
+    };
   };
 }
 
 export class VectorDatabaseService {
   private cache = new Map<string, { result: VectorSearchResult; timestamp: number }>();
   private cacheTimeout = 5 * 60 * 1000; // 5 minutes
+  private store: VectorStore;
+  private embeddings: EmbeddingService;
+  // Provider/model already confirmed to match the stored embeddings
+  private verifiedEmbeddingModel?: string;
+
+  constructor(store: VectorStore = createVectorStore(), embeddings: EmbeddingService = embeddingService) {
+    this.store = store;
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Name of the backend this service reads from and writes to
+   */
+  get backend(): VectorStore['backend'] {
+    return this.store.backend;
+  }
 
   /**
    * Enhanced vector similarity search with medical context
@@ -79,18 +131,17 @@ export class VectorDatabaseService {
       }
 
       // Generate query embedding
-      const queryEmbeddingResult = await embeddingService.generateEmbedding(query);
+      await this.assertEmbeddingModel();
+      const queryEmbeddingResult = await this.embeddings.generateEmbedding(query);
       const queryEmbedding = queryEmbeddingResult.embedding;
 
       // Determine search strategy based on query
       const searchStrategy = this.determineSearchStrategy(query, options);
       
-      // Execute vector search
-      const searchResult = await this.executeVectorSearch(
-        queryEmbedding,
-        options,
-        searchStrategy
-      );
+      // Execute vector search, fused with full-text rank for hybrid queries
+      const searchResult = searchStrategy === 'hybrid'
+        ? await this.executeHybridSearch(query, queryEmbedding, options)
+        : await this.executeVectorSearch(queryEmbedding, options, searchStrategy);
 
       // Apply medical context filtering
       const filteredDocuments = await this.applyMedicalFiltering(
@@ -101,7 +152,7 @@ export class VectorDatabaseService {
 
       // Re-rank results if requested
       const finalDocuments = options.rerank 
-        ? await this.rerankDocuments(filteredDocuments, query, queryEmbedding)
+        ? await this.rerankDocuments(filteredDocuments, query, queryEmbedding, { ...DEFAULT_RERANK_WEIGHTS, ...options.rerankWeights })
         : filteredDocuments;
 
       const result: VectorSearchResult = {
@@ -116,6 +167,7 @@ export class VectorDatabaseService {
           filtersApplied: !!options.filters,
           rerankingApplied: !!options.rerank,
           cacheHit: false,
+          fusion: searchResult.fusion,
         },
       };
 
@@ -130,106 +182,105 @@ export class VectorDatabaseService {
   }
 
   /**
-   * Execute the actual vector search against Supabase
+   * Execute the actual vector search against the configured store
    */
   private async executeVectorSearch(
     queryEmbedding: number[],
     options: VectorSearchOptions,
     strategy: string
-  ): Promise<{ documents: VectorDocument[] }> {
+  ): Promise<{ documents: VectorDocument[]; fusion?: VectorSearchResult['metadata']['fusion'] }> {
     const threshold = options.threshold || 0.7;
     const limit = options.limit || 10;
 
     try {
-      // Build SQL query for vector similarity search
-      let query = supabaseService
-        .from('nelson_embeddings')
-        .select(`
-          id,
-          document_id,
-          chunk_index,
-          embedding,
-          metadata,
-          nelson_documents!inner (
-            id,
-            title,
-            chapter,
-            section,
-            content,
-            medical_specialties,
-            age_groups,
-            urgency_level,
-            evidence_level,
-            last_reviewed,
-            metadata
-          )
-        `)
-        .limit(limit * 2); // Get extra results for filtering
-
-      // Apply filters if provided
-      if (options.filters?.chapter) {
-        query = query.eq('nelson_documents.chapter', options.filters.chapter);
-      }
-
-      if (options.filters?.medical_specialties && options.filters.medical_specialties.length > 0) {
-        query = query.overlaps('nelson_documents.medical_specialties', options.filters.medical_specialties);
-      }
-
-      if (options.filters?.age_groups && options.filters.age_groups.length > 0) {
-        query = query.overlaps('nelson_documents.age_groups', options.filters.age_groups);
-      }
+      const candidates = await this.store.searchByVector(queryEmbedding, {
+        limit: limit * 2, // Get extra results for filtering
+        filters: options.filters,
+      });
 
-      if (options.filters?.urgency_level) {
-        query = query.eq('nelson_documents.urgency_level', options.filters.urgency_level);
-      }
+      // Apply similarity threshold
+      const documents = candidates
+        .filter(doc => (doc.similarity || 0) >= threshold)
+        .sort((a, b) => (b.similarity || 0) - (a.similarity || 0))
+        .slice(0, limit);
 
-      const { data, error } = await query;
+      return { documents };
+    } catch (error) {
+      console.error(`${this.store.backend} vector search failed:`, error);
+      throw error;
+    }
+  }
 
-      if (error) {
-        throw error;
-      }
+  /**
+   * Execute full-text search against the configured store, ranked with BM25
+   */
+  private async executeLexicalSearch(
+    query: string,
+    queryEmbedding: number[],
+    options: VectorSearchOptions
+  ): Promise<{ documents: VectorDocument[] }> {
+    const limit = options.limit || 10;
 
-      // Calculate similarities and filter
-      const documents: VectorDocument[] = (data || [])
-        .map((row: any) => {
-          const doc = row.nelson_documents;
-          const similarity = embeddingService.calculateCosineSimilarity(
-            queryEmbedding,
-            row.embedding
-          );
-
-          return {
-            id: row.document_id,
-            content: doc.content,
-            embedding: row.embedding,
-            similarity,
-            metadata: {
-              chapter: doc.chapter,
-              section: doc.section,
-              title: doc.title,
-              medical_specialties: doc.medical_specialties || [],
-              age_groups: doc.age_groups || [],
-              urgency_level: doc.urgency_level,
-              evidence_level: doc.evidence_level,
-              source: 'Nelson Textbook of Pediatrics',
-              last_reviewed: doc.last_reviewed,
-              chunk_index: row.chunk_index,
-              ...doc.metadata,
-              ...row.metadata,
-            },
-          };
-        })
-        .filter(doc => doc.similarity >= threshold)
-        .sort((a, b) => (b.similarity || 0) - (a.similarity || 0))
-        .slice(0, limit);
+    try {
+      const documents = await this.store.searchByText(query, queryEmbedding, {
+        limit: limit * 2,
+        filters: options.filters,
+      });
 
       return { documents };
     } catch (error) {
-      console.error('Supabase vector search failed:', error);
+      console.error(`${this.store.backend} lexical search failed:`, error);
       throw error;
     }
   }
 
+  /**
+   * Fuse vector and lexical rankings with reciprocal rank fusion
+   */
+  private async executeHybridSearch(
+    query: string,
+    queryEmbedding: number[],
+    options: VectorSearchOptions
+  ): Promise<{ documents: VectorDocument[]; fusion: VectorSearchResult['metadata']['fusion'] }> {
+    const limit = options.limit || 10;
+    const k = options.rrfK || 60;
+
+    // Lexical failures should not take down retrieval; fall back to pure vector ranking
+    const [vectorResult, lexicalResult] = await Promise.all([
+      this.executeVectorSearch(queryEmbedding, { ...options, limit: limit * 2 }, 'hybrid'),
+      this.executeLexicalSearch(query, queryEmbedding, options).catch(() => ({ documents: [] as VectorDocument[] })),
+    ]);
+
+    const candidates = new Map<string, VectorDocument>();
+    for (const doc of [...vectorResult.documents, ...lexicalResult.documents]) {
+      candidates.set(doc.id, { ...candidates.get(doc.id), ...doc });
+    }
+
+    const fused = reciprocalRankFusion(
+      [vectorResult.documents.map(doc => doc.id), lexicalResult.documents.map(doc => doc.id)],
+      k
+    );
+    // Normalise so a document ranked first in both lists scores 1.0
+    const maxScore = 2 / (k + 1);
+
+    const documents = Array.from(fused.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => ({ ...candidates.get(id)!, hybridScore: score / maxScore }));
+
+    const vectorIds = new Set(vectorResult.documents.map(doc => doc.id));
+    return {
+      documents,
+      fusion: {
+        method: 'reciprocal_rank_fusion',
+        k,
+        vectorCandidates: vectorResult.documents.length,
+        lexicalCandidates: lexicalResult.documents.length,
+        overlap: lexicalResult.documents.filter(doc => vectorIds.has(doc.id)).length,
+      },
+    };
+  }
+
   /**
    * Apply medical context-aware filtering
    */
@@ -277,21 +328,22 @@ export class VectorDatabaseService {
   private async rerankDocuments(
     documents: VectorDocument[],
     query: string,
-    queryEmbedding: number[]
+    queryEmbedding: number[],
+    weights: RerankWeights = DEFAULT_RERANK_WEIGHTS
   ): Promise<VectorDocument[]> {
     // Enhanced ranking that considers medical context
     const rankedDocuments = documents.map(doc => {
-      const vectorSimilarity = doc.similarity || 0;
+      const vectorSimilarity = doc.hybridScore ?? doc.similarity ?? 0;
       const medicalRelevance = this.calculateMedicalRelevance(doc, query);
       const recencyScore = this.calculateRecencyScore(doc);
       const evidenceScore = this.calculateEvidenceScore(doc);
 
       // Weighted combination of different relevance factors
       const combinedScore = (
-        vectorSimilarity * 0.4 +
-        medicalRelevance * 0.3 +
-        recencyScore * 0.15 +
-        evidenceScore * 0.15
+        vectorSimilarity * weights.similarity +
+        medicalRelevance * weights.medicalRelevance +
+        recencyScore * weights.recency +
+        evidenceScore * weights.evidence
       );
 
       return {
@@ -313,30 +365,12 @@ export class VectorDatabaseService {
   }): Promise<{ success: boolean; embeddingId?: string; error?: string }> {
     try {
       // Generate embedding
-      const embeddingResult = await embeddingService.generateEmbedding(document.content);
+      const embeddingResult = await this.embeddings.generateEmbedding(document.content);
       
-      // Store in Supabase
-      const { data, error } = await supabaseService
-        .from('nelson_embeddings')
-        .insert([{
-          document_id: document.id,
-          embedding: embeddingResult.embedding,
-          content_hash: this.generateContentHash(document.content),
-          metadata: {
-            ...document.metadata,
-            token_count: embeddingResult.tokenCount,
-            processing_time: embeddingResult.processingTime,
-            created_at: new Date().toISOString(),
-          },
-        }])
-        .select('id')
-        .single();
-
-      if (error) {
-        throw error;
-      }
+      // Store in the configured backend
+      const embeddingId = await this.insertEmbedding(document, embeddingResult);
 
-      return { success: true, embeddingId: data.id };
+      return { success: true, embeddingId };
     } catch (error) {
       console.error('Failed to store document embedding:', error);
       return { 
@@ -347,54 +381,83 @@ export class VectorDatabaseService {
   }
 
   /**
-   * Batch process multiple documents for embedding storage
+   * Batch process multiple documents for embedding storage.
+   * Failed documents are reported by ID so a job can retry only those; an index built by
+   * another embedding model is refused before anything is embedded.
    */
-  async batchStoreEmbeddings(documents: Array<{
-    id: string;
-    content: string;
-    metadata: any;
-  }>): Promise<{ 
+  async batchStoreEmbeddings(
+    documents: Array<{
+      id: string;
+      content: string;
+      metadata: any;
+    }>,
+    options: EmbeddingBatchOptions = {}
+  ): Promise<{ 
     successful: number; 
     failed: number; 
+    failedIds: string[];
     errors: string[];
     processingTime: number;
   }> {
     const startTime = Date.now();
     let successful = 0;
-    let failed = 0;
+    const failedIds: string[] = [];
     const errors: string[] = [];
 
-    // Process in batches to avoid overwhelming the system
-    const batchSize = 10;
-    for (let i = 0; i < documents.length; i += batchSize) {
-      const batch = documents.slice(i, i + batchSize);
-      
-      const promises = batch.map(async (doc) => {
+    await this.assertEmbeddingModel();
+    const batch = await this.embeddings.generateEmbeddingsBatch(documents.map(doc => doc.content), options);
+    batch.failed.forEach(failure => {
+      failedIds.push(documents[failure.index].id);
+      errors.push(`Document ${documents[failure.index].id}: ${failure.error} (after ${failure.attempts} attempts)`);
+    });
+
+    // Write embeddings in small groups to avoid overwhelming the store
+    const writeSize = 10;
+    for (let i = 0; i < documents.length; i += writeSize) {
+      await Promise.all(documents.slice(i, i + writeSize).map(async (doc, offset) => {
+        const embeddingResult = batch.embeddings[i + offset];
+        if (!embeddingResult) return;
+
         try {
-          const result = await this.storeDocumentEmbedding(doc);
-          if (result.success) {
-            successful++;
-          } else {
-            failed++;
-            errors.push(`Document ${doc.id}: ${result.error}`);
-          }
+          await this.insertEmbedding(doc, embeddingResult);
+          successful++;
         } catch (error) {
-          failed++;
+          failedIds.push(doc.id);
           errors.push(`Document ${doc.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-      });
-
-      await Promise.all(promises);
+      }));
     }
 
     return {
       successful,
-      failed,
+      failed: failedIds.length,
+      failedIds,
       errors,
       processingTime: Date.now() - startTime,
     };
   }
 
+  private async insertEmbedding(
+    document: { id: string; content: string; metadata: any },
+    embeddingResult: EmbeddingResult
+  ): Promise<string> {
+    await this.assertEmbeddingModel();
+    const { id } = await this.store.insertEmbedding({
+      documentId: document.id,
+      chunkIndex: document.metadata?.chunk_index,
+      embedding: embeddingResult.embedding,
+      contentHash: this.generateContentHash(document.content),
+      metadata: {
+        ...document.metadata,
+        ...this.embeddingModelMetadata(),
+        token_count: embeddingResult.tokenCount,
+        processing_time: embeddingResult.processingTime,
+        created_at: new Date().toISOString(),
+      },
+    });
+    return id;
+  }
+
   /**
    * Update existing embeddings when documents change
    */
@@ -405,26 +468,21 @@ export class VectorDatabaseService {
   ): Promise<{ success: boolean; error?: string }> {
     try {
       // Generate new embedding
-      const embeddingResult = await embeddingService.generateEmbedding(newContent);
+      await this.assertEmbeddingModel();
+      const embeddingResult = await this.embeddings.generateEmbedding(newContent);
       
-      // Update in database
-      const { error } = await supabaseService
-        .from('nelson_embeddings')
-        .update({
-          embedding: embeddingResult.embedding,
-          content_hash: this.generateContentHash(newContent),
-          metadata: {
-            ...newMetadata,
-            token_count: embeddingResult.tokenCount,
-            processing_time: embeddingResult.processingTime,
-            updated_at: new Date().toISOString(),
-          },
-        })
-        .eq('document_id', documentId);
-
-      if (error) {
-        throw error;
-      }
+      // Update in the configured backend
+      await this.store.updateEmbedding(documentId, {
+        embedding: embeddingResult.embedding,
+        contentHash: this.generateContentHash(newContent),
+        metadata: {
+          ...newMetadata,
+          ...this.embeddingModelMetadata(),
+          token_count: embeddingResult.tokenCount,
+          processing_time: embeddingResult.processingTime,
+          updated_at: new Date().toISOString(),
+        },
+      });
 
       // Clear related cache entries
       this.clearCacheForDocument(documentId);
@@ -444,14 +502,7 @@ export class VectorDatabaseService {
    */
   async deleteDocumentEmbedding(documentId: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const { error } = await supabaseService
-        .from('nelson_embeddings')
-        .delete()
-        .eq('document_id', documentId);
-
-      if (error) {
-        throw error;
-      }
+      await this.store.deleteEmbeddings(documentId);
 
       // Clear related cache entries
       this.clearCacheForDocument(documentId);
@@ -466,6 +517,64 @@ export class VectorDatabaseService {
     }
   }
 
+  private embeddingModelMetadata(): { embedding_provider: string; embedding_model: string } {
+    const provider = this.embeddings.getProviderInfo();
+    return { embedding_provider: provider.name, embedding_model: provider.model };
+  }
+
+  /**
+   * Refuse to search or extend an index built by another provider or model: its vectors may share
+   * the dimension but not the embedding space, so similarities against them are meaningless
+   */
+  private async assertEmbeddingModel(): Promise<void> {
+    const { name, model } = this.embeddings.getProviderInfo();
+    const active = `${name}/${model}`;
+    if (this.verifiedEmbeddingModel === active) return;
+
+    const stored = await this.store.getEmbeddingModel();
+    if (!stored) return;
+    if (stored.provider !== name || stored.model !== model) {
+      throw new EmbeddingModelMismatchError(stored, { provider: name, model });
+    }
+    this.verifiedEmbeddingModel = active;
+  }
+
+  /**
+   * Insert or replace source document rows (chunk content and metadata)
+   */
+  async upsertDocuments(documents: StoredDocument[]): Promise<void> {
+    await this.store.upsertDocuments(documents);
+    this.cache.clear();
+  }
+
+  /**
+   * Map document IDs matching the given metadata to their stored content hash
+   * (undefined when the document has no embedding yet)
+   */
+  async getDocumentContentHashes(metadata: Record<string, any>): Promise<Map<string, string | undefined>> {
+    const ids = await this.store.findDocumentIds(metadata);
+    const hashes = await this.store.getContentHashes(ids);
+    return new Map(ids.map(id => [id, hashes.get(id)]));
+  }
+
+  /**
+   * Delete a document together with its embeddings
+   */
+  async deleteDocument(documentId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.store.deleteEmbeddings(documentId);
+      await this.store.deleteDocuments([documentId]);
+      this.clearCacheForDocument(documentId);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to delete document:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Get vector database statistics
    */
@@ -477,19 +586,12 @@ export class VectorDatabaseService {
     diskUsage?: string;
   }> {
     try {
-      const [documentsResult, embeddingsResult] = await Promise.all([
-        supabaseService.from('nelson_documents').select('count'),
-        supabaseService.from('nelson_embeddings').select('count, embedding'),
-      ]);
-
-      const totalDocuments = documentsResult.count || 0;
-      const totalEmbeddings = embeddingsResult.count || 0;
-      const averageEmbeddingDimension = embeddingsResult.data?.[0]?.embedding?.length || 0;
+      const stats = await this.store.getStats();
 
       return {
-        totalDocuments,
-        totalEmbeddings,
-        averageEmbeddingDimension,
+        totalDocuments: stats.totalDocuments,
+        totalEmbeddings: stats.totalEmbeddings,
+        averageEmbeddingDimension: stats.dimension,
         lastUpdated: new Date().toISOString(),
       };
     } catch (error) {
@@ -521,7 +623,11 @@ export class VectorDatabaseService {
     this.cache.clear();
   }
 
-  private determineSearchStrategy(query: string, options: VectorSearchOptions): string {
+  private determineSearchStrategy(query: string, options: VectorSearchOptions): SearchStrategy {
+    if (options.searchStrategy) {
+      return options.searchStrategy;
+    }
+
     const queryLower = query.toLowerCase();
     
     if (queryLower.includes('emergency') || queryLower.includes('urgent')) {
@@ -531,6 +637,12 @@ export class VectorDatabaseService {
     if (queryLower.includes('diagnosis') || queryLower.includes('differential')) {
       return 'diagnostic_focused';
     }
+
+    // Abbreviations, eponyms and drug names are where pure embeddings miss; emergency and
+    // diagnostic intent above still takes precedence
+    if (hasLexicalSignals(query)) {
+      return 'hybrid';
+    }
     
     if (queryLower.includes('treatment') || queryLower.includes('therapy')) {
       return 'treatment_focused';
@@ -654,7 +766,7 @@ export class VectorDatabaseService {
     return Math.max(...documents.map(doc => doc.similarity || 0));
   }
 
-  private generateContentHash(content: string): string {
+  generateContentHash(content: string): string {
     // Simple hash function - in production, use a proper crypto hash
     let hash = 0;
     for (let i = 0; i < content.length; i++) {
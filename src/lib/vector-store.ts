@@ -0,0 +1,577 @@
+// Pluggable Vector Store Backends for NelsonGPT
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { embeddingService, EmbeddingModelInfo } from './embeddings';
+import { buildFullTextQuery, scoreBM25 } from './lexical-search';
+import type { VectorDocument, VectorSearchOptions } from './vector-database';
+
+export type VectorStoreBackend = 'supabase' | 'memory';
+
+export interface StoredDocument {
+  id: string;
+  title: string;
+  chapter: string;
+  section?: string | null;
+  subsection?: string | null;
+  content: string;
+  medical_specialties?: string[];
+  age_groups?: string[];
+  urgency_level?: string;
+  evidence_level?: string;
+  last_reviewed?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface StoredEmbedding {
+  documentId: string;
+  chunkIndex?: number;
+  embedding: number[];
+  contentHash: string;
+  metadata?: Record<string, any>;
+}
+
+export interface VectorStoreQuery {
+  limit: number;
+  filters?: VectorSearchOptions['filters'];
+}
+
+export interface VectorStoreStats {
+  totalDocuments: number;
+  totalEmbeddings: number;
+  dimension: number;
+}
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+
+  /** Candidate chunks for a query embedding, with cosine similarity set, best first */
+  searchByVector(queryEmbedding: number[], query: VectorStoreQuery): Promise<VectorDocument[]>;
+
+  /** Full-text candidates for a query, with BM25 `lexicalScore` set, best first */
+  searchByText(queryText: string, queryEmbedding: number[], query: VectorStoreQuery): Promise<VectorDocument[]>;
+
+  upsertDocuments(documents: StoredDocument[]): Promise<void>;
+  deleteDocuments(documentIds: string[]): Promise<void>;
+  findDocumentIds(metadata: Record<string, any>): Promise<string[]>;
+
+  insertEmbedding(embedding: StoredEmbedding): Promise<{ id: string }>;
+  updateEmbedding(documentId: string, embedding: Omit<StoredEmbedding, 'documentId' | 'chunkIndex'>): Promise<void>;
+  deleteEmbeddings(documentId: string): Promise<void>;
+  getContentHashes(documentIds: string[]): Promise<Map<string, string>>;
+
+  /** Provider and model recorded on the stored embeddings; undefined when empty or written before they were recorded */
+  getEmbeddingModel(): Promise<EmbeddingModelInfo | undefined>;
+
+  getStats(): Promise<VectorStoreStats>;
+}
+
+export interface VectorStoreConfig {
+  backend: VectorStoreBackend;
+  filePath?: string;
+}
+
+const SOURCE_NAME = 'Nelson Textbook of Pediatrics';
+// Changes to a file-backed in-memory store are written at most once per window
+const PERSIST_DELAY_MS = 200;
+
+function embeddingModelOf(metadata?: Record<string, any>): EmbeddingModelInfo | undefined {
+  if (!metadata?.embedding_provider || !metadata?.embedding_model) return undefined;
+  return { provider: metadata.embedding_provider, model: metadata.embedding_model };
+}
+
+function toVectorDocument(
+  doc: StoredDocument,
+  embedding: { embedding: number[]; chunk_index?: number; metadata?: Record<string, any> },
+  queryEmbedding: number[]
+): VectorDocument {
+  return {
+    id: doc.id,
+    content: doc.content,
+    embedding: embedding.embedding,
+    similarity: embeddingService.calculateCosineSimilarity(queryEmbedding, embedding.embedding),
+    metadata: {
+      chapter: doc.chapter,
+      section: doc.section ?? undefined,
+      title: doc.title,
+      medical_specialties: doc.medical_specialties || [],
+      age_groups: doc.age_groups || [],
+      urgency_level: doc.urgency_level,
+      evidence_level: doc.evidence_level,
+      source: SOURCE_NAME,
+      last_reviewed: doc.last_reviewed,
+      chunk_index: embedding.chunk_index,
+      ...doc.metadata,
+      ...embedding.metadata,
+    },
+  };
+}
+
+/**
+ * Supabase/pgvector backed store (the production default)
+ */
+export class SupabaseVectorStore implements VectorStore {
+  readonly backend = 'supabase' as const;
+
+  async searchByVector(queryEmbedding: number[], query: VectorStoreQuery): Promise<VectorDocument[]> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { data, error } = await this.applyFilters(
+      this.buildEmbeddingQuery(supabaseService, TABLES.NELSON_EMBEDDINGS).limit(query.limit),
+      query.filters
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || [])
+      .map((row: any) => toVectorDocument(row.nelson_documents, row, queryEmbedding))
+      .sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
+  }
+
+  async searchByText(queryText: string, queryEmbedding: number[], query: VectorStoreQuery): Promise<VectorDocument[]> {
+    const fullTextQuery = buildFullTextQuery(queryText);
+    if (!fullTextQuery) {
+      return [];
+    }
+
+    const { supabaseService, TABLES } = await this.supabase();
+    const { data, error } = await this.applyFilters(
+      this.buildEmbeddingQuery(supabaseService, TABLES.NELSON_EMBEDDINGS)
+        .textSearch('nelson_documents.content', fullTextQuery, {
+          type: 'websearch',
+          config: 'english',
+        })
+        .limit(query.limit),
+      query.filters
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    // PostgREST does not expose ts_rank, so rank the matched rows with BM25
+    const candidates = (data || []).map((row: any) => toVectorDocument(row.nelson_documents, row, queryEmbedding));
+    const byId = new Map(candidates.map(doc => [doc.id, doc]));
+    return scoreBM25(queryText, candidates).map(({ id, score }) => ({ ...byId.get(id)!, lexicalScore: score }));
+  }
+
+  async upsertDocuments(documents: StoredDocument[]): Promise<void> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { error } = await supabaseService.from(TABLES.NELSON_DOCUMENTS).upsert(documents);
+    if (error) throw error;
+  }
+
+  async deleteDocuments(documentIds: string[]): Promise<void> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { error } = await supabaseService.from(TABLES.NELSON_DOCUMENTS).delete().in('id', documentIds);
+    if (error) throw error;
+  }
+
+  async findDocumentIds(metadata: Record<string, any>): Promise<string[]> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { data, error } = await supabaseService
+      .from(TABLES.NELSON_DOCUMENTS)
+      .select('id')
+      .contains('metadata', metadata);
+
+    if (error) throw error;
+    return (data || []).map((row: any) => row.id as string);
+  }
+
+  async insertEmbedding(embedding: StoredEmbedding): Promise<{ id: string }> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { data, error } = await supabaseService
+      .from(TABLES.NELSON_EMBEDDINGS)
+      .insert([{
+        document_id: embedding.documentId,
+        chunk_index: embedding.chunkIndex,
+        embedding: embedding.embedding,
+        content_hash: embedding.contentHash,
+        metadata: embedding.metadata,
+      }])
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return { id: data.id };
+  }
+
+  async updateEmbedding(
+    documentId: string,
+    embedding: Omit<StoredEmbedding, 'documentId' | 'chunkIndex'>
+  ): Promise<void> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { error } = await supabaseService
+      .from(TABLES.NELSON_EMBEDDINGS)
+      .update({
+        embedding: embedding.embedding,
+        content_hash: embedding.contentHash,
+        metadata: embedding.metadata,
+      })
+      .eq('document_id', documentId);
+
+    if (error) throw error;
+  }
+
+  async deleteEmbeddings(documentId: string): Promise<void> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { error } = await supabaseService
+      .from(TABLES.NELSON_EMBEDDINGS)
+      .delete()
+      .eq('document_id', documentId);
+
+    if (error) throw error;
+  }
+
+  async getContentHashes(documentIds: string[]): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    if (documentIds.length === 0) return hashes;
+
+    const { supabaseService, TABLES } = await this.supabase();
+    const { data, error } = await supabaseService
+      .from(TABLES.NELSON_EMBEDDINGS)
+      .select('document_id, content_hash')
+      .in('document_id', documentIds);
+
+    if (error) throw error;
+    (data || []).forEach((row: any) => hashes.set(row.document_id, row.content_hash));
+    return hashes;
+  }
+
+  async getEmbeddingModel(): Promise<EmbeddingModelInfo | undefined> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const { data, error } = await supabaseService
+      .from(TABLES.NELSON_EMBEDDINGS)
+      .select('metadata')
+      .limit(1);
+
+    if (error) throw error;
+    return embeddingModelOf(data?.[0]?.metadata);
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    const { supabaseService, TABLES } = await this.supabase();
+    const [documentsResult, embeddingsResult] = await Promise.all([
+      supabaseService.from(TABLES.NELSON_DOCUMENTS).select('count'),
+      supabaseService.from(TABLES.NELSON_EMBEDDINGS).select('count, embedding'),
+    ]);
+
+    return {
+      totalDocuments: documentsResult.count || 0,
+      totalEmbeddings: embeddingsResult.count || 0,
+      dimension: (embeddingsResult.data?.[0] as { embedding?: number[] } | undefined)?.embedding?.length || 0,
+    };
+  }
+
+  /**
+   * Load the client on first use so other backends never need Supabase credentials
+   */
+  private supabase() {
+    return import('./supabase');
+  }
+
+  private buildEmbeddingQuery(supabaseService: SupabaseClient, table: string) {
+    return supabaseService
+      .from(table)
+      .select(`
+        id,
+        document_id,
+        chunk_index,
+        embedding,
+        metadata,
+        nelson_documents!inner (
+          id,
+          title,
+          chapter,
+          section,
+          content,
+          medical_specialties,
+          age_groups,
+          urgency_level,
+          evidence_level,
+          last_reviewed,
+          metadata
+        )
+      `);
+  }
+
+  private applyFilters<T extends ReturnType<SupabaseVectorStore['buildEmbeddingQuery']>>(
+    query: T,
+    filters?: VectorStoreQuery['filters']
+  ): T {
+    let filtered: any = query;
+
+    if (filters?.chapter) {
+      filtered = filtered.eq('nelson_documents.chapter', filters.chapter);
+    }
+
+    if (filters?.medical_specialties && filters.medical_specialties.length > 0) {
+      filtered = filtered.overlaps('nelson_documents.medical_specialties', filters.medical_specialties);
+    }
+
+    if (filters?.age_groups && filters.age_groups.length > 0) {
+      filtered = filtered.overlaps('nelson_documents.age_groups', filters.age_groups);
+    }
+
+    if (filters?.urgency_level) {
+      filtered = filtered.eq('nelson_documents.urgency_level', filters.urgency_level);
+    }
+
+    return filtered;
+  }
+}
+
+export interface InMemoryVectorStoreSnapshot {
+  documents: StoredDocument[];
+  embeddings: Array<StoredEmbedding & { id: string }>;
+}
+
+/**
+ * In-process store with brute-force cosine search, optionally persisted to a JSON file.
+ * Used for local development, tests and offline evaluation. Writes to the file are batched:
+ * call flush() when the file must be up to date.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly backend = 'memory' as const;
+  private documents = new Map<string, StoredDocument>();
+  private embeddings = new Map<string, StoredEmbedding & { id: string }>();
+  private filePath?: string;
+  private loaded: Promise<void> | null = null;
+  private persistDelayMs: number;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: { filePath?: string; snapshot?: InMemoryVectorStoreSnapshot; persistDelayMs?: number } = {}) {
+    this.filePath = options.filePath;
+    this.persistDelayMs = options.persistDelayMs ?? PERSIST_DELAY_MS;
+    if (options.snapshot) {
+      this.restore(options.snapshot);
+      this.loaded = Promise.resolve();
+    }
+  }
+
+  async searchByVector(queryEmbedding: number[], query: VectorStoreQuery): Promise<VectorDocument[]> {
+    await this.ensureLoaded();
+
+    return this.candidates(query.filters)
+      .map(({ document, embedding }) => toVectorDocument(document, this.toRow(embedding), queryEmbedding))
+      .sort((a, b) => (b.similarity || 0) - (a.similarity || 0))
+      .slice(0, query.limit);
+  }
+
+  async searchByText(queryText: string, queryEmbedding: number[], query: VectorStoreQuery): Promise<VectorDocument[]> {
+    await this.ensureLoaded();
+
+    const candidates = this.candidates(query.filters);
+    const byId = new Map(candidates.map(candidate => [candidate.document.id, candidate]));
+    return scoreBM25(queryText, candidates.map(({ document }) => ({ id: document.id, content: document.content })))
+      .slice(0, query.limit)
+      .map(({ id, score }) => {
+        const { document, embedding } = byId.get(id)!;
+        return { ...toVectorDocument(document, this.toRow(embedding), queryEmbedding), lexicalScore: score };
+      });
+  }
+
+  async upsertDocuments(documents: StoredDocument[]): Promise<void> {
+    await this.ensureLoaded();
+    documents.forEach(doc => this.documents.set(doc.id, { ...doc }));
+    this.persist();
+  }
+
+  async deleteDocuments(documentIds: string[]): Promise<void> {
+    await this.ensureLoaded();
+    documentIds.forEach(id => this.documents.delete(id));
+    this.persist();
+  }
+
+  async findDocumentIds(metadata: Record<string, any>): Promise<string[]> {
+    await this.ensureLoaded();
+    return Array.from(this.documents.values())
+      .filter(doc => Object.entries(metadata).every(([key, value]) => doc.metadata?.[key] === value))
+      .map(doc => doc.id);
+  }
+
+  async insertEmbedding(embedding: StoredEmbedding): Promise<{ id: string }> {
+    await this.ensureLoaded();
+    this.assertDimension(embedding.embedding);
+    const id = randomUUID();
+    this.embeddings.set(id, { ...embedding, id });
+    this.persist();
+    return { id };
+  }
+
+  async updateEmbedding(
+    documentId: string,
+    embedding: Omit<StoredEmbedding, 'documentId' | 'chunkIndex'>
+  ): Promise<void> {
+    await this.ensureLoaded();
+    this.assertDimension(embedding.embedding);
+    for (const [id, existing] of this.embeddings) {
+      if (existing.documentId === documentId) {
+        this.embeddings.set(id, { ...existing, ...embedding });
+      }
+    }
+    this.persist();
+  }
+
+  async deleteEmbeddings(documentId: string): Promise<void> {
+    await this.ensureLoaded();
+    for (const [id, existing] of this.embeddings) {
+      if (existing.documentId === documentId) {
+        this.embeddings.delete(id);
+      }
+    }
+    this.persist();
+  }
+
+  async getContentHashes(documentIds: string[]): Promise<Map<string, string>> {
+    await this.ensureLoaded();
+    const wanted = new Set(documentIds);
+    const hashes = new Map<string, string>();
+    for (const embedding of this.embeddings.values()) {
+      if (wanted.has(embedding.documentId)) {
+        hashes.set(embedding.documentId, embedding.contentHash);
+      }
+    }
+    return hashes;
+  }
+
+  async getEmbeddingModel(): Promise<EmbeddingModelInfo | undefined> {
+    await this.ensureLoaded();
+    return embeddingModelOf(this.embeddings.values().next().value?.metadata);
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    await this.ensureLoaded();
+    const first = this.embeddings.values().next().value;
+    return {
+      totalDocuments: this.documents.size,
+      totalEmbeddings: this.embeddings.size,
+      dimension: first?.embedding.length || 0,
+    };
+  }
+
+  /**
+   * Export the store contents, e.g. to save a retrieval fixture
+   */
+  async toSnapshot(): Promise<InMemoryVectorStoreSnapshot> {
+    await this.ensureLoaded();
+    return {
+      documents: Array.from(this.documents.values()),
+      embeddings: Array.from(this.embeddings.values()),
+    };
+  }
+
+  /**
+   * Write scheduled changes to the file now and wait until every write has finished
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.startWrite();
+    }
+    await this.pendingWrite;
+  }
+
+  private candidates(filters?: VectorStoreQuery['filters']) {
+    const results: Array<{ document: StoredDocument; embedding: StoredEmbedding }> = [];
+    for (const embedding of this.embeddings.values()) {
+      const document = this.documents.get(embedding.documentId);
+      if (document && this.matchesFilters(document, filters)) {
+        results.push({ document, embedding });
+      }
+    }
+    return results;
+  }
+
+  private matchesFilters(document: StoredDocument, filters?: VectorStoreQuery['filters']): boolean {
+    if (!filters) return true;
+
+    const overlaps = (values: string[] | undefined, wanted: string[]) =>
+      (values || []).some(value => wanted.includes(value));
+
+    if (filters.chapter && document.chapter !== filters.chapter) return false;
+    if (filters.medical_specialties?.length && !overlaps(document.medical_specialties, filters.medical_specialties)) return false;
+    if (filters.age_groups?.length && !overlaps(document.age_groups, filters.age_groups)) return false;
+    if (filters.urgency_level && document.urgency_level !== filters.urgency_level) return false;
+    if (filters.evidence_level && document.evidence_level !== filters.evidence_level) return false;
+
+    return true;
+  }
+
+  /**
+   * Mirror the fixed-width pgvector column: never mix vectors of different dimensions
+   */
+  private assertDimension(embedding: number[]): void {
+    const existing = this.embeddings.values().next().value;
+    if (existing && existing.embedding.length !== embedding.length) {
+      throw new Error(`Embedding dimension ${embedding.length} does not match stored dimension ${existing.embedding.length}`);
+    }
+  }
+
+  private toRow(embedding: StoredEmbedding) {
+    return { embedding: embedding.embedding, chunk_index: embedding.chunkIndex, metadata: embedding.metadata };
+  }
+
+  private restore(snapshot: InMemoryVectorStoreSnapshot): void {
+    this.documents = new Map(snapshot.documents.map(doc => [doc.id, doc]));
+    this.embeddings = new Map(snapshot.embeddings.map(embedding => [embedding.id, embedding]));
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.filePath) return;
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      this.restore(JSON.parse(raw));
+    } catch (error: any) {
+      // A missing file simply means an empty store
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Failed to load vector store from ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  /**
+   * Schedule a write of the whole store; changes made before it runs, such as the rest of a batch, share it
+   */
+  private persist(): void {
+    if (!this.filePath || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.startWrite().catch(error => console.error('Failed to persist vector store:', error));
+    }, this.persistDelayMs);
+  }
+
+  private startWrite(): Promise<void> {
+    this.persistTimer = null;
+    // Writes run one at a time so an older snapshot never overwrites a newer one
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => fs.writeFile(this.filePath!, JSON.stringify(await this.toSnapshot())));
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * Create the configured vector store (VECTOR_STORE_BACKEND=supabase|memory, VECTOR_STORE_PATH=file.json)
+ */
+export function createVectorStore(config?: Partial<VectorStoreConfig>): VectorStore {
+  const backend = (config?.backend || process.env.VECTOR_STORE_BACKEND || 'supabase') as VectorStoreBackend;
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryVectorStore({ filePath: config?.filePath || process.env.VECTOR_STORE_PATH });
+    case 'supabase':
+      return new SupabaseVectorStore();
+    default:
+      throw new Error(`Unknown vector store backend: ${backend}`);
+  }
+}